@@ -33,6 +33,10 @@ export default [
         confirm: 'readonly',
         crypto: 'readonly',
         btoa: 'readonly',
+        URL: 'readonly',
+        URLSearchParams: 'readonly',
+        TextEncoder: 'readonly',
+        TextDecoder: 'readonly',
         setTimeout: 'readonly',
         clearTimeout: 'readonly',
         setInterval: 'readonly',
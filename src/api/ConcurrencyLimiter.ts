@@ -0,0 +1,57 @@
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private limit: number) {}
+
+  get pending(): number {
+    return this.waiting.length;
+  }
+
+  get running(): number {
+    return this.active;
+  }
+
+  setLimit(limit: number): void {
+    this.limit = limit;
+    this.drain();
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.hasCapacity()) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      this.waiting.push(() => {
+        this.active++;
+        resolve();
+      });
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.waiting.length > 0 && this.hasCapacity()) {
+      this.waiting.shift()?.();
+    }
+  }
+
+  private hasCapacity(): boolean {
+    return this.limit <= 0 || this.active < this.limit;
+  }
+}
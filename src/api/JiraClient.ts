@@ -1,4 +1,4 @@
-import { requestUrl, RequestUrlResponse } from 'obsidian';
+import type { RequestUrlParam, RequestUrlResponse } from 'obsidian';
 import { z } from 'zod';
 import type {
   JiraInstance,
@@ -12,27 +12,46 @@ import type {
   JiraSprint,
   JiraSprintInfo,
   JiraIssueData,
+  JiraComment,
+  JiraAttachment,
   BoardType,
+  JiraDeploymentType,
 } from '../types';
-import type { TestConnectionResult, JiraUser } from './types';
+import type { TestConnectionResult, JiraUser, JiraClientOptions, JiraRequest } from './types';
+import { RequestExecutor } from './RequestExecutor';
+import { resolveTransport } from './transport';
+import { createMultipartBody } from './multipart';
+import { collectPages, paginate, toOffsetPage, toTokenPage, type PageFetcher, type PaginateOptions } from './Paginator';
+import { createJiraApiError, parseJiraErrorPayload } from './errors';
 import { markdownToAdf } from '../utils/markdownToAdf';
+import { markdownToWiki } from '../utils/markdownToWiki';
+import type { AttachmentReference, MarkdownToAdfOptions } from '../utils/types';
 import { mapJiraError } from '../utils/errorMessages';
+import { DEFAULT_SETTINGS } from '../constants/defaults';
 import {
   jiraProjectSchema,
   jiraIssueTypeResponseSchema,
   jiraPrioritySchema,
   jiraUserSchema,
+  jiraServerUserSchema,
+  jiraServerInfoSchema,
   jiraTransitionsResponseSchema,
   jiraBoardSchema,
   jiraSprintSchema,
   jiraPaginatedResponseSchema,
   jiraFieldMetaSchema,
+  jiraSearchIssueSchema,
+  jiraSearchPageSchema,
   jiraSearchResponseSchema,
+  jiraIssueDataSchema,
   jiraProjectStatusItemSchema,
+  type JiraSearchIssueResponse,
   jiraIssueTypeDetailedSchema,
   jiraBoardConfigSchema,
   jiraQuickFilterSchema,
   jiraCreatedStatusSchema,
+  jiraCommentPageSchema,
+  jiraAttachmentSchema,
 } from './schemas';
 
 function isBoardType(value: string | undefined): value is BoardType {
@@ -40,9 +59,34 @@ function isBoardType(value: string | undefined): value is BoardType {
 }
 
 export class JiraClient {
-  constructor(private instance: JiraInstance) {}
+  private executor: RequestExecutor;
+  private deploymentType: JiraDeploymentType;
+  private markdownOptions: MarkdownToAdfOptions;
+
+  constructor(
+    private instance: JiraInstance,
+    options: JiraClientOptions = {},
+  ) {
+    this.deploymentType = instance.deploymentType ?? 'cloud';
+    this.markdownOptions = options.markdown ?? {};
+    this.executor = new RequestExecutor(
+      {
+        timeoutMs: options.requestTimeout ?? DEFAULT_SETTINGS.advanced.requestTimeout,
+        maxRetries: options.maxRetries ?? DEFAULT_SETTINGS.advanced.maxRetries,
+      },
+      options.transport ?? resolveTransport(instance),
+      options.limiter,
+    );
+  }
+
+  private get isServer(): boolean {
+    return this.deploymentType === 'server';
+  }
 
   private getAuthHeader(): string {
+    if (this.instance.authMode === 'bearer') {
+      return `Bearer ${this.instance.apiToken}`;
+    }
     const credentials = `${this.instance.email}:${this.instance.apiToken}`;
     return `Basic ${btoa(credentials)}`;
   }
@@ -56,32 +100,113 @@ export class JiraClient {
     };
   }
 
+  private api(path: string): string {
+    return `/rest/api/${this.isServer ? 2 : 3}${path}`;
+  }
+
+  private searchPath(jql: string, maxResults: number, fields: string): string {
+    const endpoint = this.isServer ? '/rest/api/2/search' : '/rest/api/3/search/jql';
+    return `${endpoint}?jql=${encodeURIComponent(jql)}&maxResults=${maxResults}&fields=${fields}`;
+  }
+
+  private offsetPages<T extends z.ZodTypeAny>(path: string, itemSchema: T, failureMessage?: string): PageFetcher<z.infer<T>> {
+    return async request => {
+      const separator = path.includes('?') ? '&' : '?';
+      const response = await this.request(`${path}${separator}startAt=${request.startAt}&maxResults=${request.maxResults}`, {
+        failureMessage,
+      });
+
+      const body = Array.isArray(response.json) ? { values: response.json } : response.json;
+      const data = jiraPaginatedResponseSchema(itemSchema).parse(body);
+      return toOffsetPage<z.infer<T>>(data.values ?? [], data, request);
+    };
+  }
+
+  private searchPages<T extends z.ZodTypeAny>(jql: string, fields: string, issueSchema: T): PageFetcher<z.infer<T>> {
+    return async request => {
+      let path = this.searchPath(jql, request.maxResults, fields);
+      if (this.isServer) {
+        path += `&startAt=${request.startAt}`;
+      } else if (request.nextPageToken) {
+        path += `&nextPageToken=${encodeURIComponent(request.nextPageToken)}`;
+      }
+
+      const response = await this.request(path, { failureMessage: 'Failed to search issues' });
+
+      const data = jiraSearchPageSchema(issueSchema).parse(response.json);
+      const issues: z.infer<T>[] = data.issues;
+      return this.isServer ? toOffsetPage(issues, data, request) : toTokenPage(issues, data);
+    };
+  }
+
+  formatDescription(markdown: string, attachments: AttachmentReference[] = [], sourcePath?: string): unknown {
+    return this.isServer
+      ? markdownToWiki(markdown, attachments)
+      : markdownToAdf(markdown, { ...this.markdownOptions, attachments, sourcePath });
+  }
+
+  private toServerFieldValue(value: unknown): unknown {
+    if (typeof value === 'object' && value !== null && 'accountId' in value && typeof value.accountId === 'string') {
+      return { name: value.accountId };
+    }
+    return value;
+  }
+
   private buildUrl(path: string): string {
     const baseUrl = this.instance.baseUrl.replace(/\/+$/, '');
     return `${baseUrl}${path}`;
   }
 
+  private async request(path: string, options: Omit<JiraRequest, 'path'> = {}): Promise<RequestUrlResponse> {
+    const params: RequestUrlParam = {
+      url: this.buildUrl(path),
+      method: options.method ?? 'GET',
+      headers: this.getHeaders(),
+    };
+
+    if (options.multipart) {
+      params.body = options.multipart.body;
+      params.headers = { ...params.headers, 'Content-Type': options.multipart.contentType, 'X-Atlassian-Token': 'no-check' };
+    } else if (options.body !== undefined) {
+      params.body = JSON.stringify(options.body);
+    }
+
+    const response = await this.executor.execute(params, { path, retry: options.retry });
+
+    if (response.status >= 400) {
+      throw createJiraApiError(response.status, { path, payload: parseJiraErrorPayload(response.text) }, options.failureMessage);
+    }
+
+    return response;
+  }
+
+  getDeploymentType(): JiraDeploymentType {
+    return this.deploymentType;
+  }
+
+  async detectDeploymentType(): Promise<JiraDeploymentType> {
+    if (this.deploymentType === 'sandbox') return this.deploymentType;
+
+    const response = await this.request('/rest/api/2/serverInfo', { failureMessage: 'Failed to fetch server info' });
+
+    const info = jiraServerInfoSchema.safeParse(response.json);
+    if (info.success && info.data.deploymentType) {
+      this.deploymentType = info.data.deploymentType.toLowerCase() === 'cloud' ? 'cloud' : 'server';
+    }
+    return this.deploymentType;
+  }
+
   async testConnection(): Promise<TestConnectionResult> {
     try {
-      const response: RequestUrlResponse = await requestUrl({
-        url: this.buildUrl('/rest/api/3/myself'),
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
+      const deploymentType = await this.detectDeploymentType();
+      const response = await this.request(this.api('/myself'));
 
-      if (response.status === 200) {
-        const user: JiraUser = {
-          displayName: response.json.displayName,
-          emailAddress: response.json.emailAddress,
-          accountId: response.json.accountId,
-        };
-        return { success: true, user };
-      }
-
-      return {
-        success: false,
-        error: `Unexpected response: ${response.status}`,
+      const user: JiraUser = {
+        displayName: response.json.displayName,
+        emailAddress: response.json.emailAddress,
+        accountId: response.json.accountId ?? response.json.name,
       };
+      return { success: true, user, deploymentType };
     } catch (error) {
       return {
         success: false,
@@ -90,18 +215,19 @@ export class JiraClient {
     }
   }
 
-  async getProjects(): Promise<JiraProject[]> {
-    const response: RequestUrlResponse = await requestUrl({
-      url: this.buildUrl('/rest/api/3/project'),
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
+  searchJql(jql: string, fields: string[], options: PaginateOptions = {}): AsyncGenerator<JiraSearchIssueResponse> {
+    return paginate(this.searchPages(jql, fields.join(','), jiraSearchIssueSchema), options);
+  }
 
-    if (response.status !== 200) {
-      throw new Error(`Failed to fetch projects: ${response.status}`);
+  async getProjects(): Promise<JiraProject[]> {
+    let projects: z.infer<typeof jiraProjectSchema>[];
+    if (this.isServer) {
+      const response = await this.request(this.api('/project'), { failureMessage: 'Failed to fetch projects' });
+      projects = z.array(jiraProjectSchema).parse(response.json);
+    } else {
+      projects = await collectPages(this.offsetPages(this.api('/project/search'), jiraProjectSchema, 'Failed to fetch projects'));
     }
 
-    const projects = z.array(jiraProjectSchema).parse(response.json);
     return projects.map(project => ({
       id: project.id,
       key: project.key,
@@ -112,17 +238,11 @@ export class JiraClient {
   }
 
   async getIssueTypes(projectKey: string): Promise<JiraIssueType[]> {
-    const response: RequestUrlResponse = await requestUrl({
-      url: this.buildUrl(`/rest/api/3/issue/createmeta/${projectKey}/issuetypes`),
-      method: 'GET',
-      headers: this.getHeaders(),
+    const response = await this.request(this.api(`/issue/createmeta/${projectKey}/issuetypes`), {
+      failureMessage: 'Failed to fetch issue types',
     });
 
-    if (response.status !== 200) {
-      throw new Error(`Failed to fetch issue types: ${response.status}`);
-    }
-
-    const data = jiraIssueTypeResponseSchema.parse(response.json);
+    const data = jiraIssueTypeResponseSchema.parse(this.isServer ? { issueTypes: response.json.values } : response.json);
     return data.issueTypes.map(type => ({
       id: type.id,
       name: type.name,
@@ -132,15 +252,7 @@ export class JiraClient {
   }
 
   async getPriorities(): Promise<JiraPriority[]> {
-    const response: RequestUrlResponse = await requestUrl({
-      url: this.buildUrl('/rest/api/3/priority'),
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
-
-    if (response.status !== 200) {
-      throw new Error(`Failed to fetch priorities: ${response.status}`);
-    }
+    const response = await this.request(this.api('/priority'), { failureMessage: 'Failed to fetch priorities' });
 
     const priorities = z.array(jiraPrioritySchema).parse(response.json);
     return priorities.map(priority => ({
@@ -151,16 +263,10 @@ export class JiraClient {
   }
 
   async getFieldsForIssueType(projectKey: string, issueTypeId: string): Promise<JiraFieldMeta[]> {
-    const response: RequestUrlResponse = await requestUrl({
-      url: this.buildUrl(`/rest/api/3/issue/createmeta/${projectKey}/issuetypes/${issueTypeId}`),
-      method: 'GET',
-      headers: this.getHeaders(),
+    const response = await this.request(this.api(`/issue/createmeta/${projectKey}/issuetypes/${issueTypeId}`), {
+      failureMessage: 'Failed to fetch fields',
     });
 
-    if (response.status !== 200) {
-      throw new Error(`Failed to fetch fields: ${response.status}`);
-    }
-
     const rawFields = response.json.fields || response.json.values || [];
     const fields = z.array(jiraFieldMetaSchema).parse(rawFields);
     const systemFields = ['summary', 'description', 'issuetype', 'project', 'priority', 'reporter', 'attachment', 'issuerestriction'];
@@ -171,6 +277,7 @@ export class JiraClient {
         fieldId: field.fieldId,
         name: field.name,
         required: field.required,
+        hasDefaultValue: field.hasDefaultValue,
         schema: field.schema,
         allowedValues: field.allowedValues,
         autoCompleteUrl: field.autoCompleteUrl,
@@ -178,17 +285,17 @@ export class JiraClient {
   }
 
   async getAssignableUsers(projectKey: string): Promise<{ accountId: string; displayName: string }[]> {
-    const response: RequestUrlResponse = await requestUrl({
-      url: this.buildUrl(`/rest/api/3/user/assignable/search?project=${projectKey}`),
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
+    const path = this.api(`/user/assignable/search?project=${projectKey}`);
 
-    if (response.status !== 200) {
-      throw new Error(`Failed to fetch assignable users: ${response.status}`);
+    if (this.isServer) {
+      const serverUsers = await collectPages(this.offsetPages(path, jiraServerUserSchema, 'Failed to fetch assignable users'));
+      return serverUsers.map(user => ({
+        accountId: user.name,
+        displayName: user.displayName,
+      }));
     }
 
-    const users = z.array(jiraUserSchema).parse(response.json);
+    const users = await collectPages(this.offsetPages(path, jiraUserSchema, 'Failed to fetch assignable users'));
     return users.map(user => ({
       accountId: user.accountId,
       displayName: user.displayName,
@@ -196,32 +303,14 @@ export class JiraClient {
   }
 
   async getLabels(): Promise<string[]> {
-    const response: RequestUrlResponse = await requestUrl({
-      url: this.buildUrl('/rest/api/3/label'),
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
-
-    if (response.status !== 200) {
-      throw new Error(`Failed to fetch labels: ${response.status}`);
-    }
-
-    return response.json.values || [];
+    return collectPages(this.offsetPages(this.api('/label'), z.string(), 'Failed to fetch labels'), { pageSize: 1000 });
   }
 
   async getParentableIssues(projectKey: string): Promise<{ key: string; summary: string; issueType: string }[]> {
     const jql = `project=${projectKey} AND statusCategory != Done ORDER BY created DESC`;
-    const url = this.buildUrl('/rest/api/3/search/jql') + `?jql=${encodeURIComponent(jql)}&maxResults=50&fields=summary,issuetype`;
+    const path = this.searchPath(jql, 50, 'summary,issuetype');
 
-    const response: RequestUrlResponse = await requestUrl({
-      url,
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
-
-    if (response.status !== 200) {
-      throw new Error(`Failed to search issues: ${response.status}`);
-    }
+    const response = await this.request(path, { failureMessage: 'Failed to search issues' });
 
     const data = jiraSearchResponseSchema.parse(response.json);
     return data.issues.map(issue => ({
@@ -238,18 +327,9 @@ export class JiraClient {
   ): Promise<{ key: string; summary: string; issueType: string }[]> {
     const escapedSummary = summaryText.replace(/"/g, '\\"');
     const jql = `project=${projectKey} AND summary ~ "${escapedSummary}" AND statusCategory != Done ORDER BY created DESC`;
-    const url =
-      this.buildUrl('/rest/api/3/search/jql') + `?jql=${encodeURIComponent(jql)}&maxResults=${maxResults}&fields=summary,issuetype`;
+    const path = this.searchPath(jql, maxResults, 'summary,issuetype');
 
-    const response: RequestUrlResponse = await requestUrl({
-      url,
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
-
-    if (response.status !== 200) {
-      throw new Error(`Failed to search issues: ${response.status}`);
-    }
+    const response = await this.request(path, { failureMessage: 'Failed to search issues' });
 
     const data = jiraSearchResponseSchema.parse(response.json);
     return data.issues.map(issue => ({
@@ -262,17 +342,9 @@ export class JiraClient {
   async findDuplicateBySummary(projectKey: string, summary: string): Promise<{ key: string; summary: string } | null> {
     const escapedSummary = summary.replace(/"/g, '\\"');
     const jql = `project=${projectKey} AND summary ~ "${escapedSummary}"`;
-    const url = this.buildUrl('/rest/api/3/search/jql') + `?jql=${encodeURIComponent(jql)}&maxResults=50&fields=summary`;
+    const path = this.searchPath(jql, 50, 'summary');
 
-    const response: RequestUrlResponse = await requestUrl({
-      url,
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
-
-    if (response.status !== 200) {
-      return null;
-    }
+    const response = await this.request(path);
 
     const data = jiraSearchResponseSchema.parse(response.json);
     const normalizedSearch = summary.toLowerCase().trim();
@@ -292,18 +364,10 @@ export class JiraClient {
 
     const summaryConditions = summaries.map(s => `summary ~ "${s.replace(/"/g, '\\"')}"`).join(' OR ');
     const jql = `project=${projectKey} AND (${summaryConditions})`;
-    const url = this.buildUrl('/rest/api/3/search/jql') + `?jql=${encodeURIComponent(jql)}&maxResults=100&fields=summary`;
+    const path = this.searchPath(jql, 100, 'summary');
 
     try {
-      const response: RequestUrlResponse = await requestUrl({
-        url,
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
-
-      if (response.status !== 200) {
-        return result;
-      }
+      const response = await this.request(path);
 
       const data = jiraSearchResponseSchema.parse(response.json);
       const normalizedSummaries = new Map(summaries.map(s => [s.toLowerCase().trim(), s]));
@@ -329,6 +393,7 @@ export class JiraClient {
     description?: string,
     priorityId?: string,
     customFields?: Record<string, unknown>,
+    sourcePath?: string,
   ): Promise<CreateIssueResponse> {
     const fields: Record<string, unknown> = {
       project: { key: projectKey },
@@ -337,7 +402,7 @@ export class JiraClient {
     };
 
     if (description) {
-      fields.description = markdownToAdf(description);
+      fields.description = this.formatDescription(description, [], sourcePath);
     }
 
     if (priorityId) {
@@ -346,45 +411,15 @@ export class JiraClient {
 
     if (customFields) {
       for (const [fieldId, value] of Object.entries(customFields)) {
-        fields[fieldId] = value;
-      }
-    }
-
-    const url = this.buildUrl('/rest/api/3/issue');
-    const body = JSON.stringify({ fields });
-
-    let response: RequestUrlResponse;
-    try {
-      response = await requestUrl({
-        url,
-        method: 'POST',
-        headers: this.getHeaders(),
-        body,
-      });
-    } catch (error: unknown) {
-      const err = this.parseRequestError(error);
-      let errorMessage = `Request failed: status ${err.status}`;
-      if (err.text) {
-        try {
-          const parsed = JSON.parse(err.text);
-          if (parsed.errorMessages) {
-            errorMessage = parsed.errorMessages.join(', ');
-          } else if (parsed.errors) {
-            errorMessage = Object.values(parsed.errors).join(', ');
-          }
-        } catch {
-          errorMessage = err.text;
-        }
+        fields[fieldId] = this.isServer ? this.toServerFieldValue(value) : value;
       }
-      throw new Error(errorMessage);
     }
 
-    if (response.status !== 201) {
-      const errorMessage = response.json?.errors
-        ? Object.values(response.json.errors).join(', ')
-        : response.json?.errorMessages?.join(', ') || `Failed to create issue: ${response.status}`;
-      throw new Error(errorMessage);
-    }
+    const response = await this.request(this.api('/issue'), {
+      method: 'POST',
+      body: { fields },
+      failureMessage: 'Failed to create issue',
+    });
 
     return {
       id: response.json.id,
@@ -396,15 +431,7 @@ export class JiraClient {
   async getIssue(issueKey: string, fields?: string[]): Promise<JiraIssueData> {
     const fieldList = fields?.join(',') || 'summary,status,assignee,priority,updated,reporter,description,labels';
 
-    const response: RequestUrlResponse = await requestUrl({
-      url: this.buildUrl(`/rest/api/3/issue/${issueKey}?fields=${fieldList}`),
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
-
-    if (response.status !== 200) {
-      throw new Error(`Failed to fetch issue: ${response.status}`);
-    }
+    const response = await this.request(this.api(`/issue/${issueKey}?fields=${fieldList}`), { failureMessage: 'Failed to fetch issue' });
 
     return {
       key: response.json.key,
@@ -412,6 +439,59 @@ export class JiraClient {
     };
   }
 
+  async getIssues(issueKeys: string[], fields: string[], jqlFilter?: string): Promise<JiraIssueData[]> {
+    if (issueKeys.length === 0) return [];
+
+    const jql = `key in (${issueKeys.join(', ')})${jqlFilter ? ` AND ${jqlFilter}` : ''}`;
+    return collectPages(this.searchPages(jql, fields.join(','), jiraIssueDataSchema));
+  }
+
+  async updateIssue(issueKey: string, fields: Record<string, unknown>): Promise<void> {
+    const body: Record<string, unknown> = {};
+    for (const [fieldId, value] of Object.entries(fields)) {
+      body[fieldId] = this.isServer ? this.toServerFieldValue(value) : value;
+    }
+
+    await this.request(this.api(`/issue/${issueKey}`), {
+      method: 'PUT',
+      body: { fields: body },
+      failureMessage: 'Failed to update issue',
+    });
+  }
+
+  async updateDescription(issueKey: string, markdown: string, attachments: AttachmentReference[], sourcePath?: string): Promise<void> {
+    await this.updateIssue(issueKey, { description: this.formatDescription(markdown, attachments, sourcePath) });
+  }
+
+  async addAttachment(issueKey: string, fileName: string, data: ArrayBuffer, mimeType: string): Promise<JiraAttachment> {
+    const response = await this.request(this.api(`/issue/${issueKey}/attachments`), {
+      method: 'POST',
+      multipart: createMultipartBody('file', fileName, data, mimeType),
+      failureMessage: `Failed to upload ${fileName}`,
+    });
+
+    const [attachment] = z.array(jiraAttachmentSchema).parse(response.json);
+    if (!attachment) throw new Error(`Failed to upload ${fileName}`);
+    return attachment;
+  }
+
+  async getComments(issueKey: string, limit: number): Promise<JiraComment[]> {
+    const response = await this.request(this.api(`/issue/${issueKey}/comment?orderBy=-created&maxResults=${limit}`), {
+      failureMessage: 'Failed to fetch comments',
+    });
+
+    const { comments } = jiraCommentPageSchema.parse(response.json);
+    return comments
+      .map(comment => ({
+        id: comment.id,
+        author: comment.author?.displayName ?? 'Unknown',
+        body: comment.body,
+        created: comment.created,
+        updated: comment.updated,
+      }))
+      .sort((a, b) => Date.parse(a.created) - Date.parse(b.created));
+  }
+
   async searchIssues(
     query: string,
     maxResults: number = 5,
@@ -428,22 +508,10 @@ export class JiraClient {
       jql = `summary ~ "${escapedQuery}" ORDER BY updated DESC`;
     }
 
-    const url =
-      this.buildUrl('/rest/api/3/search/jql') + `?jql=${encodeURIComponent(jql)}&maxResults=${maxResults}&fields=summary,status,issuetype`;
-
     try {
-      const response: RequestUrlResponse = await requestUrl({
-        url,
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
-
-      if (response.status !== 200) {
-        return [];
-      }
+      const issues = await collectPages(this.searchPages(jql, 'summary,status,issuetype', jiraSearchIssueSchema), { maxItems: maxResults });
 
-      const data = jiraSearchResponseSchema.parse(response.json);
-      return data.issues.map(issue => ({
+      return issues.map(issue => ({
         key: issue.key,
         summary: issue.fields.summary,
         status: issue.fields.status ? { name: issue.fields.status.name } : undefined,
@@ -455,15 +523,7 @@ export class JiraClient {
   }
 
   async getTransitions(issueKey: string): Promise<JiraTransition[]> {
-    const response: RequestUrlResponse = await requestUrl({
-      url: this.buildUrl(`/rest/api/3/issue/${issueKey}/transitions`),
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
-
-    if (response.status !== 200) {
-      throw new Error(`Failed to fetch transitions: ${response.status}`);
-    }
+    const response = await this.request(this.api(`/issue/${issueKey}/transitions`), { failureMessage: 'Failed to fetch transitions' });
 
     const data = jiraTransitionsResponseSchema.parse(response.json);
     return data.transitions.map(t => ({
@@ -478,16 +538,11 @@ export class JiraClient {
   }
 
   async transitionIssue(issueKey: string, transitionId: string): Promise<void> {
-    const response: RequestUrlResponse = await requestUrl({
-      url: this.buildUrl(`/rest/api/3/issue/${issueKey}/transitions`),
+    await this.request(this.api(`/issue/${issueKey}/transitions`), {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({ transition: { id: transitionId } }),
+      body: { transition: { id: transitionId } },
+      failureMessage: 'Failed to transition issue',
     });
-
-    if (response.status !== 204) {
-      throw new Error(`Failed to transition issue: ${response.status}`);
-    }
   }
 
   getIssueUrl(issueKey: string): string {
@@ -498,34 +553,11 @@ export class JiraClient {
     return mapJiraError(error);
   }
 
-  private parseRequestError(error: unknown): { status?: number; text?: string } {
-    if (typeof error !== 'object' || error === null) {
-      return {};
-    }
-    const result: { status?: number; text?: string } = {};
-    if ('status' in error && typeof error.status === 'number') {
-      result.status = error.status;
-    }
-    if ('text' in error && typeof error.text === 'string') {
-      result.text = error.text;
-    }
-    return result;
-  }
-
   async getBoardsForProject(projectKey: string): Promise<JiraBoard[]> {
     try {
-      const response: RequestUrlResponse = await requestUrl({
-        url: this.buildUrl(`/rest/agile/1.0/board?projectKeyOrId=${projectKey}`),
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
+      const boards = await collectPages(this.offsetPages(`/rest/agile/1.0/board?projectKeyOrId=${projectKey}`, jiraBoardSchema));
 
-      if (response.status !== 200) {
-        return [];
-      }
-
-      const data = jiraPaginatedResponseSchema(jiraBoardSchema).parse(response.json);
-      return (data.values ?? []).map(board => ({
+      return boards.map(board => ({
         id: String(board.id),
         name: board.name,
         type: board.type,
@@ -538,18 +570,9 @@ export class JiraClient {
 
   async getSprintsForBoard(boardId: string): Promise<JiraSprint[]> {
     try {
-      const response: RequestUrlResponse = await requestUrl({
-        url: this.buildUrl(`/rest/agile/1.0/board/${boardId}/sprint?state=active,future`),
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
-
-      if (response.status !== 200) {
-        return [];
-      }
+      const sprints = await collectPages(this.offsetPages(`/rest/agile/1.0/board/${boardId}/sprint?state=active,future`, jiraSprintSchema));
 
-      const data = jiraPaginatedResponseSchema(jiraSprintSchema).parse(response.json);
-      return (data.values ?? []).map(sprint => ({
+      return sprints.map(sprint => ({
         id: sprint.id,
         name: sprint.name,
         state: sprint.state,
@@ -564,15 +587,7 @@ export class JiraClient {
 
   async getIssueSprintInfo(issueKey: string): Promise<JiraSprintInfo> {
     try {
-      const response: RequestUrlResponse = await requestUrl({
-        url: this.buildUrl(`/rest/agile/1.0/issue/${issueKey}?fields=sprint`),
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
-
-      if (response.status !== 200) {
-        return { sprint: null, inBacklog: true };
-      }
+      const response = await this.request(`/rest/agile/1.0/issue/${issueKey}?fields=sprint`);
 
       const sprintField = response.json.fields?.sprint;
       if (!sprintField) {
@@ -597,15 +612,7 @@ export class JiraClient {
 
   async isIssueInBacklog(boardId: string, issueKey: string): Promise<boolean> {
     try {
-      const response: RequestUrlResponse = await requestUrl({
-        url: this.buildUrl(`/rest/agile/1.0/board/${boardId}/backlog?jql=key=${issueKey}`),
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
-
-      if (response.status !== 200) {
-        return true;
-      }
+      const response = await this.request(`/rest/agile/1.0/board/${boardId}/backlog?jql=key=${issueKey}`);
 
       const issues = response.json.issues || [];
       return issues.some((issue: { key: string }) => issue.key === issueKey);
@@ -615,44 +622,29 @@ export class JiraClient {
   }
 
   async moveToSprint(issueKeys: string[], sprintId: number): Promise<void> {
-    const response: RequestUrlResponse = await requestUrl({
-      url: this.buildUrl(`/rest/agile/1.0/sprint/${sprintId}/issue`),
+    await this.request(`/rest/agile/1.0/sprint/${sprintId}/issue`, {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({ issues: issueKeys }),
+      body: { issues: issueKeys },
+      failureMessage: 'Failed to move issues to sprint',
     });
-
-    if (response.status !== 204) {
-      throw new Error(`Failed to move issues to sprint: ${response.status}`);
-    }
   }
 
   async moveToBacklog(issueKeys: string[], boardId?: string): Promise<void> {
     const endpoint = boardId ? `/rest/agile/1.0/backlog/${boardId}/issue` : '/rest/agile/1.0/backlog/issue';
 
-    const response: RequestUrlResponse = await requestUrl({
-      url: this.buildUrl(endpoint),
+    await this.request(endpoint, {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({ issues: issueKeys }),
+      body: { issues: issueKeys },
+      failureMessage: 'Failed to move issues to backlog',
     });
-
-    if (response.status !== 200 && response.status !== 204) {
-      throw new Error(`Failed to move issues to backlog: ${response.status}`);
-    }
   }
 
   async moveToBoard(issueKeys: string[], boardId: string): Promise<void> {
-    const response: RequestUrlResponse = await requestUrl({
-      url: this.buildUrl(`/rest/agile/1.0/board/${boardId}/issue`),
+    await this.request(`/rest/agile/1.0/board/${boardId}/issue`, {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({ issues: issueKeys }),
+      body: { issues: issueKeys },
+      failureMessage: 'Failed to move issues to board',
     });
-
-    if (response.status !== 200 && response.status !== 204) {
-      throw new Error(`Failed to move issues to board: ${response.status}`);
-    }
   }
 
   async getProject(projectKey: string): Promise<{
@@ -662,15 +654,7 @@ export class JiraClient {
     projectTypeKey: string;
     description?: string;
   }> {
-    const response: RequestUrlResponse = await requestUrl({
-      url: this.buildUrl(`/rest/api/3/project/${projectKey}`),
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
-
-    if (response.status !== 200) {
-      throw new Error(`Failed to fetch project: ${response.status}`);
-    }
+    const response = await this.request(this.api(`/project/${projectKey}`), { failureMessage: 'Failed to fetch project' });
 
     return {
       id: response.json.id,
@@ -713,17 +697,12 @@ export class JiraClient {
     const maxResults = 100;
 
     while (true) {
-      const response: RequestUrlResponse = await requestUrl({
-        url: this.buildUrl(`/rest/api/3/field/search?projectIds=${projectId}&startAt=${startAt}&maxResults=${maxResults}`),
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
-
-      if (response.status !== 200) {
-        throw new Error(`Failed to fetch fields: ${response.status}`);
-      }
+      const path = this.isServer
+        ? this.api('/field')
+        : this.api(`/field/search?projectIds=${projectId}&startAt=${startAt}&maxResults=${maxResults}`);
+      const response = await this.request(path, { failureMessage: 'Failed to fetch fields' });
 
-      const values = response.json.values || [];
+      const values = (this.isServer ? response.json : response.json.values) || [];
       for (const field of values) {
         allFields.push({
           id: field.id,
@@ -740,7 +719,7 @@ export class JiraClient {
         });
       }
 
-      if (values.length < maxResults) {
+      if (this.isServer || values.length < maxResults) {
         break;
       }
       startAt += maxResults;
@@ -757,15 +736,7 @@ export class JiraClient {
     }[]
   > {
     try {
-      const response: RequestUrlResponse = await requestUrl({
-        url: this.buildUrl(`/rest/api/3/project/${projectKey}/statuses`),
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
-
-      if (response.status !== 200) {
-        return [];
-      }
+      const response = await this.request(this.api(`/project/${projectKey}/statuses`));
 
       const data = z.array(jiraProjectStatusItemSchema).parse(response.json || []);
       return data.map(item => ({
@@ -793,15 +764,7 @@ export class JiraClient {
     }[]
   > {
     try {
-      const response: RequestUrlResponse = await requestUrl({
-        url: this.buildUrl(`/rest/api/3/project/${projectKey}`),
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
-
-      if (response.status !== 200) {
-        return [];
-      }
+      const response = await this.request(this.api(`/project/${projectKey}`));
 
       const rawIssueTypes = response.json.issueTypes || [];
       const issueTypes = z.array(jiraIssueTypeDetailedSchema).parse(rawIssueTypes);
@@ -832,15 +795,7 @@ export class JiraClient {
     ranking?: { rankCustomFieldId: number };
   } | null> {
     try {
-      const response: RequestUrlResponse = await requestUrl({
-        url: this.buildUrl(`/rest/agile/1.0/board/${boardId}/configuration`),
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
-
-      if (response.status !== 200) {
-        return null;
-      }
+      const response = await this.request(`/rest/agile/1.0/board/${boardId}/configuration`);
 
       const config = jiraBoardConfigSchema.parse(response.json);
       const normalizedType = config.type?.toLowerCase();
@@ -884,15 +839,7 @@ export class JiraClient {
 
   async getBoardQuickFilters(boardId: string): Promise<{ id: string; name: string; query: string; description?: string }[]> {
     try {
-      const response: RequestUrlResponse = await requestUrl({
-        url: this.buildUrl(`/rest/agile/1.0/board/${boardId}/quickfilter`),
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
-
-      if (response.status !== 200) {
-        return [];
-      }
+      const response = await this.request(`/rest/agile/1.0/board/${boardId}/quickfilter`);
 
       const data = jiraPaginatedResponseSchema(jiraQuickFilterSchema).parse(response.json);
       return (data.values ?? []).map(qf => ({
@@ -908,15 +855,7 @@ export class JiraClient {
 
   async getFilter(filterId: string): Promise<{ id: string; name: string; jql: string } | null> {
     try {
-      const response: RequestUrlResponse = await requestUrl({
-        url: this.buildUrl(`/rest/api/3/filter/${filterId}`),
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
-
-      if (response.status !== 200) {
-        return null;
-      }
+      const response = await this.request(this.api(`/filter/${filterId}`));
 
       return {
         id: String(response.json.id),
@@ -932,11 +871,9 @@ export class JiraClient {
     projectId: string,
     statuses: { name: string; description?: string; statusCategory: 'TODO' | 'IN_PROGRESS' | 'DONE' }[],
   ): Promise<{ id: string; name: string }[]> {
-    const response: RequestUrlResponse = await requestUrl({
-      url: this.buildUrl('/rest/api/3/statuses'),
+    const response = await this.request(this.api('/statuses'), {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({
+      body: {
         scope: {
           project: { id: projectId },
           type: 'PROJECT',
@@ -946,17 +883,10 @@ export class JiraClient {
           description: s.description || '',
           statusCategory: s.statusCategory,
         })),
-      }),
+      },
+      failureMessage: 'Failed to create statuses',
     });
 
-    if (response.status !== 200 && response.status !== 201) {
-      const errorMessage =
-        response.json?.errorMessages?.join(', ') || response.json?.errors
-          ? Object.values(response.json.errors).join(', ')
-          : `Failed to create statuses: ${response.status}`;
-      throw new Error(errorMessage);
-    }
-
     const data = z.array(jiraCreatedStatusSchema).parse(response.json || []);
     return data.map(s => ({
       id: s.id,
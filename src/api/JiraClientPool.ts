@@ -0,0 +1,72 @@
+import type { JiraInstance, PluginSettings } from '../types';
+import type { WikiLinkResolver } from './types';
+import { JiraClient } from './JiraClient';
+import { ConcurrencyLimiter } from './ConcurrencyLimiter';
+import { DEFAULT_SETTINGS } from '../constants/defaults';
+
+export class JiraClientPool {
+  private clients = new Map<string, JiraClient>();
+  private limiters = new Map<string, ConcurrencyLimiter>();
+
+  constructor(
+    private settings: PluginSettings,
+    private resolveWikiLink?: WikiLinkResolver,
+  ) {}
+
+  getClient(instance: JiraInstance): JiraClient {
+    const cached = this.clients.get(instance.id);
+    if (cached) return cached;
+
+    const client = new JiraClient(instance, {
+      ...this.settings.advanced,
+      limiter: this.getLimiter(instance.id),
+      markdown: {
+        ...this.settings.createTicket?.markdown,
+        resolveWikiLink: this.resolveWikiLink && ((linkpath, sourcePath) => this.resolveWikiLink?.(linkpath, sourcePath, instance) ?? null),
+      },
+    });
+    this.clients.set(instance.id, client);
+    return client;
+  }
+
+  getClientById(instanceId: string): JiraClient | undefined {
+    const instance = this.settings.instances.find(i => i.id === instanceId && i.enabled);
+    return instance ? this.getClient(instance) : undefined;
+  }
+
+  updateSettings(settings: PluginSettings): void {
+    this.settings = settings;
+    this.clients.clear();
+
+    const instanceIds = new Set(settings.instances.map(i => i.id));
+    for (const [instanceId, limiter] of this.limiters) {
+      if (instanceIds.has(instanceId)) {
+        limiter.setLimit(this.getMaxConcurrentRequests());
+      } else {
+        this.limiters.delete(instanceId);
+      }
+    }
+  }
+
+  remove(instanceId: string): void {
+    this.clients.delete(instanceId);
+  }
+
+  clear(): void {
+    this.clients.clear();
+    this.limiters.clear();
+  }
+
+  private getLimiter(instanceId: string): ConcurrencyLimiter {
+    let limiter = this.limiters.get(instanceId);
+    if (!limiter) {
+      limiter = new ConcurrencyLimiter(this.getMaxConcurrentRequests());
+      this.limiters.set(instanceId, limiter);
+    }
+    return limiter;
+  }
+
+  private getMaxConcurrentRequests(): number {
+    return this.settings.advanced?.maxConcurrentRequests ?? DEFAULT_SETTINGS.advanced.maxConcurrentRequests;
+  }
+}
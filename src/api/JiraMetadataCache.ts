@@ -0,0 +1,125 @@
+import type {
+  InstanceMetadataCache,
+  JiraFieldMeta,
+  JiraInstance,
+  JiraIssueType,
+  JiraPriority,
+  JiraProject,
+  PluginSettings,
+} from '../types';
+import type { JiraClient } from './JiraClient';
+import type { JiraClientPool } from './JiraClientPool';
+import type { MetadataCachePersistence } from './types';
+
+type AssignableUser = { accountId: string; displayName: string };
+
+export function instanceFingerprint(instance: JiraInstance): string {
+  const source = [instance.baseUrl, instance.deploymentType, instance.authMode, instance.email, instance.apiToken].join('\n');
+  let hash = 0;
+  for (let i = 0; i < source.length; i++) {
+    hash = (Math.imul(31, hash) + source.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export class JiraMetadataCache {
+  private data: Record<string, InstanceMetadataCache>;
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private clientPool: JiraClientPool,
+    private settings: PluginSettings,
+    private persistence: MetadataCachePersistence,
+    private now: () => number = () => Date.now(),
+  ) {
+    this.data = persistence.load();
+  }
+
+  getProjects(instanceId: string): Promise<JiraProject[]> {
+    return this.get(instanceId, 'projects', client => client.getProjects());
+  }
+
+  getIssueTypes(instanceId: string, projectKey: string): Promise<JiraIssueType[]> {
+    return this.get(instanceId, `issueTypes:${projectKey}`, client => client.getIssueTypes(projectKey));
+  }
+
+  getPriorities(instanceId: string): Promise<JiraPriority[]> {
+    return this.get(instanceId, 'priorities', client => client.getPriorities());
+  }
+
+  getFieldsForIssueType(instanceId: string, projectKey: string, issueTypeId: string): Promise<JiraFieldMeta[]> {
+    return this.get(instanceId, `fields:${projectKey}:${issueTypeId}`, client => client.getFieldsForIssueType(projectKey, issueTypeId));
+  }
+
+  getAssignableUsers(instanceId: string, projectKey: string): Promise<AssignableUser[]> {
+    return this.get(instanceId, `users:${projectKey}`, client => client.getAssignableUsers(projectKey));
+  }
+
+  async clear(instanceId?: string): Promise<void> {
+    if (instanceId) {
+      delete this.data[instanceId];
+    } else {
+      for (const key of Object.keys(this.data)) {
+        delete this.data[key];
+      }
+    }
+    await this.persistence.save(this.data);
+  }
+
+  updateSettings(settings: PluginSettings): void {
+    this.settings = settings;
+
+    for (const instanceId of Object.keys(this.data)) {
+      if (this.data[instanceId].fingerprint !== this.fingerprint(instanceId)) {
+        delete this.data[instanceId];
+      }
+    }
+  }
+
+  private async get<T>(instanceId: string, key: string, fetch: (client: JiraClient) => Promise<T>): Promise<T> {
+    const client = this.clientPool.getClientById(instanceId);
+    if (!client) throw new Error('Jira instance not found or disabled');
+
+    if (!this.settings.advanced.cacheEnabled) {
+      return fetch(client);
+    }
+
+    const cached = this.data[instanceId];
+    const entry = cached?.fingerprint === this.fingerprint(instanceId) ? cached.entries[key] : undefined;
+    if (!entry) {
+      return this.refresh(instanceId, key, () => fetch(client));
+    }
+
+    if (this.now() - entry.fetchedAt >= this.settings.advanced.cacheTTL * 1000) {
+      this.refresh(instanceId, key, () => fetch(client)).catch(error => {
+        console.error(`Failed to refresh cached ${key}:`, error);
+      });
+    }
+
+    return entry.value as T;
+  }
+
+  private refresh<T>(instanceId: string, key: string, fetch: () => Promise<T>): Promise<T> {
+    const flightKey = `${instanceId}:${key}`;
+    const pending = this.inFlight.get(flightKey);
+    if (pending) return pending as Promise<T>;
+
+    const request = fetch()
+      .then(async value => {
+        const fingerprint = this.fingerprint(instanceId) ?? '';
+        const entries = this.data[instanceId]?.fingerprint === fingerprint ? this.data[instanceId].entries : {};
+        this.data[instanceId] = { fingerprint, entries: { ...entries, [key]: { value, fetchedAt: this.now() } } };
+        await this.persistence.save(this.data);
+        return value;
+      })
+      .finally(() => this.inFlight.delete(flightKey));
+
+    this.inFlight.set(flightKey, request);
+    return request;
+  }
+
+  private fingerprint(instanceId: string): string | undefined {
+    const instance = this.settings.instances.find(i => i.id === instanceId);
+    return instance && instanceFingerprint(instance);
+  }
+}
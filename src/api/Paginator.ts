@@ -0,0 +1,84 @@
+export interface PageRequest {
+  startAt: number;
+  maxResults: number;
+  nextPageToken?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  isLast: boolean;
+  nextPageToken?: string;
+}
+
+export type PageFetcher<T> = (request: PageRequest) => Promise<Page<T>>;
+
+export interface PaginateOptions {
+  pageSize?: number;
+  maxItems?: number;
+  maxPages?: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+interface OffsetPageBody {
+  isLast?: boolean;
+  total?: number;
+}
+
+interface TokenPageBody {
+  isLast?: boolean;
+  nextPageToken?: string;
+}
+
+export function toOffsetPage<T>(items: T[], body: OffsetPageBody, request: PageRequest): Page<T> {
+  let isLast: boolean;
+  if (typeof body.isLast === 'boolean') {
+    isLast = body.isLast;
+  } else if (typeof body.total === 'number') {
+    isLast = request.startAt + items.length >= body.total;
+  } else {
+    isLast = items.length < request.maxResults;
+  }
+
+  return { items, isLast: isLast || items.length === 0 };
+}
+
+export function toTokenPage<T>(items: T[], body: TokenPageBody): Page<T> {
+  const nextPageToken = body.nextPageToken || undefined;
+  return { items, isLast: body.isLast ?? !nextPageToken, nextPageToken };
+}
+
+export async function* paginate<T>(fetchPage: PageFetcher<T>, options: PaginateOptions = {}): AsyncGenerator<T> {
+  const maxItems = options.maxItems ?? Infinity;
+  const maxPages = options.maxPages ?? Infinity;
+  let emitted = 0;
+  let pages = 0;
+  let startAt = 0;
+  let nextPageToken: string | undefined;
+
+  while (emitted < maxItems && pages < maxPages) {
+    const pageSize = Math.min(options.pageSize ?? DEFAULT_PAGE_SIZE, maxItems - emitted);
+    const page = await fetchPage({ startAt, maxResults: pageSize, nextPageToken });
+    pages++;
+
+    for (const item of page.items) {
+      if (emitted >= maxItems) return;
+      yield item;
+      emitted++;
+    }
+
+    if (page.isLast) return;
+    if (page.nextPageToken !== undefined && page.nextPageToken === nextPageToken) return;
+
+    startAt += page.items.length;
+    nextPageToken = page.nextPageToken;
+  }
+}
+
+export async function collectPages<T>(fetchPage: PageFetcher<T>, options: PaginateOptions = {}): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of paginate(fetchPage, options)) {
+    items.push(item);
+  }
+  return items;
+}
@@ -0,0 +1,168 @@
+import type { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import type { JiraTransport, RequestPolicy } from './types';
+import type { ConcurrencyLimiter } from './ConcurrencyLimiter';
+import { requestUrlTransport } from './transport';
+import { JiraApiError, JiraNetworkError, JiraTimeoutError, createJiraApiError, parseJiraErrorPayload } from './errors';
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE']);
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: 30000,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+};
+
+interface AttemptOutcome {
+  status?: number;
+  headers?: Record<string, string>;
+  text?: string;
+  response?: RequestUrlResponse;
+  error?: unknown;
+}
+
+export function parseRetryAfter(headers: Record<string, string> | undefined, now: number = Date.now()): number | undefined {
+  if (!headers) return undefined;
+
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === 'retry-after');
+  const raw = entry?.[1]?.trim();
+  if (!raw) return undefined;
+
+  const seconds = Number(raw);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(raw);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+function readErrorStatus(error: unknown): Pick<AttemptOutcome, 'status' | 'headers' | 'text'> {
+  if (typeof error !== 'object' || error === null) return {};
+
+  const result: Pick<AttemptOutcome, 'status' | 'headers' | 'text'> = {};
+  if ('status' in error && typeof error.status === 'number') {
+    result.status = error.status;
+  }
+  if ('headers' in error && typeof error.headers === 'object' && error.headers !== null) {
+    result.headers = error.headers as Record<string, string>;
+  }
+  if ('text' in error && typeof error.text === 'string') {
+    result.text = error.text;
+  }
+  return result;
+}
+
+export class RequestExecutor {
+  private policy: RequestPolicy;
+
+  constructor(
+    policy: Partial<RequestPolicy> = {},
+    private transport: JiraTransport = requestUrlTransport,
+    private limiter?: ConcurrencyLimiter,
+  ) {
+    this.policy = { ...DEFAULT_REQUEST_POLICY, ...policy };
+  }
+
+  updatePolicy(policy: Partial<RequestPolicy>): void {
+    this.policy = { ...this.policy, ...policy };
+  }
+
+  async execute(params: RequestUrlParam, options: { path: string; retry?: boolean }): Promise<RequestUrlResponse> {
+    const method = (params.method ?? 'GET').toUpperCase();
+    const canRetry = options.retry ?? IDEMPOTENT_METHODS.has(method);
+    const maxAttempts = Math.max(0, this.policy.maxRetries) + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      const outcome = await this.attempt(params, options.path, attempt);
+
+      if (outcome.status === undefined) {
+        const error = outcome.error;
+        if (error instanceof JiraTimeoutError && canRetry && attempt < maxAttempts) {
+          await this.sleep(this.getBackoffDelay(attempt));
+          continue;
+        }
+        if (error instanceof JiraApiError) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        throw new JiraNetworkError(message, { path: options.path, attempts: attempt, cause: error });
+      }
+
+      const status = outcome.status;
+      const retryAllowed = status === 429 || canRetry;
+
+      if (!RETRYABLE_STATUSES.has(status) || !retryAllowed) {
+        if (outcome.response) return outcome.response;
+        throw createJiraApiError(status, {
+          path: options.path,
+          attempts: attempt,
+          payload: parseJiraErrorPayload(outcome.text),
+          cause: outcome.error,
+        });
+      }
+
+      const retryAfterMs = parseRetryAfter(outcome.headers);
+
+      if (attempt >= maxAttempts) {
+        throw createJiraApiError(
+          status,
+          {
+            path: options.path,
+            attempts: attempt,
+            retryAfterMs,
+            payload: parseJiraErrorPayload(outcome.text),
+            cause: outcome.error,
+          },
+          `Request failed after ${attempt} attempt(s)`,
+        );
+      }
+
+      const delay = Math.min(Math.max(retryAfterMs ?? 0, this.getBackoffDelay(attempt)), this.policy.maxDelayMs);
+      await this.sleep(delay);
+    }
+  }
+
+  private async attempt(params: RequestUrlParam, path: string, attempt: number): Promise<AttemptOutcome> {
+    try {
+      const send = () => this.withTimeout(this.transport.request(params), path, attempt);
+      const response = await (this.limiter ? this.limiter.run(send) : send());
+      return { status: response.status, headers: response.headers, text: response.text, response };
+    } catch (error) {
+      return { ...readErrorStatus(error), error };
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>, path: string, attempt: number): Promise<T> {
+    const timeoutMs = this.policy.timeoutMs;
+    if (!timeoutMs || timeoutMs <= 0) return promise;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new JiraTimeoutError(`Request timeout after ${timeoutMs}ms`, { path, attempts: attempt, timeoutMs }));
+      }, timeoutMs);
+
+      promise.then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      );
+    });
+  }
+
+  private getBackoffDelay(attempt: number): number {
+    return Math.min(this.policy.baseDelayMs * Math.pow(2, attempt - 1), this.policy.maxDelayMs);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,157 @@
+export type JiraErrorKind =
+  | 'authentication'
+  | 'permission'
+  | 'not-found'
+  | 'rate-limited'
+  | 'validation'
+  | 'server'
+  | 'network'
+  | 'timeout'
+  | 'unknown';
+
+export interface JiraErrorPayload {
+  errorMessages: string[];
+  errors: Record<string, string>;
+}
+
+export interface JiraApiErrorDetails {
+  path: string;
+  status?: number;
+  payload?: JiraErrorPayload;
+  attempts?: number;
+  cause?: unknown;
+}
+
+const EMPTY_PAYLOAD: JiraErrorPayload = { errorMessages: [], errors: {} };
+
+export class JiraApiError extends Error {
+  readonly kind: JiraErrorKind = 'unknown';
+  readonly status?: number;
+  readonly path: string;
+  readonly payload: JiraErrorPayload;
+  readonly attempts: number;
+
+  constructor(message: string, details: JiraApiErrorDetails) {
+    super(message);
+    this.name = 'JiraApiError';
+    this.path = details.path;
+    this.status = details.status;
+    this.payload = details.payload ?? EMPTY_PAYLOAD;
+    this.attempts = details.attempts ?? 1;
+    if (details.cause !== undefined) {
+      Object.defineProperty(this, 'cause', { value: details.cause, enumerable: false });
+    }
+  }
+
+  get messages(): string[] {
+    return [...this.payload.errorMessages, ...Object.values(this.payload.errors)];
+  }
+}
+
+export class JiraAuthenticationError extends JiraApiError {
+  readonly kind = 'authentication';
+}
+
+export class JiraPermissionError extends JiraApiError {
+  readonly kind = 'permission';
+}
+
+export class JiraNotFoundError extends JiraApiError {
+  readonly kind = 'not-found';
+}
+
+export class JiraRateLimitError extends JiraApiError {
+  readonly kind = 'rate-limited';
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: JiraApiErrorDetails & { retryAfterMs?: number }) {
+    super(message, details);
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+export class JiraValidationError extends JiraApiError {
+  readonly kind = 'validation';
+
+  get fieldErrors(): Record<string, string> {
+    return this.payload.errors;
+  }
+}
+
+export class JiraServerError extends JiraApiError {
+  readonly kind = 'server';
+}
+
+export class JiraNetworkError extends JiraApiError {
+  readonly kind = 'network';
+}
+
+export class JiraTimeoutError extends JiraApiError {
+  readonly kind = 'timeout';
+  readonly timeoutMs: number;
+
+  constructor(message: string, details: JiraApiErrorDetails & { timeoutMs: number }) {
+    super(message, details);
+    this.timeoutMs = details.timeoutMs;
+  }
+}
+
+function toStringArray(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is string => typeof item === 'string');
+}
+
+function toStringRecord(value: unknown): Record<string, string> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {};
+
+  const result: Record<string, string> = {};
+  for (const [key, message] of Object.entries(value)) {
+    if (typeof message === 'string') {
+      result[key] = message;
+    }
+  }
+  return result;
+}
+
+export function parseJiraErrorPayload(body: unknown): JiraErrorPayload {
+  let data = body;
+  if (typeof body === 'string') {
+    try {
+      data = JSON.parse(body);
+    } catch {
+      return { errorMessages: body.trim() ? [body.trim()] : [], errors: {} };
+    }
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    return { errorMessages: [], errors: {} };
+  }
+
+  return {
+    errorMessages: 'errorMessages' in data ? toStringArray(data.errorMessages) : [],
+    errors: 'errors' in data ? toStringRecord(data.errors) : {},
+  };
+}
+
+export function createJiraApiError(
+  status: number,
+  details: JiraApiErrorDetails & { retryAfterMs?: number },
+  fallbackMessage: string = 'Request failed',
+): JiraApiError {
+  const payload = details.payload ?? EMPTY_PAYLOAD;
+  const payloadMessages = [...payload.errorMessages, ...Object.values(payload.errors)];
+  const message = payloadMessages.length > 0 ? payloadMessages.join(', ') : `${fallbackMessage}: ${status}`;
+  const fullDetails = { ...details, status, payload };
+
+  if (status === 401) return new JiraAuthenticationError(message, fullDetails);
+  if (status === 403) return new JiraPermissionError(message, fullDetails);
+  if (status === 404) return new JiraNotFoundError(message, fullDetails);
+  if (status === 429) return new JiraRateLimitError(message, fullDetails);
+  if (status === 400 || status === 422) return new JiraValidationError(message, fullDetails);
+  if (status >= 500) return new JiraServerError(message, fullDetails);
+  return new JiraApiError(message, fullDetails);
+}
+
+export function isJiraApiError(error: unknown): error is JiraApiError {
+  return error instanceof JiraApiError;
+}
@@ -1,2 +1,37 @@
 export { JiraClient } from './JiraClient';
-export type { TestConnectionResult, JiraUser } from './types';
+export { JiraClientPool } from './JiraClientPool';
+export { JiraMetadataCache } from './JiraMetadataCache';
+export { ConcurrencyLimiter } from './ConcurrencyLimiter';
+export { RequestExecutor, DEFAULT_REQUEST_POLICY, parseRetryAfter } from './RequestExecutor';
+export { requestUrlTransport, setTransportResolver, resolveTransport } from './transport';
+export type { TransportResolver } from './transport';
+export { paginate, collectPages, toOffsetPage, toTokenPage, DEFAULT_PAGE_SIZE } from './Paginator';
+export type { Page, PageRequest, PageFetcher, PaginateOptions } from './Paginator';
+export { createMultipartBody } from './multipart';
+export type { MultipartBody } from './multipart';
+export {
+  JiraApiError,
+  JiraAuthenticationError,
+  JiraPermissionError,
+  JiraNotFoundError,
+  JiraRateLimitError,
+  JiraValidationError,
+  JiraServerError,
+  JiraNetworkError,
+  JiraTimeoutError,
+  createJiraApiError,
+  parseJiraErrorPayload,
+  isJiraApiError,
+} from './errors';
+export type { JiraErrorKind, JiraErrorPayload, JiraApiErrorDetails } from './errors';
+export type {
+  TestConnectionResult,
+  JiraUser,
+  JiraClientOptions,
+  JiraTransport,
+  RequestPolicy,
+  JiraRequest,
+  HttpMethod,
+  MetadataCachePersistence,
+  WikiLinkResolver,
+} from './types';
@@ -0,0 +1,20 @@
+export interface MultipartBody {
+  body: ArrayBuffer;
+  contentType: string;
+}
+
+export function createMultipartBody(fieldName: string, fileName: string, data: ArrayBuffer, mimeType: string): MultipartBody {
+  const boundary = `----JiraBridge${Date.now().toString(16)}${Math.random().toString(16).slice(2)}`;
+  const encoder = new TextEncoder();
+  const head = encoder.encode(
+    `--${boundary}\r\nContent-Disposition: form-data; name="${fieldName}"; filename="${fileName.replace(/"/g, '%22')}"\r\nContent-Type: ${mimeType}\r\n\r\n`,
+  );
+  const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+  const bytes = new Uint8Array(head.length + data.byteLength + tail.length);
+  bytes.set(head, 0);
+  bytes.set(new Uint8Array(data), head.length);
+  bytes.set(tail, head.length + data.byteLength);
+
+  return { body: bytes.buffer, contentType: `multipart/form-data; boundary=${boundary}` };
+}
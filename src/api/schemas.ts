@@ -29,6 +29,18 @@ export const jiraUserSchema = z.object({
   displayName: z.string(),
 });
 
+export const jiraServerUserSchema = z.object({
+  name: z.string(),
+  key: z.string().optional(),
+  displayName: z.string(),
+});
+
+export const jiraServerInfoSchema = z.object({
+  baseUrl: z.string().optional(),
+  version: z.string().optional(),
+  deploymentType: z.string().optional(),
+});
+
 export const jiraStatusCategorySchema = z.object({
   id: z.number(),
   key: z.string(),
@@ -90,10 +102,21 @@ export const jiraSearchIssueSchema = z.object({
   fields: jiraIssueFieldsSchema,
 });
 
-export const jiraSearchResponseSchema = z.object({
-  issues: z.array(jiraSearchIssueSchema),
+export const jiraIssueDataSchema = z.object({
+  key: z.string(),
+  fields: z.record(z.string(), z.unknown()),
 });
 
+export const jiraSearchPageSchema = <T extends z.ZodTypeAny>(issueSchema: T) =>
+  z.object({
+    issues: z.array(issueSchema),
+    nextPageToken: z.string().optional(),
+    isLast: z.boolean().optional(),
+    total: z.number().optional(),
+  });
+
+export const jiraSearchResponseSchema = jiraSearchPageSchema(jiraSearchIssueSchema);
+
 export const jiraFieldSchemaSchema = z.object({
   type: z.string(),
   system: z.string().optional(),
@@ -102,16 +125,21 @@ export const jiraFieldSchemaSchema = z.object({
   items: z.string().optional(),
 });
 
-export const jiraAllowedValueSchema = z.object({
+const jiraAllowedValueBaseSchema = z.object({
   id: z.string(),
   name: z.string().optional(),
   value: z.string().optional(),
 });
 
+export const jiraAllowedValueSchema = jiraAllowedValueBaseSchema.extend({
+  children: z.array(jiraAllowedValueBaseSchema).optional(),
+});
+
 export const jiraFieldMetaSchema = z.object({
   fieldId: z.string(),
   name: z.string(),
   required: z.boolean(),
+  hasDefaultValue: z.boolean().optional(),
   schema: jiraFieldSchemaSchema,
   allowedValues: z.array(jiraAllowedValueSchema).optional(),
   autoCompleteUrl: z.string().optional(),
@@ -197,6 +225,27 @@ export const jiraQuickFilterSchema = z.object({
   description: z.string().optional(),
 });
 
+export const jiraCommentSchema = z.object({
+  id: z.string(),
+  author: z.object({ displayName: z.string() }).optional(),
+  body: z.unknown(),
+  created: z.string(),
+  updated: z.string().optional(),
+});
+
+export const jiraCommentPageSchema = z.object({
+  comments: z.array(jiraCommentSchema),
+  total: z.number().optional(),
+});
+
+export const jiraAttachmentSchema = z.object({
+  id: z.union([z.string(), z.number()]).transform(String),
+  filename: z.string(),
+  mimeType: z.string().optional(),
+  size: z.number().optional(),
+  content: z.string(),
+});
+
 export const jiraCreatedStatusSchema = z.object({
   id: z.string(),
   name: z.string(),
@@ -205,6 +254,10 @@ export const jiraCreatedStatusSchema = z.object({
 export const jiraPaginatedResponseSchema = <T extends z.ZodTypeAny>(itemSchema: T) =>
   z.object({
     values: z.array(itemSchema).optional(),
+    startAt: z.number().optional(),
+    maxResults: z.number().optional(),
+    total: z.number().optional(),
+    isLast: z.boolean().optional(),
   });
 
 export type JiraProjectResponse = z.infer<typeof jiraProjectSchema>;
@@ -0,0 +1,19 @@
+import { requestUrl } from 'obsidian';
+import type { JiraInstance } from '../types';
+import type { JiraTransport } from './types';
+
+export type TransportResolver = (instance: JiraInstance) => JiraTransport | undefined;
+
+export const requestUrlTransport: JiraTransport = {
+  request: params => requestUrl({ ...params, throw: false }),
+};
+
+let transportResolver: TransportResolver | null = null;
+
+export function setTransportResolver(resolver: TransportResolver | null): void {
+  transportResolver = resolver;
+}
+
+export function resolveTransport(instance: JiraInstance): JiraTransport {
+  return transportResolver?.(instance) ?? requestUrlTransport;
+}
@@ -1,3 +1,9 @@
+import type { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import type { InstanceMetadataCache, JiraDeploymentType, JiraInstance } from '../types';
+import type { MarkdownToAdfOptions, WikiLinkTarget } from '../utils/types';
+import type { ConcurrencyLimiter } from './ConcurrencyLimiter';
+import type { MultipartBody } from './multipart';
+
 export interface JiraUser {
   displayName: string;
   emailAddress: string;
@@ -7,5 +13,43 @@ export interface JiraUser {
 export interface TestConnectionResult {
   success: boolean;
   user?: JiraUser;
+  deploymentType?: JiraDeploymentType;
   error?: string;
 }
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface JiraTransport {
+  request(params: RequestUrlParam): Promise<RequestUrlResponse>;
+}
+
+export interface JiraClientOptions {
+  requestTimeout?: number;
+  maxRetries?: number;
+  transport?: JiraTransport;
+  limiter?: ConcurrencyLimiter;
+  markdown?: MarkdownToAdfOptions;
+}
+
+export type WikiLinkResolver = (linkpath: string, sourcePath: string, instance: JiraInstance) => WikiLinkTarget | null;
+
+export interface RequestPolicy {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface JiraRequest {
+  path: string;
+  method?: HttpMethod;
+  body?: unknown;
+  multipart?: MultipartBody;
+  retry?: boolean;
+  failureMessage?: string;
+}
+
+export interface MetadataCachePersistence {
+  load(): Record<string, InstanceMetadataCache>;
+  save(data: Record<string, InstanceMetadataCache>): Promise<void>;
+}
@@ -1,4 +1,4 @@
-import type { PluginSettings, ContentParsingConfig, ProjectMappingConfig } from '../types';
+import type { PluginSettings, ContentParsingConfig, ContentSyncConfig, ProjectMappingConfig } from '../types';
 
 export const DEFAULT_CONTENT_PARSING: ContentParsingConfig = {
   summaryPattern: '^## Summary\\s*\\n+```\\s*\\n(.+?)\\n```',
@@ -7,6 +7,14 @@ export const DEFAULT_CONTENT_PARSING: ContentParsingConfig = {
   descriptionFlags: 'm',
 };
 
+export const DEFAULT_CONTENT_SYNC: ContentSyncConfig = {
+  syncDescription: false,
+  syncComments: false,
+  commentLimit: 5,
+};
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
 export const DEFAULT_PROJECT_CONFIG: ProjectMappingConfig = {
   frontmatterMappings: [],
   contentParsing: DEFAULT_CONTENT_PARSING,
@@ -31,6 +39,8 @@ export const DEFAULT_SETTINGS: PluginSettings = {
       { jiraField: 'updated', frontmatterKey: 'jira_updated', enabled: false, readOnly: true },
       { jiraField: 'reporter', frontmatterKey: 'jira_reporter', enabled: false, readOnly: true },
       { jiraField: 'summary', frontmatterKey: 'jira_summary', enabled: false, readOnly: true },
+      { jiraField: 'labels', frontmatterKey: 'jira_labels', enabled: false, readOnly: true },
+      { jiraField: 'duedate', frontmatterKey: 'jira_due_date', enabled: false, readOnly: true },
     ],
   },
   ui: {
@@ -43,13 +53,23 @@ export const DEFAULT_SETTINGS: PluginSettings = {
   },
   createTicket: {
     customFields: [],
+    markdown: {
+      wikiLinks: 'text',
+      tags: 'text',
+      blockRefs: 'strip',
+    },
   },
   advanced: {
     requestTimeout: 30000,
     maxRetries: 3,
+    maxConcurrentRequests: 4,
     logLevel: 'info',
     cacheEnabled: true,
     cacheTTL: 300,
   },
   recentIssues: [],
+  sandboxData: {},
+  metadataCache: {},
+  syncState: {},
+  syncWatermarks: {},
 };
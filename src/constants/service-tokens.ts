@@ -1,6 +1,12 @@
 import type { ServiceToken } from '../types/plugin.types';
 import type { EventBus } from '../core/EventBus';
 import type { SyncService } from '../features/sync/services/SyncService';
+import type { SyncStateStore } from '../features/sync/services/SyncStateStore';
+import type { NotePushService } from '../features/sync/services/NotePushService';
+import type { JiraClientPool } from '../api/JiraClientPool';
+import type { JiraMetadataCache } from '../api/JiraMetadataCache';
+import type { SandboxRegistry } from '../features/sandbox/services/SandboxRegistry';
+import type { LinkedNotesIndex } from '../features/linked-notes/services/LinkedNotesIndex';
 
 function createToken<T>(name: string): ServiceToken<T> {
   return { name };
@@ -9,4 +15,10 @@ function createToken<T>(name: string): ServiceToken<T> {
 export const SERVICE_TOKENS = {
   EventBus: createToken<EventBus>('EventBus'),
   SyncService: createToken<SyncService>('SyncService'),
+  SyncStateStore: createToken<SyncStateStore>('SyncStateStore'),
+  JiraClientPool: createToken<JiraClientPool>('JiraClientPool'),
+  JiraMetadataCache: createToken<JiraMetadataCache>('JiraMetadataCache'),
+  SandboxRegistry: createToken<SandboxRegistry>('SandboxRegistry'),
+  LinkedNotesIndex: createToken<LinkedNotesIndex>('LinkedNotesIndex'),
+  NotePushService: createToken<NotePushService>('NotePushService'),
 };
@@ -1,6 +1,15 @@
 import { Plugin, MarkdownView, TFile, TFolder, Menu, Notice } from 'obsidian';
-import type { PluginSettings, ServiceToken, ProjectMappingConfig, FrontmatterFieldMapping } from '../types';
-import type { FrontmatterValues } from '../features/ticket-creation';
+import type {
+  JiraInstance,
+  PluginSettings,
+  ServiceToken,
+  ProjectMappingConfig,
+  FrontmatterFieldMapping,
+  SyncConflict,
+  SyncStats,
+  FolderMapping,
+} from '../types';
+import type { FrontmatterValues, BulkCreateOptions } from '../features/ticket-creation';
 import { ServiceContainer } from './ServiceContainer';
 import { EventBus } from './EventBus';
 import { JiraBridgeSettingsTab } from '../settings';
@@ -12,12 +21,17 @@ import {
   CreateTicketModal,
   BulkCreateProgressModal,
   BulkCreateReportModal,
+  TemplatePickerModal,
+  IssueHierarchyModal,
   BulkStatusChangeModal,
   BulkStatusChangeProgressModal,
   BulkStatusChangeReportModal,
   StatusChangeModal,
   LinkTicketModal,
   ProjectComparisonModal,
+  SyncConflictModal,
+  SyncJqlModal,
+  PushNoteModal,
 } from '../modals';
 import type { RecentIssue } from '../modals';
 import {
@@ -28,15 +42,25 @@ import {
   mapJiraError,
   NOTICE_DURATION,
 } from '../utils';
-import { BulkCreateService } from '../features/ticket-creation';
+import type { WikiLinkTarget } from '../utils/types';
+import type { BulkOperationTarget } from '../services/types';
+import { collectMarkdownFiles } from '../services/utils';
+import { BulkCreateService, TicketTemplateRenderer, ChecklistSubtaskService, IssueHierarchyService } from '../features/ticket-creation';
 import { BulkStatusChangeService } from '../features/status-change';
-import { SyncService } from '../features/sync/services';
+import { SyncService, SyncStateStore, SyncWatermarkStore, NotePushService } from '../features/sync/services';
+import { SandboxRegistry } from '../features/sandbox';
+import { LinkedNotesIndex } from '../features/linked-notes';
+import { JiraClientPool, JiraMetadataCache, setTransportResolver } from '../api';
 
 export class JiraBridgePlugin extends Plugin {
   private container!: ServiceContainer;
   private eventBus!: EventBus;
   private mappingResolver!: MappingResolver;
   private statusBar!: StatusBarManager;
+  private clientPool!: JiraClientPool;
+  private metadataCache!: JiraMetadataCache;
+  private syncStateStore!: SyncStateStore;
+  private linkedNotes!: LinkedNotesIndex;
   settings!: PluginSettings;
   private selectedFiles = new Set<TFile>();
   private lastClickedFile: TFile | null = null;
@@ -55,6 +79,11 @@ export class JiraBridgePlugin extends Plugin {
     if (this.settings.sync?.autoSync) {
       syncService.startAutoSync();
     }
+
+    this.app.workspace.onLayoutReady(() => {
+      this.linkedNotes.rebuild();
+      this.statusBar.update(this.app.workspace.getActiveFile()?.path || null);
+    });
   }
 
   async onunload(): Promise<void> {
@@ -65,6 +94,7 @@ export class JiraBridgePlugin extends Plugin {
       // Service might not be registered
     }
 
+    setTransportResolver(null);
     this.eventBus.clear();
     this.container.dispose();
   }
@@ -97,7 +127,15 @@ export class JiraBridgePlugin extends Plugin {
       createTicket: {
         ...DEFAULT_SETTINGS.createTicket,
         ...(savedData?.createTicket ?? {}),
+        markdown: {
+          ...DEFAULT_SETTINGS.createTicket.markdown,
+          ...(savedData?.createTicket?.markdown ?? {}),
+        },
       },
+      sandboxData: savedData?.sandboxData ?? {},
+      metadataCache: savedData?.metadataCache ?? {},
+      syncState: savedData?.syncState ?? {},
+      syncWatermarks: savedData?.syncWatermarks ?? {},
     };
   }
 
@@ -106,11 +144,83 @@ export class JiraBridgePlugin extends Plugin {
     await this.eventBus.emit('settings:changed', this.settings);
   }
 
+  async persistData(): Promise<void> {
+    await this.saveData(this.settings);
+  }
+
+  private resolveWikiLink(linkpath: string, sourcePath: string, instance: JiraInstance): WikiLinkTarget | null {
+    const file = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+    if (!file) return null;
+
+    const issueKey = this.linkedNotes.getIssueKey(file.path);
+    const issueInstance = this.mappingResolver.resolve(file.path).instance ?? instance;
+
+    return {
+      issueUrl: issueKey ? `${issueInstance.baseUrl.replace(/\/+$/, '')}/browse/${issueKey}` : undefined,
+      obsidianUrl: `obsidian://open?vault=${encodeURIComponent(this.app.vault.getName())}&file=${encodeURIComponent(file.path)}`,
+    };
+  }
+
   private registerServices(): void {
     this.container.register(SERVICE_TOKENS.EventBus, this.eventBus);
 
-    const syncService = new SyncService(this.app, this.settings, this.eventBus);
+    const sandboxRegistry = new SandboxRegistry({
+      load: instanceId => this.settings.sandboxData[instanceId],
+      save: async (instanceId, data) => {
+        this.settings.sandboxData[instanceId] = data;
+        await this.persistData();
+      },
+    });
+    this.container.register(SERVICE_TOKENS.SandboxRegistry, sandboxRegistry);
+    setTransportResolver(instance => (instance.deploymentType === 'sandbox' ? sandboxRegistry.getTransport(instance.id) : undefined));
+
+    this.clientPool = new JiraClientPool(this.settings, (linkpath, sourcePath, instance) =>
+      this.resolveWikiLink(linkpath, sourcePath, instance),
+    );
+    this.container.register(SERVICE_TOKENS.JiraClientPool, this.clientPool);
+
+    this.metadataCache = new JiraMetadataCache(this.clientPool, this.settings, {
+      load: () => this.settings.metadataCache,
+      save: async data => {
+        this.settings.metadataCache = data;
+        await this.persistData();
+      },
+    });
+    this.container.register(SERVICE_TOKENS.JiraMetadataCache, this.metadataCache);
+
+    this.syncStateStore = new SyncStateStore({
+      load: () => this.settings.syncState,
+      save: async data => {
+        this.settings.syncState = data;
+        await this.persistData();
+      },
+    });
+    this.container.register(SERVICE_TOKENS.SyncStateStore, this.syncStateStore);
+
+    this.linkedNotes = new LinkedNotesIndex(this.app);
+    this.container.register(SERVICE_TOKENS.LinkedNotesIndex, this.linkedNotes);
+
+    const watermarkStore = new SyncWatermarkStore({
+      load: () => this.settings.syncWatermarks,
+      save: async data => {
+        this.settings.syncWatermarks = data;
+        await this.persistData();
+      },
+    });
+
+    const syncService = new SyncService(
+      this.app,
+      this.settings,
+      this.eventBus,
+      this.clientPool,
+      this.metadataCache,
+      this.syncStateStore,
+      watermarkStore,
+      this.linkedNotes,
+    );
     this.container.register(SERVICE_TOKENS.SyncService, syncService);
+
+    this.container.register(SERVICE_TOKENS.NotePushService, new NotePushService(this.clientPool, this.metadataCache));
   }
 
   private initializeUI(): void {
@@ -121,7 +231,15 @@ export class JiraBridgePlugin extends Plugin {
     });
 
     this.mappingResolver = new MappingResolver(this.settings);
-    this.statusBar = new StatusBarManager(this.app, this, this.mappingResolver, this.settings.ui, () => this.openSettings());
+    this.statusBar = new StatusBarManager(
+      this.app,
+      this,
+      this.mappingResolver,
+      this.syncStateStore,
+      this.linkedNotes,
+      this.settings.ui,
+      () => this.openSettings(),
+    );
 
     const activeFile = this.app.workspace.getActiveFile();
     this.statusBar.update(activeFile?.path || null);
@@ -160,17 +278,129 @@ export class JiraBridgePlugin extends Plugin {
       callback: () => this.syncCurrentNote(),
     });
 
+    this.addCommand({
+      id: 'push-note-to-jira',
+      name: 'Push note to Jira',
+      checkCallback: checking => {
+        const activeFile = this.app.workspace.getActiveFile();
+        if (!activeFile || !this.linkedNotes.getIssueKey(activeFile.path)) return false;
+        if (!this.mappingResolver.resolve(activeFile.path).instance) return false;
+        if (!checking) this.pushNoteToJira(activeFile);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'create-checklist-subtasks',
+      name: 'Create subtasks from checklist',
+      checkCallback: checking => {
+        const activeFile = this.app.workspace.getActiveFile();
+        if (!activeFile || !this.linkedNotes.getIssueKey(activeFile.path)) return false;
+        if (!this.mappingResolver.resolve(activeFile.path).instance) return false;
+        if (!checking) this.createChecklistSubtasks(activeFile);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'complete-checklist-subtasks',
+      name: 'Complete checked subtasks in Jira',
+      checkCallback: checking => {
+        const activeFile = this.app.workspace.getActiveFile();
+        if (!activeFile || !this.linkedNotes.getIssueKey(activeFile.path)) return false;
+        if (!this.mappingResolver.resolve(activeFile.path).instance) return false;
+        if (!checking) this.completeChecklistSubtasks(activeFile);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'create-issue-hierarchy',
+      name: 'Create issue hierarchy from note',
+      checkCallback: checking => {
+        const activeFile = this.app.workspace.getActiveFile();
+        if (!activeFile || activeFile.extension !== 'md') return false;
+        const context = this.mappingResolver.resolve(activeFile.path);
+        if (!context.instance || !context.projectKey) return false;
+        if (!checking) this.createIssueHierarchy(activeFile);
+        return true;
+      },
+    });
+
     this.addCommand({
       id: 'sync-open-notes',
       name: 'Sync all open notes with Jira',
       callback: () => this.syncOpenNotes(),
     });
 
+    this.addCommand({
+      id: 'sync-vault-full',
+      name: 'Sync all linked notes with Jira (full)',
+      callback: () => this.syncVault(),
+    });
+
+    this.addCommand({
+      id: 'sync-project-notes',
+      name: 'Sync all notes in current project mapping with Jira',
+      checkCallback: checking => {
+        const activeFile = this.app.workspace.getActiveFile();
+        const mapping = activeFile ? this.mappingResolver.resolve(activeFile.path).projectMapping : null;
+        if (!mapping) return false;
+        if (!checking) this.syncProjectNotes(mapping);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'sync-jql-notes',
+      name: 'Sync notes matching JQL with Jira',
+      callback: () => this.openSyncJqlModal(),
+    });
+
     this.addCommand({
       id: 'compare-jira-projects',
       name: 'Compare Jira Projects',
       callback: () => this.openProjectComparisonModal(),
     });
+
+    this.addCommand({
+      id: 'refresh-jira-metadata',
+      name: 'Refresh Jira metadata',
+      callback: () => this.refreshMetadata(),
+    });
+
+    this.addCommand({
+      id: 'reset-sandbox',
+      name: 'Reset sandbox Jira data',
+      checkCallback: checking => {
+        const sandboxes = this.settings.instances.filter(i => i.deploymentType === 'sandbox');
+        if (sandboxes.length === 0) return false;
+        if (!checking) {
+          this.resetSandboxes(sandboxes).catch(error => {
+            console.error('Sandbox reset error:', error);
+            new Notice(`Failed to reset sandbox data: ${error instanceof Error ? error.message : String(error)}`, NOTICE_DURATION.error);
+          });
+        }
+        return true;
+      },
+    });
+  }
+
+  private async refreshMetadata(): Promise<void> {
+    await this.metadataCache.clear();
+    new Notice('Jira metadata cache cleared');
+  }
+
+  private async resetSandboxes(instances: JiraInstance[]): Promise<void> {
+    if (!confirm('Reset all sandbox instances to their demo data? Issues created in the sandbox will be lost.')) return;
+
+    const registry = this.container.get(SERVICE_TOKENS.SandboxRegistry);
+    for (const instance of instances) {
+      await registry.reset(instance.id);
+      this.clientPool.remove(instance.id);
+      await this.metadataCache.clear(instance.id);
+    }
+    new Notice('Sandbox data reset');
   }
 
   private async openProjectComparisonModal(): Promise<void> {
@@ -181,6 +411,7 @@ export class JiraBridgePlugin extends Plugin {
     }
 
     const modal = new ProjectComparisonModal(this.app, {
+      clientPool: this.clientPool,
       instances: this.settings.instances,
     });
 
@@ -230,6 +461,8 @@ export class JiraBridgePlugin extends Plugin {
       : [];
 
     const modal = new CreateTicketModal(this.app, {
+      clientPool: this.clientPool,
+      metadataCache: this.metadataCache,
       instances: this.settings.instances,
       context,
       initialSummary,
@@ -238,6 +471,12 @@ export class JiraBridgePlugin extends Plugin {
       customFields,
       frontmatterValues,
       projectConfig,
+      templateVariables: new TicketTemplateRenderer().createVariables(activeFile, {
+        summary: initialSummary,
+        description: initialDescription,
+        selection: selectedText,
+        frontmatter: activeFile ? this.app.metadataCache.getFileCache(activeFile)?.frontmatter : undefined,
+      }),
     });
 
     const result = await modal.open();
@@ -310,6 +549,36 @@ export class JiraBridgePlugin extends Plugin {
   }
 
   private setupEventListeners(): void {
+    this.registerEvent(
+      this.app.vault.on('rename', async (file, oldPath) => {
+        if (file instanceof TFile) {
+          this.linkedNotes.rename(file, oldPath);
+        }
+        await this.syncStateStore.rename(oldPath, file.path);
+      }),
+    );
+
+    this.registerEvent(
+      this.app.vault.on('delete', async file => {
+        await this.syncStateStore.remove(file.path);
+      }),
+    );
+
+    this.registerEvent(
+      this.app.metadataCache.on('changed', file => {
+        this.linkedNotes.update(file);
+        if (file.path === this.app.workspace.getActiveFile()?.path) {
+          this.statusBar.update(file.path);
+        }
+      }),
+    );
+
+    this.registerEvent(
+      this.app.metadataCache.on('deleted', file => {
+        this.linkedNotes.remove(file.path);
+      }),
+    );
+
     this.registerEvent(
       this.app.workspace.on('file-open', async file => {
         this.statusBar.update(file?.path || null);
@@ -348,6 +617,13 @@ export class JiraBridgePlugin extends Plugin {
               .setIcon('refresh-cw')
               .onClick(() => this.handleBulkStatusChangeFromFolder(file)),
           );
+
+          menu.addItem(item =>
+            item
+              .setTitle('Sync linked notes with Jira')
+              .setIcon('refresh-ccw')
+              .onClick(() => this.syncFolder(file)),
+          );
         }
       }),
     );
@@ -413,6 +689,8 @@ export class JiraBridgePlugin extends Plugin {
     });
 
     this.eventBus.on('settings:changed', () => {
+      this.clientPool.updateSettings(this.settings);
+      this.metadataCache.updateSettings(this.settings);
       this.mappingResolver.updateSettings(this.settings);
       this.statusBar.updateSettings(this.settings.ui);
 
@@ -425,7 +703,10 @@ export class JiraBridgePlugin extends Plugin {
   }
 
   private async handleBulkCreateFromFolder(folder: TFolder): Promise<void> {
-    const service = new BulkCreateService(this.app, this.settings);
+    const options = await this.pickBulkCreateTemplate(folder);
+    if (!options) return;
+
+    const service = new BulkCreateService(this.app, this.settings, this.clientPool, this.metadataCache);
     const progressModal = new BulkCreateProgressModal(this.app);
 
     progressModal.setOnCancel(() => {
@@ -435,9 +716,13 @@ export class JiraBridgePlugin extends Plugin {
 
     progressModal.open();
 
-    const result = await service.execute(folder, progress => {
-      progressModal.updateProgress(progress);
-    });
+    const result = await service.execute(
+      folder,
+      progress => {
+        progressModal.updateProgress(progress);
+      },
+      options,
+    );
 
     for (const created of result.created) {
       try {
@@ -456,6 +741,21 @@ export class JiraBridgePlugin extends Plugin {
     reportModal.open();
   }
 
+  private async pickBulkCreateTemplate(target: BulkOperationTarget): Promise<BulkCreateOptions | null> {
+    const files = collectMarkdownFiles(this.app, target);
+    const templateNames = new Set<string>();
+
+    for (const file of files) {
+      const templates = this.mappingResolver.resolve(file.path).projectMapping?.projectConfig?.templates ?? [];
+      templates.forEach(template => templateNames.add(template.name));
+    }
+
+    if (templateNames.size === 0) return {};
+
+    const modal = new TemplatePickerModal(this.app, { templateNames: [...templateNames], fileCount: files.length });
+    return modal.open();
+  }
+
   private async handleBulkStatusChangeFromFolder(folder: TFolder): Promise<void> {
     const enabledInstances = this.settings.instances.filter(i => i.enabled);
     if (enabledInstances.length === 0) {
@@ -464,6 +764,7 @@ export class JiraBridgePlugin extends Plugin {
     }
 
     const modal = new BulkStatusChangeModal(this.app, {
+      clientPool: this.clientPool,
       instances: enabledInstances,
       defaultInstanceId: enabledInstances.find(i => i.isDefault)?.id || enabledInstances[0].id,
       target: folder,
@@ -473,7 +774,7 @@ export class JiraBridgePlugin extends Plugin {
     const selection = await modal.open();
     if (!selection) return;
 
-    const service = new BulkStatusChangeService(this.app, this.settings, selection.instanceId);
+    const service = new BulkStatusChangeService(this.app, this.settings, selection.instanceId, this.clientPool);
     const progressModal = new BulkStatusChangeProgressModal(this.app);
 
     progressModal.setOnCancel(() => {
@@ -507,6 +808,7 @@ export class JiraBridgePlugin extends Plugin {
     const recentIssues: RecentIssue[] = (this.settings.recentIssues || []).sort((a, b) => b.timestamp - a.timestamp).slice(0, 10);
 
     const modal = new StatusChangeModal(this.app, {
+      clientPool: this.clientPool,
       instances: enabledInstances,
       recentIssues,
       defaultInstanceId: defaultInstance?.id,
@@ -548,6 +850,7 @@ export class JiraBridgePlugin extends Plugin {
     const currentIssueKey = readFrontmatterField(this.app, activeFile, 'issue_id');
 
     const modal = new LinkTicketModal(this.app, {
+      clientPool: this.clientPool,
       instances: enabledInstances,
       defaultInstanceId: context.instance?.id,
       currentIssueKey,
@@ -577,6 +880,12 @@ export class JiraBridgePlugin extends Plugin {
 
       const issueUrl = instance.baseUrl.replace(/\/+$/, '') + '/browse/' + result.issueKey;
 
+      const otherNotes = this.linkedNotes.getNotes(result.issueKey).filter(file => file.path !== activeFile.path);
+      if (otherNotes.length > 0) {
+        const names = otherNotes.map(file => file.basename).join(', ');
+        new Notice(`${result.issueKey} is already linked from: ${names}`, NOTICE_DURATION.warning);
+      }
+
       await addFrontmatterFields(this.app, activeFile, {
         issue_id: result.issueKey,
         issue_link: issueUrl,
@@ -597,8 +906,7 @@ export class JiraBridgePlugin extends Plugin {
     const instance = this.settings.instances.find(i => i.id === instanceId);
     if (!instance) return;
 
-    const { JiraClient } = await import('../api/JiraClient');
-    const client = new JiraClient(instance);
+    const client = this.clientPool.getClient(instance);
 
     try {
       const issue = await client.getIssue(issueKey, ['summary']);
@@ -649,6 +957,11 @@ export class JiraBridgePlugin extends Plugin {
         return;
       }
 
+      if (result.success && result.conflicts?.length) {
+        await this.resolveSyncConflicts(activeFile, result.ticketKey, result.conflicts);
+        return;
+      }
+
       if (result.success) {
         if (result.changes.length > 0) {
           new Notice(`Synced ${result.ticketKey}: ${result.changes.length} field(s) updated`, NOTICE_DURATION.success);
@@ -664,6 +977,155 @@ export class JiraBridgePlugin extends Plugin {
     }
   }
 
+  private async pushNoteToJira(file: TFile): Promise<void> {
+    const issueKey = this.linkedNotes.getIssueKey(file.path);
+    const context = this.mappingResolver.resolve(file.path);
+    if (!issueKey || !context.instance) return;
+
+    const projectConfig = context.projectMapping?.projectConfig;
+    const contentParsing = projectConfig?.contentParsing || DEFAULT_CONTENT_PARSING;
+    const notePushService = this.container.get(SERVICE_TOKENS.NotePushService);
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+
+    try {
+      const content = await this.app.vault.read(file);
+      const summary = parseSummaryFromContent(content, contentParsing.summaryPattern, contentParsing.summaryFlags);
+      if (!summary) {
+        new Notice('Could not find a summary in this note', NOTICE_DURATION.warning);
+        return;
+      }
+
+      const description = parseDescriptionFromContent(content, contentParsing.descriptionPattern, contentParsing.descriptionFlags) || '';
+      const changes = await notePushService.preparePush(context.instance, issueKey, {
+        summary,
+        description,
+        fields: notePushService.collectFields(frontmatter, projectConfig?.frontmatterMappings ?? []),
+        sourcePath: file.path,
+      });
+
+      if (changes.length === 0) {
+        new Notice(`${issueKey} is already up to date`, NOTICE_DURATION.info);
+        return;
+      }
+
+      const selected = await new PushNoteModal(this.app, { issueKey, changes }).open();
+      if (!selected || selected.length === 0) return;
+
+      await notePushService.push(context.instance, issueKey, selected);
+      new Notice(`Pushed ${selected.length} field(s) to ${issueKey}`, NOTICE_DURATION.success);
+    } catch (error) {
+      console.error('Push error:', error);
+      new Notice(mapJiraError(error), NOTICE_DURATION.error);
+    }
+  }
+
+  private async createChecklistSubtasks(file: TFile): Promise<void> {
+    const issueKey = this.linkedNotes.getIssueKey(file.path);
+    const instance = this.mappingResolver.resolve(file.path).instance;
+    if (!issueKey || !instance) return;
+
+    const service = new ChecklistSubtaskService(this.app, this.clientPool, this.metadataCache);
+    const progressModal = new BulkCreateProgressModal(this.app);
+
+    progressModal.setOnCancel(() => {
+      service.cancel();
+      progressModal.disableCancel();
+    });
+
+    progressModal.open();
+
+    try {
+      const result = await service.createSubtasks(file, { instance, issueKey }, progress => {
+        progressModal.updateProgress(progress);
+      });
+      progressModal.close();
+
+      if (result.created.length + result.skipped.length + result.failed.length === 0) {
+        new Notice('No unchecked items found under a "Tasks" heading', NOTICE_DURATION.info);
+        return;
+      }
+
+      new BulkCreateReportModal(this.app, result).open();
+    } catch (error) {
+      progressModal.close();
+      console.error('Subtask creation error:', error);
+      new Notice(mapJiraError(error), NOTICE_DURATION.error);
+    }
+  }
+
+  private async completeChecklistSubtasks(file: TFile): Promise<void> {
+    const instance = this.mappingResolver.resolve(file.path).instance;
+    if (!instance) return;
+
+    const service = new ChecklistSubtaskService(this.app, this.clientPool, this.metadataCache);
+
+    try {
+      const result = await service.completeCheckedSubtasks(file, instance);
+
+      if (result.failed.length > 0) {
+        new Notice(`Could not complete: ${result.failed.map(f => `${f.issueKey} (${f.error})`).join(', ')}`, NOTICE_DURATION.warning);
+      }
+
+      if (result.completed.length > 0) {
+        new Notice(`Completed ${result.completed.join(', ')}`, NOTICE_DURATION.success);
+      } else if (result.failed.length === 0) {
+        new Notice('No checked subtasks to complete', NOTICE_DURATION.info);
+      }
+    } catch (error) {
+      console.error('Subtask completion error:', error);
+      new Notice(mapJiraError(error), NOTICE_DURATION.error);
+    }
+  }
+
+  private async createIssueHierarchy(file: TFile): Promise<void> {
+    const { instance, projectKey } = this.mappingResolver.resolve(file.path);
+    if (!instance || !projectKey) return;
+
+    const target = { instance, projectKey };
+    const service = new IssueHierarchyService(this.app, this.clientPool, this.metadataCache);
+
+    try {
+      const plan = await service.buildPlan(file, target);
+      if (plan.nodes.length === 0) {
+        new Notice('No H1 headings found to create epics from', NOTICE_DURATION.info);
+        return;
+      }
+
+      const nodes = await new IssueHierarchyModal(this.app, { projectKey, plan }).open();
+      if (!nodes) return;
+
+      const progressModal = new BulkCreateProgressModal(this.app);
+      progressModal.setOnCancel(() => {
+        service.cancel();
+        progressModal.disableCancel();
+      });
+      progressModal.open();
+
+      const result = await service
+        .create(file, nodes, target, progress => {
+          progressModal.updateProgress(progress);
+        })
+        .finally(() => progressModal.close());
+
+      new BulkCreateReportModal(this.app, result).open();
+    } catch (error) {
+      console.error('Issue hierarchy error:', error);
+      new Notice(mapJiraError(error), NOTICE_DURATION.error);
+    }
+  }
+
+  private async resolveSyncConflicts(file: TFile, issueKey: string, conflicts: SyncConflict[]): Promise<void> {
+    const resolutions = await new SyncConflictModal(this.app, { issueKey, conflicts }).open();
+    if (!resolutions) {
+      new Notice(`${issueKey} has unresolved sync conflicts`, NOTICE_DURATION.warning);
+      return;
+    }
+
+    const syncService = this.container.get(SERVICE_TOKENS.SyncService);
+    const result = await syncService.resolveConflicts(file, resolutions);
+    new Notice(`Resolved ${conflicts.length} conflict(s) for ${result.ticketKey}`, NOTICE_DURATION.success);
+  }
+
   private async syncOpenNotes(): Promise<void> {
     const syncService = this.container.get(SERVICE_TOKENS.SyncService);
     const stats = await syncService.syncAllOpenNotes({ force: true });
@@ -673,7 +1135,73 @@ export class JiraBridgePlugin extends Plugin {
       return;
     }
 
-    new Notice(`Synced ${stats.synced}/${stats.total} notes, ${stats.changes} field(s) updated`, NOTICE_DURATION.success);
+    const conflicts = stats.conflicts > 0 ? `, ${stats.conflicts} conflict(s) need review` : '';
+    new Notice(`Synced ${stats.synced}/${stats.total} notes, ${stats.changes} field(s) updated${conflicts}`, NOTICE_DURATION.success);
+  }
+
+  private async syncVault(): Promise<void> {
+    new Notice('Syncing all linked notes with Jira...', NOTICE_DURATION.info);
+
+    const syncService = this.container.get(SERVICE_TOKENS.SyncService);
+    const stats = await syncService.syncVault({ force: true, silent: true });
+    this.showSyncStats(stats, 'No notes with linked issues');
+  }
+
+  private async syncFolder(folder: TFolder): Promise<void> {
+    new Notice(`Syncing linked notes in ${folder.path || '/'}...`, NOTICE_DURATION.info);
+
+    const syncService = this.container.get(SERVICE_TOKENS.SyncService);
+    const stats = await syncService.syncFolder(folder, { force: true, silent: true });
+    this.showSyncStats(stats, 'No notes in this folder');
+  }
+
+  private async syncProjectNotes(mapping: FolderMapping): Promise<void> {
+    new Notice(`Syncing ${mapping.projectKey} notes with Jira...`, NOTICE_DURATION.info);
+
+    const syncService = this.container.get(SERVICE_TOKENS.SyncService);
+    const stats = await syncService.syncMapping(mapping, { force: true, silent: true });
+    this.showSyncStats(stats, `No linked notes in ${mapping.projectKey} mapping`);
+  }
+
+  private async openSyncJqlModal(): Promise<void> {
+    const enabledInstances = this.settings.instances.filter(i => i.enabled);
+    if (enabledInstances.length === 0) {
+      new Notice('No Jira instances configured');
+      return;
+    }
+
+    const activeFile = this.app.workspace.getActiveFile();
+    const context = activeFile ? this.mappingResolver.resolve(activeFile.path) : null;
+
+    const modal = new SyncJqlModal(this.app, {
+      instances: enabledInstances,
+      defaultInstanceId: context?.instance?.id,
+    });
+
+    const result = await modal.open();
+    if (!result) return;
+
+    const syncService = this.container.get(SERVICE_TOKENS.SyncService);
+    try {
+      const stats = await syncService.syncJql(result.instanceId, result.jql, { force: true, silent: true });
+      this.showSyncStats(stats, 'No linked notes match this query');
+    } catch (error) {
+      new Notice(`JQL sync failed: ${mapJiraError(error)}`, NOTICE_DURATION.error);
+    }
+  }
+
+  private showSyncStats(stats: SyncStats, emptyMessage: string): void {
+    if (stats.total === 0) {
+      new Notice(emptyMessage, NOTICE_DURATION.info);
+      return;
+    }
+
+    const conflicts = stats.conflicts > 0 ? `, ${stats.conflicts} conflict(s) need review` : '';
+    const failed = stats.failed > 0 ? `, ${stats.failed} failed` : '';
+    new Notice(
+      `Synced ${stats.synced}/${stats.total} notes, ${stats.changes} field(s) updated${conflicts}${failed}`,
+      NOTICE_DURATION.success,
+    );
   }
 
   private async handleBulkCreateFromSelection(files: TFile[]): Promise<void> {
@@ -688,7 +1216,10 @@ export class JiraBridgePlugin extends Plugin {
       return;
     }
 
-    const service = new BulkCreateService(this.app, this.settings);
+    const options = await this.pickBulkCreateTemplate(validFiles);
+    if (!options) return;
+
+    const service = new BulkCreateService(this.app, this.settings, this.clientPool, this.metadataCache);
     const progressModal = new BulkCreateProgressModal(this.app);
 
     progressModal.setOnCancel(() => {
@@ -699,9 +1230,13 @@ export class JiraBridgePlugin extends Plugin {
     progressModal.open();
     this.clearSelection();
 
-    const result = await service.execute(validFiles, progress => {
-      progressModal.updateProgress(progress);
-    });
+    const result = await service.execute(
+      validFiles,
+      progress => {
+        progressModal.updateProgress(progress);
+      },
+      options,
+    );
 
     for (const created of result.created) {
       try {
@@ -739,6 +1274,7 @@ export class JiraBridgePlugin extends Plugin {
     }
 
     const modal = new BulkStatusChangeModal(this.app, {
+      clientPool: this.clientPool,
       instances: enabledInstances,
       defaultInstanceId: enabledInstances.find(i => i.isDefault)?.id || enabledInstances[0].id,
       target: validFiles,
@@ -750,7 +1286,7 @@ export class JiraBridgePlugin extends Plugin {
 
     this.clearSelection();
 
-    const service = new BulkStatusChangeService(this.app, this.settings, selection.instanceId);
+    const service = new BulkStatusChangeService(this.app, this.settings, selection.instanceId, this.clientPool);
     const progressModal = new BulkStatusChangeProgressModal(this.app);
 
     progressModal.setOnCancel(() => {
@@ -7,4 +7,6 @@ export type { BulkStatusChangeProgress, BulkStatusChangeResult } from './status-
 export * from './link-ticket';
 export * from './sync';
 export * from './project-comparison';
+export * from './sandbox';
 export * from './settings';
+export * from './linked-notes';
@@ -1,7 +1,7 @@
 import { App, debounce } from 'obsidian';
 import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
 import type { LinkTicketModalOptions, LinkTicketModalResult, LinkTicketModalState } from './types';
-import { JiraClient } from '../../../../api/JiraClient';
+import type { JiraClient } from '../../../../api/JiraClient';
 import { mapJiraError } from '../../../../utils';
 
 export class LinkTicketModal extends BaseModal<LinkTicketModalResult> {
@@ -30,7 +30,7 @@ export class LinkTicketModal extends BaseModal<LinkTicketModalResult> {
 
     const instance = options.instances.find(i => i.id === defaultInstanceId);
     if (instance) {
-      this.client = new JiraClient(instance);
+      this.client = options.clientPool.getClient(instance);
     }
 
     this.debouncedSearch = debounce(() => this.performSearch(), 300, true);
@@ -81,7 +81,7 @@ export class LinkTicketModal extends BaseModal<LinkTicketModalResult> {
     instanceSelect.addEventListener('change', () => {
       this.state.selectedInstanceId = instanceSelect.value;
       const instance = this.options.instances.find(i => i.id === this.state.selectedInstanceId);
-      this.client = instance ? new JiraClient(instance) : null;
+      this.client = instance ? this.options.clientPool.getClient(instance) : null;
       this.state.searchResults = [];
       this.state.selectedIssueKey = null;
       this.updateResultsDisplay();
@@ -1,6 +1,8 @@
+import type { JiraClientPool } from '../../../../api/JiraClientPool';
 import type { JiraInstance } from '../../../../types';
 
 export interface LinkTicketModalOptions {
+  clientPool: JiraClientPool;
   instances: JiraInstance[];
   defaultInstanceId?: string;
   currentIssueKey?: string;
@@ -0,0 +1,78 @@
+import type { App, TFile } from 'obsidian';
+
+interface LinkedNote {
+  file: TFile;
+  issueKey: string;
+}
+
+export class LinkedNotesIndex {
+  private notes = new Map<string, LinkedNote>();
+  private pathsByKey = new Map<string, Set<string>>();
+
+  constructor(private app: App) {}
+
+  rebuild(): void {
+    this.notes.clear();
+    this.pathsByKey.clear();
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      this.update(file);
+    }
+  }
+
+  update(file: TFile): void {
+    this.remove(file.path);
+    if (file.extension !== 'md') return;
+
+    const issueId: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.issue_id;
+    if (typeof issueId !== 'string' || !issueId.trim()) return;
+
+    this.add(file, issueId.trim().toUpperCase());
+  }
+
+  rename(file: TFile, oldPath: string): void {
+    const entry = this.notes.get(oldPath);
+    if (!entry) return;
+
+    this.remove(oldPath);
+    this.add(file, entry.issueKey);
+  }
+
+  remove(path: string): void {
+    const entry = this.notes.get(path);
+    if (!entry) return;
+
+    this.notes.delete(path);
+    const paths = this.pathsByKey.get(entry.issueKey);
+    paths?.delete(path);
+    if (paths?.size === 0) {
+      this.pathsByKey.delete(entry.issueKey);
+    }
+  }
+
+  getNotes(issueKey: string): TFile[] {
+    const paths = this.pathsByKey.get(issueKey.trim().toUpperCase()) ?? [];
+
+    return Array.from(paths).flatMap(path => this.notes.get(path)?.file ?? []);
+  }
+
+  getIssueKey(path: string): string | undefined {
+    return this.notes.get(path)?.issueKey;
+  }
+
+  getIssueKeys(): string[] {
+    return Array.from(this.pathsByKey.keys());
+  }
+
+  getLinkedFiles(): TFile[] {
+    return Array.from(this.notes.values(), entry => entry.file);
+  }
+
+  private add(file: TFile, issueKey: string): void {
+    this.notes.set(file.path, { file, issueKey });
+
+    const paths = this.pathsByKey.get(issueKey) ?? new Set<string>();
+    paths.add(file.path);
+    this.pathsByKey.set(issueKey, paths);
+  }
+}
@@ -0,0 +1 @@
+export { LinkedNotesIndex } from './LinkedNotesIndex';
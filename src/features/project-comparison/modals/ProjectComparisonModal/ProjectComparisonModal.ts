@@ -2,7 +2,6 @@ import { App, Notice, DropdownComponent, setIcon } from 'obsidian';
 import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
 import type { JiraProject, ConfigurationDiff } from '../../../../types';
 import type { ComparisonStep, ComparisonState, ProjectSelection, ProjectComparisonModalOptions } from './types';
-import { JiraClient } from '../../../../api/JiraClient';
 import { ProjectComparisonService, type ComparisonProjectInfo } from '../../services';
 
 function isComparisonStep(value: number): value is ComparisonStep {
@@ -236,7 +235,7 @@ export class ProjectComparisonModal extends BaseModal<void> {
     this.isLoading = true;
 
     try {
-      const client = new JiraClient(instance);
+      const client = this.options.clientPool.getClient(instance);
       const projects = await client.getProjects();
 
       if (which === 'A') {
@@ -276,8 +275,8 @@ export class ProjectComparisonModal extends BaseModal<void> {
         throw new Error('Instance not found');
       }
 
-      const clientA = new JiraClient(instanceA);
-      const clientB = new JiraClient(instanceB);
+      const clientA = this.options.clientPool.getClient(instanceA);
+      const clientB = this.options.clientPool.getClient(instanceB);
 
       const result = await this.comparisonService.compare(clientA, this.state.projectA.projectKey, clientB, this.state.projectB.projectKey);
 
@@ -1,3 +1,4 @@
+import type { JiraClientPool } from '../../../../api/JiraClientPool';
 import type { ConfigurationDiff } from '../../../../types';
 
 export type ComparisonStep = 1 | 2 | 3 | 4;
@@ -32,5 +33,6 @@ export interface ProjectInfo {
 }
 
 export interface ProjectComparisonModalOptions {
+  clientPool: JiraClientPool;
   instances: import('../../../../types').JiraInstance[];
 }
@@ -0,0 +1,504 @@
+import type { SandboxData, SandboxIssue, SandboxSprint, SandboxStatus } from '../../../types';
+import { SANDBOX_BASE_URL } from './createSandboxData';
+import { JqlError, parseJql } from './jql';
+import type { SandboxRequest, SandboxResponse } from './types';
+
+type RouteHandler = (request: SandboxRequest, params: string[]) => SandboxResponse | Promise<SandboxResponse>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+const CATEGORY_INFO: Record<SandboxStatus['category'], { id: number; key: string; name: string }> = {
+  new: { id: 2, key: 'new', name: 'To Do' },
+  indeterminate: { id: 4, key: 'indeterminate', name: 'In Progress' },
+  done: { id: 3, key: 'done', name: 'Done' },
+};
+
+const CREATE_FIELDS = [
+  { fieldId: 'assignee', name: 'Assignee', required: false, schema: { type: 'user', system: 'assignee' } },
+  { fieldId: 'labels', name: 'Labels', required: false, schema: { type: 'array', items: 'string', system: 'labels' } },
+  { fieldId: 'duedate', name: 'Due date', required: false, schema: { type: 'date', system: 'duedate' } },
+  { fieldId: 'parent', name: 'Parent', required: false, schema: { type: 'issuelink', system: 'parent' } },
+];
+
+function ok(json: unknown = {}): SandboxResponse {
+  return { status: 200, json };
+}
+
+function noContent(): SandboxResponse {
+  return { status: 204 };
+}
+
+function notFound(message: string): SandboxResponse {
+  return { status: 404, json: { errorMessages: [message], errors: {} } };
+}
+
+function badRequest(errorMessages: string[], errors: Record<string, string> = {}): SandboxResponse {
+  return { status: 400, json: { errorMessages, errors } };
+}
+
+function paged<T>(items: T[], request: SandboxRequest, defaultSize: number = 50): SandboxResponse {
+  const startAt = Number(request.query.get('startAt') ?? 0);
+  const maxResults = Number(request.query.get('maxResults') ?? defaultSize);
+  const values = items.slice(startAt, startAt + maxResults);
+  return ok({ values, startAt, maxResults, total: items.length, isLast: startAt + values.length >= items.length });
+}
+
+function readRef(value: unknown, key: 'id' | 'key' | 'name' | 'accountId'): string | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const ref = (value as Record<string, unknown>)[key];
+  return typeof ref === 'string' ? ref : undefined;
+}
+
+export class SandboxJira {
+  private routes: Route[] = [];
+
+  constructor(
+    private data: SandboxData,
+    private onChange: (data: SandboxData) => void | Promise<void> = () => {},
+    private now: () => Date = () => new Date(),
+  ) {
+    this.registerRoutes();
+  }
+
+  getData(): SandboxData {
+    return this.data;
+  }
+
+  async reset(data: SandboxData): Promise<void> {
+    this.data = data;
+    await this.onChange(this.data);
+  }
+
+  async handle(request: SandboxRequest): Promise<SandboxResponse> {
+    const path = request.path.replace(/^\/rest\/api\/[23]/, '/api').replace(/^\/rest\/agile\/1\.0/, '/agile');
+
+    for (const route of this.routes) {
+      if (route.method !== request.method) continue;
+      const match = path.match(route.pattern);
+      if (match) {
+        try {
+          return await route.handler(request, match.slice(1).map(decodeURIComponent));
+        } catch (error) {
+          if (error instanceof JqlError) return badRequest(error.messages);
+          return badRequest([error instanceof Error ? error.message : String(error)]);
+        }
+      }
+    }
+
+    return notFound(`${request.method} ${request.path} is not supported by the sandbox`);
+  }
+
+  private route(method: string, pattern: RegExp, handler: RouteHandler): void {
+    this.routes.push({ method, pattern, handler });
+  }
+
+  private registerRoutes(): void {
+    this.route('GET', /^\/api\/serverInfo$/, () => ok({ baseUrl: SANDBOX_BASE_URL, version: 'sandbox', deploymentType: 'Cloud' }));
+    this.route('GET', /^\/api\/myself$/, () => ok(this.data.currentUser));
+    this.route('GET', /^\/api\/project\/search$/, request =>
+      paged(
+        this.data.projects.map(p => this.toProject(p.key)),
+        request,
+      ),
+    );
+    this.route('GET', /^\/api\/project$/, () => ok(this.data.projects.map(p => this.toProject(p.key))));
+    this.route('GET', /^\/api\/project\/([^/]+)$/, (_, [key]) => this.getProject(key));
+    this.route('GET', /^\/api\/project\/([^/]+)\/statuses$/, (_, [key]) => this.getProjectStatuses(key));
+    this.route('GET', /^\/api\/issue\/createmeta\/([^/]+)\/issuetypes$/, (_, [key]) => this.getCreateMetaIssueTypes(key));
+    this.route('GET', /^\/api\/issue\/createmeta\/([^/]+)\/issuetypes\/([^/]+)$/, () =>
+      ok({ fields: CREATE_FIELDS, values: CREATE_FIELDS }),
+    );
+    this.route('GET', /^\/api\/priority$/, () => ok(this.data.priorities));
+    this.route('GET', /^\/api\/user\/assignable\/search$/, request => {
+      const response = paged(this.data.users, request);
+      return ok((response.json as { values: unknown[] }).values);
+    });
+    this.route('GET', /^\/api\/label$/, request => paged(this.data.labels, request, 1000));
+    this.route('GET', /^\/api\/field\/search$/, request => paged(this.getFields(), request));
+    this.route('GET', /^\/api\/field$/, () => ok(this.getFields()));
+    this.route('GET', /^\/api\/search(?:\/jql)?$/, request => this.search(request));
+    this.route('POST', /^\/api\/issue$/, request => this.createIssue(request));
+    this.route('GET', /^\/api\/issue\/([^/]+)$/, (request, [key]) => this.getIssue(request, key));
+    this.route('PUT', /^\/api\/issue\/([^/]+)$/, (request, [key]) => this.updateIssue(request, key));
+    this.route('POST', /^\/api\/issue\/([^/]+)\/attachments$/, (request, [key]) => this.addAttachment(request, key));
+    this.route('GET', /^\/api\/issue\/([^/]+)\/comment$/, (request, [key]) => this.getComments(request, key));
+    this.route('GET', /^\/api\/issue\/([^/]+)\/transitions$/, (_, [key]) => this.getTransitions(key));
+    this.route('POST', /^\/api\/issue\/([^/]+)\/transitions$/, (request, [key]) => this.transitionIssue(request, key));
+
+    this.route('GET', /^\/agile\/board$/, request => this.getBoards(request));
+    this.route('GET', /^\/agile\/board\/(\d+)\/sprint$/, (request, [boardId]) => this.getSprints(request, Number(boardId)));
+    this.route('GET', /^\/agile\/board\/(\d+)\/configuration$/, (_, [boardId]) => this.getBoardConfiguration(Number(boardId)));
+    this.route('GET', /^\/agile\/board\/(\d+)\/quickfilter$/, request => paged([], request));
+    this.route('GET', /^\/agile\/board\/(\d+)\/backlog$/, (request, [boardId]) => this.getBacklog(request, Number(boardId)));
+    this.route('GET', /^\/agile\/issue\/([^/]+)$/, (_, [key]) => this.getSprintInfo(key));
+    this.route('POST', /^\/agile\/sprint\/(\d+)\/issue$/, (request, [sprintId]) => this.moveIssues(request, Number(sprintId)));
+    this.route('POST', /^\/agile\/backlog(?:\/\d+)?\/issue$/, request => this.moveIssues(request, null));
+    this.route('POST', /^\/agile\/board\/(\d+)\/issue$/, request => this.moveIssues(request, null));
+  }
+
+  private findIssue(key: string): SandboxIssue | undefined {
+    const normalized = key.toUpperCase();
+    return this.data.issues.find(issue => issue.key === normalized || issue.id === key);
+  }
+
+  private toStatus(status: SandboxStatus): Record<string, unknown> {
+    return { id: status.id, name: status.name, statusCategory: CATEGORY_INFO[status.category] };
+  }
+
+  private toIssueFields(issue: SandboxIssue, requested?: string[]): Record<string, unknown> {
+    const statusId = readRef(issue.fields.status, 'id');
+    const status = this.data.workflow.statuses.find(s => s.id === statusId);
+    const fields: Record<string, unknown> = { ...issue.fields, status: status ? this.toStatus(status) : issue.fields.status };
+
+    if (!requested || requested.includes('*all')) return fields;
+    return Object.fromEntries(requested.filter(name => name in fields).map(name => [name, fields[name]]));
+  }
+
+  private toIssue(issue: SandboxIssue, requested?: string[]): Record<string, unknown> {
+    return {
+      id: issue.id,
+      key: issue.key,
+      self: `${SANDBOX_BASE_URL}/rest/api/3/issue/${issue.id}`,
+      fields: this.toIssueFields(issue, requested),
+    };
+  }
+
+  private toProject(key: string): Record<string, unknown> {
+    const project = this.data.projects.find(p => p.key === key)!;
+    return { id: project.id, key: project.key, name: project.name, projectTypeKey: 'software' };
+  }
+
+  private projectIssueTypes(key: string) {
+    const project = this.data.projects.find(p => p.key.toUpperCase() === key.toUpperCase());
+    if (!project) return null;
+    return this.data.issueTypes.filter(type => project.issueTypeIds.includes(type.id));
+  }
+
+  private getProject(key: string): SandboxResponse {
+    const issueTypes = this.projectIssueTypes(key);
+    if (!issueTypes) return notFound(`No project could be found with key '${key}'.`);
+    const project = this.data.projects.find(p => p.key.toUpperCase() === key.toUpperCase())!;
+    return ok({ ...this.toProject(project.key), issueTypes });
+  }
+
+  private getProjectStatuses(key: string): SandboxResponse {
+    const issueTypes = this.projectIssueTypes(key);
+    if (!issueTypes) return notFound(`No project could be found with key '${key}'.`);
+    const statuses = this.data.workflow.statuses.map(status => this.toStatus(status));
+    return ok(issueTypes.map(type => ({ id: type.id, name: type.name, statuses })));
+  }
+
+  private getCreateMetaIssueTypes(key: string): SandboxResponse {
+    const issueTypes = this.projectIssueTypes(key);
+    if (!issueTypes) return notFound(`No project could be found with key '${key}'.`);
+    return ok({ issueTypes, values: issueTypes });
+  }
+
+  private getFields(): Record<string, unknown>[] {
+    const system = ['summary', 'description', 'status', 'priority', 'assignee', 'reporter', 'labels', 'duedate', 'created', 'updated'];
+    return system.map(id => ({ id, key: id, name: id.charAt(0).toUpperCase() + id.slice(1), schema: { type: 'string', system: id } }));
+  }
+
+  private search(request: SandboxRequest): SandboxResponse {
+    const jql = request.query.get('jql') ?? '';
+    const fields = request.query.get('fields')?.split(',').filter(Boolean);
+    const maxResults = Number(request.query.get('maxResults') ?? 50);
+    const token = request.query.get('nextPageToken');
+    const startAt = token ? Number(token) : Number(request.query.get('startAt') ?? 0);
+
+    const query = parseJql(jql, this.data, this.now().getTime());
+    const matches = this.data.issues.filter(query.matches).sort(query.compare);
+    const page = matches.slice(startAt, startAt + maxResults);
+    const nextStart = startAt + page.length;
+    const isLast = nextStart >= matches.length;
+
+    return ok({
+      issues: page.map(issue => this.toIssue(issue, fields)),
+      startAt,
+      maxResults,
+      total: matches.length,
+      isLast,
+      nextPageToken: isLast ? undefined : String(nextStart),
+    });
+  }
+
+  private async createIssue(request: SandboxRequest): Promise<SandboxResponse> {
+    const fields = (request.body as { fields?: Record<string, unknown> } | undefined)?.fields ?? {};
+    const errors: Record<string, string> = {};
+
+    const projectKey = readRef(fields.project, 'key');
+    const project = this.data.projects.find(p => p.key === projectKey || p.id === readRef(fields.project, 'id'));
+    if (!project) errors.project = 'valid project is required';
+
+    const issueType = this.data.issueTypes.find(
+      t => t.id === readRef(fields.issuetype, 'id') || t.name === readRef(fields.issuetype, 'name'),
+    );
+    if (!issueType || (project && !project.issueTypeIds.includes(issueType.id))) errors.issuetype = 'valid issue type is required';
+
+    if (typeof fields.summary !== 'string' || fields.summary.trim() === '') errors.summary = 'You must specify a summary of the issue.';
+
+    const priorityId = readRef(fields.priority, 'id');
+    if (priorityId && !this.data.priorities.some(p => p.id === priorityId)) errors.priority = 'The priority selected is invalid.';
+
+    const parentKey = readRef(fields.parent, 'key');
+    if (parentKey && !this.findIssue(parentKey)) errors.parent = `Issue '${parentKey}' does not exist.`;
+
+    if (Object.keys(errors).length > 0 || !project || !issueType) return badRequest([], errors);
+
+    const status = this.data.workflow.statuses.find(s => s.id === this.data.workflow.initialStatusId)!;
+    const priority = this.data.priorities.find(p => p.id === priorityId) ?? this.data.priorities.find(p => p.name === 'Medium');
+    const timestamp = this.now().toISOString();
+    const issue: SandboxIssue = {
+      id: String(this.data.nextIssueId++),
+      key: `${project.key}-${project.nextIssueNumber++}`,
+      projectKey: project.key,
+      sprintId: null,
+      fields: {
+        labels: [],
+        assignee: null,
+        ...this.normalizeFields(fields),
+        issuetype: { id: issueType.id, name: issueType.name, subtask: issueType.subtask },
+        priority: priority ? { id: priority.id, name: priority.name } : null,
+        status: { id: status.id, name: status.name },
+        reporter: { accountId: this.data.currentUser.accountId, displayName: this.data.currentUser.displayName },
+        created: timestamp,
+        updated: timestamp,
+      },
+    };
+    delete issue.fields.project;
+
+    this.data.issues.push(issue);
+    await this.onChange(this.data);
+
+    return { status: 201, json: { id: issue.id, key: issue.key, self: `${SANDBOX_BASE_URL}/rest/api/3/issue/${issue.id}` } };
+  }
+
+  private normalizeFields(fields: Record<string, unknown>): Record<string, unknown> {
+    const normalized: Record<string, unknown> = {};
+
+    for (const [name, value] of Object.entries(fields)) {
+      const accountId = readRef(value, 'accountId') ?? readRef(value, 'name');
+      const user = accountId ? this.data.users.find(u => u.accountId === accountId) : undefined;
+
+      if (user) {
+        normalized[name] = { accountId: user.accountId, displayName: user.displayName };
+      } else if (name === 'parent' && readRef(value, 'key')) {
+        const parent = this.findIssue(readRef(value, 'key')!);
+        normalized[name] = parent ? { id: parent.id, key: parent.key, fields: { summary: parent.fields.summary } } : value;
+      } else if (name === 'priority' && (readRef(value, 'id') || readRef(value, 'name'))) {
+        normalized[name] = this.data.priorities.find(p => p.id === readRef(value, 'id') || p.name === readRef(value, 'name')) ?? value;
+      } else {
+        normalized[name] = value;
+      }
+    }
+
+    if (Array.isArray(normalized.labels)) {
+      for (const label of normalized.labels) {
+        if (typeof label === 'string' && !this.data.labels.includes(label)) this.data.labels.push(label);
+      }
+    }
+
+    return normalized;
+  }
+
+  private getIssue(request: SandboxRequest, key: string): SandboxResponse {
+    const issue = this.findIssue(key);
+    if (!issue) return notFound('Issue does not exist or you do not have permission to see it.');
+    return ok(this.toIssue(issue, request.query.get('fields')?.split(',').filter(Boolean)));
+  }
+
+  private async updateIssue(request: SandboxRequest, key: string): Promise<SandboxResponse> {
+    const issue = this.findIssue(key);
+    if (!issue) return notFound('Issue does not exist or you do not have permission to see it.');
+
+    const fields = (request.body as { fields?: Record<string, unknown> } | undefined)?.fields ?? {};
+    const readOnly = ['status', 'issuetype', 'project', 'created', 'updated', 'reporter'];
+    const errors: Record<string, string> = {};
+    for (const name of Object.keys(fields)) {
+      if (readOnly.includes(name)) errors[name] = `Field '${name}' cannot be set. It is not on the appropriate screen, or unknown.`;
+    }
+    if ('summary' in fields && (typeof fields.summary !== 'string' || fields.summary.trim() === '')) {
+      errors.summary = 'You must specify a summary of the issue.';
+    }
+    if (Object.keys(errors).length > 0) return badRequest([], errors);
+
+    Object.assign(issue.fields, this.normalizeFields(fields), { updated: this.now().toISOString() });
+    await this.onChange(this.data);
+    return noContent();
+  }
+
+  private async addAttachment(request: SandboxRequest, key: string): Promise<SandboxResponse> {
+    const issue = this.findIssue(key);
+    if (!issue) return notFound('Issue does not exist or you do not have permission to see it.');
+    if (!(request.body instanceof ArrayBuffer)) return badRequest(['Attachment upload must be multipart/form-data.']);
+
+    const part = new TextDecoder().decode(request.body.slice(0, 1024));
+    const filename = part.match(/filename="([^"]*)"/)?.[1];
+    if (!filename) return badRequest(['No file was attached.']);
+
+    const id = String(this.data.nextIssueId++);
+    const attachment = {
+      id,
+      filename,
+      mimeType: part.match(/Content-Type: ([^\r\n]+)/)?.[1] ?? 'application/octet-stream',
+      size: request.body.byteLength,
+      content: `${SANDBOX_BASE_URL}/rest/api/3/attachment/content/${id}`,
+    };
+
+    const attachments = Array.isArray(issue.fields.attachment) ? issue.fields.attachment : [];
+    issue.fields.attachment = [...attachments, attachment];
+    await this.onChange(this.data);
+
+    return ok([attachment]);
+  }
+
+  private getComments(request: SandboxRequest, key: string): SandboxResponse {
+    const issue = this.findIssue(key);
+    if (!issue) return notFound('Issue does not exist or you do not have permission to see it.');
+
+    const descending = request.query.get('orderBy') === '-created';
+    const comments = [...(issue.comments ?? [])]
+      .sort((a, b) => (descending ? b.created.localeCompare(a.created) : a.created.localeCompare(b.created)))
+      .map(comment => {
+        const author = this.data.users.find(u => u.accountId === comment.authorId);
+        return {
+          id: comment.id,
+          author: author && { accountId: author.accountId, displayName: author.displayName },
+          body: comment.body,
+          created: comment.created,
+          updated: comment.updated,
+        };
+      });
+
+    const { values, ...page } = paged(comments, request).json as { values: unknown[] };
+    return ok({ ...page, comments: values });
+  }
+
+  private availableTransitions(issue: SandboxIssue) {
+    const statusId = readRef(issue.fields.status, 'id');
+    return this.data.workflow.transitions.filter(
+      t => t.to !== statusId && (!t.from || (statusId !== undefined && t.from.includes(statusId))),
+    );
+  }
+
+  private getTransitions(key: string): SandboxResponse {
+    const issue = this.findIssue(key);
+    if (!issue) return notFound('Issue does not exist or you do not have permission to see it.');
+
+    const transitions = this.availableTransitions(issue).map(transition => {
+      const status = this.data.workflow.statuses.find(s => s.id === transition.to)!;
+      return {
+        id: transition.id,
+        name: transition.name,
+        to: this.toStatus(status),
+        hasScreen: false,
+        isGlobal: !transition.from,
+        isInitial: false,
+        isConditional: false,
+      };
+    });
+    return ok({ transitions });
+  }
+
+  private async transitionIssue(request: SandboxRequest, key: string): Promise<SandboxResponse> {
+    const issue = this.findIssue(key);
+    if (!issue) return notFound('Issue does not exist or you do not have permission to see it.');
+
+    const transitionId = readRef((request.body as { transition?: unknown } | undefined)?.transition, 'id');
+    const transition = this.availableTransitions(issue).find(t => t.id === transitionId);
+    if (!transition) return badRequest([`Transition id '${transitionId}' is not valid for this issue.`]);
+
+    const status = this.data.workflow.statuses.find(s => s.id === transition.to)!;
+    issue.fields.status = { id: status.id, name: status.name };
+    issue.fields.updated = this.now().toISOString();
+    await this.onChange(this.data);
+    return noContent();
+  }
+
+  private getBoards(request: SandboxRequest): SandboxResponse {
+    const projectKey = request.query.get('projectKeyOrId');
+    const project = this.data.projects.find(p => p.key === projectKey || p.id === projectKey);
+    const boards = this.data.boards
+      .filter(board => !projectKey || board.projectKey === project?.key)
+      .map(board => ({
+        id: board.id,
+        name: board.name,
+        type: board.type,
+        location: { projectKey: board.projectKey, projectName: project?.name },
+      }));
+    return paged(boards, request);
+  }
+
+  private getSprints(request: SandboxRequest, boardId: number): SandboxResponse {
+    const states = request.query.get('state')?.split(',');
+    const sprints = this.data.sprints.filter(s => s.boardId === boardId && (!states || states.includes(s.state)));
+    return paged(
+      sprints.map(sprint => this.toSprint(sprint)),
+      request,
+    );
+  }
+
+  private toSprint(sprint: SandboxSprint): Record<string, unknown> {
+    return {
+      id: sprint.id,
+      name: sprint.name,
+      state: sprint.state,
+      startDate: sprint.startDate,
+      endDate: sprint.endDate,
+      goal: sprint.goal,
+    };
+  }
+
+  private getBoardConfiguration(boardId: number): SandboxResponse {
+    const board = this.data.boards.find(b => b.id === boardId);
+    if (!board) return notFound(`Board ${boardId} does not exist.`);
+
+    return ok({
+      id: board.id,
+      name: board.name,
+      type: board.type,
+      filter: { id: String(board.id), name: `Filter for ${board.name}`, query: `project = ${board.projectKey} ORDER BY Rank ASC` },
+      columnConfig: {
+        columns: this.data.workflow.statuses.map(status => ({ name: status.name, statuses: [{ id: status.id }] })),
+      },
+    });
+  }
+
+  private getBacklog(request: SandboxRequest, boardId: number): SandboxResponse {
+    const board = this.data.boards.find(b => b.id === boardId);
+    if (!board) return notFound(`Board ${boardId} does not exist.`);
+
+    const jql = request.query.get('jql');
+    const query = jql ? parseJql(jql, this.data, this.now().getTime()) : null;
+    const issues = this.data.issues
+      .filter(issue => issue.projectKey === board.projectKey && issue.sprintId === null)
+      .filter(issue => !query || query.matches(issue));
+    return ok({ issues: issues.map(issue => this.toIssue(issue)) });
+  }
+
+  private getSprintInfo(key: string): SandboxResponse {
+    const issue = this.findIssue(key);
+    if (!issue) return notFound('Issue does not exist or you do not have permission to see it.');
+
+    const sprint = this.data.sprints.find(s => s.id === issue.sprintId);
+    return ok({ key: issue.key, fields: { sprint: sprint ? this.toSprint(sprint) : null } });
+  }
+
+  private async moveIssues(request: SandboxRequest, sprintId: number | null): Promise<SandboxResponse> {
+    if (sprintId !== null && !this.data.sprints.some(s => s.id === sprintId)) return notFound(`Sprint ${sprintId} does not exist.`);
+
+    const keys = (request.body as { issues?: string[] } | undefined)?.issues ?? [];
+    const missing = keys.filter(key => !this.findIssue(key));
+    if (missing.length > 0) return badRequest([`Issues not found: ${missing.join(', ')}`]);
+
+    for (const key of keys) {
+      this.findIssue(key)!.sprintId = sprintId;
+    }
+    await this.onChange(this.data);
+    return noContent();
+  }
+}
@@ -0,0 +1,34 @@
+import type { JiraTransport } from '../../../api/types';
+import type { SandboxData } from '../../../types';
+import { createSandboxData } from './createSandboxData';
+import { SandboxJira } from './SandboxJira';
+import { SandboxTransport } from './SandboxTransport';
+import type { SandboxPersistence } from './types';
+
+export class SandboxRegistry {
+  private sandboxes = new Map<string, SandboxJira>();
+
+  constructor(private persistence: SandboxPersistence) {}
+
+  get(instanceId: string): SandboxJira {
+    return this.sandboxes.get(instanceId) ?? this.create(instanceId, this.persistence.load(instanceId) ?? createSandboxData());
+  }
+
+  getTransport(instanceId: string): JiraTransport {
+    return new SandboxTransport(this.get(instanceId));
+  }
+
+  async reset(instanceId: string): Promise<void> {
+    await this.get(instanceId).reset(createSandboxData());
+  }
+
+  remove(instanceId: string): void {
+    this.sandboxes.delete(instanceId);
+  }
+
+  private create(instanceId: string, data: SandboxData): SandboxJira {
+    const sandbox = new SandboxJira(data, changed => this.persistence.save(instanceId, changed));
+    this.sandboxes.set(instanceId, sandbox);
+    return sandbox;
+  }
+}
@@ -0,0 +1,28 @@
+import type { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import type { JiraTransport } from '../../../api/types';
+import type { SandboxJira } from './SandboxJira';
+
+export class SandboxTransport implements JiraTransport {
+  constructor(private jira: SandboxJira) {}
+
+  async request(params: RequestUrlParam): Promise<RequestUrlResponse> {
+    const url = new URL(params.url);
+    const body = typeof params.body === 'string' ? (params.body ? JSON.parse(params.body) : undefined) : params.body;
+
+    const response = await this.jira.handle({
+      method: (params.method ?? 'GET').toUpperCase(),
+      path: url.pathname,
+      query: url.searchParams,
+      body,
+    });
+
+    const text = response.json === undefined ? '' : JSON.stringify(response.json);
+    return {
+      status: response.status,
+      headers: { 'content-type': 'application/json' },
+      text,
+      json: text ? JSON.parse(text) : null,
+      arrayBuffer: new TextEncoder().encode(text).buffer,
+    };
+  }
+}
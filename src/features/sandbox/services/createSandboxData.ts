@@ -0,0 +1,96 @@
+import type { SandboxData, SandboxIssue } from '../../../types';
+
+export const SANDBOX_BASE_URL = 'https://sandbox.jira-bridge.local';
+
+function createIssue(
+  data: SandboxData,
+  projectKey: string,
+  summary: string,
+  issueTypeId: string,
+  statusId: string,
+  sprintId: number | null,
+  now: string,
+): SandboxIssue {
+  const project = data.projects.find(p => p.key === projectKey)!;
+  const issueType = data.issueTypes.find(t => t.id === issueTypeId)!;
+  const status = data.workflow.statuses.find(s => s.id === statusId)!;
+  const id = String(data.nextIssueId++);
+  const key = `${projectKey}-${project.nextIssueNumber++}`;
+
+  return {
+    id,
+    key,
+    projectKey,
+    sprintId,
+    fields: {
+      summary,
+      issuetype: { id: issueType.id, name: issueType.name, subtask: issueType.subtask },
+      status: { id: status.id, name: status.name },
+      priority: { id: '3', name: 'Medium' },
+      assignee: null,
+      reporter: { accountId: data.currentUser.accountId, displayName: data.currentUser.displayName },
+      labels: [],
+      created: now,
+      updated: now,
+    },
+  };
+}
+
+export function createSandboxData(now: Date = new Date()): SandboxData {
+  const timestamp = now.toISOString();
+  const currentUser = { accountId: 'sandbox-user', displayName: 'Sandbox User', emailAddress: 'sandbox@example.com' };
+
+  const data: SandboxData = {
+    version: 1,
+    currentUser,
+    users: [currentUser, { accountId: 'sandbox-teammate', displayName: 'Sam Teammate', emailAddress: 'sam@example.com' }],
+    projects: [
+      { id: '10000', key: 'DEMO', name: 'Demo Project', issueTypeIds: ['10001', '10002', '10003', '10004', '10005'], nextIssueNumber: 1 },
+    ],
+    issueTypes: [
+      { id: '10001', name: 'Task', subtask: false, hierarchyLevel: 0 },
+      { id: '10002', name: 'Story', subtask: false, hierarchyLevel: 0 },
+      { id: '10003', name: 'Bug', subtask: false, hierarchyLevel: 0 },
+      { id: '10004', name: 'Epic', subtask: false, hierarchyLevel: 1 },
+      { id: '10005', name: 'Subtask', subtask: true, hierarchyLevel: -1 },
+    ],
+    priorities: [
+      { id: '1', name: 'Highest' },
+      { id: '2', name: 'High' },
+      { id: '3', name: 'Medium' },
+      { id: '4', name: 'Low' },
+      { id: '5', name: 'Lowest' },
+    ],
+    workflow: {
+      statuses: [
+        { id: '1', name: 'To Do', category: 'new' },
+        { id: '3', name: 'In Progress', category: 'indeterminate' },
+        { id: '4', name: 'In Review', category: 'indeterminate' },
+        { id: '5', name: 'Done', category: 'done' },
+      ],
+      transitions: [
+        { id: '11', name: 'To Do', to: '1' },
+        { id: '21', name: 'Start Progress', to: '3', from: ['1', '4'] },
+        { id: '31', name: 'Request Review', to: '4', from: ['3'] },
+        { id: '41', name: 'Done', to: '5' },
+      ],
+      initialStatusId: '1',
+    },
+    boards: [{ id: 1, name: 'DEMO board', type: 'scrum', projectKey: 'DEMO' }],
+    sprints: [
+      { id: 1, boardId: 1, name: 'DEMO Sprint 1', state: 'active', startDate: timestamp, goal: 'Try out Jira Bridge' },
+      { id: 2, boardId: 1, name: 'DEMO Sprint 2', state: 'future' },
+    ],
+    issues: [],
+    labels: ['backend', 'frontend', 'docs'],
+    nextIssueId: 10100,
+  };
+
+  data.issues.push(
+    createIssue(data, 'DEMO', 'Explore the sandbox', '10001', '1', 1, timestamp),
+    createIssue(data, 'DEMO', 'Link a note to a ticket', '10002', '3', 1, timestamp),
+    createIssue(data, 'DEMO', 'Fix a typo in the docs', '10003', '5', null, timestamp),
+  );
+
+  return data;
+}
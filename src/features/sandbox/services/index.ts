@@ -0,0 +1,7 @@
+export { SandboxJira } from './SandboxJira';
+export { SandboxTransport } from './SandboxTransport';
+export { SandboxRegistry } from './SandboxRegistry';
+export { createSandboxData, SANDBOX_BASE_URL } from './createSandboxData';
+export { parseJql, JqlError } from './jql';
+export type { JqlQuery } from './jql';
+export type { SandboxRequest, SandboxResponse, SandboxPersistence } from './types';
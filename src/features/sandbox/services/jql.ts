@@ -0,0 +1,318 @@
+import type { SandboxData, SandboxIssue } from '../../../types';
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'comma' }
+  | { type: 'op'; value: string }
+  | { type: 'word'; value: string }
+  | { type: 'string'; value: string };
+
+type Predicate = (issue: SandboxIssue) => boolean;
+
+export interface JqlQuery {
+  matches: Predicate;
+  compare: (a: SandboxIssue, b: SandboxIssue) => number;
+}
+
+const CATEGORY_NAMES: Record<string, string> = {
+  new: 'to do',
+  indeterminate: 'in progress',
+  done: 'done',
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  type: 'issuetype',
+  text: 'summary',
+};
+
+function tokenize(jql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < jql.length) {
+    const char = jql[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(') {
+      tokens.push({ type: 'lparen' });
+      i++;
+    } else if (char === ')') {
+      tokens.push({ type: 'rparen' });
+      i++;
+    } else if (char === ',') {
+      tokens.push({ type: 'comma' });
+      i++;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < jql.length && jql[i] !== char) {
+        if (jql[i] === '\\' && i + 1 < jql.length) i++;
+        value += jql[i];
+        i++;
+      }
+      tokens.push({ type: 'string', value });
+      i++;
+    } else {
+      const op = jql.slice(i).match(/^(!=|!~|>=|<=|=|~|>|<)/);
+      if (op) {
+        tokens.push({ type: 'op', value: op[1] });
+        i += op[1].length;
+        continue;
+      }
+      const word = jql.slice(i).match(/^[^\s()",=!~<>]+/);
+      if (!word) throw new Error(`Unexpected character in JQL: ${char}`);
+      tokens.push({ type: 'word', value: word[0] });
+      i += word[0].length;
+    }
+  }
+
+  return tokens;
+}
+
+function parseDateValue(value: string, now: number): number {
+  const relative = value.match(/^([-+]?)(\d+)([mhdw])$/);
+  if (relative) {
+    const units: Record<string, number> = { m: 60000, h: 3600000, d: 86400000, w: 604800000 };
+    const amount = Number(relative[2]) * units[relative[3]];
+    return relative[1] === '-' ? now - amount : now + amount;
+  }
+  return Date.parse(value.includes('T') ? value : value.replace(' ', 'T'));
+}
+
+function readFieldValues(data: SandboxData, issue: SandboxIssue, field: string): string[] {
+  const fields = issue.fields;
+  const named = (value: unknown): string[] => {
+    if (value === null || value === undefined) return [];
+    if (typeof value !== 'object') return [String(value)];
+    const record = value as Record<string, unknown>;
+    return ['key', 'name', 'displayName', 'accountId', 'id'].filter(k => typeof record[k] === 'string').map(k => String(record[k]));
+  };
+
+  switch (field) {
+    case 'key':
+    case 'issuekey':
+      return [issue.key];
+    case 'project':
+      return [issue.projectKey];
+    case 'statuscategory': {
+      const statusId = named(fields.status).find(v => data.workflow.statuses.some(s => s.id === v));
+      const status = data.workflow.statuses.find(s => s.id === statusId);
+      return status ? [CATEGORY_NAMES[status.category]] : [];
+    }
+    case 'sprint':
+      return issue.sprintId === null ? [] : [String(issue.sprintId)];
+    case 'labels':
+      return Array.isArray(fields.labels) ? fields.labels.map(String) : [];
+    default: {
+      const value = fields[field];
+      return Array.isArray(value) ? value.flatMap(named) : named(value);
+    }
+  }
+}
+
+export class JqlError extends Error {
+  constructor(readonly messages: string[]) {
+    super(messages.join(' '));
+    this.name = 'JqlError';
+  }
+}
+
+class JqlParser {
+  private position = 0;
+  private unknownKeys = new Set<string>();
+
+  constructor(
+    private tokens: Token[],
+    private data: SandboxData,
+    private now: number,
+  ) {}
+
+  parse(): JqlQuery {
+    let matches: Predicate = () => true;
+    if (this.peek() && !this.isWord('order')) {
+      matches = this.parseOr();
+    }
+
+    let compare: JqlQuery['compare'] = () => 0;
+    if (this.isWord('order')) {
+      this.position++;
+      this.expectWord('by');
+      compare = this.parseOrderBy();
+    }
+
+    if (this.peek()) throw new Error('Unexpected trailing JQL');
+    if (this.unknownKeys.size > 0) {
+      throw new JqlError([...this.unknownKeys].map(key => `An issue with key '${key}' does not exist for field 'key'.`));
+    }
+    return { matches, compare };
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) throw new Error('Unexpected end of JQL');
+    return token;
+  }
+
+  private isWord(word: string): boolean {
+    const token = this.peek();
+    return token?.type === 'word' && token.value.toLowerCase() === word;
+  }
+
+  private expectWord(word: string): void {
+    if (!this.isWord(word)) throw new Error(`Expected ${word.toUpperCase()} in JQL`);
+    this.position++;
+  }
+
+  private parseOr(): Predicate {
+    const parts = [this.parseAnd()];
+    while (this.isWord('or')) {
+      this.position++;
+      parts.push(this.parseAnd());
+    }
+    return issue => parts.some(part => part(issue));
+  }
+
+  private parseAnd(): Predicate {
+    const parts = [this.parseUnary()];
+    while (this.isWord('and')) {
+      this.position++;
+      parts.push(this.parseUnary());
+    }
+    return issue => parts.every(part => part(issue));
+  }
+
+  private parseUnary(): Predicate {
+    if (this.isWord('not')) {
+      this.position++;
+      const inner = this.parseUnary();
+      return issue => !inner(issue);
+    }
+
+    if (this.peek()?.type === 'lparen') {
+      this.position++;
+      const inner = this.parseOr();
+      if (this.next().type !== 'rparen') throw new Error('Expected ) in JQL');
+      return inner;
+    }
+
+    return this.parseClause();
+  }
+
+  private parseValue(): string {
+    const token = this.next();
+    if (token.type !== 'word' && token.type !== 'string') throw new Error('Expected a value in JQL');
+
+    if (token.type === 'word' && this.peek()?.type === 'lparen') {
+      this.position++;
+      if (this.next().type !== 'rparen') throw new Error('Unsupported JQL function arguments');
+      if (token.value.toLowerCase() === 'currentuser') return this.data.currentUser.accountId;
+      throw new Error(`Unsupported JQL function: ${token.value}`);
+    }
+
+    return token.value;
+  }
+
+  private parseClause(): Predicate {
+    const fieldToken = this.next();
+    if (fieldToken.type !== 'word' && fieldToken.type !== 'string') throw new Error('Expected a field in JQL');
+    const rawField = fieldToken.value.toLowerCase();
+    const field = FIELD_ALIASES[rawField] ?? rawField;
+    const values = (issue: SandboxIssue) => readFieldValues(this.data, issue, field).map(v => v.toLowerCase());
+
+    if (this.isWord('is')) {
+      this.position++;
+      const negate = this.isWord('not');
+      if (negate) this.position++;
+      this.expectWord('empty');
+      return issue => (values(issue).length === 0) !== negate;
+    }
+
+    const negateIn = this.isWord('not');
+    if (negateIn || this.isWord('in')) {
+      if (negateIn) this.position++;
+      this.expectWord('in');
+      if (this.next().type !== 'lparen') throw new Error('Expected ( after IN in JQL');
+      const list: string[] = [];
+      while (this.peek()?.type !== 'rparen') {
+        list.push(this.parseValue().toLowerCase());
+        if (this.peek()?.type === 'comma') this.position++;
+      }
+      this.position++;
+      list.forEach(value => this.checkKey(field, value));
+      return issue => values(issue).some(v => list.includes(v)) !== negateIn;
+    }
+
+    const opToken = this.next();
+    if (opToken.type !== 'op') throw new Error(`Unsupported JQL operator for ${fieldToken.value}`);
+    const expected = this.parseValue();
+    const needle = expected.toLowerCase();
+    if (opToken.value === '=') this.checkKey(field, needle);
+
+    switch (opToken.value) {
+      case '=':
+        return issue => values(issue).includes(needle);
+      case '!=':
+        return issue => !values(issue).includes(needle);
+      case '~':
+      case '!~': {
+        const contains = (value: string) =>
+          needle.endsWith('*') ? value.startsWith(needle.slice(0, -1)) : needle.split(/\s+/).every(word => value.includes(word));
+        const negate = opToken.value === '!~';
+        return issue => values(issue).some(contains) !== negate;
+      }
+      default: {
+        const target = parseDateValue(expected, this.now);
+        return issue =>
+          values(issue).some(value => {
+            const actual = Date.parse(value);
+            if (isNaN(actual) || isNaN(target)) return false;
+            if (opToken.value === '>') return actual > target;
+            if (opToken.value === '>=') return actual >= target;
+            if (opToken.value === '<') return actual < target;
+            return actual <= target;
+          });
+      }
+    }
+  }
+
+  private checkKey(field: string, value: string): void {
+    if (field !== 'key' && field !== 'issuekey') return;
+    if (!this.data.issues.some(issue => issue.key.toLowerCase() === value)) {
+      this.unknownKeys.add(value.toUpperCase());
+    }
+  }
+
+  private parseOrderBy(): JqlQuery['compare'] {
+    const orderings: { field: string; direction: number }[] = [];
+
+    while (this.peek()) {
+      const field = this.parseValue().toLowerCase();
+      let direction = 1;
+      if (this.isWord('asc') || this.isWord('desc')) {
+        direction = this.isWord('desc') ? -1 : 1;
+        this.position++;
+      }
+      orderings.push({ field, direction });
+      if (this.peek()?.type !== 'comma') break;
+      this.position++;
+    }
+
+    return (a, b) => {
+      for (const { field, direction } of orderings) {
+        const left = readFieldValues(this.data, a, field)[0] ?? '';
+        const right = readFieldValues(this.data, b, field)[0] ?? '';
+        const result = field === 'key' ? Number(left.split('-')[1]) - Number(right.split('-')[1]) : left.localeCompare(right);
+        if (result !== 0) return result * direction;
+      }
+      return 0;
+    };
+  }
+}
+
+export function parseJql(jql: string, data: SandboxData, now: number = Date.now()): JqlQuery {
+  return new JqlParser(tokenize(jql), data, now).parse();
+}
@@ -0,0 +1,18 @@
+import type { SandboxData } from '../../../types';
+
+export interface SandboxRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body?: unknown;
+}
+
+export interface SandboxResponse {
+  status: number;
+  json?: unknown;
+}
+
+export interface SandboxPersistence {
+  load(instanceId: string): SandboxData | undefined;
+  save(instanceId: string, data: SandboxData): Promise<void>;
+}
@@ -0,0 +1 @@
+export type { SandboxRequest, SandboxResponse, SandboxPersistence } from '../services/types';
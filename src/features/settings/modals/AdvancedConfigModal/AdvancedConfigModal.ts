@@ -2,8 +2,10 @@ import { App } from 'obsidian';
 import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
 import { FrontmatterMappingModal } from '../FrontmatterMappingModal/FrontmatterMappingModal';
 import { CustomFieldsModal } from '../CustomFieldsModal/CustomFieldsModal';
+import { TicketTemplatesModal } from '../TicketTemplatesModal/TicketTemplatesModal';
 import { SyncSettingsModal } from '../../../sync/modals/SyncSettingsModal/SyncSettingsModal';
 import type { AdvancedConfigModalOptions } from './types';
+import { DEFAULT_CONTENT_PARSING } from '../../../../constants/defaults';
 
 export class AdvancedConfigModal extends BaseModal<null> {
   private options: AdvancedConfigModalOptions;
@@ -29,6 +31,10 @@ export class AdvancedConfigModal extends BaseModal<null> {
 
     this.renderSection(contentEl, '🏷️  Custom Fields', 'Add and manage custom Jira fields for this project', () => this.openFieldsModal());
 
+    this.renderSection(contentEl, '🧩 Ticket Templates', 'Define reusable defaults and description skeletons for new tickets', () =>
+      this.openTemplatesModal(),
+    );
+
     this.renderSection(contentEl, '🔄 Sync Settings', 'Configure automatic synchronization from Jira', () => this.openSyncModal());
 
     this.renderButtons(contentEl);
@@ -72,6 +78,7 @@ export class AdvancedConfigModal extends BaseModal<null> {
     if (!this.options.mapping.projectKey) return;
 
     const modal = new CustomFieldsModal(this.app, {
+      clientPool: this.options.clientPool,
       instance: this.options.instance,
       projectKey: this.options.mapping.projectKey,
       customFields: this.options.customFields,
@@ -85,6 +92,30 @@ export class AdvancedConfigModal extends BaseModal<null> {
     }
   }
 
+  private async openTemplatesModal(): Promise<void> {
+    const modal = new TicketTemplatesModal(this.app, {
+      mapping: this.options.mapping,
+      instance: this.options.instance,
+    });
+
+    const result = await modal.open();
+
+    if (result) {
+      const currentConfig = this.options.mapping.projectConfig || {
+        frontmatterMappings: [],
+        contentParsing: { ...DEFAULT_CONTENT_PARSING },
+      };
+
+      const updatedConfig = {
+        ...currentConfig,
+        templates: result.templates,
+      };
+
+      await this.options.onUpdate(updatedConfig);
+      this.options.mapping.projectConfig = updatedConfig;
+    }
+  }
+
   private async openSyncModal(): Promise<void> {
     const modal = new SyncSettingsModal(this.app, {
       mapping: this.options.mapping,
@@ -1,6 +1,8 @@
+import type { JiraClientPool } from '../../../../api/JiraClientPool';
 import type { FolderMapping, JiraInstance, CustomFieldConfig, SyncFieldConfig, ProjectMappingConfig } from '../../../../types';
 
 export interface AdvancedConfigModalOptions {
+  clientPool: JiraClientPool;
   mapping: FolderMapping;
   instance: JiraInstance;
   customFields: CustomFieldConfig[];
@@ -1,6 +1,6 @@
 import { App } from 'obsidian';
 import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
-import { JiraClient } from '../../../../api';
+import type { JiraClient } from '../../../../api';
 import type { JiraIssueType, JiraFieldMeta, CustomFieldConfig } from '../../../../types';
 import type { CustomFieldsModalOptions, CustomFieldsModalResult } from './types';
 
@@ -18,7 +18,7 @@ export class CustomFieldsModal extends BaseModal<CustomFieldsModalResult> {
   constructor(app: App, options: CustomFieldsModalOptions) {
     super(app);
     this.options = options;
-    this.client = new JiraClient(options.instance);
+    this.client = options.clientPool.getClient(options.instance);
     this.localCustomFields = [...options.customFields];
   }
 
@@ -1,6 +1,8 @@
+import type { JiraClientPool } from '../../../../api/JiraClientPool';
 import type { JiraInstance, CustomFieldConfig } from '../../../../types';
 
 export interface CustomFieldsModalOptions {
+  clientPool: JiraClientPool;
   instance: JiraInstance;
   projectKey: string;
   customFields: CustomFieldConfig[];
@@ -1,7 +1,6 @@
 import { App } from 'obsidian';
 import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
 import { FolderSuggestModal } from '../FolderSuggestModal/FolderSuggestModal';
-import { JiraClient } from '../../../../api';
 import type { FolderMapping, JiraProject } from '../../../../types';
 import type { FolderMappingModalOptions, FormState } from './types';
 
@@ -182,7 +181,7 @@ export class FolderMappingModal extends BaseModal<FolderMapping> {
     }
 
     try {
-      const client = new JiraClient(instance);
+      const client = this.options.clientPool.getClient(instance);
       const projects = await client.getProjects();
       this.state.projects = projects;
       this.state.isLoadingProjects = false;
@@ -1,7 +1,9 @@
+import type { JiraClientPool } from '../../../../api/JiraClientPool';
 import type { FolderMapping, MappingType } from '../../../../types';
 import type { JiraInstance, JiraProject } from '../../../../types';
 
 export interface FolderMappingModalOptions {
+  clientPool: JiraClientPool;
   mode: 'add' | 'edit';
   mappingType: MappingType;
   instances: JiraInstance[];
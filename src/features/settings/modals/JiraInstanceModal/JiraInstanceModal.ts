@@ -1,14 +1,32 @@
 import { App, setIcon } from 'obsidian';
 import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
-import type { JiraInstance } from '../../../../types';
-import { validateField, validateForm, generateInstanceId, type JiraInstanceFormData } from '../../../../utils/validation';
-import type { JiraInstanceModalOptions, FormElements, ErrorElements } from './types';
+import type { JiraInstance, JiraAuthMode, JiraDeploymentType } from '../../../../types';
+import {
+  validateField,
+  validateForm,
+  generateInstanceId,
+  type JiraInstanceFormData,
+  type JiraConnectionOptions,
+} from '../../../../utils/validation';
+import { SANDBOX_BASE_URL } from '../../../sandbox';
+import type { JiraInstanceModalOptions, FormElements, ErrorElements, ConnectionElements } from './types';
 
 const FIELD_HINTS: Partial<Record<keyof JiraInstanceFormData, string>> = {
   email: 'Your Atlassian account email used for API authentication',
   apiToken: 'Create at: id.atlassian.com → Security → API tokens',
 };
 
+const DEPLOYMENT_OPTIONS: Record<JiraDeploymentType, string> = {
+  cloud: 'Jira Cloud',
+  server: 'Jira Server / Data Center',
+  sandbox: 'Sandbox (offline practice)',
+};
+
+const AUTH_MODE_OPTIONS: Record<JiraAuthMode, string> = {
+  basic: 'Basic (email/username + token)',
+  bearer: 'Personal Access Token',
+};
+
 const FORM_FIELD_KEYS: Record<keyof JiraInstanceFormData, true> = {
   name: true,
   baseUrl: true,
@@ -28,6 +46,7 @@ function getErrorElement(form: HTMLElement, name: string): HTMLSpanElement | nul
 export class JiraInstanceModal extends BaseModal<JiraInstance> {
   private formElements: FormElements | null = null;
   private errorElements: ErrorElements | null = null;
+  private connectionElements: ConnectionElements | null = null;
   private submitButton: HTMLButtonElement | null = null;
   private fieldErrors: Partial<Record<keyof JiraInstanceFormData, string>> = {};
   private options: JiraInstanceModalOptions;
@@ -50,9 +69,17 @@ export class JiraInstanceModal extends BaseModal<JiraInstance> {
 
     const form = contentEl.createEl('div', { cls: 'modal-form' });
 
+    const name = this.createField(form, 'name', 'Name', 'text', 'My Jira');
+    const baseUrl = this.createField(form, 'baseUrl', 'URL', 'url', 'https://your-domain.atlassian.net');
+
+    this.connectionElements = {
+      deploymentType: this.createSelectField(form, 'deploymentType', 'Deployment', DEPLOYMENT_OPTIONS),
+      authMode: this.createSelectField(form, 'authMode', 'Authentication', AUTH_MODE_OPTIONS),
+    };
+
     this.formElements = {
-      name: this.createField(form, 'name', 'Name', 'text', 'My Jira'),
-      baseUrl: this.createField(form, 'baseUrl', 'URL', 'url', 'https://your-domain.atlassian.net'),
+      name,
+      baseUrl,
       email: this.createField(form, 'email', 'Email', 'email', 'your-email@example.com'),
       apiToken: this.createField(form, 'apiToken', 'API Token', 'password', 'Your Jira API token'),
     };
@@ -61,6 +88,8 @@ export class JiraInstanceModal extends BaseModal<JiraInstance> {
       this.prefillForm(this.options.instance);
     }
 
+    this.updateConnectionFields();
+
     const nameError = getErrorElement(form, 'name');
     const baseUrlError = getErrorElement(form, 'baseUrl');
     const emailError = getErrorElement(form, 'email');
@@ -97,6 +126,73 @@ export class JiraInstanceModal extends BaseModal<JiraInstance> {
     this.formElements.baseUrl.value = instance.baseUrl;
     this.formElements.email.value = instance.email;
     this.formElements.apiToken.value = instance.apiToken;
+
+    if (this.connectionElements) {
+      this.connectionElements.deploymentType.value = instance.deploymentType ?? 'cloud';
+      this.connectionElements.authMode.value = instance.authMode ?? 'basic';
+    }
+  }
+
+  private getConnectionOptions(): JiraConnectionOptions {
+    const selected = this.connectionElements?.deploymentType.value;
+    const deploymentType = selected === 'server' || selected === 'sandbox' ? selected : 'cloud';
+    const authMode = this.connectionElements?.authMode.value === 'bearer' ? 'bearer' : 'basic';
+    return { deploymentType, authMode };
+  }
+
+  private createSelectField<T extends string>(
+    container: HTMLElement,
+    name: string,
+    label: string,
+    options: Record<T, string>,
+  ): HTMLSelectElement {
+    const fieldGroup = container.createEl('div', { cls: 'field-group' });
+
+    const labelContainer = fieldGroup.createEl('div', { cls: 'label-container' });
+    labelContainer.createEl('label', { text: label, attr: { for: `field-${name}` } });
+
+    const select = fieldGroup.createEl('select', {
+      cls: 'field-select',
+      attr: { id: `field-${name}`, name },
+    });
+
+    for (const [value, text] of Object.entries<string>(options)) {
+      select.createEl('option', { text, attr: { value } });
+    }
+
+    select.addEventListener('change', () => {
+      this.updateConnectionFields();
+      this.clearFieldError('email');
+      this.updateSubmitButtonState();
+    });
+
+    return select;
+  }
+
+  private updateConnectionFields(): void {
+    if (!this.formElements) return;
+
+    const { deploymentType, authMode } = this.getConnectionOptions();
+    const emailGroup = this.formElements.email.closest('.field-group');
+    const emailLabel = emailGroup?.querySelector('label');
+    const tokenLabel = this.formElements.apiToken.closest('.field-group')?.querySelector('label');
+
+    const isSandbox = deploymentType === 'sandbox';
+    emailGroup?.toggleClass('is-hidden', isSandbox || authMode === 'bearer');
+    this.formElements.baseUrl.closest('.field-group')?.toggleClass('is-hidden', isSandbox);
+    this.formElements.apiToken.closest('.field-group')?.toggleClass('is-hidden', isSandbox);
+    this.connectionElements?.authMode.closest('.field-group')?.toggleClass('is-hidden', isSandbox);
+
+    if (emailLabel) {
+      emailLabel.textContent = deploymentType === 'server' ? 'Username' : 'Email';
+    }
+    this.formElements.email.type = deploymentType === 'server' ? 'text' : 'email';
+    this.formElements.email.placeholder = deploymentType === 'server' ? 'your-username' : 'your-email@example.com';
+
+    if (tokenLabel) {
+      tokenLabel.textContent =
+        authMode === 'bearer' ? 'Personal Access Token' : deploymentType === 'server' ? 'Password / Token' : 'API Token';
+    }
   }
 
   private createField(
@@ -148,7 +244,7 @@ export class JiraInstanceModal extends BaseModal<JiraInstance> {
     if (!this.formElements) return;
 
     const value = this.formElements[name].value;
-    const result = validateField(name, value);
+    const result = validateField(name, value, this.getConnectionOptions());
 
     if (!result.valid && result.error) {
       this.showFieldError(name, result.error);
@@ -181,7 +277,11 @@ export class JiraInstanceModal extends BaseModal<JiraInstance> {
   private updateSubmitButtonState(): void {
     if (!this.submitButton || !this.formElements) return;
 
-    const allFilled = Object.values(this.formElements).every(input => input.value.trim() !== '');
+    const { deploymentType, authMode } = this.getConnectionOptions();
+    const allFilled = Object.entries(this.formElements).every(
+      ([name, input]) =>
+        (deploymentType === 'sandbox' && name !== 'name') || (name === 'email' && authMode === 'bearer') || input.value.trim() !== '',
+    );
     const noErrors = Object.keys(this.fieldErrors).length === 0;
 
     this.submitButton.disabled = !(allFilled && noErrors);
@@ -197,7 +297,8 @@ export class JiraInstanceModal extends BaseModal<JiraInstance> {
       apiToken: this.formElements.apiToken.value.trim(),
     };
 
-    const validation = validateForm(formData);
+    const connection = this.getConnectionOptions();
+    const validation = validateForm(formData, connection);
 
     if (!validation.valid) {
       for (const [field, error] of Object.entries(validation.errors)) {
@@ -215,9 +316,11 @@ export class JiraInstanceModal extends BaseModal<JiraInstance> {
     const instance: JiraInstance = {
       id: isEdit ? this.options.instance!.id : generateInstanceId(),
       name: formData.name,
-      baseUrl: formData.baseUrl.replace(/\/+$/, ''),
+      baseUrl: connection.deploymentType === 'sandbox' ? SANDBOX_BASE_URL : formData.baseUrl.replace(/\/+$/, ''),
       email: formData.email,
       apiToken: formData.apiToken,
+      deploymentType: connection.deploymentType,
+      authMode: connection.authMode,
       isDefault: isEdit ? this.options.instance!.isDefault : false,
       enabled: isEdit ? this.options.instance!.enabled : true,
       createdAt: isEdit ? this.options.instance!.createdAt : Date.now(),
@@ -20,3 +20,8 @@ export interface ErrorElements {
   email: HTMLSpanElement;
   apiToken: HTMLSpanElement;
 }
+
+export interface ConnectionElements {
+  deploymentType: HTMLSelectElement;
+  authMode: HTMLSelectElement;
+}
@@ -0,0 +1,182 @@
+import { App } from 'obsidian';
+import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
+import type { TicketTemplate } from '../../../../types';
+import type { TicketTemplatesModalOptions, TicketTemplatesModalResult } from './types';
+
+const TEMPLATE_VARIABLES = [
+  '{{title}}',
+  '{{folder}}',
+  '{{date}}',
+  '{{summary}}',
+  '{{description}}',
+  '{{selection}}',
+  '{{frontmatter.key}}',
+];
+
+function splitList(value: string): string[] | undefined {
+  const items = value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function parseCustomFields(value: string): Record<string, string> | undefined {
+  const fields: Record<string, string> = {};
+  for (const line of value.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const fieldId = line.slice(0, separator).trim();
+    const fieldValue = line.slice(separator + 1).trim();
+    if (fieldId && fieldValue) fields[fieldId] = fieldValue;
+  }
+  return Object.keys(fields).length > 0 ? fields : undefined;
+}
+
+function formatCustomFields(fields: Record<string, string> = {}): string {
+  return Object.entries(fields)
+    .map(([fieldId, value]) => `${fieldId}: ${value}`)
+    .join('\n');
+}
+
+export class TicketTemplatesModal extends BaseModal<TicketTemplatesModalResult> {
+  private options: TicketTemplatesModalOptions;
+  private templates: TicketTemplate[];
+  private listContainer: HTMLElement | null = null;
+
+  constructor(app: App, options: TicketTemplatesModalOptions) {
+    super(app);
+    this.options = options;
+    this.templates = JSON.parse(JSON.stringify(options.mapping.projectConfig?.templates ?? []));
+  }
+
+  build(): void {
+    const { contentEl } = this;
+    contentEl.addClass('jira-bridge-modal', 'jira-bridge-templates-modal');
+
+    contentEl.createEl('h2', { text: 'Configure Ticket Templates', cls: 'modal-title' });
+    contentEl.createEl('p', {
+      text: `Project: ${this.options.mapping.projectKey} (${this.options.instance.name})`,
+      cls: 'modal-subtitle',
+    });
+
+    const section = contentEl.createEl('div', { cls: 'templates-section' });
+    section.createEl('p', {
+      text: 'Templates pre-fill issue type, priority, labels, components, custom fields and the description when creating tickets.',
+      cls: 'section-description',
+    });
+
+    this.listContainer = section.createEl('div', { cls: 'templates-list' });
+    this.renderTemplatesList();
+
+    section.createEl('button', { text: 'Add Template', cls: 'mod-cta' }).addEventListener('click', () => this.showTemplateForm());
+
+    this.renderButtons(contentEl);
+  }
+
+  private renderTemplatesList(): void {
+    if (!this.listContainer) return;
+    this.listContainer.innerHTML = '';
+
+    if (this.templates.length === 0) {
+      this.listContainer.createEl('p', { text: 'No templates configured.', cls: 'empty-text' });
+      return;
+    }
+
+    this.templates.forEach((template, index) => {
+      const item = this.listContainer!.createEl('div', { cls: 'template-item' });
+
+      const info = item.createEl('div', { cls: 'template-info' });
+      info.createEl('span', { text: template.name, cls: 'template-name' });
+      const details = [template.issueType, template.priority, ...(template.labels ?? [])].filter(Boolean).join(' · ');
+      if (details) info.createEl('span', { text: details, cls: 'template-details' });
+
+      const actions = item.createEl('div', { cls: 'template-actions' });
+      actions.createEl('button', { text: 'Edit', cls: 'template-btn' }).addEventListener('click', () => this.showTemplateForm(index));
+      actions.createEl('button', { text: 'Remove', cls: 'template-btn mod-warning' }).addEventListener('click', () => {
+        this.templates.splice(index, 1);
+        this.renderTemplatesList();
+      });
+    });
+  }
+
+  private showTemplateForm(editIndex?: number): void {
+    const existing = editIndex !== undefined ? this.templates[editIndex] : null;
+
+    const overlay = this.contentEl.createEl('div', { cls: 'template-form-overlay' });
+    const form = overlay.createEl('div', { cls: 'template-form' });
+    form.createEl('h4', { text: existing ? 'Edit Template' : 'Add Template' });
+
+    const createInput = (label: string, value = '', placeholder = ''): HTMLInputElement => {
+      const group = form.createEl('div', { cls: 'form-group' });
+      group.createEl('label', { text: label });
+      const input = group.createEl('input', { type: 'text', cls: 'form-input', attr: { placeholder } });
+      input.value = value;
+      return input;
+    };
+
+    const createTextarea = (label: string, value: string, placeholder: string, rows: string): HTMLTextAreaElement => {
+      const group = form.createEl('div', { cls: 'form-group' });
+      group.createEl('label', { text: label });
+      const textarea = group.createEl('textarea', { cls: 'form-input mono', attr: { placeholder, rows } });
+      textarea.value = value;
+      return textarea;
+    };
+
+    const nameInput = createInput('Name', existing?.name, 'e.g., Bug report');
+    const issueTypeInput = createInput('Issue Type', existing?.issueType, 'e.g., Bug');
+    const priorityInput = createInput('Priority', existing?.priority, 'e.g., High');
+    const labelsInput = createInput('Labels (comma-separated)', existing?.labels?.join(', '), 'e.g., frontend, triage');
+    const componentsInput = createInput('Components (comma-separated)', existing?.components?.join(', '), 'e.g., Web');
+    const customFieldsInput = createTextarea(
+      'Custom Fields (one "fieldId: value" per line)',
+      formatCustomFields(existing?.customFields),
+      'customfield_10020: {{frontmatter.sprint}}',
+      '3',
+    );
+    const descriptionInput = createTextarea('Description', existing?.description ?? '', '## Steps to reproduce\n\n{{description}}', '6');
+    form.createEl('p', { text: `Variables: ${TEMPLATE_VARIABLES.join(' ')}`, cls: 'variables-help' });
+
+    const buttons = form.createEl('div', { cls: 'form-buttons' });
+    buttons.createEl('button', { text: 'Cancel', cls: 'form-btn' }).addEventListener('click', () => overlay.remove());
+    buttons.createEl('button', { text: 'Save', cls: 'form-btn mod-cta' }).addEventListener('click', () => {
+      const name = nameInput.value.trim();
+      if (!name) {
+        nameInput.focus();
+        return;
+      }
+
+      const template: TicketTemplate = {
+        id: existing?.id ?? crypto.randomUUID(),
+        name,
+        issueType: issueTypeInput.value.trim() || undefined,
+        priority: priorityInput.value.trim() || undefined,
+        labels: splitList(labelsInput.value),
+        components: splitList(componentsInput.value),
+        customFields: parseCustomFields(customFieldsInput.value),
+        description: descriptionInput.value.trim() || undefined,
+      };
+
+      if (editIndex !== undefined) {
+        this.templates[editIndex] = template;
+      } else {
+        this.templates.push(template);
+      }
+
+      overlay.remove();
+      this.renderTemplatesList();
+    });
+  }
+
+  private renderButtons(container: HTMLElement): void {
+    const buttonContainer = container.createEl('div', { cls: 'modal-buttons' });
+
+    buttonContainer.createEl('button', { text: 'Cancel', cls: 'modal-button' }).addEventListener('click', () => {
+      this.cancel();
+    });
+
+    buttonContainer.createEl('button', { text: 'Save', cls: 'modal-button mod-cta' }).addEventListener('click', () => {
+      this.submit({ templates: this.templates });
+    });
+  }
+}
@@ -0,0 +1,10 @@
+import type { FolderMapping, JiraInstance, TicketTemplate } from '../../../../types';
+
+export interface TicketTemplatesModalOptions {
+  mapping: FolderMapping;
+  instance: JiraInstance;
+}
+
+export interface TicketTemplatesModalResult {
+  templates: TicketTemplate[];
+}
@@ -4,6 +4,8 @@ export { FolderMappingModal } from './FolderMappingModal/FolderMappingModal';
 export type { FolderMappingModalOptions } from './FolderMappingModal/types';
 export { FrontmatterMappingModal } from './FrontmatterMappingModal/FrontmatterMappingModal';
 export type { FrontmatterMappingModalOptions, FrontmatterMappingModalResult } from './FrontmatterMappingModal/types';
+export { TicketTemplatesModal } from './TicketTemplatesModal/TicketTemplatesModal';
+export type { TicketTemplatesModalOptions, TicketTemplatesModalResult } from './TicketTemplatesModal/types';
 export { CustomFieldsModal } from './CustomFieldsModal/CustomFieldsModal';
 export type { CustomFieldsModalOptions, CustomFieldsModalResult } from './CustomFieldsModal/types';
 export { FolderSuggestModal } from './FolderSuggestModal/FolderSuggestModal';
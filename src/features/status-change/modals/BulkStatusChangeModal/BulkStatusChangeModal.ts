@@ -1,7 +1,7 @@
 import { App, TFile } from 'obsidian';
 import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
 import type { BulkStatusChangeModalOptions, BulkStatusChangeModalResult, BulkStatusChangeModalState } from './types';
-import { JiraClient } from '../../../../api/JiraClient';
+import type { JiraClient } from '../../../../api/JiraClient';
 import { MappingResolver } from '../../../../mapping';
 import { parseSummaryFromContent } from '../../../../utils';
 import { DEFAULT_CONTENT_PARSING } from '../../../../constants/defaults';
@@ -43,7 +43,7 @@ export class BulkStatusChangeModal extends BaseModal<BulkStatusChangeModalResult
 
     const instance = options.instances.find(i => i.id === this.state.instanceId);
     if (instance) {
-      this.client = new JiraClient(instance);
+      this.client = options.clientPool.getClient(instance);
     }
   }
 
@@ -88,7 +88,7 @@ export class BulkStatusChangeModal extends BaseModal<BulkStatusChangeModalResult
     instanceSelect.addEventListener('change', async () => {
       this.state.instanceId = instanceSelect.value;
       const instance = this.options.instances.find(i => i.id === this.state.instanceId);
-      this.client = instance ? new JiraClient(instance) : null;
+      this.client = instance ? this.options.clientPool.getClient(instance) : null;
       await this.loadSampleIssue();
     });
   }
@@ -1,7 +1,9 @@
+import type { JiraClientPool } from '../../../../api/JiraClientPool';
 import type { JiraInstance, PluginSettings, JiraTransition, JiraBoard, JiraSprint } from '../../../../types';
 import type { BulkOperationTarget } from '../../../../services/types';
 
 export interface BulkStatusChangeModalOptions {
+  clientPool: JiraClientPool;
   instances: JiraInstance[];
   defaultInstanceId: string;
   target: BulkOperationTarget;
@@ -2,7 +2,7 @@ import { App, Notice } from 'obsidian';
 import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
 import type { StatusChangeResult, StatusChangeModalOptions, StatusChangeModalState } from './types';
 import type { JiraStatus } from '../../../../types';
-import { JiraClient } from '../../../../api/JiraClient';
+import type { JiraClient } from '../../../../api/JiraClient';
 import { debounce, mapJiraError, NOTICE_DURATION, type DebouncedFunction } from '../../../../utils';
 
 function isJiraStatus(value: unknown): value is JiraStatus {
@@ -58,7 +58,7 @@ export class StatusChangeModal extends BaseModal<StatusChangeResult> {
     if (this.state.instanceId) {
       const instance = options.instances.find(i => i.id === this.state.instanceId);
       if (instance) {
-        this.client = new JiraClient(instance);
+        this.client = options.clientPool.getClient(instance);
       }
     }
 
@@ -106,7 +106,7 @@ export class StatusChangeModal extends BaseModal<StatusChangeResult> {
     this.instanceSelect.addEventListener('change', () => {
       this.state.instanceId = this.instanceSelect!.value;
       const instance = this.options.instances.find(i => i.id === this.state.instanceId);
-      this.client = instance ? new JiraClient(instance) : null;
+      this.client = instance ? this.options.clientPool.getClient(instance) : null;
       this.resetState();
     });
   }
@@ -1,3 +1,4 @@
+import type { JiraClientPool } from '../../../../api/JiraClientPool';
 import type { JiraInstance, JiraStatus, JiraTransition, JiraSprint, JiraBoard } from '../../../../types';
 
 export interface StatusChangeResult {
@@ -8,6 +9,7 @@ export interface StatusChangeResult {
 }
 
 export interface StatusChangeModalOptions {
+  clientPool: JiraClientPool;
   instances: JiraInstance[];
   recentIssues: RecentIssue[];
   defaultInstanceId?: string;
@@ -10,7 +10,7 @@ import type {
 } from './types';
 import type { BulkOperationTarget } from '../../../services/types';
 import { MappingResolver } from '../../../mapping';
-import { JiraClient } from '../../../api/JiraClient';
+import type { JiraClientPool } from '../../../api/JiraClientPool';
 import { parseSummaryFromContent } from '../../../utils';
 import { addFrontmatterFields } from '../../../utils/frontmatter';
 import { DEFAULT_CONTENT_PARSING } from '../../../constants/defaults';
@@ -32,6 +32,7 @@ export class BulkStatusChangeService {
     private app: App,
     private settings: PluginSettings,
     private instanceId: string,
+    private clientPool: JiraClientPool,
   ) {
     this.mappingResolver = new MappingResolver(settings);
   }
@@ -80,7 +81,7 @@ export class BulkStatusChangeService {
 
     const instance = this.settings.instances.find(i => i.id === this.instanceId);
     if (!instance) throw new Error('Jira instance not found');
-    const client = new JiraClient(instance);
+    const client = this.clientPool.getClient(instance);
 
     for (const note of notesToProcess) {
       if (this.cancelled) {
@@ -150,7 +151,7 @@ export class BulkStatusChangeService {
 
     const instance = this.settings.instances.find(i => i.id === this.instanceId);
     if (!instance) throw new Error('Jira instance not found');
-    const client = new JiraClient(instance);
+    const client = this.clientPool.getClient(instance);
 
     for (const file of files) {
       if (this.cancelled) break;
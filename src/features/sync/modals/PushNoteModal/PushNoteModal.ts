@@ -0,0 +1,83 @@
+import { App } from 'obsidian';
+import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
+import type { NotePushChange } from '../../services/types';
+import type { PushNoteModalOptions, PushNoteModalResult, PushNoteModalState } from './types';
+
+export class PushNoteModal extends BaseModal<PushNoteModalResult> {
+  private options: PushNoteModalOptions;
+  private state: PushNoteModalState;
+  private pushButton: HTMLButtonElement | null = null;
+
+  constructor(app: App, options: PushNoteModalOptions) {
+    super(app);
+    this.options = options;
+    this.state = {
+      selected: new Set(options.changes.map(c => c.field)),
+    };
+  }
+
+  build(): void {
+    const { contentEl } = this;
+    contentEl.addClass('jira-bridge-modal', 'jira-bridge-push-note-modal');
+
+    contentEl.createEl('h2', { text: 'Push Note to Jira', cls: 'modal-title' });
+    contentEl.createEl('p', {
+      text: `Select the changes to apply to ${this.options.issueKey}.`,
+      cls: 'modal-subtitle',
+    });
+
+    const list = contentEl.createEl('div', { cls: 'change-list' });
+    for (const change of this.options.changes) {
+      this.renderChange(list, change);
+    }
+
+    this.renderButtons(contentEl);
+  }
+
+  private renderChange(container: HTMLElement, change: NotePushChange): void {
+    const item = container.createEl('div', { cls: 'change-item' });
+
+    const header = item.createEl('label', { cls: 'change-header' });
+    const checkbox = header.createEl('input', { type: 'checkbox' });
+    checkbox.checked = this.state.selected.has(change.field);
+    header.createSpan({ text: change.label, cls: 'change-label' });
+
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked) {
+        this.state.selected.add(change.field);
+      } else {
+        this.state.selected.delete(change.field);
+      }
+      this.updatePushButton();
+    });
+
+    const values = item.createEl('div', { cls: 'change-values' });
+    this.renderValue(values, 'Jira', change.remoteValue);
+    this.renderValue(values, 'Note', change.localValue);
+  }
+
+  private renderValue(container: HTMLElement, label: string, value: string | null): void {
+    const row = container.createEl('div', { cls: 'change-value' });
+    row.createSpan({ text: label, cls: 'change-value-label' });
+    row.createSpan({ text: value || '(empty)', cls: value ? 'change-value-text' : 'change-value-text is-empty' });
+  }
+
+  private renderButtons(container: HTMLElement): void {
+    const buttonContainer = container.createEl('div', { cls: 'modal-buttons' });
+
+    buttonContainer.createEl('button', { text: 'Cancel', cls: 'modal-button' }).addEventListener('click', () => {
+      this.cancel();
+    });
+
+    this.pushButton = buttonContainer.createEl('button', { text: 'Push', cls: 'modal-button mod-cta' });
+    this.pushButton.addEventListener('click', () => {
+      this.submit(this.options.changes.filter(c => this.state.selected.has(c.field)));
+    });
+  }
+
+  private updatePushButton(): void {
+    if (this.pushButton) {
+      this.pushButton.disabled = this.state.selected.size === 0;
+    }
+  }
+}
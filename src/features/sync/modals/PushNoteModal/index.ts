@@ -0,0 +1,2 @@
+export { PushNoteModal } from './PushNoteModal';
+export type { PushNoteModalOptions, PushNoteModalResult } from './types';
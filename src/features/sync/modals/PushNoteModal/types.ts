@@ -0,0 +1,12 @@
+import type { NotePushChange } from '../../services/types';
+
+export interface PushNoteModalOptions {
+  issueKey: string;
+  changes: NotePushChange[];
+}
+
+export type PushNoteModalResult = NotePushChange[];
+
+export interface PushNoteModalState {
+  selected: Set<string>;
+}
@@ -0,0 +1,115 @@
+import { App } from 'obsidian';
+import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
+import type { ConflictResolutionChoice, SyncConflict } from '../../../../types';
+import type { SyncConflictModalOptions, SyncConflictModalResult, SyncConflictModalState } from './types';
+
+const CHOICE_LABELS: Record<ConflictResolutionChoice, string> = {
+  local: 'Keep note',
+  remote: 'Take Jira',
+  merged: 'Edit merged',
+};
+
+export class SyncConflictModal extends BaseModal<SyncConflictModalResult> {
+  private options: SyncConflictModalOptions;
+  private state: SyncConflictModalState;
+
+  constructor(app: App, options: SyncConflictModalOptions) {
+    super(app);
+    this.options = options;
+    this.state = {
+      choices: new Map(options.conflicts.map(c => [c.field, c.editable ? 'local' : 'remote'])),
+      mergedValues: new Map(options.conflicts.map(c => [c.field, c.localValue ?? ''])),
+    };
+  }
+
+  build(): void {
+    const { contentEl } = this;
+    contentEl.addClass('jira-bridge-modal', 'jira-bridge-sync-conflict-modal');
+
+    contentEl.createEl('h2', { text: 'Resolve Sync Conflicts', cls: 'modal-title' });
+    contentEl.createEl('p', {
+      text: `${this.options.issueKey} was changed both in this note and in Jira since the last sync.`,
+      cls: 'modal-subtitle',
+    });
+
+    const list = contentEl.createEl('div', { cls: 'conflict-list' });
+    for (const conflict of this.options.conflicts) {
+      this.renderConflict(list, conflict);
+    }
+
+    this.renderButtons(contentEl);
+  }
+
+  private renderConflict(container: HTMLElement, conflict: SyncConflict): void {
+    const item = container.createEl('div', { cls: 'conflict-item' });
+
+    const header = item.createEl('div', { cls: 'conflict-header' });
+    header.createSpan({ text: conflict.field, cls: 'field-jira' });
+    header.createSpan({ text: ' → ', cls: 'field-arrow' });
+    header.createSpan({ text: conflict.frontmatterKey, cls: 'field-frontmatter' });
+
+    const values = item.createEl('div', { cls: 'conflict-values' });
+    this.renderValue(values, 'Base', conflict.baseValue);
+    this.renderValue(values, 'Note', conflict.localValue);
+    this.renderValue(values, 'Jira', conflict.remoteValue);
+
+    const choices = item.createEl('div', { cls: 'conflict-choices' });
+    const mergedInput = item.createEl('textarea', { cls: 'conflict-merged' });
+    mergedInput.value = this.state.mergedValues.get(conflict.field) ?? '';
+    mergedInput.addEventListener('input', () => {
+      this.state.mergedValues.set(conflict.field, mergedInput.value);
+    });
+
+    const updateMergedVisibility = () => {
+      mergedInput.toggleClass('is-hidden', this.state.choices.get(conflict.field) !== 'merged');
+    };
+
+    for (const choice of Object.keys(CHOICE_LABELS) as ConflictResolutionChoice[]) {
+      const label = choices.createEl('label', { cls: 'conflict-choice' });
+      const radio = label.createEl('input', { type: 'radio' });
+      radio.name = `conflict-${conflict.field}`;
+      radio.checked = this.state.choices.get(conflict.field) === choice;
+      radio.disabled = choice !== 'remote' && !conflict.editable;
+      label.createSpan({ text: CHOICE_LABELS[choice] });
+
+      radio.addEventListener('change', () => {
+        this.state.choices.set(conflict.field, choice);
+        updateMergedVisibility();
+      });
+    }
+
+    if (!conflict.editable) {
+      item.createEl('p', { text: 'This field is read-only, so only the Jira value can be kept.', cls: 'conflict-hint' });
+    }
+
+    updateMergedVisibility();
+  }
+
+  private renderValue(container: HTMLElement, label: string, value: string | null): void {
+    const row = container.createEl('div', { cls: 'conflict-value' });
+    row.createSpan({ text: label, cls: 'conflict-value-label' });
+    row.createSpan({ text: value ?? '(empty)', cls: value === null ? 'conflict-value-text is-empty' : 'conflict-value-text' });
+  }
+
+  private renderButtons(container: HTMLElement): void {
+    const buttonContainer = container.createEl('div', { cls: 'modal-buttons' });
+
+    buttonContainer.createEl('button', { text: 'Cancel', cls: 'modal-button' }).addEventListener('click', () => {
+      this.cancel();
+    });
+
+    buttonContainer.createEl('button', { text: 'Apply', cls: 'modal-button mod-cta' }).addEventListener('click', () => {
+      this.handleSubmit();
+    });
+  }
+
+  private handleSubmit(): void {
+    this.submit(
+      this.options.conflicts.map(conflict => ({
+        conflict,
+        choice: this.state.choices.get(conflict.field) ?? 'remote',
+        mergedValue: this.state.mergedValues.get(conflict.field) || null,
+      })),
+    );
+  }
+}
@@ -0,0 +1,2 @@
+export { SyncConflictModal } from './SyncConflictModal';
+export type { SyncConflictModalOptions, SyncConflictModalResult } from './types';
@@ -0,0 +1,13 @@
+import type { ConflictResolution, ConflictResolutionChoice, SyncConflict } from '../../../../types';
+
+export interface SyncConflictModalOptions {
+  issueKey: string;
+  conflicts: SyncConflict[];
+}
+
+export type SyncConflictModalResult = ConflictResolution[];
+
+export interface SyncConflictModalState {
+  choices: Map<string, ConflictResolutionChoice>;
+  mergedValues: Map<string, string>;
+}
@@ -0,0 +1,93 @@
+import { App } from 'obsidian';
+import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
+import type { SyncJqlModalOptions, SyncJqlModalResult } from './types';
+
+export class SyncJqlModal extends BaseModal<SyncJqlModalResult> {
+  private options: SyncJqlModalOptions;
+  private instanceId: string;
+  private jqlInput: HTMLTextAreaElement | null = null;
+  private syncButton: HTMLButtonElement | null = null;
+
+  constructor(app: App, options: SyncJqlModalOptions) {
+    super(app);
+    this.options = options;
+    this.instanceId = options.defaultInstanceId || options.instances[0]?.id || '';
+  }
+
+  build(): void {
+    const { contentEl } = this;
+    contentEl.addClass('jira-bridge-modal', 'jira-bridge-sync-jql-modal');
+
+    contentEl.createEl('h2', { text: 'Sync Notes Matching JQL', cls: 'modal-title' });
+    contentEl.createEl('p', {
+      text: 'Linked notes whose issues match the query will be synced with Jira.',
+      cls: 'modal-subtitle',
+    });
+
+    this.renderInstanceSelector(contentEl);
+    this.renderJqlInput(contentEl);
+    this.renderButtons(contentEl);
+  }
+
+  private renderInstanceSelector(container: HTMLElement): void {
+    if (this.options.instances.length <= 1) return;
+
+    const group = container.createEl('div', { cls: 'form-group' });
+    group.createEl('label', { text: 'Jira Instance' });
+
+    const instanceSelect = group.createEl('select', { cls: 'instance-select' });
+    for (const instance of this.options.instances) {
+      const option = instanceSelect.createEl('option', { text: instance.name, value: instance.id });
+      if (instance.id === this.instanceId) {
+        option.selected = true;
+      }
+    }
+
+    instanceSelect.addEventListener('change', () => {
+      this.instanceId = instanceSelect.value;
+    });
+  }
+
+  private renderJqlInput(container: HTMLElement): void {
+    const group = container.createEl('div', { cls: 'form-group' });
+    group.createEl('label', { text: 'JQL' });
+
+    this.jqlInput = group.createEl('textarea', {
+      cls: 'jql-input',
+      attr: { placeholder: 'e.g., project = PROJ AND updated >= -7d' },
+    });
+
+    this.jqlInput.addEventListener('input', () => this.updateSyncButton());
+    this.jqlInput.addEventListener('keydown', evt => {
+      if (evt.key === 'Enter' && (evt.metaKey || evt.ctrlKey)) {
+        evt.preventDefault();
+        this.handleSync();
+      }
+    });
+  }
+
+  private renderButtons(container: HTMLElement): void {
+    const buttonContainer = container.createEl('div', { cls: 'modal-buttons' });
+
+    buttonContainer.createEl('button', { text: 'Cancel', cls: 'modal-button' }).addEventListener('click', () => {
+      this.cancel();
+    });
+
+    this.syncButton = buttonContainer.createEl('button', { text: 'Sync', cls: 'modal-button mod-cta' });
+    this.syncButton.addEventListener('click', () => this.handleSync());
+
+    this.updateSyncButton();
+  }
+
+  private updateSyncButton(): void {
+    if (!this.syncButton) return;
+    this.syncButton.disabled = !this.jqlInput?.value.trim() || !this.instanceId;
+  }
+
+  private handleSync(): void {
+    const jql = this.jqlInput?.value.trim();
+    if (!jql || !this.instanceId) return;
+
+    this.submit({ instanceId: this.instanceId, jql });
+  }
+}
@@ -0,0 +1,2 @@
+export { SyncJqlModal } from './SyncJqlModal';
+export type { SyncJqlModalOptions, SyncJqlModalResult } from './types';
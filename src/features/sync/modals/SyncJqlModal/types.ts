@@ -0,0 +1,11 @@
+import type { JiraInstance } from '../../../../types';
+
+export interface SyncJqlModalOptions {
+  instances: JiraInstance[];
+  defaultInstanceId?: string;
+}
+
+export interface SyncJqlModalResult {
+  instanceId: string;
+  jql: string;
+}
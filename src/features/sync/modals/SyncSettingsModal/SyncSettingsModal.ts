@@ -1,5 +1,7 @@
 import { App } from 'obsidian';
 import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
+import { isPushableField } from '../../services/strategies/fieldEncoding';
+import { DEFAULT_CONTENT_SYNC } from '../../../../constants/defaults';
 import type { SyncSettingsModalOptions, SyncSettingsModalResult, SyncSettingsModalState } from './types';
 
 export class SyncSettingsModal extends BaseModal<SyncSettingsModalResult> {
@@ -21,6 +23,7 @@ export class SyncSettingsModal extends BaseModal<SyncSettingsModalResult> {
       customSyncFields: hasCustomFields
         ? JSON.parse(JSON.stringify(projectSyncConfig.syncFields))
         : JSON.parse(JSON.stringify(options.globalSyncFields)),
+      contentSync: { ...DEFAULT_CONTENT_SYNC, ...projectSyncConfig?.contentSync },
     };
   }
 
@@ -36,6 +39,7 @@ export class SyncSettingsModal extends BaseModal<SyncSettingsModalResult> {
 
     this.renderEnableSyncToggle(contentEl);
     this.renderSyncFieldsSection(contentEl);
+    this.renderContentSyncSection(contentEl);
     this.renderButtons(contentEl);
   }
 
@@ -114,8 +118,23 @@ export class SyncSettingsModal extends BaseModal<SyncSettingsModalResult> {
 
       const label = item.createEl('label');
       label.createSpan({ text: field.jiraField, cls: 'field-jira' });
-      label.createSpan({ text: ' → ', cls: 'field-arrow' });
+      const arrow = label.createSpan({ text: field.readOnly ? ' → ' : ' ↔ ', cls: 'field-arrow' });
       label.createSpan({ text: field.frontmatterKey, cls: 'field-frontmatter' });
+
+      if (isPushableField(field.jiraField)) {
+        const pushLabel = item.createEl('label', { cls: 'field-push' });
+        const pushCheckbox = pushLabel.createEl('input', { type: 'checkbox' });
+        pushCheckbox.checked = !field.readOnly;
+        pushCheckbox.disabled = !this.state.isCustom;
+        pushLabel.createSpan({ text: 'Push' });
+
+        if (this.state.isCustom) {
+          pushCheckbox.addEventListener('change', () => {
+            field.readOnly = !pushCheckbox.checked;
+            arrow.setText(field.readOnly ? ' → ' : ' ↔ ');
+          });
+        }
+      }
     }
 
     if (this.state.isCustom) {
@@ -141,6 +160,49 @@ export class SyncSettingsModal extends BaseModal<SyncSettingsModalResult> {
     }
   }
 
+  private renderContentSyncSection(container: HTMLElement): void {
+    const section = container.createEl('div', { cls: 'sync-content-section' });
+
+    section.createEl('h3', { text: 'Note Content' });
+    section.createEl('p', {
+      text: 'Managed sections are replaced on every sync. Content outside them is never changed.',
+      cls: 'sync-status inheriting-status',
+    });
+
+    const { contentSync } = this.state;
+
+    const descriptionItem = section.createEl('div', { cls: 'sync-field-item' });
+    const descriptionCheckbox = descriptionItem.createEl('input', { type: 'checkbox' });
+    descriptionCheckbox.checked = contentSync.syncDescription;
+    descriptionCheckbox.addEventListener('change', () => {
+      contentSync.syncDescription = descriptionCheckbox.checked;
+    });
+    descriptionItem.createEl('label', { text: 'Sync issue description into the note' });
+
+    const commentsItem = section.createEl('div', { cls: 'sync-field-item' });
+    const commentsCheckbox = commentsItem.createEl('input', { type: 'checkbox' });
+    commentsCheckbox.checked = contentSync.syncComments;
+    commentsItem.createEl('label', { text: 'Sync latest comments into the note' });
+
+    const limitInput = commentsItem.createEl('input', {
+      type: 'number',
+      cls: 'comment-limit',
+      attr: { min: '1', max: '50' },
+    });
+    limitInput.value = String(contentSync.commentLimit);
+    limitInput.disabled = !contentSync.syncComments;
+    limitInput.addEventListener('change', () => {
+      const limit = Math.round(Number(limitInput.value));
+      contentSync.commentLimit = Number.isFinite(limit) ? Math.min(Math.max(limit, 1), 50) : DEFAULT_CONTENT_SYNC.commentLimit;
+      limitInput.value = String(contentSync.commentLimit);
+    });
+
+    commentsCheckbox.addEventListener('change', () => {
+      contentSync.syncComments = commentsCheckbox.checked;
+      limitInput.disabled = !commentsCheckbox.checked;
+    });
+  }
+
   private renderButtons(container: HTMLElement): void {
     const buttonContainer = container.createEl('div', { cls: 'modal-buttons' });
 
@@ -157,6 +219,7 @@ export class SyncSettingsModal extends BaseModal<SyncSettingsModalResult> {
     const syncConfig = {
       enableSync: this.state.enableSync,
       syncFields: this.state.isCustom ? this.state.customSyncFields : undefined,
+      contentSync: this.state.contentSync.syncDescription || this.state.contentSync.syncComments ? this.state.contentSync : undefined,
     };
 
     this.submit({ syncConfig });
@@ -1,4 +1,4 @@
-import type { FolderMapping, JiraInstance, SyncFieldConfig, ProjectSyncConfig } from '../../../../types';
+import type { FolderMapping, JiraInstance, SyncFieldConfig, ProjectSyncConfig, ContentSyncConfig } from '../../../../types';
 
 export interface SyncSettingsModalOptions {
   mapping: FolderMapping;
@@ -14,4 +14,5 @@ export interface SyncSettingsModalState {
   enableSync: boolean;
   isCustom: boolean;
   customSyncFields: SyncFieldConfig[];
+  contentSync: ContentSyncConfig;
 }
@@ -1,2 +1,8 @@
 export { SyncSettingsModal } from './SyncSettingsModal/SyncSettingsModal';
 export type { SyncSettingsModalOptions, SyncSettingsModalResult } from './SyncSettingsModal/types';
+export { SyncConflictModal } from './SyncConflictModal/SyncConflictModal';
+export type { SyncConflictModalOptions, SyncConflictModalResult } from './SyncConflictModal/types';
+export { SyncJqlModal } from './SyncJqlModal/SyncJqlModal';
+export type { SyncJqlModalOptions, SyncJqlModalResult } from './SyncJqlModal/types';
+export { PushNoteModal } from './PushNoteModal/PushNoteModal';
+export type { PushNoteModalOptions, PushNoteModalResult } from './PushNoteModal/types';
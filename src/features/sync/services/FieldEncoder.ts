@@ -0,0 +1,16 @@
+import type { FieldEncodingContext, FieldEncodingStrategy } from './types';
+import { createDefaultEncodingStrategies } from './strategies/fieldEncoding';
+
+export class FieldEncoder {
+  private strategies: FieldEncodingStrategy[];
+
+  constructor(strategies?: FieldEncodingStrategy[]) {
+    this.strategies = strategies ?? createDefaultEncodingStrategies();
+  }
+
+  async encode(fieldName: string, localValue: string | null, remoteValue: unknown, context: FieldEncodingContext): Promise<unknown> {
+    const field = await context.getField(fieldName);
+    const strategy = this.strategies.find(s => s.canHandle(fieldName, remoteValue, field));
+    return strategy ? strategy.encode(localValue, remoteValue, context, field) : localValue;
+  }
+}
@@ -0,0 +1,136 @@
+import type { JiraClientPool } from '../../../api/JiraClientPool';
+import type { JiraMetadataCache } from '../../../api/JiraMetadataCache';
+import type { JiraClient } from '../../../api/JiraClient';
+import type { FrontmatterFieldMapping, JiraInstance } from '../../../types';
+import type { FieldEncodingContext, NotePushChange, NotePushField, NotePushValues } from './types';
+import { FieldExtractor } from './FieldExtractor';
+import { FieldEncoder } from './FieldEncoder';
+import { isPushableField, parseListValue } from './strategies';
+import { adfToMarkdown, isAdfDocument } from '../../../utils/adfToMarkdown';
+
+const FIELD_LABELS: Record<string, string> = {
+  summary: 'Summary',
+  description: 'Description',
+  labels: 'Labels',
+  priority: 'Priority',
+  assignee: 'Assignee',
+};
+
+export class NotePushService {
+  constructor(
+    private clientPool: JiraClientPool,
+    private metadataCache: JiraMetadataCache,
+    private fieldExtractor: FieldExtractor = new FieldExtractor(),
+    private fieldEncoder: FieldEncoder = new FieldEncoder(),
+  ) {}
+
+  collectFields(frontmatter: Record<string, unknown>, mappings: FrontmatterFieldMapping[]): NotePushField[] {
+    const fields: NotePushField[] = [];
+
+    for (const mapping of mappings) {
+      const field = mapping.jiraFieldType === 'custom' ? mapping.customFieldId : mapping.jiraFieldType;
+      const rawValue = frontmatter[mapping.frontmatterKey];
+      if (!field || !isPushableField(field) || rawValue === undefined) continue;
+
+      fields.push({
+        field,
+        label: mapping.customFieldName ?? FIELD_LABELS[field] ?? field,
+        value: rawValue === null ? null : Array.isArray(rawValue) ? rawValue.map(String).join(', ') : String(rawValue),
+      });
+    }
+
+    return fields;
+  }
+
+  async preparePush(instance: JiraInstance, issueKey: string, values: NotePushValues): Promise<NotePushChange[]> {
+    const client = this.clientPool.getClient(instance);
+    const fieldNames = ['summary', 'issuetype', ...(values.description.trim() ? ['description'] : []), ...values.fields.map(f => f.field)];
+    const issue = await client.getIssue(issueKey, fieldNames);
+    const changes: NotePushChange[] = [];
+
+    const remoteSummary = this.fieldExtractor.extract(issue.fields, 'summary');
+    if (values.summary.trim() !== (remoteSummary ?? '')) {
+      changes.push({
+        field: 'summary',
+        label: FIELD_LABELS.summary,
+        remoteValue: remoteSummary,
+        localValue: values.summary.trim(),
+        value: values.summary.trim(),
+      });
+    }
+
+    if (values.description.trim()) {
+      const formatted = client.formatDescription(values.description.trim(), [], values.sourcePath);
+      const remoteDescription = this.fieldExtractor.extract(issue.fields, 'description');
+      const normalized = isAdfDocument(formatted) ? adfToMarkdown(formatted) : String(formatted);
+
+      if (normalized.trim() !== (remoteDescription ?? '').trim()) {
+        changes.push({
+          field: 'description',
+          label: FIELD_LABELS.description,
+          remoteValue: remoteDescription,
+          localValue: values.description.trim(),
+          value: formatted,
+        });
+      }
+    }
+
+    const issueTypeId = (issue.fields.issuetype as { id?: string } | undefined)?.id;
+    const encodingContext = this.createEncodingContext(instance.id, issueKey, issueTypeId, client, values.sourcePath);
+    for (const field of values.fields) {
+      const rawRemote = issue.fields[field.field];
+      const isList = field.field === 'labels' || Array.isArray(rawRemote);
+      const extracted = this.fieldExtractor.extract(issue.fields, field.field);
+      const remoteValue = isList ? parseListValue(extracted).join(', ') || null : extracted;
+      if (this.isSameValue(field.value, remoteValue, isList)) continue;
+
+      changes.push({
+        field: field.field,
+        label: field.label,
+        remoteValue,
+        localValue: field.value,
+        value: await this.fieldEncoder.encode(field.field, field.value, rawRemote, encodingContext),
+      });
+    }
+
+    return changes;
+  }
+
+  async push(instance: JiraInstance, issueKey: string, changes: NotePushChange[]): Promise<void> {
+    if (changes.length === 0) return;
+
+    const fields = Object.fromEntries(changes.map(change => [change.field, change.value]));
+    await this.clientPool.getClient(instance).updateIssue(issueKey, fields);
+  }
+
+  private isSameValue(localValue: string | null, remoteValue: string | null, isList: boolean): boolean {
+    if (isList) {
+      const sort = (items: string[]) => [...items].sort().join('\n');
+      return sort(parseListValue(localValue)) === sort(parseListValue(remoteValue));
+    }
+    return (localValue ?? '') === (remoteValue ?? '');
+  }
+
+  private createEncodingContext(
+    instanceId: string,
+    issueKey: string,
+    issueTypeId: string | undefined,
+    client: JiraClient,
+    sourcePath?: string,
+  ): FieldEncodingContext {
+    const projectKey = issueKey.split('-')[0];
+
+    return {
+      findUser: async displayName => {
+        const users = await this.metadataCache.getAssignableUsers(instanceId, projectKey);
+        return users.find(u => u.displayName === displayName || u.accountId === displayName) ?? null;
+      },
+      formatRichText: markdown => client.formatDescription(markdown, [], sourcePath),
+      getField: async fieldId => {
+        if (!issueTypeId) return undefined;
+        const fields = await this.metadataCache.getFieldsForIssueType(instanceId, projectKey, issueTypeId).catch(() => []);
+        return fields.find(f => f.fieldId === fieldId);
+      },
+    };
+  }
+}
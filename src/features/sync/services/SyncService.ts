@@ -1,137 +1,202 @@
 import { App, TFile, TFolder, Notice } from 'obsidian';
-import type { PluginSettings, SyncFieldConfig, SyncResult, SyncStats, SyncChange } from '../../../types';
-import type { SyncOptions, SyncContext, SyncCacheStrategy, SyncScopeStrategy } from './types';
+import type {
+  PluginSettings,
+  SyncFieldConfig,
+  SyncResult,
+  SyncStats,
+  SyncChange,
+  SyncSnapshot,
+  SyncConflict,
+  ConflictResolution,
+  JiraIssueData,
+  SyncStateRecord,
+  FolderMapping,
+  ContentSyncConfig,
+} from '../../../types';
+import type { SyncOptions, SyncContext, SyncCacheStrategy, SyncScopeStrategy, FieldEncodingContext } from './types';
 import type { ResolvedContext } from '../../../types/mapping.types';
 import { MappingResolver } from '../../../mapping';
-import { JiraClient } from '../../../api/JiraClient';
+import type { JiraClientPool } from '../../../api/JiraClientPool';
+import type { JiraMetadataCache } from '../../../api/JiraMetadataCache';
+import type { JiraClient } from '../../../api/JiraClient';
+import { JiraNotFoundError, JiraValidationError } from '../../../api/errors';
 import type { EventBus } from '../../../core/EventBus';
 import { addFrontmatterFields } from '../../../utils/frontmatter';
+import { writeManagedSections } from '../../../utils/noteSections';
 import { FieldExtractor } from './FieldExtractor';
+import { FieldEncoder } from './FieldEncoder';
+import type { SyncStateStore } from './SyncStateStore';
+import type { SyncWatermarkStore } from './SyncWatermarkStore';
+import type { LinkedNotesIndex } from '../../linked-notes/services/LinkedNotesIndex';
+import { isPushableField } from './strategies/fieldEncoding';
+import { COMMENTS_SECTION, DESCRIPTION_SECTION, renderCommentsSection, renderDescriptionSection } from './contentSections';
 import { createCacheStrategy } from './strategies/caching';
-import { OpenNotesScope, FolderScope } from './strategies/syncScope';
+import { OpenNotesScope, FolderScope, VaultScope, MappingScope, JqlScope } from './strategies/syncScope';
+
+const SYNC_BATCH_SIZE = 50;
+
+interface PrefetchResult {
+  issues: Map<string, JiraIssueData>;
+  unchanged: Set<string>;
+  failedInstances: Set<string>;
+}
+
+const ISSUE_KEY_PATTERN = /^[A-Z][A-Z0-9_]*-\d+$/i;
 
 export class SyncService {
   private app: App;
   private settings: PluginSettings;
   private mappingResolver: MappingResolver;
-  private clients: Map<string, JiraClient> = new Map();
+  private clientPool: JiraClientPool;
   private intervalId: number | null = null;
   private cacheStrategy: SyncCacheStrategy;
   private eventBus: EventBus;
   private fieldExtractor: FieldExtractor;
-
-  constructor(app: App, settings: PluginSettings, eventBus: EventBus, fieldExtractor?: FieldExtractor, cacheStrategy?: SyncCacheStrategy) {
+  private fieldEncoder: FieldEncoder;
+  private metadataCache: JiraMetadataCache;
+  private stateStore: SyncStateStore;
+  private watermarkStore: SyncWatermarkStore;
+  private linkedNotes: LinkedNotesIndex;
+
+  constructor(
+    app: App,
+    settings: PluginSettings,
+    eventBus: EventBus,
+    clientPool: JiraClientPool,
+    metadataCache: JiraMetadataCache,
+    stateStore: SyncStateStore,
+    watermarkStore: SyncWatermarkStore,
+    linkedNotes: LinkedNotesIndex,
+    fieldExtractor?: FieldExtractor,
+    cacheStrategy?: SyncCacheStrategy,
+    fieldEncoder?: FieldEncoder,
+  ) {
     this.app = app;
     this.settings = settings;
     this.mappingResolver = new MappingResolver(settings);
     this.eventBus = eventBus;
+    this.clientPool = clientPool;
+    this.metadataCache = metadataCache;
+    this.stateStore = stateStore;
+    this.watermarkStore = watermarkStore;
+    this.linkedNotes = linkedNotes;
     this.fieldExtractor = fieldExtractor ?? new FieldExtractor();
+    this.fieldEncoder = fieldEncoder ?? new FieldEncoder();
     this.cacheStrategy = cacheStrategy ?? createCacheStrategy(settings);
-
-    for (const instance of settings.instances.filter(i => i.enabled)) {
-      this.clients.set(instance.id, new JiraClient(instance));
-    }
   }
 
   async syncNote(file: TFile, options: SyncOptions = {}): Promise<SyncResult> {
-    const metadata = this.app.metadataCache.getFileCache(file);
-    const issueKey = metadata?.frontmatter?.issue_id;
-
-    if (!issueKey) {
-      return {
-        success: false,
-        ticketKey: '',
-        changes: [],
-        skipped: true,
-        skipReason: 'no_issue_id',
-      };
-    }
+    const { context, skipped } = this.prepareSync(file, options);
+    if (skipped) return skipped;
 
-    const context = this.mappingResolver.resolve(file.path);
+    return this.runSync(context, options);
+  }
 
-    if (!context.instance) {
-      return {
-        success: false,
-        ticketKey: issueKey,
-        changes: [],
-        skipped: true,
-        skipReason: 'no_instance_mapping',
-      };
+  async resolveConflicts(file: TFile, resolutions: ConflictResolution[]): Promise<SyncResult> {
+    const issueKey = this.app.metadataCache.getFileCache(file)?.frontmatter?.issue_id;
+    const instance = this.mappingResolver.resolve(file.path).instance;
+    if (!issueKey || !instance) {
+      throw new Error('Note is not linked to a Jira issue');
     }
 
-    const syncFields = this.getEffectiveSyncConfig(context);
-
-    if (syncFields.length === 0) {
-      return {
-        success: false,
-        ticketKey: issueKey,
-        changes: [],
-        skipped: true,
-        skipReason: 'sync_disabled',
-      };
-    }
-
-    if (!options.force && this.cacheStrategy.has(issueKey)) {
-      return {
-        success: true,
-        ticketKey: issueKey,
-        changes: [],
-        skipped: true,
-        skipReason: 'cached',
-      };
+    const client = this.clientPool.getClientById(instance.id);
+    if (!client) {
+      throw new Error('Jira instance not found or disabled');
     }
 
-    try {
-      const syncContext: SyncContext = {
-        file,
-        issueKey,
-        instanceId: context.instance.id,
-        syncFields,
-        trigger: 'manual',
-      };
-
-      const result = await this.performSync(syncContext, options);
+    const issueData = await client.getIssue(issueKey, [...resolutions.map(r => r.conflict.field), 'issuetype']);
+    const context: SyncContext = { file, issueKey, instanceId: instance.id, syncFields: [], trigger: 'manual' };
+    const encodingContext = this.createEncodingContext(context, client, issueData);
+    const snapshot: SyncSnapshot = { ...this.getState(context)?.snapshot };
+    const changes: SyncChange[] = [];
+    const fieldsToPush: Record<string, unknown> = {};
+    const fieldsToUpdate: Record<string, string> = {};
 
-      if (result.success && !options.silent) {
-        this.eventBus.emit('sync:complete', result);
+    for (const { conflict, choice, mergedValue } of resolutions) {
+      const remoteValue = this.fieldExtractor.extract(issueData.fields, conflict.field) || null;
+      const value = choice === 'remote' ? remoteValue : choice === 'local' ? conflict.localValue : mergedValue || null;
+
+      if (value !== remoteValue) {
+        if (!conflict.editable) {
+          throw new Error(`${conflict.field} is read-only and cannot be pushed to Jira`);
+        }
+        fieldsToPush[conflict.field] = await this.fieldEncoder.encode(
+          conflict.field,
+          value,
+          issueData.fields[conflict.field],
+          encodingContext,
+        );
+        changes.push({
+          field: conflict.field,
+          oldValue: remoteValue,
+          newValue: value,
+          direction: 'toJira',
+          frontmatterKey: conflict.frontmatterKey,
+        });
       }
 
-      return result;
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
-
-      if (err.message.includes('404')) {
-        await addFrontmatterFields(this.app, file, {
-          jira_sync_status: 'unlinked',
+      if (value !== conflict.localValue) {
+        fieldsToUpdate[conflict.frontmatterKey] = value || '';
+        changes.push({
+          field: conflict.field,
+          oldValue: conflict.localValue,
+          newValue: value,
+          direction: 'fromJira',
+          frontmatterKey: conflict.frontmatterKey,
         });
-
-        return {
-          success: false,
-          ticketKey: issueKey,
-          changes: [],
-          error: new Error('Ticket not found in Jira'),
-          skipped: true,
-          skipReason: 'not_found',
-        };
       }
 
-      return {
-        success: false,
-        ticketKey: issueKey,
-        changes: [],
-        error: err,
-      };
+      snapshot[conflict.field] = value;
     }
+
+    if (Object.keys(fieldsToPush).length > 0) {
+      await client.updateIssue(issueKey, fieldsToPush);
+    }
+
+    await addFrontmatterFields(this.app, file, {
+      ...fieldsToUpdate,
+      jira_sync_status: 'synced',
+      jira_synced_at: new Date().toISOString(),
+    });
+    await this.saveState(context, { snapshot, syncStatus: 'synced', lastSyncAt: Date.now(), lastError: undefined });
+
+    return {
+      success: true,
+      ticketKey: issueKey,
+      changes,
+    };
   }
 
   async syncAllOpenNotes(options: SyncOptions = {}): Promise<SyncStats> {
     return this.syncBatch(new OpenNotesScope(), options);
   }
 
+  async syncVault(options: SyncOptions = {}): Promise<SyncStats> {
+    return this.syncBatch(new VaultScope(this.linkedNotes), options);
+  }
+
   async syncFolder(folder: TFolder, options: SyncOptions = {}): Promise<SyncStats> {
     return this.syncBatch(new FolderScope(folder), options);
   }
 
+  async syncMapping(mapping: FolderMapping, options: SyncOptions = {}): Promise<SyncStats> {
+    return this.syncBatch(new MappingScope(mapping, this.mappingResolver, this.linkedNotes), options);
+  }
+
+  async syncJql(instanceId: string, jql: string, options: SyncOptions = {}): Promise<SyncStats> {
+    const client = this.clientPool.getClientById(instanceId);
+    if (!client) {
+      throw new Error('Jira instance not found or disabled');
+    }
+
+    const issueKeys: string[] = [];
+    for await (const issue of client.searchJql(jql, ['summary'])) {
+      issueKeys.push(issue.key);
+    }
+
+    return this.syncBatch(new JqlScope(instanceId, issueKeys, this.mappingResolver, this.linkedNotes), options);
+  }
+
   async syncBatch(scope: SyncScopeStrategy, options: SyncOptions = {}): Promise<SyncStats> {
     const stats: SyncStats = {
       total: 0,
@@ -139,19 +204,59 @@ export class SyncService {
       skipped: 0,
       failed: 0,
       changes: 0,
+      conflicts: 0,
     };
 
     const files = scope.collectFiles(this.app);
     stats.total = files.length;
 
+    const results: SyncResult[] = [];
+    const pending: SyncContext[] = [];
+
     for (const file of files) {
-      const result = await this.syncNote(file, { ...options, silent: true });
+      const { context, skipped } = this.prepareSync(file, options);
+      if (skipped) {
+        results.push(skipped);
+      } else {
+        pending.push(context);
+      }
+    }
+
+    const startedAt = Date.now();
+    const prefetched = await this.prefetchIssues(pending, options.incremental ? startedAt : undefined);
+    const failedInstances = new Set<string>();
+
+    await this.stateStore.batch(async () => {
+      for (const context of pending) {
+        const id = this.issueId(context.instanceId, context.issueKey);
+        const lastSyncAt = this.getState(context)?.lastSyncAt ?? 0;
+
+        if (prefetched.unchanged.has(id) && (context.file.stat?.mtime ?? 0) <= lastSyncAt) {
+          results.push({ success: true, ticketKey: context.issueKey, changes: [], skipped: true, skipReason: 'unchanged' });
+          continue;
+        }
+
+        const result = await this.runSync(context, { ...options, silent: true }, prefetched.issues.get(id));
+        if (!result.success && !result.skipped) {
+          failedInstances.add(context.instanceId);
+        }
+        results.push(result);
+      }
+    });
 
+    for (const instanceId of new Set(pending.map(c => c.instanceId))) {
+      if (!failedInstances.has(instanceId) && !prefetched.failedInstances.has(instanceId)) {
+        await this.watermarkStore.set(instanceId, startedAt);
+      }
+    }
+
+    for (const result of results) {
       if (result.skipped) {
         stats.skipped++;
       } else if (result.success) {
         stats.synced++;
         stats.changes += result.changes.length;
+        stats.conflicts += result.conflicts?.length ?? 0;
       } else {
         stats.failed++;
       }
@@ -172,7 +277,7 @@ export class SyncService {
     const intervalMs = (this.settings.sync?.syncInterval ?? 1) * 60 * 1000;
 
     this.intervalId = window.setInterval(async () => {
-      await this.syncAllOpenNotes({ silent: true, force: true });
+      await this.syncVault({ silent: true, force: true, incremental: true });
     }, intervalMs);
   }
 
@@ -187,11 +292,6 @@ export class SyncService {
     this.settings = settings;
     this.mappingResolver.updateSettings(settings);
 
-    this.clients.clear();
-    for (const instance of settings.instances.filter(i => i.enabled)) {
-      this.clients.set(instance.id, new JiraClient(instance));
-    }
-
     const ttlMs = (settings.sync.syncInterval ?? 1) * 60 * 1000;
     this.cacheStrategy.updateConfig({ maxSize: 100, ttlMs });
 
@@ -203,35 +303,248 @@ export class SyncService {
     }
   }
 
-  private async performSync(context: SyncContext, _options: SyncOptions): Promise<SyncResult> {
-    let client = this.clients.get(context.instanceId);
-    if (!client) {
-      const instance = this.settings.instances.find(i => i.id === context.instanceId && i.enabled);
-      if (!instance) {
-        throw new Error('Jira instance not found or disabled');
+  private prepareSync(
+    file: TFile,
+    options: SyncOptions,
+  ): { context: SyncContext; skipped?: never } | { context?: never; skipped: SyncResult } {
+    const metadata = this.app.metadataCache.getFileCache(file);
+    const issueKey = metadata?.frontmatter?.issue_id;
+
+    if (!issueKey) {
+      return {
+        skipped: {
+          success: false,
+          ticketKey: '',
+          changes: [],
+          skipped: true,
+          skipReason: 'no_issue_id',
+        },
+      };
+    }
+
+    const context = this.mappingResolver.resolve(file.path);
+
+    if (!context.instance) {
+      return {
+        skipped: {
+          success: false,
+          ticketKey: issueKey,
+          changes: [],
+          skipped: true,
+          skipReason: 'no_instance_mapping',
+        },
+      };
+    }
+
+    const syncFields = this.getEffectiveSyncConfig(context);
+    const contentSync = this.getContentSyncConfig(context);
+
+    if (syncFields.length === 0 && !contentSync) {
+      return {
+        skipped: {
+          success: false,
+          ticketKey: issueKey,
+          changes: [],
+          skipped: true,
+          skipReason: 'sync_disabled',
+        },
+      };
+    }
+
+    if (!options.force && (this.cacheStrategy.has(issueKey) || this.isRecentlySynced(file.path))) {
+      return {
+        skipped: {
+          success: true,
+          ticketKey: issueKey,
+          changes: [],
+          skipped: true,
+          skipReason: 'cached',
+        },
+      };
+    }
+
+    return {
+      context: {
+        file,
+        issueKey,
+        instanceId: context.instance.id,
+        syncFields,
+        contentSync,
+        trigger: 'manual',
+      },
+    };
+  }
+
+  private async runSync(context: SyncContext, options: SyncOptions, issueData?: JiraIssueData): Promise<SyncResult> {
+    try {
+      const result = await this.performSync(context, options, issueData);
+
+      if (result.success && !options.silent) {
+        this.eventBus.emit('sync:complete', result);
       }
-      client = new JiraClient(instance);
-      this.clients.set(context.instanceId, client);
+
+      return result;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+
+      if (error instanceof JiraNotFoundError) {
+        await this.saveState(context, { snapshot: {}, syncStatus: 'unlinked', lastError: 'Ticket not found in Jira' });
+        await addFrontmatterFields(this.app, context.file, {
+          jira_sync_status: 'unlinked',
+        });
+
+        return {
+          success: false,
+          ticketKey: context.issueKey,
+          changes: [],
+          error: new Error('Ticket not found in Jira'),
+          skipped: true,
+          skipReason: 'not_found',
+        };
+      }
+
+      await this.saveState(context, { syncStatus: 'error', lastError: err.message });
+
+      return {
+        success: false,
+        ticketKey: context.issueKey,
+        changes: [],
+        error: err,
+      };
+    }
+  }
+
+  private async prefetchIssues(contexts: SyncContext[], incrementalAt?: number): Promise<PrefetchResult> {
+    const result: PrefetchResult = { issues: new Map(), unchanged: new Set(), failedInstances: new Set() };
+    const byInstance = new Map<string, SyncContext[]>();
+
+    for (const context of contexts) {
+      if (!ISSUE_KEY_PATTERN.test(context.issueKey)) continue;
+      byInstance.set(context.instanceId, [...(byInstance.get(context.instanceId) ?? []), context]);
     }
 
-    const fieldNames = context.syncFields.map(f => f.jiraField);
-    const issueData = await client.getIssue(context.issueKey, fieldNames);
+    for (const [instanceId, group] of byInstance) {
+      const client = this.clientPool.getClientById(instanceId);
+      if (!client) continue;
+
+      const fields = [...new Set(group.flatMap(c => this.getFieldNames(c)))];
+      const keys = [...new Set(group.map(c => c.issueKey.toUpperCase()))];
+      const watermark = this.watermarkStore.get(instanceId);
+      const filter =
+        incrementalAt !== undefined && watermark !== undefined
+          ? `updated >= -${Math.ceil((incrementalAt - watermark) / 60000) + 1}m`
+          : undefined;
+
+      for (let i = 0; i < keys.length; i += SYNC_BATCH_SIZE) {
+        let chunk = keys.slice(i, i + SYNC_BATCH_SIZE);
+        try {
+          const issues = [];
+          while (chunk.length > 0) {
+            try {
+              issues.push(...(await client.getIssues(chunk, fields, filter)));
+              break;
+            } catch (error) {
+              const invalid = this.findInvalidKeys(error, chunk);
+              if (invalid.length === 0) throw error;
+              chunk = chunk.filter(key => !invalid.includes(key));
+            }
+          }
+          for (const issue of issues) {
+            result.issues.set(this.issueId(instanceId, issue.key), issue);
+          }
+          if (filter) {
+            for (const key of chunk) {
+              const id = this.issueId(instanceId, key);
+              if (!result.issues.has(id)) result.unchanged.add(id);
+            }
+          }
+        } catch (error) {
+          result.failedInstances.add(instanceId);
+          console.warn('Batched issue fetch failed, syncing notes individually:', error);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private findInvalidKeys(error: unknown, keys: string[]): string[] {
+    if (!(error instanceof JiraValidationError)) return [];
+
+    const mentioned = error.messages.flatMap(message => [...message.matchAll(/'([^']+)'/g)].map(match => match[1].toUpperCase()));
+    return keys.filter(key => mentioned.includes(key));
+  }
+
+  private issueId(instanceId: string, issueKey: string): string {
+    return `${instanceId}:${issueKey.toUpperCase()}`;
+  }
+
+  private async performSync(context: SyncContext, _options: SyncOptions, prefetched?: JiraIssueData): Promise<SyncResult> {
+    const client = this.clientPool.getClientById(context.instanceId);
+    if (!client) {
+      throw new Error('Jira instance not found or disabled');
+    }
+
+    const issueData = prefetched ?? (await client.getIssue(context.issueKey, this.getFieldNames(context)));
 
     const changes: SyncChange[] = [];
+    const conflicts: SyncConflict[] = [];
     const fieldsToUpdate: Record<string, string> = {};
+    const fieldsToPush: Record<string, unknown> = {};
 
     const metadata = this.app.metadataCache.getFileCache(context.file);
+    const base = this.settings.sync.updateFrontmatter ? this.getState(context)?.snapshot : undefined;
+    const snapshot: SyncSnapshot = { ...base };
+    const encodingContext = this.createEncodingContext(context, client, issueData);
 
     for (const syncField of context.syncFields) {
       if (!syncField.enabled) continue;
 
-      const jiraValue = this.fieldExtractor.extract(issueData.fields, syncField.jiraField);
-      const currentValue = metadata?.frontmatter?.[syncField.frontmatterKey];
+      const rawValue = metadata?.frontmatter?.[syncField.frontmatterKey];
+      const jiraValue = this.fieldExtractor.extract(issueData.fields, syncField.jiraField) || null;
+      const localValue = this.normalizeLocalValue(rawValue);
+      const hasBase = base !== undefined && syncField.jiraField in base;
+      const baseValue = base?.[syncField.jiraField] ?? null;
+      const editable = this.isEditable(syncField);
+
+      if (hasBase && localValue !== baseValue && localValue !== jiraValue) {
+        if (jiraValue !== baseValue) {
+          conflicts.push({
+            field: syncField.jiraField,
+            frontmatterKey: syncField.frontmatterKey,
+            localValue,
+            remoteValue: jiraValue,
+            baseValue,
+            editable,
+          });
+          continue;
+        }
+
+        if (editable) {
+          fieldsToPush[syncField.jiraField] = await this.fieldEncoder.encode(
+            syncField.jiraField,
+            localValue,
+            issueData.fields[syncField.jiraField],
+            encodingContext,
+          );
+          changes.push({
+            field: syncField.jiraField,
+            oldValue: jiraValue,
+            newValue: localValue,
+            direction: 'toJira',
+            frontmatterKey: syncField.frontmatterKey,
+          });
+          snapshot[syncField.jiraField] = localValue;
+          continue;
+        }
+      }
+
+      snapshot[syncField.jiraField] = jiraValue;
 
-      if (jiraValue !== currentValue) {
+      if (jiraValue !== localValue) {
         changes.push({
           field: syncField.jiraField,
-          oldValue: currentValue,
+          oldValue: rawValue,
           newValue: jiraValue,
           direction: 'fromJira',
           frontmatterKey: syncField.frontmatterKey,
@@ -241,20 +554,131 @@ export class SyncService {
       }
     }
 
-    if (Object.keys(fieldsToUpdate).length > 0 && this.settings.sync.updateFrontmatter) {
+    if (Object.keys(fieldsToPush).length > 0) {
+      await client.updateIssue(context.issueKey, fieldsToPush);
+    }
+
+    if (conflicts.length > 0) {
+      fieldsToUpdate.jira_sync_status = 'conflict';
+    } else if (metadata?.frontmatter?.jira_sync_status === 'conflict') {
+      fieldsToUpdate.jira_sync_status = 'synced';
+    }
+
+    changes.push(...(await this.syncContentSections(context, client, issueData)));
+
+    if (changes.length > 0) {
       fieldsToUpdate.jira_synced_at = new Date().toISOString();
+    }
+
+    if (Object.keys(fieldsToUpdate).length > 0 && this.settings.sync.updateFrontmatter) {
       await addFrontmatterFields(this.app, context.file, fieldsToUpdate);
     }
 
+    await this.saveState(context, {
+      snapshot,
+      syncStatus: conflicts.length > 0 ? 'conflict' : 'synced',
+      lastSyncAt: Date.now(),
+      remoteUpdatedAt: typeof issueData.fields.updated === 'string' ? issueData.fields.updated : undefined,
+      lastError: undefined,
+    });
     this.cacheStrategy.set(context.issueKey, issueData.fields);
 
     return {
       success: true,
       ticketKey: context.issueKey,
       changes,
+      conflicts,
+    };
+  }
+
+  private async syncContentSections(context: SyncContext, client: JiraClient, issueData: JiraIssueData): Promise<SyncChange[]> {
+    const config = context.contentSync;
+    if (!config) return [];
+
+    const sections: Record<string, string> = {};
+    if (config.syncDescription) {
+      sections[DESCRIPTION_SECTION] = renderDescriptionSection(issueData.fields.description);
+    }
+    if (config.syncComments) {
+      sections[COMMENTS_SECTION] = renderCommentsSection(await client.getComments(context.issueKey, config.commentLimit));
+    }
+
+    const changed = await writeManagedSections(this.app, context.file, sections);
+    return changed.map(id => ({ field: id, oldValue: null, newValue: sections[id], direction: 'fromJira' }));
+  }
+
+  private getFieldNames(context: SyncContext): string[] {
+    const fieldNames = [...context.syncFields.map(f => f.jiraField), 'updated', 'issuetype'];
+    if (context.contentSync?.syncDescription) {
+      fieldNames.push('description');
+    }
+    return fieldNames;
+  }
+
+  private getState(context: SyncContext): SyncStateRecord | undefined {
+    const record = this.stateStore.get(context.file.path);
+    if (record?.instanceId !== context.instanceId || record.ticketKey.toUpperCase() !== context.issueKey.toUpperCase()) {
+      return undefined;
+    }
+    return record;
+  }
+
+  private async saveState(context: SyncContext, update: Partial<SyncStateRecord>): Promise<void> {
+    const existing = this.getState(context);
+    await this.stateStore.set(context.file.path, {
+      noteId: context.file.path,
+      ticketKey: context.issueKey,
+      instanceId: context.instanceId,
+      linkedAt: Date.now(),
+      syncStatus: 'pending',
+      snapshot: {},
+      ...existing,
+      ...update,
+    });
+  }
+
+  private isRecentlySynced(notePath: string): boolean {
+    const record = this.stateStore.get(notePath);
+    if (record?.syncStatus !== 'synced' || !record.lastSyncAt) return false;
+
+    return Date.now() - record.lastSyncAt < (this.settings.sync?.syncInterval ?? 1) * 60 * 1000;
+  }
+
+  private normalizeLocalValue(value: unknown): string | null {
+    return this.fieldExtractor.extract({ value }, 'value') || null;
+  }
+
+  private isEditable(syncField: SyncFieldConfig): boolean {
+    return !syncField.readOnly && isPushableField(syncField.jiraField);
+  }
+
+  private createEncodingContext(context: SyncContext, client: JiraClient, issueData: JiraIssueData): FieldEncodingContext {
+    const projectKey = context.issueKey.split('-')[0];
+    const issueTypeId = (issueData.fields.issuetype as { id?: string } | undefined)?.id;
+
+    return {
+      findUser: async displayName => {
+        const users = await this.metadataCache.getAssignableUsers(context.instanceId, projectKey);
+        return users.find(u => u.displayName === displayName || u.accountId === displayName) ?? null;
+      },
+      formatRichText: markdown => client.formatDescription(markdown, [], context.file.path),
+      getField: async fieldId => {
+        if (!issueTypeId) return undefined;
+        const fields = await this.metadataCache.getFieldsForIssueType(context.instanceId, projectKey, issueTypeId).catch(() => []);
+        return fields.find(f => f.fieldId === fieldId);
+      },
     };
   }
 
+  private getContentSyncConfig(context: ResolvedContext): ContentSyncConfig | undefined {
+    const syncConfig = context.projectMapping?.projectConfig?.syncConfig;
+    const contentSync = syncConfig?.contentSync;
+    if (!syncConfig?.enableSync || (!contentSync?.syncDescription && !contentSync?.syncComments)) {
+      return undefined;
+    }
+    return contentSync;
+  }
+
   private getEffectiveSyncConfig(context: ResolvedContext): SyncFieldConfig[] {
     const projectConfig = context.projectMapping?.projectConfig;
 
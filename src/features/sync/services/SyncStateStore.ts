@@ -0,0 +1,63 @@
+import type { SyncStateRecord } from '../../../types';
+import type { SyncStatePersistence } from './types';
+
+export class SyncStateStore {
+  private data: Record<string, SyncStateRecord>;
+  private batchDepth = 0;
+  private dirty = false;
+
+  constructor(private persistence: SyncStatePersistence) {
+    this.data = persistence.load();
+  }
+
+  get(notePath: string): SyncStateRecord | undefined {
+    return this.data[notePath];
+  }
+
+  getAll(): SyncStateRecord[] {
+    return Object.values(this.data);
+  }
+
+  async set(notePath: string, record: SyncStateRecord): Promise<void> {
+    this.data[notePath] = record;
+    await this.persist();
+  }
+
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    const record = this.data[oldPath];
+    if (!record) return;
+
+    delete this.data[oldPath];
+    this.data[newPath] = { ...record, noteId: newPath };
+    await this.persist();
+  }
+
+  async remove(notePath: string): Promise<void> {
+    if (!this.data[notePath]) return;
+
+    delete this.data[notePath];
+    await this.persist();
+  }
+
+  async batch<T>(run: () => Promise<T>): Promise<T> {
+    this.batchDepth++;
+    try {
+      return await run();
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0) await this.flush();
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (!this.dirty) return;
+
+    this.dirty = false;
+    await this.persistence.save(this.data);
+  }
+
+  private async persist(): Promise<void> {
+    this.dirty = true;
+    if (this.batchDepth === 0) await this.flush();
+  }
+}
@@ -0,0 +1,29 @@
+import type { SyncWatermarkPersistence } from './types';
+
+export class SyncWatermarkStore {
+  private data: Record<string, number>;
+
+  constructor(private persistence: SyncWatermarkPersistence) {
+    this.data = persistence.load();
+  }
+
+  get(instanceId: string): number | undefined {
+    return this.data[instanceId];
+  }
+
+  async set(instanceId: string, timestamp: number): Promise<void> {
+    this.data[instanceId] = timestamp;
+    await this.persistence.save(this.data);
+  }
+
+  async clear(instanceId?: string): Promise<void> {
+    if (instanceId) {
+      delete this.data[instanceId];
+    } else {
+      for (const key of Object.keys(this.data)) {
+        delete this.data[key];
+      }
+    }
+    await this.persistence.save(this.data);
+  }
+}
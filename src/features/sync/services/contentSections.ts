@@ -0,0 +1,37 @@
+import type { JiraComment } from '../../../types';
+import { adfToMarkdown, isAdfDocument } from '../../../utils/adfToMarkdown';
+
+export const DESCRIPTION_SECTION = 'description';
+export const COMMENTS_SECTION = 'comments';
+
+export function richTextToMarkdown(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (isAdfDocument(value)) return adfToMarkdown(value);
+  return '';
+}
+
+export function renderDescriptionSection(description: unknown): string {
+  const body = richTextToMarkdown(description);
+  return `## Jira Description\n\n${body || '_No description_'}`;
+}
+
+export function renderCommentsSection(comments: JiraComment[]): string {
+  if (comments.length === 0) {
+    return '## Jira Comments\n\n_No comments_';
+  }
+
+  const rendered = comments.map(comment => {
+    const body = richTextToMarkdown(comment.body)
+      .split('\n')
+      .map(line => (line ? `> ${line}` : '>'))
+      .join('\n');
+    return `> [!quote] ${comment.author} · ${formatTimestamp(comment.created)}\n${body}`;
+  });
+
+  return `## Jira Comments\n\n${rendered.join('\n\n')}`;
+}
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toISOString().slice(0, 16).replace('T', ' ');
+}
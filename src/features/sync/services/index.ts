@@ -1,11 +1,22 @@
 export { SyncService } from './SyncService';
 export { FieldExtractor } from './FieldExtractor';
+export { FieldEncoder } from './FieldEncoder';
+export { SyncStateStore } from './SyncStateStore';
+export { SyncWatermarkStore } from './SyncWatermarkStore';
+export { NotePushService } from './NotePushService';
 export type {
   SyncOptions,
   SyncCache,
   SyncTrigger,
   SyncContext,
   FieldExtractionStrategy,
+  FieldEncodingStrategy,
+  FieldEncodingContext,
+  SyncStatePersistence,
+  SyncWatermarkPersistence,
+  NotePushField,
+  NotePushValues,
+  NotePushChange,
   CacheConfig,
   SyncCacheStrategy,
   SyncScopeStrategy,
@@ -0,0 +1,172 @@
+import type { JiraFieldMeta } from '../../../../types';
+import type { FieldEncodingContext, FieldEncodingStrategy } from '../types';
+import { isAdfDocument } from '../../../../utils/adfToMarkdown';
+import { customFieldTypes, fieldSchemaKeys } from '../../../ticket-creation/services/FieldValueParserRegistry';
+
+const PUSHABLE_SYSTEM_FIELDS = ['summary', 'priority', 'labels', 'assignee', 'duedate'];
+
+export function isPushableField(jiraField: string): boolean {
+  return PUSHABLE_SYSTEM_FIELDS.includes(jiraField) || jiraField.startsWith('customfield_');
+}
+
+function hasSchemaKey(field: JiraFieldMeta, keys: string[]): boolean {
+  return fieldSchemaKeys(field).some(key => keys.includes(key));
+}
+
+function hasStringProperty(value: unknown, key: string): boolean {
+  return typeof value === 'object' && value !== null && typeof (value as Record<string, unknown>)[key] === 'string';
+}
+
+function readItemLabel(item: unknown): string {
+  if (typeof item !== 'object' || item === null) return String(item);
+  const record = item as Record<string, unknown>;
+  const label = record.value ?? record.name ?? record.displayName;
+  return typeof label === 'string' ? label : JSON.stringify(item);
+}
+
+export function parseListValue(value: string | null): string[] {
+  if (!value) return [];
+
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parsed.map(readItemLabel);
+    } catch {
+      // Not JSON, fall back to comma-separated values
+    }
+  }
+
+  return trimmed
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+export class RichTextFieldStrategy implements FieldEncodingStrategy {
+  private schemaKeys = ['environment', ...customFieldTypes('textarea')];
+
+  canHandle(_fieldName: string, remoteValue: unknown, field?: JiraFieldMeta): boolean {
+    return field ? hasSchemaKey(field, this.schemaKeys) : isAdfDocument(remoteValue);
+  }
+
+  async encode(localValue: string | null, _remoteValue: unknown, context: FieldEncodingContext): Promise<unknown> {
+    return localValue ? context.formatRichText(localValue) : null;
+  }
+}
+
+export class LabelsFieldStrategy implements FieldEncodingStrategy {
+  private schemaKeys = ['labels', 'array:string', ...customFieldTypes('labels')];
+
+  canHandle(fieldName: string, remoteValue: unknown, field?: JiraFieldMeta): boolean {
+    if (fieldName === 'labels') return true;
+    if (field) return hasSchemaKey(field, this.schemaKeys);
+    return Array.isArray(remoteValue) && remoteValue.length > 0 && remoteValue.every(item => typeof item === 'string');
+  }
+
+  async encode(localValue: string | null): Promise<unknown> {
+    return parseListValue(localValue);
+  }
+}
+
+export class UserFieldStrategy implements FieldEncodingStrategy {
+  private schemaKeys = ['user', 'assignee', ...customFieldTypes('userpicker')];
+
+  canHandle(fieldName: string, remoteValue: unknown, field?: JiraFieldMeta): boolean {
+    if (fieldName === 'assignee') return true;
+    return field ? hasSchemaKey(field, this.schemaKeys) : hasStringProperty(remoteValue, 'accountId');
+  }
+
+  async encode(localValue: string | null, _remoteValue: unknown, context: FieldEncodingContext): Promise<unknown> {
+    if (!localValue) return null;
+
+    const user = await context.findUser(localValue);
+    if (!user) {
+      throw new Error(`No assignable Jira user named "${localValue}"`);
+    }
+    return { accountId: user.accountId };
+  }
+}
+
+export class OptionListFieldStrategy implements FieldEncodingStrategy {
+  private schemaKeys = ['array:option', 'array:version', 'array:component', ...customFieldTypes('multiselect', 'multicheckboxes')];
+
+  canHandle(_fieldName: string, remoteValue: unknown, field?: JiraFieldMeta): boolean {
+    return field ? hasSchemaKey(field, this.schemaKeys) : Array.isArray(remoteValue);
+  }
+
+  async encode(localValue: string | null, remoteValue: unknown, _context: FieldEncodingContext, field?: JiraFieldMeta): Promise<unknown> {
+    const items = Array.isArray(remoteValue) ? remoteValue : [];
+    const usesNames = field
+      ? field.schema?.items !== 'option'
+      : items.some(item => hasStringProperty(item, 'name') && !hasStringProperty(item, 'value'));
+    const key = usesNames ? 'name' : 'value';
+    return parseListValue(localValue).map(item => ({ [key]: item }));
+  }
+}
+
+export class OptionFieldStrategy implements FieldEncodingStrategy {
+  private schemaKeys = ['option', ...customFieldTypes('select', 'radiobuttons')];
+
+  canHandle(_fieldName: string, remoteValue: unknown, field?: JiraFieldMeta): boolean {
+    return field ? hasSchemaKey(field, this.schemaKeys) : hasStringProperty(remoteValue, 'value');
+  }
+
+  async encode(localValue: string | null): Promise<unknown> {
+    return localValue ? { value: localValue } : null;
+  }
+}
+
+export class NamedFieldStrategy implements FieldEncodingStrategy {
+  private schemaKeys = ['priority', 'version', 'component'];
+
+  canHandle(fieldName: string, remoteValue: unknown, field?: JiraFieldMeta): boolean {
+    if (fieldName === 'priority') return true;
+    return field ? hasSchemaKey(field, this.schemaKeys) : hasStringProperty(remoteValue, 'name');
+  }
+
+  async encode(localValue: string | null): Promise<unknown> {
+    return localValue ? { name: localValue } : null;
+  }
+}
+
+export class NumberFieldStrategy implements FieldEncodingStrategy {
+  private schemaKeys = ['number', ...customFieldTypes('float')];
+
+  canHandle(_fieldName: string, remoteValue: unknown, field?: JiraFieldMeta): boolean {
+    return field ? hasSchemaKey(field, this.schemaKeys) : typeof remoteValue === 'number';
+  }
+
+  async encode(localValue: string | null): Promise<unknown> {
+    if (!localValue) return null;
+
+    const value = Number(localValue);
+    if (isNaN(value)) {
+      throw new Error(`"${localValue}" is not a number`);
+    }
+    return value;
+  }
+}
+
+export class TextFieldStrategy implements FieldEncodingStrategy {
+  canHandle(): boolean {
+    return true;
+  }
+
+  async encode(localValue: string | null): Promise<unknown> {
+    return localValue;
+  }
+}
+
+export function createDefaultEncodingStrategies(): FieldEncodingStrategy[] {
+  return [
+    new RichTextFieldStrategy(),
+    new LabelsFieldStrategy(),
+    new UserFieldStrategy(),
+    new OptionListFieldStrategy(),
+    new OptionFieldStrategy(),
+    new NamedFieldStrategy(),
+    new NumberFieldStrategy(),
+    new TextFieldStrategy(),
+  ];
+}
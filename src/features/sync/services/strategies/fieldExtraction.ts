@@ -1,4 +1,5 @@
 import type { FieldExtractionStrategy } from '../types';
+import { adfToMarkdown, isAdfDocument } from '../../../../utils/adfToMarkdown';
 
 export class NullFieldStrategy implements FieldExtractionStrategy {
   canHandle(value: unknown): boolean {
@@ -49,6 +50,19 @@ export class DisplayNamePropertyStrategy implements FieldExtractionStrategy {
   }
 }
 
+export class AdfDocumentStrategy implements FieldExtractionStrategy {
+  canHandle(value: unknown): boolean {
+    return isAdfDocument(value);
+  }
+
+  extract(value: unknown): string | null {
+    if (isAdfDocument(value)) {
+      return adfToMarkdown(value) || null;
+    }
+    return null;
+  }
+}
+
 export class JsonObjectStrategy implements FieldExtractionStrategy {
   canHandle(value: unknown): boolean {
     return typeof value === 'object' && value !== null;
@@ -74,6 +88,7 @@ export function createDefaultExtractionStrategies(): FieldExtractionStrategy[] {
     new NullFieldStrategy(),
     new NamePropertyStrategy(),
     new DisplayNamePropertyStrategy(),
+    new AdfDocumentStrategy(),
     new JsonObjectStrategy(),
     new PrimitiveFieldStrategy(),
   ];
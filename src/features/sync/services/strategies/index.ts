@@ -2,11 +2,26 @@ export {
   NullFieldStrategy,
   NamePropertyStrategy,
   DisplayNamePropertyStrategy,
+  AdfDocumentStrategy,
   JsonObjectStrategy,
   PrimitiveFieldStrategy,
   createDefaultExtractionStrategies,
 } from './fieldExtraction';
 
+export {
+  RichTextFieldStrategy,
+  LabelsFieldStrategy,
+  UserFieldStrategy,
+  OptionListFieldStrategy,
+  OptionFieldStrategy,
+  NamedFieldStrategy,
+  NumberFieldStrategy,
+  TextFieldStrategy,
+  createDefaultEncodingStrategies,
+  isPushableField,
+  parseListValue,
+} from './fieldEncoding';
+
 export { TTLCacheStrategy, NoCacheStrategy, createCacheStrategy } from './caching';
 
-export { OpenNotesScope, FolderScope } from './syncScope';
+export { OpenNotesScope, FolderScope, VaultScope, MappingScope, JqlScope } from './syncScope';
@@ -1,6 +1,12 @@
 import { App, TFile, TFolder, FileView } from 'obsidian';
 import type { SyncScopeStrategy } from '../types';
-import type { SyncStats } from '../../../../types';
+import type { FolderMapping, SyncStats } from '../../../../types';
+import type { MappingResolver } from '../../../../mapping/MappingResolver';
+import type { LinkedNotesIndex } from '../../../linked-notes/services/LinkedNotesIndex';
+
+function formatConflicts(stats: SyncStats): string {
+  return stats.conflicts > 0 ? `, ${stats.conflicts} conflict(s)` : '';
+}
 
 export class OpenNotesScope implements SyncScopeStrategy {
   collectFiles(app: App): TFile[] {
@@ -16,7 +22,19 @@ export class OpenNotesScope implements SyncScopeStrategy {
   }
 
   getNotificationMessage(stats: SyncStats): string {
-    return `Synced ${stats.synced} note(s) with ${stats.changes} change(s)`;
+    return `Synced ${stats.synced} note(s) with ${stats.changes} change(s)${formatConflicts(stats)}`;
+  }
+}
+
+export class VaultScope implements SyncScopeStrategy {
+  constructor(private linkedNotes: LinkedNotesIndex) {}
+
+  collectFiles(_app: App): TFile[] {
+    return this.linkedNotes.getLinkedFiles();
+  }
+
+  getNotificationMessage(stats: SyncStats): string {
+    return `Synced ${stats.synced}/${stats.total} linked notes with ${stats.changes} change(s)${formatConflicts(stats)}`;
   }
 }
 
@@ -44,6 +62,41 @@ export class FolderScope implements SyncScopeStrategy {
   }
 
   getNotificationMessage(stats: SyncStats): string {
-    return `Synced ${stats.synced}/${stats.total} notes with ${stats.changes} change(s)`;
+    return `Synced ${stats.synced}/${stats.total} notes with ${stats.changes} change(s)${formatConflicts(stats)}`;
+  }
+}
+
+export class MappingScope implements SyncScopeStrategy {
+  constructor(
+    private mapping: FolderMapping,
+    private resolver: MappingResolver,
+    private linkedNotes: LinkedNotesIndex,
+  ) {}
+
+  collectFiles(_app: App): TFile[] {
+    return this.linkedNotes.getLinkedFiles().filter(file => this.resolver.resolve(file.path).projectMapping?.id === this.mapping.id);
+  }
+
+  getNotificationMessage(stats: SyncStats): string {
+    return `Synced ${stats.synced}/${stats.total} ${this.mapping.projectKey} notes with ${stats.changes} change(s)${formatConflicts(stats)}`;
+  }
+}
+
+export class JqlScope implements SyncScopeStrategy {
+  constructor(
+    private instanceId: string,
+    private issueKeys: string[],
+    private resolver: MappingResolver,
+    private linkedNotes: LinkedNotesIndex,
+  ) {}
+
+  collectFiles(_app: App): TFile[] {
+    return this.issueKeys
+      .flatMap(issueKey => this.linkedNotes.getNotes(issueKey))
+      .filter(file => this.resolver.resolve(file.path).instance?.id === this.instanceId);
+  }
+
+  getNotificationMessage(stats: SyncStats): string {
+    return `Synced ${stats.synced}/${stats.total} notes matching JQL with ${stats.changes} change(s)${formatConflicts(stats)}`;
   }
 }
@@ -1,9 +1,10 @@
 import type { App, TFile } from 'obsidian';
-import type { SyncFieldConfig, SyncStats } from '../../../types';
+import type { ContentSyncConfig, JiraFieldMeta, SyncFieldConfig, SyncStateRecord, SyncStats } from '../../../types';
 
 export interface SyncOptions {
   force?: boolean;
   silent?: boolean;
+  incremental?: boolean;
 }
 
 export interface SyncCache {
@@ -19,6 +20,7 @@ export interface SyncContext {
   issueKey: string;
   instanceId: string;
   syncFields: SyncFieldConfig[];
+  contentSync?: ContentSyncConfig;
   trigger: SyncTrigger;
 }
 
@@ -27,6 +29,48 @@ export interface FieldExtractionStrategy {
   extract(value: unknown): string | null;
 }
 
+export interface FieldEncodingContext {
+  findUser(displayName: string): Promise<{ accountId: string } | null>;
+  formatRichText(markdown: string): unknown;
+  getField(fieldId: string): Promise<JiraFieldMeta | undefined>;
+}
+
+export interface FieldEncodingStrategy {
+  canHandle(fieldName: string, remoteValue: unknown, field?: JiraFieldMeta): boolean;
+  encode(localValue: string | null, remoteValue: unknown, context: FieldEncodingContext, field?: JiraFieldMeta): Promise<unknown>;
+}
+
+export interface NotePushField {
+  field: string;
+  label: string;
+  value: string | null;
+}
+
+export interface NotePushValues {
+  summary: string;
+  description: string;
+  fields: NotePushField[];
+  sourcePath?: string;
+}
+
+export interface NotePushChange {
+  field: string;
+  label: string;
+  remoteValue: string | null;
+  localValue: string | null;
+  value: unknown;
+}
+
+export interface SyncStatePersistence {
+  load(): Record<string, SyncStateRecord>;
+  save(data: Record<string, SyncStateRecord>): Promise<void>;
+}
+
+export interface SyncWatermarkPersistence {
+  load(): Record<string, number>;
+  save(data: Record<string, number>): Promise<void>;
+}
+
 export interface CacheConfig {
   maxSize: number;
   ttlMs: number;
@@ -18,7 +18,9 @@ export class BulkCreateReportModal extends Modal {
 
     this.renderCreatedSection(contentEl);
     this.renderSkippedSection(contentEl);
+    this.renderPreflightSection(contentEl);
     this.renderFailedSection(contentEl);
+    this.renderAttachmentFailuresSection(contentEl);
 
     const buttonContainer = contentEl.createDiv({ cls: 'button-container' });
     const closeButton = buttonContainer.createEl('button', { text: 'Close', cls: 'mod-cta' });
@@ -45,7 +47,7 @@ export class BulkCreateReportModal extends Modal {
           e.preventDefault();
           open(item.issueUrl);
         });
-        li.createSpan({ text: `: ${item.file.basename}` });
+        li.createSpan({ text: `: ${item.summary ?? item.file.basename}` });
       }
     }
   }
@@ -62,7 +64,7 @@ export class BulkCreateReportModal extends Modal {
     const list = section.createEl('ul', { cls: 'report-list' });
     for (const item of this.result.skipped) {
       const li = list.createEl('li');
-      li.createSpan({ text: item.file.basename, cls: 'file-name' });
+      li.createSpan({ text: item.summary ?? item.file.basename, cls: 'file-name' });
       li.createSpan({ text: ` — ${item.reason}`, cls: 'reason' });
 
       if (item.existingIssueKey) {
@@ -77,6 +79,23 @@ export class BulkCreateReportModal extends Modal {
     }
   }
 
+  private renderPreflightSection(container: HTMLElement): void {
+    if (this.result.preflightFailures.length === 0) return;
+
+    const section = container.createDiv({ cls: 'report-section' });
+    section.createEl('h3', {
+      text: `✗ Failed pre-flight checks: ${this.result.preflightFailures.length} notes`,
+      cls: 'section-header failed',
+    });
+
+    const list = section.createEl('ul', { cls: 'report-list' });
+    for (const item of this.result.preflightFailures) {
+      const li = list.createEl('li');
+      li.createSpan({ text: item.file.basename, cls: 'file-name' });
+      li.createSpan({ text: ` — ${item.issues.join('; ')}`, cls: 'error-message' });
+    }
+  }
+
   private renderFailedSection(container: HTMLElement): void {
     if (this.result.failed.length === 0) return;
 
@@ -89,11 +108,28 @@ export class BulkCreateReportModal extends Modal {
     const list = section.createEl('ul', { cls: 'report-list' });
     for (const item of this.result.failed) {
       const li = list.createEl('li');
-      li.createSpan({ text: item.file.basename, cls: 'file-name' });
+      li.createSpan({ text: item.summary ?? item.file.basename, cls: 'file-name' });
       li.createSpan({ text: ` — ${item.error}`, cls: 'error-message' });
     }
   }
 
+  private renderAttachmentFailuresSection(container: HTMLElement): void {
+    if (this.result.attachmentFailures.length === 0) return;
+
+    const section = container.createDiv({ cls: 'report-section' });
+    section.createEl('h3', {
+      text: `⚠ Attachments not uploaded: ${this.result.attachmentFailures.length}`,
+      cls: 'section-header attachments',
+    });
+
+    const list = section.createEl('ul', { cls: 'report-list' });
+    for (const item of this.result.attachmentFailures) {
+      const li = list.createEl('li');
+      li.createSpan({ text: `${item.file.basename} (${item.issueKey})`, cls: 'file-name' });
+      li.createSpan({ text: ` — ${item.fileName}: ${item.reason}`, cls: 'error-message' });
+    }
+  }
+
   onClose(): void {
     const { contentEl } = this;
     contentEl.empty();
@@ -1,9 +1,14 @@
 import { App, Notice } from 'obsidian';
 import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
-import { JiraClient } from '../../../../api';
-import type { CreateTicketModalOptions, CreateTicketResult, CreateTicketFormState } from './types';
+import { JiraValidationError, type JiraClient } from '../../../../api';
+import type { CreateTicketModalOptions, CreateTicketResult, CreateTicketFormState, FrontmatterValues } from './types';
 import type { JiraProject, JiraPriority, JiraFieldMeta } from '../../../../types';
 import { mapJiraError, NOTICE_DURATION } from '../../../../utils';
+import { AttachmentUploader } from '../../services/AttachmentUploader';
+import { CreateMetaValidator } from '../../services/CreateMetaValidator';
+import { TicketTemplateRenderer } from '../../services/TicketTemplateRenderer';
+import { createDefaultFieldValueParserRegistry } from '../../services/FieldValueParserRegistry';
+import { createDefaultFieldRendererRegistry, type FieldRendererRegistry } from './fields';
 
 export class CreateTicketModal extends BaseModal<CreateTicketResult> {
   private options: CreateTicketModalOptions;
@@ -16,10 +21,20 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
   private submitButton: HTMLButtonElement | null = null;
   private client: JiraClient | null = null;
   private customFieldsContainer: HTMLElement | null = null;
+  private fieldGroups = new Map<string, HTMLElement>();
+  private attachments: AttachmentUploader;
+  private fieldRenderers: FieldRendererRegistry;
+  private fieldParsers = createDefaultFieldValueParserRegistry();
+  private validator = new CreateMetaValidator();
+  private templates = new TicketTemplateRenderer();
+  private frontmatterValues: FrontmatterValues;
 
   constructor(app: App, options: CreateTicketModalOptions) {
     super(app);
     this.options = options;
+    this.attachments = new AttachmentUploader(app);
+    this.fieldRenderers = createDefaultFieldRendererRegistry();
+    this.frontmatterValues = options.frontmatterValues ?? {};
     this.state = {
       summary: options.initialSummary || '',
       description: options.initialDescription || '',
@@ -40,10 +55,14 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
     };
 
     if (options.context.instance) {
-      this.client = new JiraClient(options.context.instance);
+      this.client = options.clientPool.getClient(options.context.instance);
     }
   }
 
+  private get instanceId(): string {
+    return this.options.context.instance?.id ?? '';
+  }
+
   build(): void {
     const { contentEl } = this;
     contentEl.addClass('jira-bridge-modal', 'jira-bridge-create-ticket');
@@ -57,6 +76,9 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
 
     const form = contentEl.createEl('div', { cls: 'modal-form' });
 
+    if (this.options.projectConfig?.templates?.length) {
+      this.createTemplateField(form);
+    }
     this.createSummaryField(form);
     this.createProjectField(form);
     this.createIssueTypeField(form);
@@ -92,8 +114,52 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
     });
   }
 
+  private createTemplateField(container: HTMLElement): void {
+    const fieldGroup = container.createEl('div', { cls: 'field-group' });
+    fieldGroup.createEl('label', { text: 'Template' });
+
+    const templateSelect = fieldGroup.createEl('select', { cls: 'field-select' });
+    templateSelect.createEl('option', { text: 'No template', attr: { value: '' } });
+    for (const template of this.options.projectConfig?.templates ?? []) {
+      templateSelect.createEl('option', { text: template.name, attr: { value: template.id } });
+    }
+
+    templateSelect.addEventListener('change', () => this.applyTemplate(templateSelect.value));
+  }
+
+  private applyTemplate(templateId: string): void {
+    const template = this.options.projectConfig?.templates?.find(t => t.id === templateId);
+    const baseValues = this.options.frontmatterValues ?? {};
+
+    if (template) {
+      const variables = this.options.templateVariables ?? this.templates.createVariables(null);
+      const applied = this.templates.apply(template, baseValues, {
+        ...variables,
+        summary: this.state.summary,
+        description: this.options.initialDescription || '',
+      });
+      this.frontmatterValues = applied.frontmatterValues;
+      this.state.description = applied.description;
+    } else {
+      this.frontmatterValues = baseValues;
+      this.state.description = this.options.initialDescription || '';
+    }
+
+    if (this.descriptionInput) {
+      this.descriptionInput.value = this.state.description;
+    }
+
+    this.state.customFieldValues = {};
+    if (this.state.priorities.length > 0) {
+      this.state.priorityId = '';
+      this.updatePrioritySelect(this.state.priorities);
+    }
+    this.updateIssueTypeSelect();
+  }
+
   private createSummaryField(container: HTMLElement): void {
     const fieldGroup = container.createEl('div', { cls: 'field-group' });
+    this.fieldGroups.set('summary', fieldGroup);
     fieldGroup.createEl('label', { text: 'Summary *' });
 
     const summaryInput = fieldGroup.createEl('input', {
@@ -111,6 +177,7 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
 
   private createProjectField(container: HTMLElement): void {
     const fieldGroup = container.createEl('div', { cls: 'field-group' });
+    this.fieldGroups.set('project', fieldGroup);
     fieldGroup.createEl('label', { text: 'Project *' });
 
     const projectSelect = fieldGroup.createEl('select', {
@@ -133,6 +200,7 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
 
   private createIssueTypeField(container: HTMLElement): void {
     const fieldGroup = container.createEl('div', { cls: 'field-group' });
+    this.fieldGroups.set('issuetype', fieldGroup);
     fieldGroup.createEl('label', { text: 'Issue Type *' });
 
     const issueTypeSelect = fieldGroup.createEl('select', {
@@ -150,7 +218,7 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
       this.state.issueTypeId = issueTypeSelect.value;
       this.state.customFieldValues = {};
       this.updateSubmitButtonState();
-      if (this.state.issueTypeId && this.hasCustomFields()) {
+      if (this.state.issueTypeId) {
         this.loadCustomFieldsMeta();
       }
     });
@@ -158,6 +226,7 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
 
   private createPriorityField(container: HTMLElement): void {
     const fieldGroup = container.createEl('div', { cls: 'field-group' });
+    this.fieldGroups.set('priority', fieldGroup);
     fieldGroup.createEl('label', { text: 'Priority' });
 
     const prioritySelect = fieldGroup.createEl('select', {
@@ -178,6 +247,7 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
 
   private createDescriptionField(container: HTMLElement): void {
     const fieldGroup = container.createEl('div', { cls: 'field-group' });
+    this.fieldGroups.set('description', fieldGroup);
     fieldGroup.createEl('label', { text: 'Description' });
 
     const descriptionInput = fieldGroup.createEl('textarea', {
@@ -202,7 +272,7 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
     this.state.isLoadingProjects = true;
 
     try {
-      const projects = await this.client.getProjects();
+      const projects = await this.options.metadataCache.getProjects(this.instanceId);
       this.state.projects = projects;
       this.updateProjectSelect(projects);
 
@@ -259,7 +329,7 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
     });
 
     try {
-      const issueTypes = await this.client.getIssueTypes(this.state.projectKey);
+      const issueTypes = await this.options.metadataCache.getIssueTypes(this.instanceId, this.state.projectKey);
       this.state.issueTypes = issueTypes.filter(t => !t.subtask);
       this.updateIssueTypeSelect();
     } catch {
@@ -286,8 +356,11 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
       return;
     }
 
-    const frontmatterIssueType = this.options.frontmatterValues?.issueType?.toLowerCase();
-    let matchedTypeId = '';
+    const frontmatterIssueType = this.frontmatterValues.issueType?.toLowerCase();
+    const matchedTypeId =
+      this.state.issueTypes.find(t => frontmatterIssueType && t.name.toLowerCase() === frontmatterIssueType)?.id ??
+      this.state.issueTypes.find(t => t.id === this.state.issueTypeId)?.id ??
+      '';
 
     const defaultOption = this.issueTypeSelect.createEl('option', {
       text: 'Select issue type...',
@@ -300,18 +373,15 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
         attr: { value: type.id },
       });
 
-      if (frontmatterIssueType && type.name.toLowerCase() === frontmatterIssueType) {
+      if (type.id === matchedTypeId) {
         option.selected = true;
         defaultOption.selected = false;
-        matchedTypeId = type.id;
       }
     }
 
     if (matchedTypeId) {
       this.state.issueTypeId = matchedTypeId;
-      if (this.hasCustomFields()) {
-        this.loadCustomFieldsMeta();
-      }
+      this.loadCustomFieldsMeta();
     }
 
     this.updateSubmitButtonState();
@@ -323,7 +393,7 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
     this.state.isLoadingPriorities = true;
 
     try {
-      const priorities = await this.client.getPriorities();
+      const priorities = await this.options.metadataCache.getPriorities(this.instanceId);
       this.state.priorities = priorities;
       this.updatePrioritySelect(priorities);
     } catch {
@@ -342,7 +412,7 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
 
     this.prioritySelect.innerHTML = '';
 
-    const frontmatterPriority = this.options.frontmatterValues?.priority?.toLowerCase();
+    const frontmatterPriority = this.frontmatterValues.priority?.toLowerCase();
 
     const defaultOption = this.prioritySelect.createEl('option', {
       text: 'Default priority',
@@ -387,6 +457,14 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
 
     if (!isValid) return;
 
+    this.clearFieldErrors();
+
+    const issues = this.validator.validate(this.state.customFieldsMeta, this.state.customFieldValues);
+    if (issues.length > 0) {
+      this.showFieldErrors(Object.fromEntries(issues.map(issue => [issue.fieldId, issue.message])), []);
+      return;
+    }
+
     this.state.isSubmitting = true;
     this.updateSubmitButton('Checking...', true);
 
@@ -412,9 +490,22 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
         this.state.description.trim() || undefined,
         this.state.priorityId || undefined,
         customFields,
+        this.options.filePath,
       );
 
       const issueUrl = this.client.getIssueUrl(result.key);
+      const description = this.state.description.trim();
+
+      if (description && this.options.filePath) {
+        this.updateSubmitButton('Uploading...', true);
+        const upload = await this.attachments.upload(this.client, result.key, description, this.options.filePath);
+        if (upload.failed.length > 0) {
+          new Notice(
+            `Attachments not uploaded: ${upload.failed.map(f => `${f.fileName} (${f.reason})`).join(', ')}`,
+            NOTICE_DURATION.warning,
+          );
+        }
+      }
 
       this.showSuccessNotice(result.key, issueUrl);
 
@@ -423,7 +514,11 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
         issueUrl,
       });
     } catch (error) {
-      this.showError(mapJiraError(error));
+      if (error instanceof JiraValidationError) {
+        this.showValidationError(error);
+      } else {
+        this.showError(mapJiraError(error));
+      }
       this.state.isSubmitting = false;
       this.updateSubmitButton('Create', false);
     }
@@ -486,26 +581,65 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
     new Notice(message, NOTICE_DURATION.error);
   }
 
+  private showValidationError(error: JiraValidationError): void {
+    this.showFieldErrors(error.fieldErrors, error.payload.errorMessages);
+  }
+
+  private showFieldErrors(fieldErrors: Record<string, string>, messages: string[]): void {
+    const unmatched: string[] = [...messages];
+
+    for (const [fieldId, message] of Object.entries(fieldErrors)) {
+      const fieldGroup = this.fieldGroups.get(fieldId);
+      if (fieldGroup?.isConnected) {
+        fieldGroup.addClass('has-error');
+        fieldGroup.createEl('div', { text: message, cls: 'field-error' });
+      } else {
+        unmatched.push(message);
+      }
+    }
+
+    if (unmatched.length > 0) {
+      this.showError(unmatched.join('\n'));
+    } else {
+      this.showError('Please fix the highlighted fields.');
+    }
+  }
+
+  private clearFieldErrors(): void {
+    for (const fieldGroup of this.fieldGroups.values()) {
+      fieldGroup.removeClass('has-error');
+      fieldGroup.querySelectorAll('.field-error').forEach(el => el.remove());
+    }
+  }
+
   private hasCustomFields(): boolean {
     return !!(this.options.customFields && this.options.customFields.length > 0);
   }
 
   private async loadCustomFieldsMeta(): Promise<void> {
     if (!this.client || !this.customFieldsContainer || !this.state.projectKey || !this.state.issueTypeId) return;
-    if (!this.hasCustomFields()) return;
 
     this.state.isLoadingCustomFields = true;
     this.customFieldsContainer.innerHTML = '';
     this.customFieldsContainer.createEl('p', { text: 'Loading custom fields...', cls: 'loading-text' });
 
     try {
-      const allFields = await this.client.getFieldsForIssueType(this.state.projectKey, this.state.issueTypeId);
+      const allFields = await this.options.metadataCache.getFieldsForIssueType(
+        this.instanceId,
+        this.state.projectKey,
+        this.state.issueTypeId,
+      );
       const customFields = this.options.customFields ?? [];
       const configuredFieldIds = customFields.map(cf => cf.fieldId);
-      this.state.customFieldsMeta = allFields.filter(f => configuredFieldIds.includes(f.fieldId));
+      const prefilledFieldIds = Object.keys(this.frontmatterValues.customFields ?? {});
+      if (this.frontmatterValues.labels?.length) prefilledFieldIds.push('labels');
+      this.state.customFieldsMeta = allFields.filter(
+        f => configuredFieldIds.includes(f.fieldId) || prefilledFieldIds.includes(f.fieldId) || (f.required && !f.hasDefaultValue),
+      );
       this.applyFrontmatterCustomFields();
       this.renderCustomFields();
     } catch {
+      this.state.customFieldsMeta = [];
       this.customFieldsContainer.innerHTML = '';
       this.customFieldsContainer.createEl('p', { text: 'Failed to load custom fields', cls: 'error-text' });
     } finally {
@@ -514,38 +648,16 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
   }
 
   private applyFrontmatterCustomFields(): void {
-    const fmCustomFields = this.options.frontmatterValues?.customFields;
+    const fmCustomFields = this.frontmatterValues.customFields;
     if (!fmCustomFields) return;
 
     for (const fieldMeta of this.state.customFieldsMeta) {
       const fmValue = fmCustomFields[fieldMeta.fieldId];
-      if (fmValue === undefined) continue;
-
-      const schemaType = fieldMeta.schema?.type || 'string';
-      const systemField = fieldMeta.schema?.system;
+      if (fmValue === undefined || fmValue === null) continue;
 
-      if (fieldMeta.allowedValues && fieldMeta.allowedValues.length > 0) {
-        const match = fieldMeta.allowedValues.find(
-          av => av.name?.toLowerCase() === String(fmValue).toLowerCase() || av.id === String(fmValue),
-        );
-        if (match) {
-          this.state.customFieldValues[fieldMeta.fieldId] = { id: match.id };
-        }
-      } else if (schemaType === 'user' || systemField === 'assignee') {
-        this.state.customFieldValues[fieldMeta.fieldId] = { displayName: String(fmValue) };
-      } else if (schemaType === 'number') {
-        const num = typeof fmValue === 'number' ? fmValue : parseFloat(String(fmValue));
-        if (!isNaN(num)) {
-          this.state.customFieldValues[fieldMeta.fieldId] = num;
-        }
-      } else if (schemaType === 'array') {
-        if (Array.isArray(fmValue)) {
-          this.state.customFieldValues[fieldMeta.fieldId] = fmValue.map(String);
-        } else {
-          this.state.customFieldValues[fieldMeta.fieldId] = [String(fmValue)];
-        }
-      } else if (schemaType === 'string') {
-        this.state.customFieldValues[fieldMeta.fieldId] = String(fmValue);
+      const value = this.fieldParsers.resolve(fieldMeta).parse(fmValue, fieldMeta);
+      if (value !== undefined) {
+        this.state.customFieldValues[fieldMeta.fieldId] = value;
       }
     }
   }
@@ -556,6 +668,7 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
     this.customFieldsContainer.innerHTML = '';
 
     if (this.state.customFieldsMeta.length === 0) {
+      if (!this.hasCustomFields()) return;
       this.customFieldsContainer.createEl('p', {
         text: 'No custom fields available for this issue type.',
         cls: 'setting-item-description',
@@ -569,310 +682,29 @@ export class CreateTicketModal extends BaseModal<CreateTicketResult> {
   }
 
   private async createCustomField(container: HTMLElement, field: JiraFieldMeta): Promise<void> {
+    if (!this.client) return;
+
     const fieldGroup = container.createEl('div', { cls: 'field-group' });
+    this.fieldGroups.set(field.fieldId, fieldGroup);
     const labelText = field.required ? `${field.name} *` : field.name;
     fieldGroup.createEl('label', { text: labelText });
 
-    const schemaType = field.schema?.type || 'string';
-    const systemField = field.schema?.system;
-
-    if (field.allowedValues && field.allowedValues.length > 0) {
-      this.createSelectField(fieldGroup, field);
-    } else if (schemaType === 'user' || systemField === 'assignee') {
-      await this.createUserField(fieldGroup, field);
-    } else if (schemaType === 'issuelink' || systemField === 'parent') {
-      await this.createParentField(fieldGroup, field, this.state.issueTypeId);
-    } else if (schemaType === 'array' && field.schema?.items === 'string') {
-      await this.createLabelsField(fieldGroup, field);
-    } else if (schemaType === 'number') {
-      this.createNumberField(fieldGroup, field);
-    } else {
-      this.createTextField(fieldGroup, field);
-    }
-  }
-
-  private createSelectField(fieldGroup: HTMLElement, field: JiraFieldMeta): void {
-    const select = fieldGroup.createEl('select', { cls: 'field-select' });
-    select.createEl('option', { text: `Select ${field.name}...`, attr: { value: '' } });
-
-    const rawValue = this.state.customFieldValues[field.fieldId];
-    const prefilledId = this.extractId(rawValue);
-    const allowedValues = field.allowedValues ?? [];
-
-    for (const option of allowedValues) {
-      const opt = select.createEl('option', {
-        text: option.name || option.value || option.id,
-        attr: { value: option.id },
-      });
-      if (prefilledId && option.id === prefilledId) {
-        opt.selected = true;
-      }
-    }
-
-    select.addEventListener('change', () => {
-      if (select.value) {
-        this.state.customFieldValues[field.fieldId] = { id: select.value };
-      } else {
-        delete this.state.customFieldValues[field.fieldId];
-      }
-    });
-  }
-
-  private async createUserField(fieldGroup: HTMLElement, field: JiraFieldMeta): Promise<void> {
-    if (!this.client) return;
-
-    const select = fieldGroup.createEl('select', { cls: 'field-select' });
-    select.createEl('option', { text: 'Loading users...', attr: { value: '', disabled: 'true' } });
-
-    const rawValue = this.state.customFieldValues[field.fieldId];
-    const prefilledName = this.extractDisplayName(rawValue)?.toLowerCase();
-
-    try {
-      const users = await this.client.getAssignableUsers(this.state.projectKey);
-      select.innerHTML = '';
-      select.createEl('option', { text: `Select ${field.name}...`, attr: { value: '' } });
-
-      let matchedAccountId: string | null = null;
-
-      for (const user of users) {
-        const opt = select.createEl('option', {
-          text: user.displayName,
-          attr: { value: user.accountId },
-        });
-
-        if (prefilledName && user.displayName.toLowerCase() === prefilledName) {
-          opt.selected = true;
-          matchedAccountId = user.accountId;
-        }
-      }
-
-      if (matchedAccountId) {
-        this.state.customFieldValues[field.fieldId] = { accountId: matchedAccountId };
-      }
-    } catch {
-      select.innerHTML = '';
-      select.createEl('option', { text: 'Failed to load users', attr: { value: '', disabled: 'true' } });
-    }
-
-    select.addEventListener('change', () => {
-      if (select.value) {
-        this.state.customFieldValues[field.fieldId] = { accountId: select.value };
-      } else {
-        delete this.state.customFieldValues[field.fieldId];
-      }
-    });
-  }
-
-  private async createParentField(fieldGroup: HTMLElement, field: JiraFieldMeta, currentIssueTypeId: string): Promise<void> {
-    if (!this.client) return;
-
-    const select = fieldGroup.createEl('select', { cls: 'field-select' });
-    select.createEl('option', { text: 'Loading issues...', attr: { value: '', disabled: 'true' } });
-
-    const currentIssueType = this.state.issueTypes.find(t => t.id === currentIssueTypeId);
-    const currentTypeName = currentIssueType?.name.toLowerCase() || '';
-
-    const allowedParentTypes: string[] = [];
-    if (currentTypeName === 'story' || currentTypeName === 'task' || currentTypeName === 'bug') {
-      allowedParentTypes.push('epic');
-    }
-    if (currentTypeName === 'sub-task' || currentTypeName === 'subtask') {
-      allowedParentTypes.push('epic', 'story', 'task', 'bug');
-    }
-    if (allowedParentTypes.length === 0) {
-      allowedParentTypes.push('epic', 'story');
-    }
-
-    try {
-      let allIssues = await this.client.getParentableIssues(this.state.projectKey);
-
-      const parentSummary = this.options.frontmatterValues?.parentSummary;
-      if (parentSummary) {
-        const searchResults = await this.client.searchIssuesBySummary(this.state.projectKey, parentSummary, 5);
-        const newIssues = searchResults.filter(sr => !allIssues.some(ai => ai.key === sr.key));
-        allIssues = [...newIssues, ...allIssues];
-      }
-
-      const filteredIssues = allIssues.filter(issue => allowedParentTypes.includes(issue.issueType.toLowerCase()));
-
-      select.innerHTML = '';
-      const defaultOption = select.createEl('option', { text: `Select ${field.name}...`, attr: { value: '' } });
-
-      if (filteredIssues.length === 0) {
-        select.createEl('option', { text: 'No parent issues found', attr: { value: '', disabled: 'true' } });
-      } else {
-        let matchedKey = '';
-        for (const issue of filteredIssues) {
-          const option = select.createEl('option', {
-            text: `[${issue.issueType}] ${issue.key} - ${issue.summary}`,
-            attr: { value: issue.key },
-          });
-
-          if (parentSummary && issue.summary.toLowerCase().includes(parentSummary.toLowerCase())) {
-            if (!matchedKey) {
-              option.selected = true;
-              defaultOption.selected = false;
-              matchedKey = issue.key;
-              this.state.customFieldValues[field.fieldId] = { key: issue.key };
-            }
-          }
-        }
-      }
-    } catch {
-      select.innerHTML = '';
-      select.createEl('option', { text: 'Failed to load issues', attr: { value: '', disabled: 'true' } });
-    }
-
-    select.addEventListener('change', () => {
-      if (select.value) {
-        this.state.customFieldValues[field.fieldId] = { key: select.value };
-      } else {
-        delete this.state.customFieldValues[field.fieldId];
-      }
-    });
-  }
-
-  private async createLabelsField(fieldGroup: HTMLElement, field: JiraFieldMeta): Promise<void> {
-    if (!this.client) return;
-
-    const selectedLabels: string[] = this.options.frontmatterValues?.labels ? [...this.options.frontmatterValues.labels] : [];
-    let allLabels: string[] = [];
-
-    const chipsContainer = fieldGroup.createEl('div', { cls: 'chips-container' });
-    chipsContainer.style.display = 'flex';
-    chipsContainer.style.flexWrap = 'wrap';
-    chipsContainer.style.gap = '4px';
-    chipsContainer.style.marginBottom = '8px';
-    chipsContainer.style.minHeight = '24px';
-
-    const select = fieldGroup.createEl('select', { cls: 'field-select' });
-    select.createEl('option', { text: 'Loading labels...', attr: { value: '', disabled: 'true' } });
-
-    const updateSelect = () => {
-      select.innerHTML = '';
-      select.createEl('option', { text: 'Add label...', attr: { value: '' } });
-      for (const label of allLabels) {
-        if (!selectedLabels.includes(label)) {
-          select.createEl('option', { text: label, attr: { value: label } });
+    await this.fieldRenderers.resolve(field).render(fieldGroup, field, {
+      client: this.client,
+      metadataCache: this.options.metadataCache,
+      instanceId: this.instanceId,
+      projectKey: this.state.projectKey,
+      issueTypeId: this.state.issueTypeId,
+      issueTypes: this.state.issueTypes,
+      frontmatterValues: this.frontmatterValues,
+      value: this.state.customFieldValues[field.fieldId],
+      setValue: value => {
+        if (value === undefined) {
+          delete this.state.customFieldValues[field.fieldId];
+        } else {
+          this.state.customFieldValues[field.fieldId] = value;
         }
-      }
-    };
-
-    const updateChips = () => {
-      chipsContainer.innerHTML = '';
-      for (const label of selectedLabels) {
-        const chip = chipsContainer.createEl('span', { cls: 'label-chip' });
-        chip.style.background = 'var(--interactive-accent)';
-        chip.style.color = 'var(--text-on-accent)';
-        chip.style.padding = '2px 8px';
-        chip.style.borderRadius = '12px';
-        chip.style.fontSize = '0.8rem';
-        chip.style.display = 'inline-flex';
-        chip.style.alignItems = 'center';
-        chip.style.gap = '4px';
-
-        chip.createEl('span', { text: label });
-        const removeBtn = chip.createEl('span', { text: '×', cls: 'chip-remove' });
-        removeBtn.style.cursor = 'pointer';
-        removeBtn.style.fontWeight = 'bold';
-        removeBtn.addEventListener('click', () => {
-          const idx = selectedLabels.indexOf(label);
-          if (idx > -1) {
-            selectedLabels.splice(idx, 1);
-            updateChips();
-            updateSelect();
-            updateState();
-          }
-        });
-      }
-    };
-
-    const updateState = () => {
-      if (selectedLabels.length > 0) {
-        this.state.customFieldValues[field.fieldId] = [...selectedLabels];
-      } else {
-        delete this.state.customFieldValues[field.fieldId];
-      }
-    };
-
-    try {
-      allLabels = await this.client.getLabels();
-      updateSelect();
-      if (selectedLabels.length > 0) {
-        updateChips();
-        updateState();
-      }
-    } catch {
-      select.innerHTML = '';
-      select.createEl('option', { text: 'Failed to load labels', attr: { value: '', disabled: 'true' } });
-    }
-
-    select.addEventListener('change', () => {
-      if (select.value && !selectedLabels.includes(select.value)) {
-        selectedLabels.push(select.value);
-        updateChips();
-        updateSelect();
-        updateState();
-      }
-      select.value = '';
-    });
-  }
-
-  private createNumberField(fieldGroup: HTMLElement, field: JiraFieldMeta): void {
-    const input = fieldGroup.createEl('input', {
-      type: 'number',
-      cls: 'field-input',
-      attr: { placeholder: `Enter ${field.name}...`, step: 'any' },
-    });
-
-    const prefilledValue = this.state.customFieldValues[field.fieldId];
-    if (typeof prefilledValue === 'number') {
-      input.value = String(prefilledValue);
-    }
-
-    input.addEventListener('input', () => {
-      if (input.value) {
-        this.state.customFieldValues[field.fieldId] = parseFloat(input.value);
-      } else {
-        delete this.state.customFieldValues[field.fieldId];
-      }
-    });
-  }
-
-  private createTextField(fieldGroup: HTMLElement, field: JiraFieldMeta): void {
-    const input = fieldGroup.createEl('input', {
-      type: 'text',
-      cls: 'field-input',
-      attr: { placeholder: `Enter ${field.name}...` },
-    });
-
-    const prefilledValue = this.state.customFieldValues[field.fieldId];
-    if (typeof prefilledValue === 'string') {
-      input.value = prefilledValue;
-    }
-
-    input.addEventListener('input', () => {
-      if (input.value.trim()) {
-        this.state.customFieldValues[field.fieldId] = input.value.trim();
-      } else {
-        delete this.state.customFieldValues[field.fieldId];
-      }
+      },
     });
   }
-
-  private extractId(value: unknown): string | undefined {
-    if (typeof value !== 'object' || value === null) return undefined;
-    if ('id' in value && typeof value.id === 'string') {
-      return value.id;
-    }
-    return undefined;
-  }
-
-  private extractDisplayName(value: unknown): string | undefined {
-    if (typeof value !== 'object' || value === null) return undefined;
-    if ('displayName' in value && typeof value.displayName === 'string') {
-      return value.displayName;
-    }
-    return undefined;
-  }
 }
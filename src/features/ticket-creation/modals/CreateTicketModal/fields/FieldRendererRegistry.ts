@@ -0,0 +1,62 @@
+import type { JiraFieldMeta } from '../../../../../types';
+import type { CustomFieldRenderer } from '../types';
+import {
+  TextFieldRenderer,
+  NumberFieldRenderer,
+  UrlFieldRenderer,
+  DateFieldRenderer,
+  DateTimeFieldRenderer,
+  RichTextFieldRenderer,
+} from './inputRenderers';
+import { SelectFieldRenderer, MultiSelectFieldRenderer, CheckboxFieldRenderer, CascadingSelectFieldRenderer } from './optionRenderers';
+import { UserFieldRenderer, MultiUserFieldRenderer, ParentFieldRenderer, LabelsFieldRenderer } from './pickerRenderers';
+import { customFieldTypes, fieldSchemaKeys } from '../../../services/FieldValueParserRegistry';
+
+export class FieldRendererRegistry {
+  private renderers = new Map<string, CustomFieldRenderer>();
+  private textRenderer: CustomFieldRenderer = new TextFieldRenderer();
+  private selectRenderer: CustomFieldRenderer = new SelectFieldRenderer();
+  private multiSelectRenderer: CustomFieldRenderer = new MultiSelectFieldRenderer();
+
+  register(keys: string[], renderer: CustomFieldRenderer): this {
+    for (const key of keys) {
+      this.renderers.set(key, renderer);
+    }
+    return this;
+  }
+
+  resolve(field: JiraFieldMeta): CustomFieldRenderer {
+    for (const key of fieldSchemaKeys(field)) {
+      const renderer = this.renderers.get(key);
+      if (renderer) return renderer;
+    }
+
+    if (field.allowedValues && field.allowedValues.length > 0) {
+      return field.schema?.type === 'array' ? this.multiSelectRenderer : this.selectRenderer;
+    }
+    return this.textRenderer;
+  }
+}
+
+export function createDefaultFieldRendererRegistry(): FieldRendererRegistry {
+  const custom = customFieldTypes;
+
+  return new FieldRendererRegistry()
+    .register(['string', ...custom('textfield')], new TextFieldRenderer())
+    .register(['number', ...custom('float')], new NumberFieldRenderer())
+    .register(custom('url'), new UrlFieldRenderer())
+    .register(['date', ...custom('datepicker')], new DateFieldRenderer())
+    .register(['datetime', ...custom('datetime')], new DateTimeFieldRenderer())
+    .register(['environment', ...custom('textarea')], new RichTextFieldRenderer())
+    .register(['option', 'version', 'component', ...custom('select', 'radiobuttons', 'version')], new SelectFieldRenderer())
+    .register(
+      ['array:option', 'array:version', 'array:component', ...custom('multiselect', 'multiversion')],
+      new MultiSelectFieldRenderer(),
+    )
+    .register(custom('multicheckboxes'), new CheckboxFieldRenderer())
+    .register(['option-with-child', ...custom('cascadingselect')], new CascadingSelectFieldRenderer())
+    .register(['user', 'assignee', ...custom('userpicker')], new UserFieldRenderer())
+    .register(['array:user', ...custom('multiuserpicker')], new MultiUserFieldRenderer())
+    .register(['issuelink', 'parent'], new ParentFieldRenderer())
+    .register(['array:string', 'labels', ...custom('labels')], new LabelsFieldRenderer());
+}
@@ -0,0 +1,11 @@
+export { FieldRendererRegistry, createDefaultFieldRendererRegistry } from './FieldRendererRegistry';
+export {
+  TextFieldRenderer,
+  NumberFieldRenderer,
+  UrlFieldRenderer,
+  DateFieldRenderer,
+  DateTimeFieldRenderer,
+  RichTextFieldRenderer,
+} from './inputRenderers';
+export { SelectFieldRenderer, MultiSelectFieldRenderer, CheckboxFieldRenderer, CascadingSelectFieldRenderer } from './optionRenderers';
+export { UserFieldRenderer, MultiUserFieldRenderer, ParentFieldRenderer, LabelsFieldRenderer } from './pickerRenderers';
@@ -0,0 +1,109 @@
+import type { JiraFieldMeta } from '../../../../../types';
+import type { CustomFieldRenderer, FieldRenderContext } from '../types';
+import { adfToMarkdown, isAdfDocument } from '../../../../../utils/adfToMarkdown';
+import { toJiraDateTime } from '../../../services/FieldValueParserRegistry';
+
+function createInput(container: HTMLElement, type: string, field: JiraFieldMeta, attr: Record<string, string> = {}): HTMLInputElement {
+  return container.createEl('input', {
+    type,
+    cls: 'field-input',
+    attr: { placeholder: `Enter ${field.name}...`, ...attr },
+  });
+}
+
+export class TextFieldRenderer implements CustomFieldRenderer {
+  render(container: HTMLElement, field: JiraFieldMeta, context: FieldRenderContext): void {
+    const input = createInput(container, 'text', field);
+
+    if (typeof context.value === 'string') {
+      input.value = context.value;
+    }
+
+    input.addEventListener('input', () => {
+      context.setValue(input.value.trim() || undefined);
+    });
+  }
+}
+
+export class NumberFieldRenderer implements CustomFieldRenderer {
+  render(container: HTMLElement, field: JiraFieldMeta, context: FieldRenderContext): void {
+    const input = createInput(container, 'number', field, { step: 'any' });
+
+    if (typeof context.value === 'number') {
+      input.value = String(context.value);
+    }
+
+    input.addEventListener('input', () => {
+      context.setValue(input.value ? parseFloat(input.value) : undefined);
+    });
+  }
+}
+
+export class UrlFieldRenderer implements CustomFieldRenderer {
+  render(container: HTMLElement, field: JiraFieldMeta, context: FieldRenderContext): void {
+    const input = createInput(container, 'url', field, { placeholder: 'https://...' });
+
+    if (typeof context.value === 'string') {
+      input.value = context.value;
+    }
+
+    input.addEventListener('input', () => {
+      context.setValue(input.value.trim() || undefined);
+    });
+  }
+}
+
+export class DateFieldRenderer implements CustomFieldRenderer {
+  render(container: HTMLElement, field: JiraFieldMeta, context: FieldRenderContext): void {
+    const input = createInput(container, 'date', field);
+
+    if (typeof context.value === 'string') {
+      input.value = context.value;
+    }
+
+    input.addEventListener('change', () => {
+      context.setValue(input.value || undefined);
+    });
+  }
+}
+
+export class DateTimeFieldRenderer implements CustomFieldRenderer {
+  render(container: HTMLElement, field: JiraFieldMeta, context: FieldRenderContext): void {
+    const input = createInput(container, 'datetime-local', field);
+
+    if (typeof context.value === 'string') {
+      input.value = toLocalInputValue(new Date(context.value.replace(/([+-]\d{2})(\d{2})$/, '$1:$2')));
+    }
+
+    input.addEventListener('change', () => {
+      context.setValue(input.value ? toJiraDateTime(new Date(input.value)) : undefined);
+    });
+  }
+}
+
+function toLocalInputValue(date: Date): string {
+  if (isNaN(date.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export class RichTextFieldRenderer implements CustomFieldRenderer {
+  render(container: HTMLElement, field: JiraFieldMeta, context: FieldRenderContext): void {
+    const textarea = container.createEl('textarea', {
+      cls: 'field-textarea',
+      attr: { placeholder: `Enter ${field.name}...`, rows: '3' },
+    });
+
+    if (typeof context.value === 'string') {
+      textarea.value = context.value;
+      context.setValue(context.client.formatDescription(context.value));
+    } else if (isAdfDocument(context.value)) {
+      textarea.value = adfToMarkdown(context.value);
+    }
+
+    textarea.addEventListener('input', () => {
+      const markdown = textarea.value.trim();
+      context.setValue(markdown ? context.client.formatDescription(markdown) : undefined);
+    });
+  }
+}
@@ -0,0 +1,116 @@
+import type { JiraFieldMeta, JiraFieldOption } from '../../../../../types';
+import type { CustomFieldRenderer, FieldRenderContext } from '../types';
+import { toList } from '../../../services/FieldValueParserRegistry';
+
+export function optionLabel(option: JiraFieldOption): string {
+  return option.name || option.value || option.id;
+}
+
+export function readId(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const id = (value as { id?: unknown }).id;
+  return typeof id === 'string' ? id : undefined;
+}
+
+function createPlaceholderSelect(container: HTMLElement, field: JiraFieldMeta): HTMLSelectElement {
+  const select = container.createEl('select', { cls: 'field-select' });
+  select.createEl('option', { text: `Select ${field.name}...`, attr: { value: '' } });
+  return select;
+}
+
+export class SelectFieldRenderer implements CustomFieldRenderer {
+  render(container: HTMLElement, field: JiraFieldMeta, context: FieldRenderContext): void {
+    const select = createPlaceholderSelect(container, field);
+    const prefilledId = readId(context.value);
+
+    for (const option of field.allowedValues ?? []) {
+      const opt = select.createEl('option', { text: optionLabel(option), attr: { value: option.id } });
+      opt.selected = option.id === prefilledId;
+    }
+
+    select.addEventListener('change', () => {
+      context.setValue(select.value ? { id: select.value } : undefined);
+    });
+  }
+}
+
+export class MultiSelectFieldRenderer implements CustomFieldRenderer {
+  render(container: HTMLElement, field: JiraFieldMeta, context: FieldRenderContext): void {
+    const select = container.createEl('select', { cls: 'field-select field-multiselect', attr: { multiple: 'true' } });
+    const selectedIds = toList(context.value).map(readId);
+
+    for (const option of field.allowedValues ?? []) {
+      const opt = select.createEl('option', { text: optionLabel(option), attr: { value: option.id } });
+      opt.selected = selectedIds.includes(option.id);
+    }
+
+    select.addEventListener('change', () => {
+      const ids = Array.from(select.selectedOptions, opt => opt.value);
+      context.setValue(ids.length > 0 ? ids.map(id => ({ id })) : undefined);
+    });
+  }
+}
+
+export class CheckboxFieldRenderer extends MultiSelectFieldRenderer {
+  render(container: HTMLElement, field: JiraFieldMeta, context: FieldRenderContext): void {
+    const list = container.createEl('div', { cls: 'field-checkboxes' });
+    const selectedIds = new Set(toList(context.value).map(readId));
+
+    for (const option of field.allowedValues ?? []) {
+      const label = list.createEl('label', { cls: 'field-checkbox' });
+      const checkbox = label.createEl('input', { type: 'checkbox' });
+      checkbox.checked = selectedIds.has(option.id);
+      label.createSpan({ text: optionLabel(option) });
+
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) {
+          selectedIds.add(option.id);
+        } else {
+          selectedIds.delete(option.id);
+        }
+        const ids = (field.allowedValues ?? []).filter(o => selectedIds.has(o.id)).map(o => ({ id: o.id }));
+        context.setValue(ids.length > 0 ? ids : undefined);
+      });
+    }
+  }
+}
+
+export class CascadingSelectFieldRenderer implements CustomFieldRenderer {
+  render(container: HTMLElement, field: JiraFieldMeta, context: FieldRenderContext): void {
+    const parentSelect = createPlaceholderSelect(container, field);
+    const childSelect = container.createEl('select', { cls: 'field-select field-cascading-child' });
+    const prefilledId = readId(context.value);
+    const prefilledChildId = readId((context.value as { child?: unknown } | undefined)?.child);
+
+    for (const option of field.allowedValues ?? []) {
+      const opt = parentSelect.createEl('option', { text: optionLabel(option), attr: { value: option.id } });
+      opt.selected = option.id === prefilledId;
+    }
+
+    const updateChildren = (selectedChildId?: string) => {
+      const parent = field.allowedValues?.find(o => o.id === parentSelect.value);
+      childSelect.innerHTML = '';
+      childSelect.createEl('option', { text: 'None', attr: { value: '' } });
+      for (const child of parent?.children ?? []) {
+        const opt = childSelect.createEl('option', { text: optionLabel(child), attr: { value: child.id } });
+        opt.selected = child.id === selectedChildId;
+      }
+      childSelect.disabled = !parent?.children?.length;
+    };
+
+    const updateState = () => {
+      if (!parentSelect.value) {
+        context.setValue(undefined);
+      } else {
+        context.setValue(childSelect.value ? { id: parentSelect.value, child: { id: childSelect.value } } : { id: parentSelect.value });
+      }
+    };
+
+    updateChildren(prefilledChildId);
+    parentSelect.addEventListener('change', () => {
+      updateChildren();
+      updateState();
+    });
+    childSelect.addEventListener('change', updateState);
+  }
+}
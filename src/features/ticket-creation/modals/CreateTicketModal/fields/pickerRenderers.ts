@@ -0,0 +1,237 @@
+import type { JiraFieldMeta } from '../../../../../types';
+import type { CustomFieldRenderer, FieldRenderContext } from '../types';
+import { toList } from '../../../services/FieldValueParserRegistry';
+
+function readDisplayName(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const displayName = (value as { displayName?: unknown }).displayName;
+  return typeof displayName === 'string' ? displayName : undefined;
+}
+
+function readAccountId(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const accountId = (value as { accountId?: unknown }).accountId;
+  return typeof accountId === 'string' ? accountId : undefined;
+}
+
+export class UserFieldRenderer implements CustomFieldRenderer {
+  async render(container: HTMLElement, field: JiraFieldMeta, context: FieldRenderContext): Promise<void> {
+    const select = container.createEl('select', { cls: 'field-select' });
+    select.createEl('option', { text: 'Loading users...', attr: { value: '', disabled: 'true' } });
+
+    const prefilledName = readDisplayName(context.value)?.toLowerCase();
+    const prefilledAccountId = readAccountId(context.value);
+
+    try {
+      const users = await context.metadataCache.getAssignableUsers(context.instanceId, context.projectKey);
+      select.innerHTML = '';
+      select.createEl('option', { text: `Select ${field.name}...`, attr: { value: '' } });
+
+      let matchedAccountId: string | null = null;
+
+      for (const user of users) {
+        const opt = select.createEl('option', {
+          text: user.displayName,
+          attr: { value: user.accountId },
+        });
+
+        if (user.accountId === prefilledAccountId || (prefilledName && user.displayName.toLowerCase() === prefilledName)) {
+          opt.selected = true;
+          matchedAccountId = user.accountId;
+        }
+      }
+
+      context.setValue(matchedAccountId ? { accountId: matchedAccountId } : undefined);
+    } catch {
+      select.innerHTML = '';
+      select.createEl('option', { text: 'Failed to load users', attr: { value: '', disabled: 'true' } });
+      context.setValue(undefined);
+    }
+
+    select.addEventListener('change', () => {
+      context.setValue(select.value ? { accountId: select.value } : undefined);
+    });
+  }
+}
+
+export class MultiUserFieldRenderer implements CustomFieldRenderer {
+  async render(container: HTMLElement, _field: JiraFieldMeta, context: FieldRenderContext): Promise<void> {
+    const select = container.createEl('select', { cls: 'field-select field-multiselect', attr: { multiple: 'true' } });
+    select.createEl('option', { text: 'Loading users...', attr: { value: '', disabled: 'true' } });
+
+    const prefilled = toList(context.value);
+    const prefilledNames = prefilled.map(readDisplayName).map(name => name?.toLowerCase());
+    const prefilledAccountIds = prefilled.map(readAccountId);
+
+    const updateState = () => {
+      const accountIds = Array.from(select.selectedOptions, opt => opt.value).filter(Boolean);
+      context.setValue(accountIds.length > 0 ? accountIds.map(accountId => ({ accountId })) : undefined);
+    };
+
+    try {
+      const users = await context.metadataCache.getAssignableUsers(context.instanceId, context.projectKey);
+      select.innerHTML = '';
+
+      for (const user of users) {
+        const opt = select.createEl('option', { text: user.displayName, attr: { value: user.accountId } });
+        opt.selected = prefilledAccountIds.includes(user.accountId) || prefilledNames.includes(user.displayName.toLowerCase());
+      }
+
+      updateState();
+    } catch {
+      select.innerHTML = '';
+      select.createEl('option', { text: 'Failed to load users', attr: { value: '', disabled: 'true' } });
+      context.setValue(undefined);
+    }
+
+    select.addEventListener('change', updateState);
+  }
+}
+
+export class ParentFieldRenderer implements CustomFieldRenderer {
+  async render(container: HTMLElement, field: JiraFieldMeta, context: FieldRenderContext): Promise<void> {
+    const select = container.createEl('select', { cls: 'field-select' });
+    select.createEl('option', { text: 'Loading issues...', attr: { value: '', disabled: 'true' } });
+
+    const currentIssueType = context.issueTypes.find(t => t.id === context.issueTypeId);
+    const currentTypeName = currentIssueType?.name.toLowerCase() || '';
+
+    const allowedParentTypes: string[] = [];
+    if (currentTypeName === 'story' || currentTypeName === 'task' || currentTypeName === 'bug') {
+      allowedParentTypes.push('epic');
+    }
+    if (currentTypeName === 'sub-task' || currentTypeName === 'subtask') {
+      allowedParentTypes.push('epic', 'story', 'task', 'bug');
+    }
+    if (allowedParentTypes.length === 0) {
+      allowedParentTypes.push('epic', 'story');
+    }
+
+    try {
+      let allIssues = await context.client.getParentableIssues(context.projectKey);
+
+      const parentSummary = context.frontmatterValues?.parentSummary;
+      if (parentSummary) {
+        const searchResults = await context.client.searchIssuesBySummary(context.projectKey, parentSummary, 5);
+        const newIssues = searchResults.filter(sr => !allIssues.some(ai => ai.key === sr.key));
+        allIssues = [...newIssues, ...allIssues];
+      }
+
+      const filteredIssues = allIssues.filter(issue => allowedParentTypes.includes(issue.issueType.toLowerCase()));
+
+      select.innerHTML = '';
+      const defaultOption = select.createEl('option', { text: `Select ${field.name}...`, attr: { value: '' } });
+
+      if (filteredIssues.length === 0) {
+        select.createEl('option', { text: 'No parent issues found', attr: { value: '', disabled: 'true' } });
+      } else {
+        let matchedKey = '';
+        for (const issue of filteredIssues) {
+          const option = select.createEl('option', {
+            text: `[${issue.issueType}] ${issue.key} - ${issue.summary}`,
+            attr: { value: issue.key },
+          });
+
+          if (parentSummary && issue.summary.toLowerCase().includes(parentSummary.toLowerCase())) {
+            if (!matchedKey) {
+              option.selected = true;
+              defaultOption.selected = false;
+              matchedKey = issue.key;
+              context.setValue({ key: issue.key });
+            }
+          }
+        }
+      }
+    } catch {
+      select.innerHTML = '';
+      select.createEl('option', { text: 'Failed to load issues', attr: { value: '', disabled: 'true' } });
+    }
+
+    select.addEventListener('change', () => {
+      context.setValue(select.value ? { key: select.value } : undefined);
+    });
+  }
+}
+
+export class LabelsFieldRenderer implements CustomFieldRenderer {
+  async render(container: HTMLElement, field: JiraFieldMeta, context: FieldRenderContext): Promise<void> {
+    const frontmatterLabels = field.schema?.system === 'labels' ? context.frontmatterValues?.labels : undefined;
+    const selectedLabels: string[] = Array.isArray(context.value) ? context.value.map(String) : [...(frontmatterLabels ?? [])];
+    let allLabels: string[] = [];
+
+    const chipsContainer = container.createEl('div', { cls: 'chips-container' });
+    chipsContainer.style.display = 'flex';
+    chipsContainer.style.flexWrap = 'wrap';
+    chipsContainer.style.gap = '4px';
+    chipsContainer.style.marginBottom = '8px';
+    chipsContainer.style.minHeight = '24px';
+
+    const select = container.createEl('select', { cls: 'field-select' });
+    select.createEl('option', { text: 'Loading labels...', attr: { value: '', disabled: 'true' } });
+
+    const updateSelect = () => {
+      select.innerHTML = '';
+      select.createEl('option', { text: 'Add label...', attr: { value: '' } });
+      for (const label of allLabels) {
+        if (!selectedLabels.includes(label)) {
+          select.createEl('option', { text: label, attr: { value: label } });
+        }
+      }
+    };
+
+    const updateChips = () => {
+      chipsContainer.innerHTML = '';
+      for (const label of selectedLabels) {
+        const chip = chipsContainer.createEl('span', { cls: 'label-chip' });
+        chip.style.background = 'var(--interactive-accent)';
+        chip.style.color = 'var(--text-on-accent)';
+        chip.style.padding = '2px 8px';
+        chip.style.borderRadius = '12px';
+        chip.style.fontSize = '0.8rem';
+        chip.style.display = 'inline-flex';
+        chip.style.alignItems = 'center';
+        chip.style.gap = '4px';
+
+        chip.createEl('span', { text: label });
+        const removeBtn = chip.createEl('span', { text: '×', cls: 'chip-remove' });
+        removeBtn.style.cursor = 'pointer';
+        removeBtn.style.fontWeight = 'bold';
+        removeBtn.addEventListener('click', () => {
+          const idx = selectedLabels.indexOf(label);
+          if (idx > -1) {
+            selectedLabels.splice(idx, 1);
+            updateChips();
+            updateSelect();
+            updateState();
+          }
+        });
+      }
+    };
+
+    const updateState = () => {
+      context.setValue(selectedLabels.length > 0 ? [...selectedLabels] : undefined);
+    };
+
+    try {
+      allLabels = await context.client.getLabels();
+      updateSelect();
+      if (selectedLabels.length > 0) {
+        updateChips();
+        updateState();
+      }
+    } catch {
+      select.innerHTML = '';
+      select.createEl('option', { text: 'Failed to load labels', attr: { value: '', disabled: 'true' } });
+    }
+
+    select.addEventListener('change', () => {
+      if (select.value && !selectedLabels.includes(select.value)) {
+        selectedLabels.push(select.value);
+        updateChips();
+        updateSelect();
+        updateState();
+      }
+      select.value = '';
+    });
+  }
+}
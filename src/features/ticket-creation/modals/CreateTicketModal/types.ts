@@ -1,3 +1,6 @@
+import type { JiraClientPool } from '../../../../api/JiraClientPool';
+import type { JiraMetadataCache } from '../../../../api/JiraMetadataCache';
+import type { JiraClient } from '../../../../api/JiraClient';
 import type {
   JiraInstance,
   ResolvedContext,
@@ -8,6 +11,7 @@ import type {
   JiraPriority,
   JiraFieldMeta,
 } from '../../../../types';
+import type { TemplateVariables } from '../../services/types';
 
 export interface FrontmatterValues {
   issueType?: string;
@@ -19,6 +23,8 @@ export interface FrontmatterValues {
 }
 
 export interface CreateTicketModalOptions {
+  clientPool: JiraClientPool;
+  metadataCache: JiraMetadataCache;
   instances: JiraInstance[];
   context: ResolvedContext;
   initialSummary?: string;
@@ -27,6 +33,7 @@ export interface CreateTicketModalOptions {
   customFields?: CustomFieldConfig[];
   frontmatterValues?: FrontmatterValues;
   projectConfig?: ProjectMappingConfig;
+  templateVariables?: TemplateVariables;
 }
 
 export interface CreateTicketResult {
@@ -61,3 +68,19 @@ export interface CreateTicketFormState {
   customFieldsMeta: JiraFieldMeta[];
   isLoadingCustomFields: boolean;
 }
+
+export interface FieldRenderContext {
+  client: JiraClient;
+  metadataCache: JiraMetadataCache;
+  instanceId: string;
+  projectKey: string;
+  issueTypeId: string;
+  issueTypes: JiraIssueType[];
+  frontmatterValues?: FrontmatterValues;
+  value: unknown;
+  setValue: (value: unknown) => void;
+}
+
+export interface CustomFieldRenderer {
+  render(container: HTMLElement, field: JiraFieldMeta, context: FieldRenderContext): void | Promise<void>;
+}
@@ -0,0 +1,101 @@
+import { App } from 'obsidian';
+import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
+import type { HierarchyNode } from '../../services/types';
+import type { IssueHierarchyModalOptions, IssueHierarchyModalResult } from './types';
+
+const KIND_LABELS: Record<HierarchyNode['kind'], string> = {
+  epic: 'Epic',
+  story: 'Story',
+  subtask: 'Subtask',
+};
+
+export class IssueHierarchyModal extends BaseModal<IssueHierarchyModalResult> {
+  private options: IssueHierarchyModalOptions;
+  private nodes: HierarchyNode[];
+  private createButton: HTMLButtonElement | null = null;
+
+  constructor(app: App, options: IssueHierarchyModalOptions) {
+    super(app);
+    this.options = options;
+    this.nodes = JSON.parse(JSON.stringify(options.plan.nodes));
+  }
+
+  build(): void {
+    const { contentEl } = this;
+    contentEl.addClass('jira-bridge-modal', 'jira-bridge-issue-hierarchy-modal');
+
+    contentEl.createEl('h2', { text: 'Create Issue Hierarchy', cls: 'modal-title' });
+    contentEl.createEl('p', {
+      text: `Review the issues to create in ${this.options.projectKey}. Linked headings are kept as parents.`,
+      cls: 'modal-subtitle',
+    });
+
+    const tree = contentEl.createEl('div', { cls: 'hierarchy-tree' });
+    for (const node of this.nodes) {
+      this.renderNode(tree, node);
+    }
+
+    this.renderButtons(contentEl);
+    this.updateCreateButton();
+  }
+
+  private renderNode(container: HTMLElement, node: HierarchyNode): void {
+    const item = container.createEl('div', { cls: `hierarchy-node is-${node.kind}` });
+    const row = item.createEl('div', { cls: 'hierarchy-row' });
+
+    row.createSpan({ text: KIND_LABELS[node.kind], cls: 'hierarchy-kind' });
+
+    const typeSelect = row.createEl('select', { cls: 'hierarchy-type' });
+    for (const type of this.options.plan.issueTypes) {
+      const option = typeSelect.createEl('option', { text: type.name, attr: { value: type.id } });
+      option.selected = type.id === node.issueTypeId;
+    }
+    typeSelect.addEventListener('change', () => {
+      node.issueTypeId = typeSelect.value;
+      this.updateCreateButton();
+    });
+
+    const summaryInput = row.createEl('input', { type: 'text', cls: 'hierarchy-summary' });
+    summaryInput.value = node.summary;
+    summaryInput.addEventListener('input', () => {
+      node.summary = summaryInput.value;
+      this.updateCreateButton();
+    });
+
+    if (node.issueKey) {
+      typeSelect.disabled = true;
+      summaryInput.disabled = true;
+      row.createSpan({ text: node.issueKey, cls: 'hierarchy-key' });
+    }
+
+    if (node.children.length > 0) {
+      const children = item.createEl('div', { cls: 'hierarchy-children' });
+      for (const child of node.children) {
+        this.renderNode(children, child);
+      }
+    }
+  }
+
+  private renderButtons(container: HTMLElement): void {
+    const buttonContainer = container.createEl('div', { cls: 'modal-buttons' });
+
+    buttonContainer.createEl('button', { text: 'Cancel', cls: 'modal-button' }).addEventListener('click', () => {
+      this.cancel();
+    });
+
+    this.createButton = buttonContainer.createEl('button', { text: 'Create', cls: 'modal-button mod-cta' });
+    this.createButton.addEventListener('click', () => this.submit(this.nodes));
+  }
+
+  private updateCreateButton(): void {
+    if (!this.createButton) return;
+
+    const pending = this.flatten(this.nodes).filter(node => !node.issueKey);
+    this.createButton.disabled = pending.length === 0 || pending.some(node => !node.summary.trim() || !node.issueTypeId);
+    this.createButton.setText(`Create ${pending.length} issue(s)`);
+  }
+
+  private flatten(nodes: HierarchyNode[]): HierarchyNode[] {
+    return nodes.flatMap(node => [node, ...this.flatten(node.children)]);
+  }
+}
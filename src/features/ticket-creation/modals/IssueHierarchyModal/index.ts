@@ -0,0 +1,2 @@
+export { IssueHierarchyModal } from './IssueHierarchyModal';
+export type { IssueHierarchyModalOptions, IssueHierarchyModalResult } from './types';
@@ -0,0 +1,8 @@
+import type { HierarchyNode, HierarchyPlan } from '../../services/types';
+
+export interface IssueHierarchyModalOptions {
+  projectKey: string;
+  plan: HierarchyPlan;
+}
+
+export type IssueHierarchyModalResult = HierarchyNode[];
@@ -0,0 +1,46 @@
+import { App } from 'obsidian';
+import { BaseModal } from '../../../../ui/modals/BaseModal/BaseModal';
+import type { TemplatePickerModalOptions, TemplatePickerModalResult } from './types';
+
+export class TemplatePickerModal extends BaseModal<TemplatePickerModalResult> {
+  private options: TemplatePickerModalOptions;
+  private templateName = '';
+
+  constructor(app: App, options: TemplatePickerModalOptions) {
+    super(app);
+    this.options = options;
+  }
+
+  build(): void {
+    const { contentEl } = this;
+    contentEl.addClass('jira-bridge-modal', 'jira-bridge-template-picker-modal');
+
+    contentEl.createEl('h2', { text: 'Choose Ticket Template', cls: 'modal-title' });
+    contentEl.createEl('p', {
+      text: `Apply a template to the ${this.options.fileCount} note(s) being created.`,
+      cls: 'modal-subtitle',
+    });
+
+    const fieldGroup = contentEl.createEl('div', { cls: 'field-group' });
+    fieldGroup.createEl('label', { text: 'Template' });
+
+    const select = fieldGroup.createEl('select', { cls: 'field-select' });
+    select.createEl('option', { text: 'No template', attr: { value: '' } });
+    for (const name of this.options.templateNames) {
+      select.createEl('option', { text: name, attr: { value: name } });
+    }
+    select.addEventListener('change', () => {
+      this.templateName = select.value;
+    });
+
+    const buttonContainer = contentEl.createEl('div', { cls: 'modal-buttons' });
+
+    buttonContainer.createEl('button', { text: 'Cancel', cls: 'modal-button' }).addEventListener('click', () => {
+      this.cancel();
+    });
+
+    buttonContainer.createEl('button', { text: 'Continue', cls: 'modal-button mod-cta' }).addEventListener('click', () => {
+      this.submit(this.templateName ? { templateName: this.templateName } : {});
+    });
+  }
+}
@@ -0,0 +1,2 @@
+export { TemplatePickerModal } from './TemplatePickerModal';
+export type { TemplatePickerModalOptions, TemplatePickerModalResult } from './types';
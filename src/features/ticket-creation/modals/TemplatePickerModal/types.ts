@@ -0,0 +1,8 @@
+export interface TemplatePickerModalOptions {
+  templateNames: string[];
+  fileCount: number;
+}
+
+export interface TemplatePickerModalResult {
+  templateName?: string;
+}
@@ -2,3 +2,7 @@ export { CreateTicketModal } from './CreateTicketModal';
 export type { CreateTicketModalOptions, CreateTicketResult, FrontmatterValues } from './CreateTicketModal';
 export { BulkCreateProgressModal } from './BulkCreateProgressModal';
 export { BulkCreateReportModal } from './BulkCreateReportModal';
+export { TemplatePickerModal } from './TemplatePickerModal';
+export type { TemplatePickerModalOptions, TemplatePickerModalResult } from './TemplatePickerModal';
+export { IssueHierarchyModal } from './IssueHierarchyModal';
+export type { IssueHierarchyModalOptions, IssueHierarchyModalResult } from './IssueHierarchyModal';
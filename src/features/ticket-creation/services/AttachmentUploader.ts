@@ -0,0 +1,105 @@
+import type { App, TFile } from 'obsidian';
+import type { JiraClient } from '../../../api/JiraClient';
+import type { AttachmentReference } from '../../../utils/types';
+import type { AttachmentFailure, AttachmentUploadResult, EmbeddedFile } from './types';
+import { MAX_ATTACHMENT_SIZE } from '../../../constants/defaults';
+import { mapJiraError, normalizeLinkpath } from '../../../utils';
+
+const EMBED_PATTERN = /!\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g;
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+  pdf: 'application/pdf',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+  zip: 'application/zip',
+};
+
+export class AttachmentUploader {
+  constructor(
+    private app: App,
+    private maxSize: number = MAX_ATTACHMENT_SIZE,
+  ) {}
+
+  collect(markdown: string, sourcePath: string): EmbeddedFile[] {
+    const embeds = new Map<string, EmbeddedFile>();
+
+    for (const [, target] of markdown.matchAll(EMBED_PATTERN)) {
+      const linkpath = normalizeLinkpath(target);
+      if (!linkpath || embeds.has(linkpath)) continue;
+
+      const file = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+      if (file && file.extension !== 'md') {
+        embeds.set(linkpath, { linkpath, file });
+      }
+    }
+
+    return [...embeds.values()];
+  }
+
+  async upload(client: JiraClient, issueKey: string, markdown: string, sourcePath: string): Promise<AttachmentUploadResult> {
+    const result: AttachmentUploadResult = { uploaded: [], failed: [] };
+
+    for (const embed of this.collect(markdown, sourcePath)) {
+      const reference = await this.uploadFile(client, issueKey, embed, result.failed);
+      if (reference) result.uploaded.push(reference);
+    }
+
+    if (result.uploaded.length > 0) {
+      try {
+        await client.updateDescription(issueKey, markdown, result.uploaded, sourcePath);
+      } catch (error) {
+        result.failed.push({ fileName: 'description', reason: `attachments could not be referenced: ${mapJiraError(error)}` });
+      }
+    }
+
+    return result;
+  }
+
+  private async uploadFile(
+    client: JiraClient,
+    issueKey: string,
+    { linkpath, file }: EmbeddedFile,
+    failures: AttachmentFailure[],
+  ): Promise<AttachmentReference | null> {
+    if (file.stat.size > this.maxSize) {
+      failures.push({ fileName: file.name, reason: `exceeds the ${formatSize(this.maxSize)} limit (${formatSize(file.stat.size)})` });
+      return null;
+    }
+
+    try {
+      const data = await this.app.vault.readBinary(file);
+      const attachment = await client.addAttachment(issueKey, file.name, data, mimeTypeFor(file));
+
+      return {
+        linkpath,
+        filename: attachment.filename,
+        url: attachment.content,
+        mimeType: attachment.mimeType ?? mimeTypeFor(file),
+      };
+    } catch (error) {
+      failures.push({ fileName: file.name, reason: mapJiraError(error) });
+      return null;
+    }
+  }
+}
+
+function mimeTypeFor(file: TFile): string {
+  return MIME_TYPES[file.extension.toLowerCase()] ?? 'application/octet-stream';
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Number((bytes / (1024 * 1024)).toFixed(1))} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
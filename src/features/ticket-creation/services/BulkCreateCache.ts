@@ -1,66 +1,33 @@
-import type { JiraInstance, JiraIssueType, JiraPriority, JiraFieldMeta } from '../../../types';
-import { JiraClient } from '../../../api/JiraClient';
+import type { JiraIssueType, JiraPriority, JiraFieldMeta } from '../../../types';
+import type { JiraClient } from '../../../api/JiraClient';
+import type { JiraClientPool } from '../../../api/JiraClientPool';
+import type { JiraMetadataCache } from '../../../api/JiraMetadataCache';
 
 export class BulkCreateCache {
-  private issueTypes = new Map<string, JiraIssueType[]>();
-  private priorities = new Map<string, JiraPriority[]>();
-  private fieldsMeta = new Map<string, JiraFieldMeta[]>();
   private existingSummaries = new Map<string, Map<string, string>>();
-  private assignableUsers = new Map<string, { accountId: string; displayName: string }[]>();
-  private clients = new Map<string, JiraClient>();
 
-  constructor(private instances: JiraInstance[]) {
-    for (const instance of instances) {
-      this.clients.set(instance.id, new JiraClient(instance));
-    }
-  }
+  constructor(
+    private clientPool: JiraClientPool,
+    private metadataCache: JiraMetadataCache,
+  ) {}
 
   getClient(instanceId: string): JiraClient | undefined {
-    return this.clients.get(instanceId);
+    return this.clientPool.getClientById(instanceId);
   }
 
   async getIssueTypes(instanceId: string, projectKey: string): Promise<JiraIssueType[]> {
-    const cacheKey = `${instanceId}:${projectKey}`;
-    const cached = this.issueTypes.get(cacheKey);
-    if (cached) {
-      return cached;
-    }
-
-    const client = this.clients.get(instanceId);
-    if (!client) return [];
-
-    const types = await client.getIssueTypes(projectKey);
-    this.issueTypes.set(cacheKey, types);
-    return types;
+    if (!this.getClient(instanceId)) return [];
+    return this.metadataCache.getIssueTypes(instanceId, projectKey);
   }
 
   async getPriorities(instanceId: string): Promise<JiraPriority[]> {
-    const cached = this.priorities.get(instanceId);
-    if (cached) {
-      return cached;
-    }
-
-    const client = this.clients.get(instanceId);
-    if (!client) return [];
-
-    const priorities = await client.getPriorities();
-    this.priorities.set(instanceId, priorities);
-    return priorities;
+    if (!this.getClient(instanceId)) return [];
+    return this.metadataCache.getPriorities(instanceId);
   }
 
   async getFieldsMeta(instanceId: string, projectKey: string, issueTypeId: string): Promise<JiraFieldMeta[]> {
-    const cacheKey = `${instanceId}:${projectKey}:${issueTypeId}`;
-    const cached = this.fieldsMeta.get(cacheKey);
-    if (cached) {
-      return cached;
-    }
-
-    const client = this.clients.get(instanceId);
-    if (!client) return [];
-
-    const fields = await client.getFieldsForIssueType(projectKey, issueTypeId);
-    this.fieldsMeta.set(cacheKey, fields);
-    return fields;
+    if (!this.getClient(instanceId)) return [];
+    return this.metadataCache.getFieldsForIssueType(instanceId, projectKey, issueTypeId);
   }
 
   async checkDuplicates(instanceId: string, projectKey: string, summaries: string[]): Promise<Map<string, string>> {
@@ -72,7 +39,7 @@ export class BulkCreateCache {
       this.existingSummaries.set(cacheKey, projectSummaries);
     }
 
-    const client = this.clients.get(instanceId);
+    const client = this.getClient(instanceId);
     if (!client) return new Map();
 
     const cache = projectSummaries;
@@ -126,18 +93,8 @@ export class BulkCreateCache {
   }
 
   async getAssignableUsers(instanceId: string, projectKey: string): Promise<{ accountId: string; displayName: string }[]> {
-    const cacheKey = `${instanceId}:${projectKey}`;
-    const cached = this.assignableUsers.get(cacheKey);
-    if (cached) {
-      return cached;
-    }
-
-    const client = this.clients.get(instanceId);
-    if (!client) return [];
-
-    const users = await client.getAssignableUsers(projectKey);
-    this.assignableUsers.set(cacheKey, users);
-    return users;
+    if (!this.getClient(instanceId)) return [];
+    return this.metadataCache.getAssignableUsers(instanceId, projectKey);
   }
 
   findCreatedIssue(instanceId: string, projectKey: string, summary: string): string | null {
@@ -151,10 +108,6 @@ export class BulkCreateCache {
   }
 
   clear(): void {
-    this.issueTypes.clear();
-    this.priorities.clear();
-    this.fieldsMeta.clear();
     this.existingSummaries.clear();
-    this.assignableUsers.clear();
   }
 }
@@ -1,10 +1,24 @@
 import type { App, TFile } from 'obsidian';
-import type { PluginSettings, ProjectMappingConfig } from '../../../types';
+import type { JiraFieldMeta, PluginSettings, ProjectMappingConfig } from '../../../types';
 import type { FrontmatterValues } from '../modals/CreateTicketModal/types';
-import type { NoteToProcess, SkippedNote, BulkCreateResult, ProgressCallback, BulkCreateProgress } from './types';
+import type {
+  NoteToProcess,
+  SkippedNote,
+  BulkCreateResult,
+  ProgressCallback,
+  BulkCreateProgress,
+  PreparedTicket,
+  BulkCreateOptions,
+} from './types';
 import type { BulkOperationTarget } from '../../../services/types';
 import { MappingResolver } from '../../../mapping';
 import { BulkCreateCache } from './BulkCreateCache';
+import { AttachmentUploader } from './AttachmentUploader';
+import { CreateMetaValidator } from './CreateMetaValidator';
+import { TicketTemplateRenderer } from './TicketTemplateRenderer';
+import { createDefaultFieldValueParserRegistry, type FieldValueParserRegistry } from './FieldValueParserRegistry';
+import type { JiraClientPool } from '../../../api/JiraClientPool';
+import type { JiraMetadataCache } from '../../../api/JiraMetadataCache';
 import { parseSummaryFromContent, parseDescriptionFromContent } from '../../../utils';
 import { DEFAULT_CONTENT_PARSING } from '../../../constants/defaults';
 import { collectMarkdownFiles } from '../../../services/utils';
@@ -12,23 +26,30 @@ import { collectMarkdownFiles } from '../../../services/utils';
 export class BulkCreateService {
   private mappingResolver: MappingResolver;
   private cache: BulkCreateCache;
+  private attachments: AttachmentUploader;
+  private validator = new CreateMetaValidator();
+  private templates = new TicketTemplateRenderer();
+  private fieldParsers: FieldValueParserRegistry = createDefaultFieldValueParserRegistry();
   private cancelled = false;
 
   constructor(
     private app: App,
     private settings: PluginSettings,
+    clientPool: JiraClientPool,
+    metadataCache: JiraMetadataCache,
   ) {
     this.mappingResolver = new MappingResolver(settings);
-    this.cache = new BulkCreateCache(settings.instances);
+    this.cache = new BulkCreateCache(clientPool, metadataCache);
+    this.attachments = new AttachmentUploader(app);
   }
 
   cancel(): void {
     this.cancelled = true;
   }
 
-  async execute(target: BulkOperationTarget, onProgress: ProgressCallback): Promise<BulkCreateResult> {
+  async execute(target: BulkOperationTarget, onProgress: ProgressCallback, options: BulkCreateOptions = {}): Promise<BulkCreateResult> {
     this.cancelled = false;
-    const result: BulkCreateResult = { created: [], skipped: [], failed: [] };
+    const result: BulkCreateResult = { created: [], skipped: [], failed: [], preflightFailures: [], attachmentFailures: [] };
 
     const allFiles = collectMarkdownFiles(this.app, target);
     const progress: BulkCreateProgress = {
@@ -42,7 +63,7 @@ export class BulkCreateService {
     };
     onProgress(progress);
 
-    const { notesToProcess, skippedNotes } = await this.collectNotesToProcess(allFiles, progress, onProgress);
+    const { notesToProcess, skippedNotes } = await this.collectNotesToProcess(allFiles, progress, onProgress, options);
     result.skipped.push(...skippedNotes);
 
     if (notesToProcess.length === 0) {
@@ -74,10 +95,41 @@ export class BulkCreateService {
     const { withoutParent, withParent } = this.partitionNotesByDependency(notesAfterDuplicateCheck);
     const allNotesToCreate = [...withoutParent, ...withParent];
 
-    progress.status = 'Creating tickets...';
+    progress.status = 'Validating fields...';
     onProgress(progress);
 
+    const preparedTickets: PreparedTicket[] = [];
     for (const note of allNotesToCreate) {
+      if (this.cancelled) break;
+
+      progress.currentFile = note.file.name;
+      onProgress(progress);
+
+      try {
+        const prepared = await this.prepareTicket(note);
+        if (prepared.issues.length === 0) {
+          preparedTickets.push(prepared);
+          continue;
+        }
+        result.preflightFailures.push({ file: note.file, issues: prepared.issues });
+      } catch (error) {
+        result.failed.push({
+          file: note.file,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      progress.failed++;
+      progress.processed++;
+      onProgress(progress);
+    }
+
+    progress.status = 'Creating tickets...';
+    onProgress(progress);
+
+    for (const prepared of preparedTickets) {
+      const { note } = prepared;
+
       if (this.cancelled) {
         progress.status = 'Cancelled';
         onProgress(progress);
@@ -89,7 +141,7 @@ export class BulkCreateService {
       onProgress(progress);
 
       try {
-        const issueKey = await this.createTicket(note);
+        const issueKey = await this.createTicket(prepared);
         const client = this.cache.getClient(note.instanceId);
         const issueUrl = client?.getIssueUrl(issueKey) || '';
 
@@ -101,6 +153,14 @@ export class BulkCreateService {
         progress.created++;
 
         this.cache.addCreatedIssue(note.instanceId, note.projectKey, note.summary, issueKey);
+
+        if (client && note.description) {
+          progress.status = `Uploading attachments: ${note.file.name}`;
+          onProgress(progress);
+
+          const upload = await this.attachments.upload(client, issueKey, note.description, note.file.path);
+          result.attachmentFailures.push(...upload.failed.map(failure => ({ file: note.file, issueKey, ...failure })));
+        }
       } catch (error) {
         result.failed.push({
           file: note.file,
@@ -124,6 +184,7 @@ export class BulkCreateService {
     files: TFile[],
     progress: BulkCreateProgress,
     onProgress: ProgressCallback,
+    options: BulkCreateOptions,
   ): Promise<{ notesToProcess: NoteToProcess[]; skippedNotes: SkippedNote[] }> {
     const notesToProcess: NoteToProcess[] = [];
     const skippedNotes: SkippedNote[] = [];
@@ -159,9 +220,15 @@ export class BulkCreateService {
         continue;
       }
 
-      const description = parseDescriptionFromContent(content, contentParsing.descriptionPattern, contentParsing.descriptionFlags) || '';
+      let description = parseDescriptionFromContent(content, contentParsing.descriptionPattern, contentParsing.descriptionFlags) || '';
+      let frontmatterValues = this.extractFrontmatterValues(file, projectConfig);
 
-      const frontmatterValues = this.extractFrontmatterValues(file, projectConfig);
+      const template = options.templateName ? projectConfig?.templates?.find(t => t.name === options.templateName) : undefined;
+      if (template) {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+        const variables = this.templates.createVariables(file, { summary, description, frontmatter });
+        ({ frontmatterValues, description } = this.templates.apply(template, frontmatterValues, variables));
+      }
 
       notesToProcess.push({
         file,
@@ -265,10 +332,7 @@ export class BulkCreateService {
     return result;
   }
 
-  private async createTicket(note: NoteToProcess): Promise<string> {
-    const client = this.cache.getClient(note.instanceId);
-    if (!client) throw new Error('Jira client not found');
-
+  private async prepareTicket(note: NoteToProcess): Promise<PreparedTicket> {
     const issueTypes = await this.cache.getIssueTypes(note.instanceId, note.projectKey);
     const priorities = await this.cache.getPriorities(note.instanceId);
 
@@ -300,12 +364,67 @@ export class BulkCreateService {
       }
     }
 
-    const customFields: Record<string, unknown> = {};
+    const fields: Record<string, unknown> = {};
+    const issues: string[] = [];
 
     if (note.frontmatterValues.labels && note.frontmatterValues.labels.length > 0) {
-      customFields['labels'] = note.frontmatterValues.labels;
+      fields['labels'] = note.frontmatterValues.labels;
+    }
+
+    if (assigneeAccountId) {
+      fields['assignee'] = { accountId: assigneeAccountId };
+    }
+
+    const fieldsMeta = await this.cache.getFieldsMeta(note.instanceId, note.projectKey, issueTypeId).catch(() => []);
+    const invalidFields = new Set<string>();
+
+    for (const [fieldId, rawValue] of Object.entries(note.frontmatterValues.customFields ?? {})) {
+      const fieldMeta = fieldsMeta.find(f => f.fieldId === fieldId);
+      if (!fieldMeta) {
+        fields[fieldId] = rawValue;
+        continue;
+      }
+
+      const value = await this.serializeField(note, fieldMeta, rawValue);
+      if (value === undefined) {
+        invalidFields.add(fieldId);
+        issues.push(`"${Array.isArray(rawValue) ? rawValue.join(', ') : String(rawValue)}" is not a valid value for ${fieldMeta.name}`);
+      } else {
+        fields[fieldId] = value;
+      }
+    }
+
+    const pendingParent = note.frontmatterValues.parentSummary ? { parent: { summary: note.frontmatterValues.parentSummary } } : {};
+    for (const issue of this.validator.validate(fieldsMeta, { ...fields, ...pendingParent })) {
+      if (!invalidFields.has(issue.fieldId)) issues.push(issue.message);
     }
 
+    return { note, issueTypeId, priorityId, fields, issues };
+  }
+
+  private async serializeField(note: NoteToProcess, fieldMeta: JiraFieldMeta, rawValue: unknown): Promise<unknown> {
+    const client = this.cache.getClient(note.instanceId);
+    const context = client && { formatRichText: (markdown: string) => client.formatDescription(markdown, [], note.file.path) };
+    const value = this.fieldParsers.resolve(fieldMeta).parse(rawValue, fieldMeta, context);
+    const items = Array.isArray(value) ? value : [value];
+    if (!items.some(item => typeof item === 'object' && item !== null && 'displayName' in item)) return value;
+
+    const users = await this.cache.getAssignableUsers(note.instanceId, note.projectKey);
+    const resolved = items.map(item => {
+      const displayName = String((item as { displayName: unknown }).displayName).toLowerCase();
+      const user = users.find(u => u.displayName.toLowerCase() === displayName);
+      return user ? { accountId: user.accountId } : undefined;
+    });
+
+    if (resolved.includes(undefined)) return undefined;
+    return Array.isArray(value) ? resolved : resolved[0];
+  }
+
+  private async createTicket(prepared: PreparedTicket): Promise<string> {
+    const { note, fields } = prepared;
+    const client = this.cache.getClient(note.instanceId);
+    if (!client) throw new Error('Jira client not found');
+
     if (note.frontmatterValues.parentSummary) {
       let parentKey: string | null = null;
 
@@ -320,27 +439,18 @@ export class BulkCreateService {
       }
 
       if (parentKey) {
-        customFields['parent'] = { key: parentKey };
-      }
-    }
-
-    if (assigneeAccountId) {
-      customFields['assignee'] = { accountId: assigneeAccountId };
-    }
-
-    if (note.frontmatterValues.customFields) {
-      for (const [fieldId, value] of Object.entries(note.frontmatterValues.customFields)) {
-        customFields[fieldId] = value;
+        fields['parent'] = { key: parentKey };
       }
     }
 
     const result = await client.createIssue(
       note.projectKey,
-      issueTypeId,
+      prepared.issueTypeId,
       note.summary,
       note.description || undefined,
-      priorityId,
-      Object.keys(customFields).length > 0 ? customFields : undefined,
+      prepared.priorityId,
+      Object.keys(fields).length > 0 ? fields : undefined,
+      note.file.path,
     );
 
     return result.key;
@@ -0,0 +1,133 @@
+import type { App, TFile } from 'obsidian';
+import type { BulkCreateResult, BulkCreateProgress, ProgressCallback, SubtaskParent, SubtaskCompletionResult } from './types';
+import type { JiraInstance } from '../../../types';
+import type { IssueLineLink } from '../../../utils/types';
+import type { JiraClientPool } from '../../../api/JiraClientPool';
+import type { JiraMetadataCache } from '../../../api/JiraMetadataCache';
+import { parseChecklist } from '../../../utils/checklist';
+import { appendIssueLinks } from '../../../utils/issueLinks';
+
+function getStatusCategoryKey(status: unknown): string {
+  if (typeof status !== 'object' || status === null || !('statusCategory' in status)) return '';
+  const category = status.statusCategory;
+  if (typeof category === 'object' && category !== null && 'key' in category && typeof category.key === 'string') {
+    return category.key;
+  }
+  return '';
+}
+
+export class ChecklistSubtaskService {
+  private cancelled = false;
+
+  constructor(
+    private app: App,
+    private clientPool: JiraClientPool,
+    private metadataCache: JiraMetadataCache,
+  ) {}
+
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  async createSubtasks(file: TFile, parent: SubtaskParent, onProgress: ProgressCallback): Promise<BulkCreateResult> {
+    this.cancelled = false;
+    const result: BulkCreateResult = { created: [], skipped: [], failed: [], preflightFailures: [], attachmentFailures: [] };
+
+    const items = parseChecklist(await this.app.vault.read(file)).filter(item => !item.checked);
+    const progress: BulkCreateProgress = {
+      total: items.length,
+      processed: 0,
+      currentFile: '',
+      status: 'Collecting checklist items...',
+      created: 0,
+      skipped: 0,
+      failed: 0,
+    };
+    onProgress(progress);
+
+    const projectKey = parent.issueKey.split('-')[0];
+    const issueTypes = await this.metadataCache.getIssueTypes(parent.instance.id, projectKey);
+    const subtaskType = issueTypes.find(t => t.subtask);
+    if (!subtaskType) throw new Error(`No subtask issue type available in ${projectKey}`);
+
+    const client = this.clientPool.getClient(parent.instance);
+    const links: IssueLineLink[] = [];
+
+    for (const item of items) {
+      if (this.cancelled) {
+        progress.status = 'Cancelled';
+        onProgress(progress);
+        break;
+      }
+
+      progress.currentFile = item.text;
+      progress.status = `Creating: ${item.text}`;
+      onProgress(progress);
+
+      if (item.issueKey) {
+        result.skipped.push({ file, reason: 'already linked', existingIssueKey: item.issueKey, summary: item.text });
+        progress.skipped++;
+      } else {
+        try {
+          const created = await client.createIssue(projectKey, subtaskType.id, item.text, undefined, undefined, {
+            parent: { key: parent.issueKey },
+          });
+          const issueUrl = client.getIssueUrl(created.key);
+
+          links.push({ item, issueKey: created.key, issueUrl });
+          result.created.push({ file, issueKey: created.key, issueUrl, summary: item.text });
+          progress.created++;
+        } catch (error) {
+          result.failed.push({ file, error: error instanceof Error ? error.message : 'Unknown error', summary: item.text });
+          progress.failed++;
+        }
+      }
+
+      progress.processed++;
+      onProgress(progress);
+    }
+
+    if (links.length > 0) {
+      const content = await this.app.vault.read(file);
+      await this.app.vault.modify(file, appendIssueLinks(content, links));
+    }
+
+    progress.status = 'Complete';
+    progress.currentFile = '';
+    onProgress(progress);
+
+    return result;
+  }
+
+  async completeCheckedSubtasks(file: TFile, instance: JiraInstance): Promise<SubtaskCompletionResult> {
+    const result: SubtaskCompletionResult = { completed: [], unchanged: [], failed: [] };
+    const client = this.clientPool.getClient(instance);
+
+    for (const item of parseChecklist(await this.app.vault.read(file))) {
+      const issueKey = item.issueKey;
+      if (!item.checked || !issueKey) continue;
+
+      try {
+        const issue = await client.getIssue(issueKey, ['status']);
+        if (getStatusCategoryKey(issue.fields.status) === 'done') {
+          result.unchanged.push(issueKey);
+          continue;
+        }
+
+        const transitions = await client.getTransitions(issueKey);
+        const done = transitions.find(t => t.to.statusCategory.key === 'done');
+        if (!done) {
+          result.failed.push({ issueKey, error: 'No transition to a done status' });
+          continue;
+        }
+
+        await client.transitionIssue(issueKey, done.id);
+        result.completed.push(issueKey);
+      } catch (error) {
+        result.failed.push({ issueKey, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return result;
+  }
+}
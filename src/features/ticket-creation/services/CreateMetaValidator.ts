@@ -0,0 +1,71 @@
+import type { JiraFieldMeta, JiraFieldOption } from '../../../types';
+import type { FieldValidationIssue } from './types';
+
+type OptionReference = Partial<Record<'id' | 'name' | 'value', unknown>> & { child?: unknown };
+
+export class CreateMetaValidator {
+  validate(fieldsMeta: JiraFieldMeta[], fields: Record<string, unknown>): FieldValidationIssue[] {
+    const issues: FieldValidationIssue[] = [];
+
+    for (const field of fieldsMeta) {
+      const value = fields[field.fieldId];
+
+      if (this.isEmpty(value)) {
+        if (field.required && !field.hasDefaultValue) {
+          issues.push({ fieldId: field.fieldId, fieldName: field.name, message: `${field.name} is required` });
+        }
+        continue;
+      }
+
+      if (!field.allowedValues || field.allowedValues.length === 0) continue;
+
+      const invalid = (Array.isArray(value) ? value : [value]).find(item => !this.isAllowed(item, field.allowedValues!));
+      if (invalid !== undefined) {
+        issues.push({
+          fieldId: field.fieldId,
+          fieldName: field.name,
+          message: `"${this.describe(invalid)}" is not an allowed value for ${field.name}`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  private isEmpty(value: unknown): boolean {
+    if (value === undefined || value === null) return true;
+    if (typeof value === 'string') return value.trim() === '';
+    if (Array.isArray(value)) return value.length === 0;
+    return false;
+  }
+
+  private isAllowed(value: unknown, allowedValues: JiraFieldOption[]): boolean {
+    const option = this.findOption(value, allowedValues);
+    if (!option) return false;
+
+    const child = (value as OptionReference | null)?.child;
+    return child === undefined || child === null || !!this.findOption(child, option.children ?? []);
+  }
+
+  private findOption(value: unknown, options: JiraFieldOption[]): JiraFieldOption | undefined {
+    if (typeof value === 'string' || typeof value === 'number') {
+      const needle = String(value).toLowerCase();
+      return options.find(o => o.id === needle || o.name?.toLowerCase() === needle || o.value?.toLowerCase() === needle);
+    }
+    if (typeof value !== 'object' || value === null) return undefined;
+
+    const { id, name, value: optionValue } = value as OptionReference;
+    return options.find(
+      o =>
+        (id !== undefined && o.id === String(id)) ||
+        (name !== undefined && o.name === name) ||
+        (optionValue !== undefined && o.value === optionValue),
+    );
+  }
+
+  private describe(value: unknown): string {
+    if (typeof value !== 'object' || value === null) return String(value);
+    const { id, name, value: optionValue } = value as OptionReference;
+    return String(name ?? optionValue ?? id ?? JSON.stringify(value));
+  }
+}
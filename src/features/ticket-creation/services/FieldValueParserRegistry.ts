@@ -0,0 +1,183 @@
+import type { JiraFieldMeta, JiraFieldOption } from '../../../types';
+import type { FieldValueParseContext, FieldValueParser } from './types';
+
+const CUSTOM_TYPE_PREFIX = 'com.atlassian.jira.plugin.system.customfieldtypes:';
+
+export function customFieldTypes(...names: string[]): string[] {
+  return names.map(name => CUSTOM_TYPE_PREFIX + name);
+}
+
+export function fieldSchemaKeys(field: JiraFieldMeta): string[] {
+  const { custom, system, type, items } = field.schema ?? { type: 'string' };
+  return [custom, system, type === 'array' ? `array:${items ?? 'string'}` : type].filter((key): key is string => !!key);
+}
+
+export function findOption(options: JiraFieldOption[] | undefined, value: unknown): JiraFieldOption | undefined {
+  const needle = String(value).trim().toLowerCase();
+  return options?.find(o => o.id === needle || o.name?.toLowerCase() === needle || o.value?.toLowerCase() === needle);
+}
+
+export function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    return value
+      .split(',')
+      .map(item => item.trim())
+      .filter(Boolean);
+  }
+  return value === undefined || value === null ? [] : [value];
+}
+
+export function toJiraDateTime(date: Date): string {
+  return date.toISOString().replace('Z', '+0000');
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return undefined;
+}
+
+export class TextValueParser implements FieldValueParser {
+  parse(value: unknown): unknown {
+    return toText(value);
+  }
+}
+
+export class RichTextValueParser implements FieldValueParser {
+  parse(value: unknown, _field: JiraFieldMeta, context?: FieldValueParseContext): unknown {
+    const text = toText(value);
+    return text && context ? context.formatRichText(text) : text;
+  }
+}
+
+export class NumberValueParser implements FieldValueParser {
+  parse(value: unknown): unknown {
+    const text = typeof value === 'number' ? value : toText(value);
+    const num = text === undefined ? NaN : Number(text);
+    return isNaN(num) ? undefined : num;
+  }
+}
+
+export class UrlValueParser implements FieldValueParser {
+  parse(value: unknown): unknown {
+    const text = toText(value);
+    return text && /^[a-z][a-z\d+.-]*:\/\/\S+$/i.test(text) ? text : undefined;
+  }
+}
+
+export class DateValueParser implements FieldValueParser {
+  parse(value: unknown): unknown {
+    if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value.toISOString().slice(0, 10);
+    return toText(value)?.match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+  }
+}
+
+export class DateTimeValueParser implements FieldValueParser {
+  parse(value: unknown): unknown {
+    const date = value instanceof Date ? value : new Date(toText(value) ?? '');
+    return isNaN(date.getTime()) ? undefined : toJiraDateTime(date);
+  }
+}
+
+export class SelectValueParser implements FieldValueParser {
+  parse(value: unknown, field: JiraFieldMeta): unknown {
+    const match = findOption(field.allowedValues, value);
+    return match ? { id: match.id } : undefined;
+  }
+}
+
+export class MultiSelectValueParser implements FieldValueParser {
+  parse(value: unknown, field: JiraFieldMeta): unknown {
+    const items = toList(value);
+    const matches = items.map(item => findOption(field.allowedValues, item)).filter((option): option is JiraFieldOption => !!option);
+    return matches.length > 0 && matches.length === items.length ? matches.map(option => ({ id: option.id })) : undefined;
+  }
+}
+
+export class CascadingSelectValueParser implements FieldValueParser {
+  parse(value: unknown, field: JiraFieldMeta): unknown {
+    const [parentValue, childValue] = Array.isArray(value) ? value : String(value).split('>');
+    const parent = findOption(field.allowedValues, parentValue);
+    if (!parent) return undefined;
+
+    const child = childValue !== undefined ? findOption(parent.children, childValue) : undefined;
+    return child ? { id: parent.id, child: { id: child.id } } : { id: parent.id };
+  }
+}
+
+export class UserValueParser implements FieldValueParser {
+  parse(value: unknown): unknown {
+    return typeof value === 'string' && value.trim() ? { displayName: value.trim() } : undefined;
+  }
+}
+
+export class MultiUserValueParser implements FieldValueParser {
+  parse(value: unknown): unknown {
+    const names = toList(value).filter((item): item is string => typeof item === 'string' && !!item.trim());
+    return names.length > 0 ? names.map(name => ({ displayName: name.trim() })) : undefined;
+  }
+}
+
+export class ParentValueParser implements FieldValueParser {
+  parse(value: unknown): unknown {
+    return typeof value === 'string' && /^[A-Z][A-Z\d_]*-\d+$/.test(value.trim()) ? { key: value.trim() } : undefined;
+  }
+}
+
+export class LabelsValueParser implements FieldValueParser {
+  parse(value: unknown): unknown {
+    const labels = toList(value)
+      .map(item => String(item).trim().replace(/\s+/g, '-'))
+      .filter(Boolean);
+    return labels.length > 0 ? labels : undefined;
+  }
+}
+
+export class FieldValueParserRegistry {
+  private parsers = new Map<string, FieldValueParser>();
+  private textParser: FieldValueParser = new TextValueParser();
+  private selectParser: FieldValueParser = new SelectValueParser();
+  private multiSelectParser: FieldValueParser = new MultiSelectValueParser();
+
+  register(keys: string[], parser: FieldValueParser): this {
+    for (const key of keys) {
+      this.parsers.set(key, parser);
+    }
+    return this;
+  }
+
+  resolve(field: JiraFieldMeta): FieldValueParser {
+    for (const key of fieldSchemaKeys(field)) {
+      const parser = this.parsers.get(key);
+      if (parser) return parser;
+    }
+
+    if (field.allowedValues && field.allowedValues.length > 0) {
+      return field.schema?.type === 'array' ? this.multiSelectParser : this.selectParser;
+    }
+    return this.textParser;
+  }
+}
+
+export function createDefaultFieldValueParserRegistry(): FieldValueParserRegistry {
+  const custom = customFieldTypes;
+
+  return new FieldValueParserRegistry()
+    .register(['string', ...custom('textfield')], new TextValueParser())
+    .register(['environment', ...custom('textarea')], new RichTextValueParser())
+    .register(['number', ...custom('float')], new NumberValueParser())
+    .register(custom('url'), new UrlValueParser())
+    .register(['date', ...custom('datepicker')], new DateValueParser())
+    .register(['datetime', ...custom('datetime')], new DateTimeValueParser())
+    .register(['option', 'version', 'component', ...custom('select', 'radiobuttons', 'version')], new SelectValueParser())
+    .register(
+      ['array:option', 'array:version', 'array:component', ...custom('multiselect', 'multiversion', 'multicheckboxes')],
+      new MultiSelectValueParser(),
+    )
+    .register(['option-with-child', ...custom('cascadingselect')], new CascadingSelectValueParser())
+    .register(['user', 'assignee', ...custom('userpicker')], new UserValueParser())
+    .register(['array:user', ...custom('multiuserpicker')], new MultiUserValueParser())
+    .register(['issuelink', 'parent'], new ParentValueParser())
+    .register(['array:string', 'labels', ...custom('labels')], new LabelsValueParser());
+}
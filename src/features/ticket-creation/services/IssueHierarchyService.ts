@@ -0,0 +1,136 @@
+import type { App, TFile } from 'obsidian';
+import type { JiraIssueType } from '../../../types';
+import type { BulkCreateResult, BulkCreateProgress, ProgressCallback, HierarchyNode, HierarchyPlan, HierarchyTarget } from './types';
+import type { IssueLineLink, OutlineNode, OutlineNodeKind } from '../../../utils/types';
+import type { JiraClientPool } from '../../../api/JiraClientPool';
+import type { JiraMetadataCache } from '../../../api/JiraMetadataCache';
+import { parseIssueOutline } from '../../../utils/issueOutline';
+import { appendIssueLinks } from '../../../utils/issueLinks';
+
+const PREFERRED_TYPE_NAMES: Record<OutlineNodeKind, string> = {
+  epic: 'epic',
+  story: 'story',
+  subtask: 'subtask',
+};
+
+function countNodes(nodes: HierarchyNode[]): number {
+  return nodes.reduce((total, node) => total + 1 + countNodes(node.children), 0);
+}
+
+export class IssueHierarchyService {
+  private cancelled = false;
+
+  constructor(
+    private app: App,
+    private clientPool: JiraClientPool,
+    private metadataCache: JiraMetadataCache,
+  ) {}
+
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  async buildPlan(file: TFile, target: HierarchyTarget): Promise<HierarchyPlan> {
+    const issueTypes = await this.metadataCache.getIssueTypes(target.instance.id, target.projectKey);
+    const outline = parseIssueOutline(await this.app.vault.read(file));
+    const toNode = (node: OutlineNode): HierarchyNode => ({
+      kind: node.kind,
+      line: node.line,
+      raw: node.raw,
+      summary: node.text,
+      issueTypeId: this.defaultIssueTypeId(node.kind, issueTypes),
+      issueKey: node.issueKey,
+      children: node.children.map(toNode),
+    });
+
+    return { nodes: outline.map(toNode), issueTypes };
+  }
+
+  async create(file: TFile, nodes: HierarchyNode[], target: HierarchyTarget, onProgress: ProgressCallback): Promise<BulkCreateResult> {
+    this.cancelled = false;
+    const result: BulkCreateResult = { created: [], skipped: [], failed: [], preflightFailures: [], attachmentFailures: [] };
+    const client = this.clientPool.getClient(target.instance);
+    const links: IssueLineLink[] = [];
+
+    const progress: BulkCreateProgress = {
+      total: countNodes(nodes),
+      processed: 0,
+      currentFile: '',
+      status: 'Creating issues...',
+      created: 0,
+      skipped: 0,
+      failed: 0,
+    };
+    onProgress(progress);
+
+    let level: { node: HierarchyNode; parentKey?: string | null }[] = nodes.map(node => ({ node }));
+
+    while (level.length > 0 && !this.cancelled) {
+      const next: typeof level = [];
+
+      for (const { node, parentKey } of level) {
+        if (this.cancelled) break;
+
+        progress.currentFile = node.summary;
+        progress.status = `Creating: ${node.summary}`;
+        onProgress(progress);
+
+        let issueKey: string | null = node.issueKey ?? null;
+
+        if (node.issueKey) {
+          result.skipped.push({ file, reason: 'already linked', existingIssueKey: node.issueKey, summary: node.summary });
+          progress.skipped++;
+        } else if (parentKey === null) {
+          result.skipped.push({ file, reason: 'parent was not created', summary: node.summary });
+          progress.skipped++;
+        } else {
+          try {
+            const created = await client.createIssue(
+              target.projectKey,
+              node.issueTypeId,
+              node.summary.trim(),
+              undefined,
+              undefined,
+              parentKey ? { parent: { key: parentKey } } : undefined,
+            );
+            const issueUrl = client.getIssueUrl(created.key);
+
+            issueKey = created.key;
+            links.push({ item: node, issueKey, issueUrl });
+            result.created.push({ file, issueKey, issueUrl, summary: node.summary });
+            progress.created++;
+          } catch (error) {
+            result.failed.push({ file, error: error instanceof Error ? error.message : 'Unknown error', summary: node.summary });
+            progress.failed++;
+          }
+        }
+
+        progress.processed++;
+        onProgress(progress);
+
+        next.push(...node.children.map(child => ({ node: child, parentKey: issueKey })));
+      }
+
+      level = next;
+    }
+
+    if (links.length > 0) {
+      const content = await this.app.vault.read(file);
+      await this.app.vault.modify(file, appendIssueLinks(content, links));
+    }
+
+    progress.status = this.cancelled ? 'Cancelled' : 'Complete';
+    progress.currentFile = '';
+    onProgress(progress);
+
+    return result;
+  }
+
+  private defaultIssueTypeId(kind: OutlineNodeKind, issueTypes: JiraIssueType[]): string {
+    const named = issueTypes.find(t => t.name.toLowerCase().replace(/[\s-]/g, '') === PREFERRED_TYPE_NAMES[kind]);
+    if (named) return named.id;
+
+    const fallback = kind === 'subtask' ? issueTypes.find(t => t.subtask) : issueTypes.find(t => !t.subtask);
+    return fallback?.id ?? '';
+  }
+}
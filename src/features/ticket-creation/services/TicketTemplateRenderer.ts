@@ -0,0 +1,69 @@
+import type { TFile } from 'obsidian';
+import type { TicketTemplate } from '../../../types';
+import type { FrontmatterValues } from '../modals/CreateTicketModal/types';
+import type { AppliedTemplate, TemplateVariables } from './types';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const FRONTMATTER_PREFIX = 'frontmatter.';
+
+type NoteVariables = Partial<Pick<TemplateVariables, 'summary' | 'description' | 'selection' | 'frontmatter'>>;
+
+export class TicketTemplateRenderer {
+  constructor(private now: () => Date = () => new Date()) {}
+
+  createVariables(file: TFile | null, values: NoteVariables = {}): TemplateVariables {
+    const now = this.now();
+    const pad = (n: number) => String(n).padStart(2, '0');
+
+    return {
+      title: file?.basename ?? '',
+      folder: file?.parent?.path ?? '',
+      date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+      summary: values.summary ?? '',
+      description: values.description ?? '',
+      selection: values.selection ?? '',
+      frontmatter: values.frontmatter ?? {},
+    };
+  }
+
+  render(text: string, variables: TemplateVariables): string {
+    return text.replace(VARIABLE_PATTERN, (_, name: string) => {
+      if (name.startsWith(FRONTMATTER_PREFIX)) {
+        return this.formatValue(variables.frontmatter[name.slice(FRONTMATTER_PREFIX.length)]);
+      }
+      const value = variables[name as keyof TemplateVariables];
+      return typeof value === 'string' ? value : '';
+    });
+  }
+
+  apply(template: TicketTemplate, frontmatterValues: FrontmatterValues, variables: TemplateVariables): AppliedTemplate {
+    const templateFields: Record<string, unknown> = {};
+    for (const [fieldId, value] of Object.entries(template.customFields ?? {})) {
+      templateFields[fieldId] = this.render(value, variables);
+    }
+    if (template.components && template.components.length > 0) {
+      templateFields['components'] = [...template.components];
+    }
+
+    const labels = [...new Set([...(template.labels ?? []), ...(frontmatterValues.labels ?? [])])];
+    const customFields = { ...templateFields, ...frontmatterValues.customFields };
+
+    return {
+      frontmatterValues: {
+        ...frontmatterValues,
+        issueType: frontmatterValues.issueType ?? template.issueType,
+        priority: frontmatterValues.priority ?? template.priority,
+        labels: labels.length > 0 ? labels : undefined,
+        customFields: Object.keys(customFields).length > 0 ? customFields : undefined,
+      },
+      description: template.description ? this.render(template.description, variables).trim() : variables.description,
+    };
+  }
+
+  private formatValue(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) return value.map(item => this.formatValue(item)).join(', ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+}
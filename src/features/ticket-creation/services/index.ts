@@ -1,11 +1,32 @@
 export { BulkCreateService } from './BulkCreateService';
 export { BulkCreateCache } from './BulkCreateCache';
+export { AttachmentUploader } from './AttachmentUploader';
+export { CreateMetaValidator } from './CreateMetaValidator';
+export { TicketTemplateRenderer } from './TicketTemplateRenderer';
+export { ChecklistSubtaskService } from './ChecklistSubtaskService';
+export { IssueHierarchyService } from './IssueHierarchyService';
+export { FieldValueParserRegistry, createDefaultFieldValueParserRegistry } from './FieldValueParserRegistry';
 export type {
   NoteToProcess,
   SkippedNote,
   CreatedTicket,
   FailedNote,
+  FailedAttachment,
+  PreflightFailure,
+  FieldValidationIssue,
+  EmbeddedFile,
+  AttachmentFailure,
+  AttachmentUploadResult,
   BulkCreateResult,
   BulkCreateProgress,
   ProgressCallback,
+  BulkCreateOptions,
+  TemplateVariables,
+  AppliedTemplate,
+  SubtaskParent,
+  SubtaskCompletionResult,
+  HierarchyNode,
+  HierarchyPlan,
+  HierarchyTarget,
+  FieldValueParser,
 } from './types';
@@ -1,6 +1,7 @@
 import type { TFile } from 'obsidian';
 import type { JiraInstance, JiraIssueType, JiraPriority, JiraFieldMeta } from '../../../types';
 import type { FrontmatterValues } from '../modals/CreateTicketModal/types';
+import type { AttachmentReference, OutlineNodeKind } from '../../../utils/types';
 
 export interface NoteToProcess {
   file: TFile;
@@ -12,27 +13,73 @@ export interface NoteToProcess {
   frontmatterValues: FrontmatterValues;
 }
 
+export interface PreparedTicket {
+  note: NoteToProcess;
+  issueTypeId: string;
+  priorityId?: string;
+  fields: Record<string, unknown>;
+  issues: string[];
+}
+
 export interface SkippedNote {
   file: TFile;
   reason: string;
   existingIssueKey?: string;
+  summary?: string;
 }
 
 export interface CreatedTicket {
   file: TFile;
   issueKey: string;
   issueUrl: string;
+  summary?: string;
 }
 
 export interface FailedNote {
   file: TFile;
   error: string;
+  summary?: string;
+}
+
+export interface FailedAttachment {
+  file: TFile;
+  issueKey: string;
+  fileName: string;
+  reason: string;
+}
+
+export interface PreflightFailure {
+  file: TFile;
+  issues: string[];
+}
+
+export interface FieldValidationIssue {
+  fieldId: string;
+  fieldName: string;
+  message: string;
 }
 
 export interface BulkCreateResult {
   created: CreatedTicket[];
   skipped: SkippedNote[];
   failed: FailedNote[];
+  preflightFailures: PreflightFailure[];
+  attachmentFailures: FailedAttachment[];
+}
+
+export interface EmbeddedFile {
+  linkpath: string;
+  file: TFile;
+}
+
+export interface AttachmentFailure {
+  fileName: string;
+  reason: string;
+}
+
+export interface AttachmentUploadResult {
+  uploaded: AttachmentReference[];
+  failed: AttachmentFailure[];
 }
 
 export interface BulkCreateProgress {
@@ -47,6 +94,61 @@ export interface BulkCreateProgress {
 
 export type ProgressCallback = (progress: BulkCreateProgress) => void;
 
+export interface BulkCreateOptions {
+  templateName?: string;
+}
+
+export interface TemplateVariables {
+  title: string;
+  folder: string;
+  date: string;
+  summary: string;
+  description: string;
+  selection: string;
+  frontmatter: Record<string, unknown>;
+}
+
+export interface AppliedTemplate {
+  frontmatterValues: FrontmatterValues;
+  description: string;
+}
+
+export interface SubtaskParent {
+  instance: JiraInstance;
+  issueKey: string;
+}
+
+export interface FailedSubtask {
+  issueKey: string;
+  error: string;
+}
+
+export interface SubtaskCompletionResult {
+  completed: string[];
+  unchanged: string[];
+  failed: FailedSubtask[];
+}
+
+export interface HierarchyNode {
+  kind: OutlineNodeKind;
+  line: number;
+  raw: string;
+  summary: string;
+  issueTypeId: string;
+  issueKey?: string;
+  children: HierarchyNode[];
+}
+
+export interface HierarchyPlan {
+  nodes: HierarchyNode[];
+  issueTypes: JiraIssueType[];
+}
+
+export interface HierarchyTarget {
+  instance: JiraInstance;
+  projectKey: string;
+}
+
 export interface BulkCreateCacheData {
   issueTypes: Map<string, JiraIssueType[]>;
   priorities: Map<string, JiraPriority[]>;
@@ -54,3 +156,11 @@ export interface BulkCreateCacheData {
   existingSummaries: Map<string, Map<string, string>>;
   instances: Map<string, JiraInstance>;
 }
+
+export interface FieldValueParseContext {
+  formatRichText(markdown: string): unknown;
+}
+
+export interface FieldValueParser {
+  parse(value: unknown, field: JiraFieldMeta, context?: FieldValueParseContext): unknown;
+}
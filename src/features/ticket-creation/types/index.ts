@@ -5,7 +5,15 @@ export type {
   SkippedNote,
   CreatedTicket,
   FailedNote,
+  PreflightFailure,
   BulkCreateResult,
   BulkCreateProgress,
   ProgressCallback,
+  BulkCreateOptions,
+  TemplateVariables,
+  SubtaskParent,
+  SubtaskCompletionResult,
+  HierarchyNode,
+  HierarchyPlan,
+  HierarchyTarget,
 } from '../services/types';
@@ -8,6 +8,8 @@ export type { StatusChangeResult, StatusChangeModalOptions, RecentIssue } from '
 export { FolderSuggestModal } from '../features/settings/modals/FolderSuggestModal/FolderSuggestModal';
 export { FolderMappingModal } from '../features/settings/modals/FolderMappingModal/FolderMappingModal';
 export type { FolderMappingModalOptions } from '../features/settings/modals/FolderMappingModal/types';
+export { TicketTemplatesModal } from '../features/settings/modals/TicketTemplatesModal/TicketTemplatesModal';
+export type { TicketTemplatesModalOptions, TicketTemplatesModalResult } from '../features/settings/modals/TicketTemplatesModal/types';
 export { CustomFieldsModal } from '../features/settings/modals/CustomFieldsModal/CustomFieldsModal';
 export type { CustomFieldsModalOptions, CustomFieldsModalResult } from '../features/settings/modals/CustomFieldsModal/types';
 export { FrontmatterMappingModal } from '../features/settings/modals/FrontmatterMappingModal/FrontmatterMappingModal';
@@ -17,6 +19,10 @@ export type {
 } from '../features/settings/modals/FrontmatterMappingModal/types';
 export { BulkCreateProgressModal } from '../features/ticket-creation/modals/BulkCreateProgressModal';
 export { BulkCreateReportModal } from '../features/ticket-creation/modals/BulkCreateReportModal';
+export { TemplatePickerModal } from '../features/ticket-creation/modals/TemplatePickerModal';
+export type { TemplatePickerModalOptions, TemplatePickerModalResult } from '../features/ticket-creation/modals/TemplatePickerModal';
+export { IssueHierarchyModal } from '../features/ticket-creation/modals/IssueHierarchyModal';
+export type { IssueHierarchyModalOptions, IssueHierarchyModalResult } from '../features/ticket-creation/modals/IssueHierarchyModal';
 export { BulkStatusChangeModal } from '../features/status-change/modals/BulkStatusChangeModal';
 export { BulkStatusChangeProgressModal } from '../features/status-change/modals/BulkStatusChangeProgressModal';
 export { BulkStatusChangeReportModal } from '../features/status-change/modals/BulkStatusChangeReportModal';
@@ -24,6 +30,12 @@ export { AdvancedConfigModal } from '../features/settings/modals/AdvancedConfigM
 export type { AdvancedConfigModalOptions } from '../features/settings/modals/AdvancedConfigModal/types';
 export { SyncSettingsModal } from '../features/sync/modals/SyncSettingsModal/SyncSettingsModal';
 export type { SyncSettingsModalOptions, SyncSettingsModalResult } from '../features/sync/modals/SyncSettingsModal/types';
+export { SyncConflictModal } from '../features/sync/modals/SyncConflictModal/SyncConflictModal';
+export type { SyncConflictModalOptions, SyncConflictModalResult } from '../features/sync/modals/SyncConflictModal/types';
+export { SyncJqlModal } from '../features/sync/modals/SyncJqlModal/SyncJqlModal';
+export type { SyncJqlModalOptions, SyncJqlModalResult } from '../features/sync/modals/SyncJqlModal/types';
+export { PushNoteModal } from '../features/sync/modals/PushNoteModal/PushNoteModal';
+export type { PushNoteModalOptions, PushNoteModalResult } from '../features/sync/modals/PushNoteModal/types';
 export { LinkTicketModal } from '../features/link-ticket/modals/LinkTicketModal/LinkTicketModal';
 export type { LinkTicketModalOptions, LinkTicketModalResult } from '../features/link-ticket/modals/LinkTicketModal/types';
 export { ProjectComparisonModal } from '../features/project-comparison/modals/ProjectComparisonModal/ProjectComparisonModal';
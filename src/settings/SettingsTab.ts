@@ -1,8 +1,10 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import type { JiraBridgePlugin } from '../core/Plugin';
-import type { JiraInstance, FolderMapping, MappingType } from '../types';
+import type { JiraInstance, FolderMapping, MappingType, WikiLinkStyle, TagStyle, BlockRefStyle } from '../types';
 import { JiraInstanceModal, FolderMappingModal, CustomFieldsModal, FrontmatterMappingModal, AdvancedConfigModal } from '../modals';
-import { JiraClient } from '../api';
+import type { JiraClientPool } from '../api';
+import { SERVICE_TOKENS } from '../constants/service-tokens';
+import { isPushableField } from '../features/sync/services/strategies/fieldEncoding';
 
 export class JiraBridgeSettingsTab extends PluginSettingTab {
   plugin: JiraBridgePlugin;
@@ -13,6 +15,10 @@ export class JiraBridgeSettingsTab extends PluginSettingTab {
     this.plugin = plugin;
   }
 
+  private get clientPool(): JiraClientPool {
+    return this.plugin.getService(SERVICE_TOKENS.JiraClientPool);
+  }
+
   display(): void {
     const { containerEl } = this;
     containerEl.empty();
@@ -26,6 +32,7 @@ export class JiraBridgeSettingsTab extends PluginSettingTab {
     this.renderInstancesSection(containerEl);
     this.renderMappingsSection(containerEl);
     this.renderSyncSection(containerEl);
+    this.renderMarkdownSection(containerEl);
   }
 
   private showToast(message: string, type: 'success' | 'error'): void {
@@ -180,6 +187,7 @@ export class JiraBridgeSettingsTab extends PluginSettingTab {
 
     const wasDefault = instance.isDefault;
     this.plugin.settings.instances = this.plugin.settings.instances.filter(i => i.id !== instanceId);
+    delete this.plugin.settings.sandboxData[instanceId];
 
     if (wasDefault && this.plugin.settings.instances.length > 0) {
       this.plugin.settings.instances[0].isDefault = true;
@@ -193,13 +201,18 @@ export class JiraBridgeSettingsTab extends PluginSettingTab {
     button.disabled = true;
     button.textContent = 'Testing...';
 
-    const client = new JiraClient(instance);
+    const client = this.clientPool.getClient(instance);
     const result = await client.testConnection();
 
     button.disabled = false;
     button.textContent = 'Test';
 
     if (result.success && result.user) {
+      if (result.deploymentType && result.deploymentType !== (instance.deploymentType ?? 'cloud')) {
+        instance.deploymentType = result.deploymentType;
+        await this.plugin.saveSettings();
+        this.display();
+      }
       this.showToast(`✓ Connected to ${instance.name} as ${result.user.displayName}`, 'success');
     } else {
       this.showToast(`✗ ${instance.name}: ${result.error}`, 'error');
@@ -318,6 +331,7 @@ export class JiraBridgeSettingsTab extends PluginSettingTab {
 
   private async handleAddMapping(mappingType: MappingType, instanceId?: string, baseFolderPath?: string): Promise<void> {
     const modal = new FolderMappingModal(this.app, {
+      clientPool: this.clientPool,
       mode: 'add',
       mappingType,
       instances: this.plugin.settings.instances,
@@ -337,6 +351,7 @@ export class JiraBridgeSettingsTab extends PluginSettingTab {
 
   private async handleEditMapping(mapping: FolderMapping): Promise<void> {
     const modal = new FolderMappingModal(this.app, {
+      clientPool: this.clientPool,
       mode: 'edit',
       mappingType: mapping.type,
       instances: this.plugin.settings.instances,
@@ -399,6 +414,7 @@ export class JiraBridgeSettingsTab extends PluginSettingTab {
     if (!instance) return;
 
     const modal = new CustomFieldsModal(this.app, {
+      clientPool: this.clientPool,
       instance,
       projectKey: mapping.projectKey,
       customFields: this.plugin.settings.createTicket.customFields,
@@ -454,6 +470,7 @@ export class JiraBridgeSettingsTab extends PluginSettingTab {
     ];
 
     const modal = new AdvancedConfigModal(this.app, {
+      clientPool: this.clientPool,
       mapping,
       instance,
       customFields,
@@ -482,7 +499,7 @@ export class JiraBridgeSettingsTab extends PluginSettingTab {
 
     new Setting(section)
       .setName('Auto-sync')
-      .setDesc('Automatically sync open notes with Jira at regular intervals')
+      .setDesc('Periodically sync linked notes whose issues changed in Jira since the last run')
       .addToggle(toggle => {
         const syncSettings = this.plugin.settings.sync ?? { autoSync: false, syncInterval: 1 };
         toggle.setValue(syncSettings.autoSync ?? false).onChange(async value => {
@@ -547,12 +564,60 @@ export class JiraBridgeSettingsTab extends PluginSettingTab {
         });
       });
 
-    new Setting(section).setName('Sync Fields').setDesc('Fields to sync from Jira to frontmatter (global defaults)');
+    new Setting(section)
+      .setName('Sync Fields')
+      .setDesc('Fields to sync between Jira and frontmatter (global defaults). Enable Push to send local edits back to Jira.');
 
     const fieldsContainer = section.createEl('div', { cls: 'sync-fields-global' });
     this.renderGlobalSyncFields(fieldsContainer);
   }
 
+  private renderMarkdownSection(containerEl: HTMLElement): void {
+    const section = containerEl.createEl('div', { cls: 'markdown-settings-section' });
+    const markdown = this.plugin.settings.createTicket.markdown;
+
+    new Setting(section).setName('Markdown Conversion').setHeading();
+
+    new Setting(section)
+      .setName('Wiki-links')
+      .setDesc('How links to notes without a Jira issue appear in descriptions. Links to linked notes always become issue links.')
+      .addDropdown(dropdown =>
+        dropdown
+          .addOptions({ text: 'Plain text', 'obsidian-url': 'Obsidian URL' })
+          .setValue(markdown.wikiLinks)
+          .onChange(async value => {
+            markdown.wikiLinks = value as WikiLinkStyle;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(section)
+      .setName('Tags')
+      .setDesc('How #tags appear in descriptions')
+      .addDropdown(dropdown =>
+        dropdown
+          .addOptions({ text: 'Plain text', code: 'Inline code', strip: 'Remove' })
+          .setValue(markdown.tags)
+          .onChange(async value => {
+            markdown.tags = value as TagStyle;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(section)
+      .setName('Block references')
+      .setDesc('How ^block-id markers appear in descriptions')
+      .addDropdown(dropdown =>
+        dropdown
+          .addOptions({ strip: 'Remove', text: 'Plain text' })
+          .setValue(markdown.blockRefs)
+          .onChange(async value => {
+            markdown.blockRefs = value as BlockRefStyle;
+            await this.plugin.saveSettings();
+          }),
+      );
+  }
+
   private renderGlobalSyncFields(container: HTMLElement): void {
     container.empty();
 
@@ -564,6 +629,21 @@ export class JiraBridgeSettingsTab extends PluginSettingTab {
 
     const syncFields = this.plugin.settings.sync?.syncFields ?? defaultFields;
 
+    const save = async () => {
+      if (!this.plugin.settings.sync) {
+        this.plugin.settings.sync = {
+          autoSync: false,
+          syncInterval: 1,
+          syncOnFileOpen: true,
+          updateFrontmatter: true,
+          frontmatterFields: [],
+          syncFields: syncFields,
+        };
+      }
+      this.plugin.settings.sync.syncFields = syncFields;
+      await this.plugin.saveSettings();
+    };
+
     for (const field of syncFields) {
       const item = container.createEl('div', { cls: 'sync-field-item' });
 
@@ -571,24 +651,25 @@ export class JiraBridgeSettingsTab extends PluginSettingTab {
       checkbox.checked = field.enabled;
       checkbox.addEventListener('change', async () => {
         field.enabled = checkbox.checked;
-        if (!this.plugin.settings.sync) {
-          this.plugin.settings.sync = {
-            autoSync: false,
-            syncInterval: 1,
-            syncOnFileOpen: true,
-            updateFrontmatter: true,
-            frontmatterFields: [],
-            syncFields: syncFields,
-          };
-        }
-        this.plugin.settings.sync.syncFields = syncFields;
-        await this.plugin.saveSettings();
+        await save();
       });
 
       const label = item.createEl('label');
       label.createSpan({ text: field.jiraField, cls: 'field-jira' });
-      label.createSpan({ text: ' → ', cls: 'field-arrow' });
+      const arrow = label.createSpan({ text: field.readOnly ? ' → ' : ' ↔ ', cls: 'field-arrow' });
       label.createSpan({ text: field.frontmatterKey, cls: 'field-frontmatter' });
+
+      if (isPushableField(field.jiraField)) {
+        const pushLabel = item.createEl('label', { cls: 'field-push' });
+        const pushCheckbox = pushLabel.createEl('input', { type: 'checkbox' });
+        pushCheckbox.checked = !field.readOnly;
+        pushLabel.createSpan({ text: 'Push' });
+        pushCheckbox.addEventListener('change', async () => {
+          field.readOnly = !pushCheckbox.checked;
+          arrow.setText(field.readOnly ? ' → ' : ' ↔ ');
+          await save();
+        });
+      }
     }
   }
 
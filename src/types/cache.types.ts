@@ -0,0 +1,9 @@
+export interface MetadataCacheEntry<T = unknown> {
+  value: T;
+  fetchedAt: number;
+}
+
+export interface InstanceMetadataCache {
+  fingerprint: string;
+  entries: Record<string, MetadataCacheEntry>;
+}
@@ -4,3 +4,5 @@ export * from './mapping.types';
 export * from './sync.types';
 export * from './plugin.types';
 export * from './configExport.types';
+export * from './sandbox.types';
+export * from './cache.types';
@@ -1,9 +1,15 @@
+export type JiraDeploymentType = 'cloud' | 'server' | 'sandbox';
+
+export type JiraAuthMode = 'basic' | 'bearer';
+
 export interface JiraInstance {
   id: string;
   name: string;
   baseUrl: string;
   email: string;
   apiToken: string;
+  deploymentType?: JiraDeploymentType;
+  authMode?: JiraAuthMode;
   isDefault: boolean;
   enabled: boolean;
   createdAt: number;
@@ -96,6 +102,7 @@ export interface JiraFieldMeta {
   fieldId: string;
   name: string;
   required: boolean;
+  hasDefaultValue?: boolean;
   schema: JiraFieldSchema;
   allowedValues?: JiraFieldOption[];
   autoCompleteUrl?: string;
@@ -113,6 +120,7 @@ export interface JiraFieldOption {
   id: string;
   value?: string;
   name?: string;
+  children?: JiraFieldOption[];
 }
 
 export interface CreateIssueResponse {
@@ -152,3 +160,19 @@ export interface JiraIssueData {
   key: string;
   fields: Record<string, unknown>;
 }
+
+export interface JiraComment {
+  id: string;
+  author: string;
+  body: unknown;
+  created: string;
+  updated?: string;
+}
+
+export interface JiraAttachment {
+  id: string;
+  filename: string;
+  mimeType?: string;
+  size?: number;
+  content: string;
+}
@@ -20,15 +20,34 @@ export interface ContentParsingConfig {
   descriptionFlags: string;
 }
 
+export interface ContentSyncConfig {
+  syncDescription: boolean;
+  syncComments: boolean;
+  commentLimit: number;
+}
+
 export interface ProjectSyncConfig {
   enableSync: boolean;
   syncFields?: SyncFieldConfig[];
+  contentSync?: ContentSyncConfig;
+}
+
+export interface TicketTemplate {
+  id: string;
+  name: string;
+  issueType?: string;
+  priority?: string;
+  labels?: string[];
+  components?: string[];
+  customFields?: Record<string, string>;
+  description?: string;
 }
 
 export interface ProjectMappingConfig {
   frontmatterMappings: FrontmatterFieldMapping[];
   contentParsing: ContentParsingConfig;
   syncConfig?: ProjectSyncConfig;
+  templates?: TicketTemplate[];
 }
 
 export interface FolderMapping {
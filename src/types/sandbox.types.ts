@@ -0,0 +1,90 @@
+export type SandboxStatusCategory = 'new' | 'indeterminate' | 'done';
+
+export interface SandboxUser {
+  accountId: string;
+  displayName: string;
+  emailAddress: string;
+}
+
+export interface SandboxStatus {
+  id: string;
+  name: string;
+  category: SandboxStatusCategory;
+}
+
+export interface SandboxTransition {
+  id: string;
+  name: string;
+  to: string;
+  from?: string[];
+}
+
+export interface SandboxWorkflow {
+  statuses: SandboxStatus[];
+  transitions: SandboxTransition[];
+  initialStatusId: string;
+}
+
+export interface SandboxIssueType {
+  id: string;
+  name: string;
+  subtask: boolean;
+  hierarchyLevel: number;
+}
+
+export interface SandboxProject {
+  id: string;
+  key: string;
+  name: string;
+  issueTypeIds: string[];
+  nextIssueNumber: number;
+}
+
+export interface SandboxBoard {
+  id: number;
+  name: string;
+  type: 'scrum' | 'kanban';
+  projectKey: string;
+}
+
+export interface SandboxSprint {
+  id: number;
+  boardId: number;
+  name: string;
+  state: 'active' | 'future' | 'closed';
+  startDate?: string;
+  endDate?: string;
+  goal?: string;
+}
+
+export interface SandboxComment {
+  id: string;
+  authorId: string;
+  body: unknown;
+  created: string;
+  updated: string;
+}
+
+export interface SandboxIssue {
+  id: string;
+  key: string;
+  projectKey: string;
+  fields: Record<string, unknown>;
+  sprintId: number | null;
+  comments?: SandboxComment[];
+}
+
+export interface SandboxData {
+  version: 1;
+  currentUser: SandboxUser;
+  users: SandboxUser[];
+  projects: SandboxProject[];
+  issueTypes: SandboxIssueType[];
+  priorities: { id: string; name: string }[];
+  workflow: SandboxWorkflow;
+  boards: SandboxBoard[];
+  sprints: SandboxSprint[];
+  issues: SandboxIssue[];
+  labels: string[];
+  nextIssueId: number;
+}
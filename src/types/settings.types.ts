@@ -1,5 +1,8 @@
 import type { JiraInstance } from './jira.types';
 import type { FolderMapping } from './mapping.types';
+import type { SandboxData } from './sandbox.types';
+import type { InstanceMetadataCache } from './cache.types';
+import type { SyncStateRecord } from './sync.types';
 
 export interface PluginSettings {
   instances: JiraInstance[];
@@ -9,6 +12,10 @@ export interface PluginSettings {
   createTicket: CreateTicketSettings;
   advanced: AdvancedSettings;
   recentIssues: RecentIssueEntry[];
+  sandboxData: Record<string, SandboxData>;
+  metadataCache: Record<string, InstanceMetadataCache>;
+  syncState: Record<string, SyncStateRecord>;
+  syncWatermarks: Record<string, number>;
 }
 
 export interface RecentIssueEntry {
@@ -20,6 +27,17 @@ export interface RecentIssueEntry {
 
 export interface CreateTicketSettings {
   customFields: CustomFieldConfig[];
+  markdown: MarkdownConversionSettings;
+}
+
+export type WikiLinkStyle = 'obsidian-url' | 'text';
+export type TagStyle = 'text' | 'code' | 'strip';
+export type BlockRefStyle = 'strip' | 'text';
+
+export interface MarkdownConversionSettings {
+  wikiLinks: WikiLinkStyle;
+  tags: TagStyle;
+  blockRefs: BlockRefStyle;
 }
 
 export interface CustomFieldConfig {
@@ -58,6 +76,7 @@ export interface UISettings {
 export interface AdvancedSettings {
   requestTimeout: number;
   maxRetries: number;
+  maxConcurrentRequests: number;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
   cacheEnabled: boolean;
   cacheTTL: number;
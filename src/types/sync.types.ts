@@ -16,6 +16,7 @@ export interface SyncResult {
   error?: Error;
   skipped?: boolean;
   skipReason?: string;
+  conflicts?: SyncConflict[];
 }
 
 export interface SyncChange {
@@ -23,7 +24,32 @@ export interface SyncChange {
   oldValue: unknown;
   newValue: unknown;
   direction: 'toJira' | 'fromJira';
+  frontmatterKey?: string;
+}
+
+export type SyncSnapshot = Record<string, string | null>;
+
+export interface SyncStateRecord extends NoteTicketLink {
+  remoteUpdatedAt?: string;
+  snapshot: SyncSnapshot;
+  lastError?: string;
+}
+
+export interface SyncConflict {
+  field: string;
   frontmatterKey: string;
+  localValue: string | null;
+  remoteValue: string | null;
+  baseValue: string | null;
+  editable: boolean;
+}
+
+export type ConflictResolutionChoice = 'local' | 'remote' | 'merged';
+
+export interface ConflictResolution {
+  conflict: SyncConflict;
+  choice: ConflictResolutionChoice;
+  mergedValue?: string | null;
 }
 
 export interface SyncStats {
@@ -32,6 +58,7 @@ export interface SyncStats {
   skipped: number;
   failed: number;
   changes: number;
+  conflicts: number;
 }
 
 export interface FrontmatterData {
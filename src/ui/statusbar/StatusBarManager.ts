@@ -1,6 +1,8 @@
 import { TFile, App, Plugin } from 'obsidian';
 import type { MappingResolver } from '../../mapping/MappingResolver';
-import type { UISettings } from '../../types';
+import type { SyncStateRecord, UISettings } from '../../types';
+import type { SyncStateStore } from '../../features/sync/services/SyncStateStore';
+import type { LinkedNotesIndex } from '../../features/linked-notes/services/LinkedNotesIndex';
 import { readFrontmatterField } from '../../utils/frontmatter';
 
 export class StatusBarManager {
@@ -10,13 +12,25 @@ export class StatusBarManager {
   private projectItem: HTMLElement | null = null;
   private statusItem: HTMLElement | null = null;
   private resolver: MappingResolver;
+  private stateStore: SyncStateStore;
+  private linkedNotes: LinkedNotesIndex;
   private onClickCallback: () => void;
   private settings: UISettings;
 
-  constructor(app: App, plugin: Plugin, resolver: MappingResolver, settings: UISettings, onClick: () => void) {
+  constructor(
+    app: App,
+    plugin: Plugin,
+    resolver: MappingResolver,
+    stateStore: SyncStateStore,
+    linkedNotes: LinkedNotesIndex,
+    settings: UISettings,
+    onClick: () => void,
+  ) {
     this.app = app;
     this.plugin = plugin;
     this.resolver = resolver;
+    this.stateStore = stateStore;
+    this.linkedNotes = linkedNotes;
     this.settings = settings;
     this.onClickCallback = onClick;
     this.createStatusBarItems();
@@ -47,18 +61,22 @@ export class StatusBarManager {
       if (filePath) {
         const file = this.app.vault.getAbstractFileByPath(filePath);
         if (file instanceof TFile) {
-          const issueKey = readFrontmatterField(this.app, file, 'issue_id');
-          const status = readFrontmatterField(this.app, file, 'jira_status');
+          const issueKey = this.linkedNotes.getIssueKey(file.path);
+          const state = this.stateStore.get(file.path);
+          const status = readFrontmatterField(this.app, file, 'jira_status') ?? state?.snapshot.status;
 
           if (issueKey && status) {
-            this.statusItem.setText(`Status: ${status}`);
+            this.statusItem.setText(`Status: ${status}${this.formatSyncProblem(state)}`);
             this.statusItem.style.display = 'inline-block';
           } else if (issueKey) {
-            this.statusItem.setText(`Status: Not synced`);
+            this.statusItem.setText(`Status: Not synced${this.formatSyncProblem(state)}`);
             this.statusItem.style.display = 'inline-block';
           } else {
             this.statusItem.style.display = 'none';
           }
+          this.statusItem.toggleClass('is-conflict', state?.syncStatus === 'conflict');
+          this.statusItem.toggleClass('is-error', state?.syncStatus === 'error' || state?.syncStatus === 'unlinked');
+          this.statusItem.setAttr('aria-label', this.formatSyncTooltip(state));
         } else {
           this.statusItem.style.display = 'none';
         }
@@ -68,6 +86,26 @@ export class StatusBarManager {
     }
   }
 
+  private formatSyncProblem(state: SyncStateRecord | undefined): string {
+    switch (state?.syncStatus) {
+      case 'conflict':
+        return ' (conflict)';
+      case 'error':
+        return ' (sync failed)';
+      case 'unlinked':
+        return ' (not found)';
+      default:
+        return '';
+    }
+  }
+
+  private formatSyncTooltip(state: SyncStateRecord | undefined): string {
+    if (!state?.lastSyncAt) return 'Never synced';
+
+    const lastSync = `Last synced ${new Date(state.lastSyncAt).toLocaleString()}`;
+    return state.lastError ? `${lastSync}\n${state.lastError}` : lastSync;
+  }
+
   setResolver(resolver: MappingResolver): void {
     this.resolver = resolver;
   }
@@ -0,0 +1,210 @@
+import type { AdfMark, AdfNode } from './types';
+
+const PANEL_CALLOUTS: Record<string, string> = {
+  info: 'info',
+  note: 'note',
+  warning: 'warning',
+  error: 'danger',
+  success: 'success',
+  tip: 'tip',
+  custom: 'note',
+};
+
+export function adfToMarkdown(doc: AdfNode): string {
+  return convertBlocks(doc.content ?? []).trim();
+}
+
+export function isAdfDocument(value: unknown): value is AdfNode {
+  return typeof value === 'object' && value !== null && (value as AdfNode).type === 'doc' && Array.isArray((value as AdfNode).content);
+}
+
+function convertBlocks(nodes: AdfNode[]): string {
+  return nodes
+    .map(convertBlock)
+    .filter(block => block !== '')
+    .join('\n\n');
+}
+
+function convertBlock(node: AdfNode): string {
+  switch (node.type) {
+    case 'paragraph':
+      return convertInline(node.content ?? []);
+    case 'heading': {
+      const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+      return `${'#'.repeat(level)} ${convertInline(node.content ?? [])}`;
+    }
+    case 'bulletList':
+    case 'orderedList':
+    case 'taskList':
+    case 'decisionList':
+      return convertList(node);
+    case 'codeBlock': {
+      const language = typeof node.attrs?.language === 'string' ? node.attrs.language : '';
+      return `\`\`\`${language}\n${(node.content ?? []).map(child => child.text ?? '').join('')}\n\`\`\``;
+    }
+    case 'blockquote':
+      return prefixLines(convertBlocks(node.content ?? []), '> ');
+    case 'rule':
+      return '---';
+    case 'panel': {
+      const callout = PANEL_CALLOUTS[String(node.attrs?.panelType)] ?? 'note';
+      return prefixLines(`[!${callout}]\n${convertBlocks(node.content ?? [])}`, '> ');
+    }
+    case 'expand':
+    case 'nestedExpand': {
+      const title = typeof node.attrs?.title === 'string' ? ` ${node.attrs.title}` : '';
+      return prefixLines(`[!note]-${title}\n${convertBlocks(node.content ?? [])}`, '> ');
+    }
+    case 'table':
+      return convertTable(node);
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return (node.content ?? []).map(convertMedia).join('\n');
+    case 'media':
+      return convertMedia(node);
+    case 'blockCard':
+    case 'embedCard':
+      return convertCard(node);
+    default:
+      return node.content ? convertBlocks(node.content) : convertInline([node]);
+  }
+}
+
+function convertList(node: AdfNode): string {
+  const start = Number(node.attrs?.order) || 1;
+
+  return (node.content ?? [])
+    .map((item, index) => {
+      if (item.type === 'taskList') {
+        return prefixLines(convertList(item), '  ');
+      }
+
+      const marker = listMarker(node.type, item, start + index);
+      const body =
+        item.type === 'taskItem' || item.type === 'decisionItem'
+          ? convertInline(item.content ?? [])
+          : (item.content ?? [])
+              .map(child => (child.type === 'paragraph' ? convertInline(child.content ?? []) : convertBlock(child)))
+              .join('\n');
+      const indent = ' '.repeat(node.type === 'orderedList' ? marker.length : 2);
+      const [first = '', ...rest] = body.split('\n');
+      return [marker + first, ...rest.map(line => (line ? indent + line : line))].join('\n');
+    })
+    .join('\n');
+}
+
+function listMarker(listType: string, item: AdfNode, number: number): string {
+  if (listType === 'orderedList') return `${number}. `;
+  if (item.type === 'taskItem' || item.type === 'decisionItem') {
+    return item.attrs?.state === 'DONE' || item.attrs?.state === 'DECIDED' ? '- [x] ' : '- [ ] ';
+  }
+  return '- ';
+}
+
+function convertTable(node: AdfNode): string {
+  const rows = (node.content ?? []).map(row =>
+    (row.content ?? []).map(cell =>
+      convertBlocks(cell.content ?? [])
+        .replace(/\n+/g, '<br>')
+        .replace(/\|/g, '\\|'),
+    ),
+  );
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map(row => row.length));
+  const formatRow = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+  const [header, ...body] = rows;
+
+  return [formatRow(header), `|${' --- |'.repeat(width)}`, ...body.map(formatRow)].join('\n');
+}
+
+function convertMedia(node: AdfNode): string {
+  const name = node.attrs?.alt ?? node.attrs?.id ?? 'attachment';
+  if (node.attrs?.type === 'external' && typeof node.attrs.url === 'string') {
+    return `![${String(node.attrs.alt ?? '')}](${node.attrs.url})`;
+  }
+  return `[media: ${String(name)}]`;
+}
+
+function convertCard(node: AdfNode): string {
+  const url = node.attrs?.url;
+  return typeof url === 'string' ? `<${url}>` : '';
+}
+
+function convertInline(nodes: AdfNode[]): string {
+  return nodes.map(convertInlineNode).join('');
+}
+
+function convertInlineNode(node: AdfNode): string {
+  switch (node.type) {
+    case 'text':
+      return applyMarks(node.text ?? '', node.marks ?? []);
+    case 'hardBreak':
+      return '\n';
+    case 'mention':
+      return `@${String(node.attrs?.text ?? node.attrs?.id ?? '').replace(/^@/, '')}`;
+    case 'emoji':
+      return String(node.attrs?.text ?? node.attrs?.shortName ?? '');
+    case 'inlineCard':
+      return convertCard(node);
+    case 'status':
+      return `\`${String(node.attrs?.text ?? '')}\``;
+    case 'date': {
+      const date = new Date(Number(node.attrs?.timestamp));
+      return Number.isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+    }
+    case 'media':
+    case 'mediaInline':
+      return convertMedia(node);
+    default:
+      return node.content ? convertInline(node.content) : String(node.attrs?.text ?? '');
+  }
+}
+
+function applyMarks(text: string, marks: AdfMark[]): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  const [, leading = '', core = text, trailing = ''] = match ?? [];
+  if (!core) return text;
+
+  let result = core;
+  for (const mark of [...marks].sort((a, b) => markOrder(a) - markOrder(b))) {
+    switch (mark.type) {
+      case 'strong':
+        result = `**${result}**`;
+        break;
+      case 'em':
+        result = `*${result}*`;
+        break;
+      case 'strike':
+        result = `~~${result}~~`;
+        break;
+      case 'code':
+        result = `\`${result}\``;
+        break;
+      case 'underline':
+        result = `<u>${result}</u>`;
+        break;
+      case 'subsup':
+        result = mark.attrs?.type === 'sup' ? `<sup>${result}</sup>` : `<sub>${result}</sub>`;
+        break;
+      case 'link':
+        result = `[${result}](${String(mark.attrs?.href ?? '')})`;
+        break;
+    }
+  }
+
+  return leading + result + trailing;
+}
+
+function markOrder(mark: AdfMark): number {
+  if (mark.type === 'code') return 0;
+  if (mark.type === 'link') return 2;
+  return 1;
+}
+
+function prefixLines(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map(line => (line ? prefix + line : prefix.trimEnd()))
+    .join('\n');
+}
@@ -0,0 +1,42 @@
+import type { ChecklistItem } from './types';
+import { splitIssueLink } from './issueLinks';
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const CHECKLIST_ITEM_PATTERN = /^\s*[-*+]\s+\[([ xX])\]\s+(.*)$/;
+
+export function parseChecklist(content: string, heading = 'Tasks'): ChecklistItem[] {
+  const lines = content.split('\n');
+  const items: ChecklistItem[] = [];
+  let sectionLevel = 0;
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const headingMatch = line.match(HEADING_PATTERN);
+    if (headingMatch) {
+      const level = headingMatch[1].length;
+      if (sectionLevel && level <= sectionLevel) sectionLevel = 0;
+      if (!sectionLevel && headingMatch[2].toLowerCase() === heading.toLowerCase()) sectionLevel = level;
+      continue;
+    }
+    if (!sectionLevel) continue;
+
+    const itemMatch = line.match(CHECKLIST_ITEM_PATTERN);
+    if (!itemMatch) continue;
+
+    const { text, issueKey } = splitIssueLink(itemMatch[2]);
+    if (!text) continue;
+
+    items.push({ line: i, raw: line, text, checked: itemMatch[1] !== ' ', issueKey });
+  }
+
+  return items;
+}
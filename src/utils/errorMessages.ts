@@ -1,3 +1,5 @@
+import { JiraApiError, JiraValidationError } from '../api/errors';
+
 export const NOTICE_DURATION = {
   success: 4000,
   error: 6000,
@@ -5,7 +7,41 @@ export const NOTICE_DURATION = {
   info: 3000,
 } as const;
 
+function mapTypedJiraError(error: JiraApiError): string | null {
+  switch (error.kind) {
+    case 'authentication':
+      return 'Invalid credentials. Check your API token in settings.';
+    case 'permission':
+      return "You don't have permission for this action.";
+    case 'not-found':
+      return 'Resource not found. Check if the issue or project exists.';
+    case 'rate-limited':
+      return 'Too many requests. Please wait a moment and try again.';
+    case 'validation':
+      return error instanceof JiraValidationError ? formatValidationError(error) : null;
+    case 'server':
+      return 'Jira server error. Please try again later.';
+    case 'timeout':
+      return 'Request timed out. Check your connection and try again.';
+    default:
+      return null;
+  }
+}
+
+export function formatValidationError(error: JiraValidationError): string {
+  const messages = error.messages;
+  if (messages.length === 0) {
+    return 'Jira rejected the request. Check the field values and try again.';
+  }
+  return messages.join('\n');
+}
+
 export function mapJiraError(error: unknown): string {
+  if (error instanceof JiraApiError) {
+    const message = mapTypedJiraError(error);
+    if (message) return message;
+  }
+
   if (error instanceof Error) {
     const msg = error.message.toLowerCase();
 
@@ -58,6 +58,9 @@ function updateFrontmatterFields(frontmatter: string, fields: Record<string, str
 }
 
 function formatYamlValue(value: string): string {
+  if (value.includes('\n')) {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+  }
   if (value.includes(':') || value.includes('#') || value.includes("'") || value.includes('"')) {
     return `"${value.replace(/"/g, '\\"')}"`;
   }
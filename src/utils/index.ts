@@ -3,3 +3,8 @@ export * from './contentParser';
 export * from './frontmatter';
 export * from './debounce';
 export * from './errorMessages';
+export * from './noteSections';
+export * from './checklist';
+export * from './issueLinks';
+export * from './issueOutline';
+export * from './wikiLinks';
@@ -0,0 +1,22 @@
+import type { IssueLineLink } from './types';
+
+const ISSUE_LINK_PATTERN = /\s*\[([A-Z][A-Z\d_]*-\d+)\]\([^)]*\)\s*$/;
+
+export function splitIssueLink(text: string): { text: string; issueKey?: string } {
+  const link = text.match(ISSUE_LINK_PATTERN);
+  if (!link) return { text: text.trim() };
+  return { text: text.slice(0, link.index).trim(), issueKey: link[1] };
+}
+
+export function appendIssueLinks(content: string, links: IssueLineLink[]): string {
+  const lines = content.split('\n');
+
+  for (const { item, issueKey, issueUrl } of links) {
+    const index = lines[item.line] === item.raw ? item.line : lines.indexOf(item.raw);
+    if (index === -1) continue;
+
+    lines[index] = `${lines[index].trimEnd()} [${issueKey}](${issueUrl})`;
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,58 @@
+import type { OutlineNode } from './types';
+import { splitIssueLink } from './issueLinks';
+
+const HEADING_PATTERN = /^(#{1,2})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const BULLET_PATTERN = /^[-*+]\s+(?:\[[ xX]\]\s+)?(.*)$/;
+
+function skipFrontmatter(lines: string[]): number {
+  if (lines[0]?.trim() !== '---') return 0;
+  const end = lines.indexOf('---', 1);
+  return end === -1 ? 0 : end + 1;
+}
+
+export function parseIssueOutline(content: string): OutlineNode[] {
+  const lines = content.split('\n');
+  const epics: OutlineNode[] = [];
+  let epic: OutlineNode | null = null;
+  let story: OutlineNode | null = null;
+  let inFence = false;
+
+  for (let i = skipFrontmatter(lines); i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const headingMatch = line.match(HEADING_PATTERN);
+    if (headingMatch) {
+      const { text, issueKey } = splitIssueLink(headingMatch[2]);
+      if (!text) continue;
+
+      if (headingMatch[1].length === 1) {
+        epic = { kind: 'epic', line: i, raw: line, text, issueKey, children: [] };
+        story = null;
+        epics.push(epic);
+      } else if (epic) {
+        story = { kind: 'story', line: i, raw: line, text, issueKey, children: [] };
+        epic.children.push(story);
+      }
+      continue;
+    }
+
+    if (/^#{3,6}\s/.test(line)) continue;
+
+    const bulletMatch = line.match(BULLET_PATTERN);
+    if (!bulletMatch || !story) continue;
+
+    const { text, issueKey } = splitIssueLink(bulletMatch[1]);
+    if (text) {
+      story.children.push({ kind: 'subtask', line: i, raw: line, text, issueKey, children: [] });
+    }
+  }
+
+  return epics;
+}
@@ -1,81 +1,120 @@
-import type { AdfNode, AdfDocument } from './types';
+import type { AdfMark, AdfNode, AdfDocument, AttachmentReference, MarkdownToAdfOptions } from './types';
+import { normalizeLinkpath } from './wikiLinks';
+
+type BlockResult = { node: AdfNode; nextIndex: number } | null;
+type ListKind = 'bullet' | 'ordered' | 'task';
+
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(?:\[([ xX])\](?:\s+|$))?(.*)$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.+)$/;
+const CODE_FENCE_PATTERN = /^```(\w*)$/;
+const CALLOUT_PATTERN = /^\[!([\w-]+)\][+-]?\s*(.*)$/;
+const BLOCK_REF_PATTERN = /(^|\s)\^[A-Za-z0-9-]+$/;
+
+const CALLOUT_PANELS: Record<string, string> = {
+  info: 'info',
+  todo: 'info',
+  note: 'note',
+  abstract: 'note',
+  summary: 'note',
+  tldr: 'note',
+  example: 'note',
+  quote: 'note',
+  cite: 'note',
+  tip: 'tip',
+  hint: 'tip',
+  important: 'tip',
+  success: 'success',
+  check: 'success',
+  done: 'success',
+  warning: 'warning',
+  caution: 'warning',
+  attention: 'warning',
+  question: 'warning',
+  help: 'warning',
+  faq: 'warning',
+  danger: 'error',
+  error: 'error',
+  failure: 'error',
+  fail: 'error',
+  missing: 'error',
+  bug: 'error',
+};
+
+let context: { options: MarkdownToAdfOptions; localIds: number } = { options: {}, localIds: 0 };
+
+export function markdownToAdf(markdown: string, options: MarkdownToAdfOptions = {}): AdfDocument {
+  context = { options, localIds: 0 };
+  const content = parseBlocks(markdown.split('\n'));
 
-export function markdownToAdf(markdown: string): AdfDocument {
-  const lines = markdown.split('\n');
+  if (content.length === 0) {
+    content.push({ type: 'paragraph', content: [] });
+  }
+
+  return { type: 'doc', version: 1, content };
+}
+
+function parseBlocks(lines: string[]): AdfNode[] {
   const content: AdfNode[] = [];
   let i = 0;
 
   while (i < lines.length) {
     const line = lines[i];
 
-    if (line.trim() === '') {
+    if (line.trim() === '' || (blockRefStyle() === 'strip' && /^\s*\^[A-Za-z0-9-]+\s*$/.test(line))) {
       i++;
       continue;
     }
 
-    const codeBlockResult = parseCodeBlock(lines, i);
-    if (codeBlockResult) {
-      content.push(codeBlockResult.node);
-      i = codeBlockResult.nextIndex;
-      continue;
-    }
-
-    const tableResult = parseTable(lines, i);
-    if (tableResult) {
-      content.push(tableResult.node);
-      i = tableResult.nextIndex;
-      continue;
-    }
-
-    const bulletListResult = parseBulletList(lines, i);
-    if (bulletListResult) {
-      content.push(bulletListResult.node);
-      i = bulletListResult.nextIndex;
-      continue;
-    }
-
-    const orderedListResult = parseOrderedList(lines, i);
-    if (orderedListResult) {
-      content.push(orderedListResult.node);
-      i = orderedListResult.nextIndex;
-      continue;
-    }
-
-    const headingResult = parseHeading(line);
-    if (headingResult) {
-      content.push(headingResult);
-      i++;
-      continue;
-    }
-
-    content.push(parseParagraph(line));
-    i++;
+    const blockResult =
+      parseCodeBlock(lines, i) ??
+      parseMediaEmbed(lines, i) ??
+      parseTable(lines, i) ??
+      parseRule(lines, i) ??
+      parseBlockquote(lines, i) ??
+      parseList(lines, i) ??
+      parseHeading(lines, i) ??
+      parseParagraph(lines, i);
+
+    content.push(blockResult.node);
+    i = blockResult.nextIndex;
   }
 
-  if (content.length === 0) {
-    content.push({ type: 'paragraph', content: [] });
-  }
+  return content;
+}
 
-  return { type: 'doc', version: 1, content };
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return (
+    CODE_FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line) ||
+    line.startsWith('>') ||
+    parseTable(lines, index) !== null
+  );
 }
 
-function parseHeading(line: string): AdfNode | null {
-  const match = line.match(/^(#{1,6})\s+(.+)$/);
+function parseHeading(lines: string[], startIndex: number): BlockResult {
+  const match = lines[startIndex].match(HEADING_PATTERN);
   if (!match) return null;
 
   const level = match[1].length;
   const text = match[2];
 
   return {
-    type: 'heading',
-    attrs: { level },
-    content: parseInlineContent(text),
+    node: {
+      type: 'heading',
+      attrs: { level },
+      content: parseInlineContent(text),
+    },
+    nextIndex: startIndex + 1,
   };
 }
 
-function parseCodeBlock(lines: string[], startIndex: number): { node: AdfNode; nextIndex: number } | null {
+function parseCodeBlock(lines: string[], startIndex: number): BlockResult {
   const line = lines[startIndex];
-  const match = line.match(/^```(\w*)$/);
+  const match = line.match(CODE_FENCE_PATTERN);
   if (!match) return null;
 
   const language = match[1] || null;
@@ -99,49 +138,189 @@ function parseCodeBlock(lines: string[], startIndex: number): { node: AdfNode; n
   return { node, nextIndex: i + 1 };
 }
 
-function parseBulletList(lines: string[], startIndex: number): { node: AdfNode; nextIndex: number } | null {
-  if (!lines[startIndex].match(/^[-*]\s+/)) return null;
+function parseMediaEmbed(lines: string[], startIndex: number): BlockResult {
+  const match = lines[startIndex].trim().match(/^!\[\[([^\]|]+)(?:\|[^\]]*)?\]\]$/);
+  const attachment = match && findAttachment(match[1]);
+  if (!attachment?.mimeType?.startsWith('image/')) return null;
 
-  const items: AdfNode[] = [];
+  return {
+    node: {
+      type: 'mediaSingle',
+      attrs: { layout: 'center' },
+      content: [{ type: 'media', attrs: { type: 'external', url: attachment.url, alt: attachment.filename } }],
+    },
+    nextIndex: startIndex + 1,
+  };
+}
+
+function findAttachment(linkpath: string): AttachmentReference | undefined {
+  return context.options.attachments?.find(attachment => attachment.linkpath === normalizeLinkpath(linkpath));
+}
+
+function parseRule(lines: string[], startIndex: number): BlockResult {
+  if (!RULE_PATTERN.test(lines[startIndex])) return null;
+
+  return { node: { type: 'rule' }, nextIndex: startIndex + 1 };
+}
+
+function parseBlockquote(lines: string[], startIndex: number): BlockResult {
+  if (!lines[startIndex].startsWith('>')) return null;
+
+  const quoteLines: string[] = [];
   let i = startIndex;
 
-  while (i < lines.length && lines[i].match(/^[-*]\s+/)) {
-    const text = lines[i].replace(/^[-*]\s+/, '');
-    items.push({
-      type: 'listItem',
-      content: [{ type: 'paragraph', content: parseInlineContent(text) }],
-    });
+  while (i < lines.length && lines[i].startsWith('>')) {
+    quoteLines.push(lines[i].replace(/^> ?/, ''));
     i++;
   }
 
+  const callout = quoteLines[0].match(CALLOUT_PATTERN);
+  if (callout) {
+    return { node: createPanel(callout[1], callout[2], quoteLines.slice(1)), nextIndex: i };
+  }
+
+  const content = parseBlocks(quoteLines);
+
   return {
-    node: { type: 'bulletList', content: items },
+    node: { type: 'blockquote', content: content.length > 0 ? content : [{ type: 'paragraph', content: [] }] },
     nextIndex: i,
   };
 }
 
-function parseOrderedList(lines: string[], startIndex: number): { node: AdfNode; nextIndex: number } | null {
-  if (!lines[startIndex].match(/^\d+\.\s+/)) return null;
+function createPanel(calloutType: string, title: string, bodyLines: string[]): AdfNode {
+  const content = parseBlocks(bodyLines);
+
+  if (title.trim()) {
+    content.unshift({ type: 'paragraph', content: parseInline(title.trim(), [{ type: 'strong' }]) });
+  }
+
+  return {
+    type: 'panel',
+    attrs: { panelType: CALLOUT_PANELS[calloutType.toLowerCase()] ?? 'note' },
+    content: content.length > 0 ? content : [{ type: 'paragraph', content: [] }],
+  };
+}
+
+function listKind(match: RegExpMatchArray): ListKind {
+  if (/^\d/.test(match[2])) return 'ordered';
+  return match[3] !== undefined ? 'task' : 'bullet';
+}
+
+function indentOf(line: string): number {
+  return line.match(/^\s*/)?.[0].replace(/\t/g, '    ').length ?? 0;
+}
+
+function dedent(lines: string[]): string[] {
+  const indents = lines.filter(line => line.trim() !== '').map(indentOf);
+  const minIndent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(line => line.replace(/\t/g, '    ').slice(minIndent));
+}
 
+function parseList(lines: string[], startIndex: number): BlockResult {
+  const first = lines[startIndex].match(LIST_ITEM_PATTERN);
+  if (!first) return null;
+
+  const indent = indentOf(first[1]);
+  const kind = listKind(first);
   const items: AdfNode[] = [];
   let i = startIndex;
 
-  while (i < lines.length && lines[i].match(/^\d+\.\s+/)) {
-    const text = lines[i].replace(/^\d+\.\s+/, '');
-    items.push({
-      type: 'listItem',
-      content: [{ type: 'paragraph', content: parseInlineContent(text) }],
-    });
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM_PATTERN);
+    if (!match || indentOf(match[1]) !== indent || listKind(match) !== kind) break;
+
+    const childLines: string[] = [];
     i++;
+
+    while (i < lines.length) {
+      if (lines[i].trim() === '') {
+        const next = lines.slice(i + 1).find(line => line.trim() !== '');
+        if (next === undefined || indentOf(next) <= indent) break;
+        childLines.push('');
+      } else if (indentOf(lines[i]) <= indent) {
+        break;
+      } else {
+        childLines.push(lines[i]);
+      }
+      i++;
+    }
+
+    items.push(...createListItem(kind, match, dedent(childLines)));
+
+    const nextItem = lines.slice(i).findIndex(line => line.trim() !== '');
+    if (nextItem > 0) {
+      const next = lines[i + nextItem].match(LIST_ITEM_PATTERN);
+      if (next && indentOf(next[1]) === indent && listKind(next) === kind) {
+        i += nextItem;
+      }
+    }
   }
 
-  return {
-    node: { type: 'orderedList', content: items },
-    nextIndex: i,
-  };
+  const node: AdfNode =
+    kind === 'task'
+      ? { type: 'taskList', attrs: { localId: nextLocalId() }, content: items }
+      : { type: kind === 'ordered' ? 'orderedList' : 'bulletList', content: items };
+
+  const order = parseInt(first[2], 10);
+  if (kind === 'ordered' && order !== 1) {
+    node.attrs = { order };
+  }
+
+  return { node, nextIndex: i };
 }
 
-function parseTable(lines: string[], startIndex: number): { node: AdfNode; nextIndex: number } | null {
+function createListItem(kind: ListKind, match: RegExpMatchArray, childLines: string[]): AdfNode[] {
+  if (kind === 'task') {
+    const taskLines: string[] = [];
+    const extraText: string[] = [];
+    let inTask = false;
+
+    for (const line of childLines) {
+      if (line.trim() !== '' && indentOf(line) === 0) {
+        const item = line.match(LIST_ITEM_PATTERN);
+        inTask = item !== null && listKind(item) === 'task';
+      }
+      if (inTask) {
+        taskLines.push(line);
+      } else if (line.trim() !== '') {
+        extraText.push(line);
+      }
+    }
+
+    const nestedTasks = parseBlocks(taskLines).filter(child => child.type === 'taskList');
+
+    return [
+      {
+        type: 'taskItem',
+        attrs: { localId: nextLocalId(), state: match[3].toLowerCase() === 'x' ? 'DONE' : 'TODO' },
+        content: parseLines([match[4], ...extraText]),
+      },
+      ...nestedTasks,
+    ];
+  }
+
+  return [
+    {
+      type: 'listItem',
+      content: [{ type: 'paragraph', content: parseInlineContent(match[4]) }, ...parseBlocks(childLines)],
+    },
+  ];
+}
+
+function nextLocalId(): string {
+  context.localIds++;
+  return `adf-${context.localIds}`;
+}
+
+function blockRefStyle(): string {
+  return context.options.blockRefs ?? 'strip';
+}
+
+function stripBlockRef(text: string): string {
+  return blockRefStyle() === 'strip' ? text.replace(BLOCK_REF_PATTERN, '').trimEnd() : text;
+}
+
+function parseTable(lines: string[], startIndex: number): BlockResult {
   const line = lines[startIndex];
   if (!line.startsWith('|') || !line.endsWith('|')) return null;
 
@@ -159,8 +338,8 @@ function parseTable(lines: string[], startIndex: number): { node: AdfNode; nextI
 
     const cells = rowLine
       .slice(1, -1)
-      .split('|')
-      .map(cell => cell.trim());
+      .split(/(?<!\\)\|/)
+      .map(cell => cell.trim().replace(/\\\|/g, '|'));
 
     const cellNodes: AdfNode[] = cells.map(cellText => ({
       type: isHeader ? 'tableHeader' : 'tableCell',
@@ -180,77 +359,235 @@ function parseTable(lines: string[], startIndex: number): { node: AdfNode; nextI
   };
 }
 
-function parseParagraph(line: string): AdfNode {
+function parseParagraph(lines: string[], startIndex: number): { node: AdfNode; nextIndex: number } {
+  const paragraphLines = [lines[startIndex]];
+  let i = startIndex + 1;
+
+  while (i < lines.length && lines[i].trim() !== '' && !startsBlock(lines, i)) {
+    paragraphLines.push(lines[i]);
+    i++;
+  }
+
   return {
-    type: 'paragraph',
-    content: parseInlineContent(line),
+    node: { type: 'paragraph', content: parseLines(paragraphLines) },
+    nextIndex: i,
   };
 }
 
+function parseLines(lines: string[]): AdfNode[] {
+  const nodes: AdfNode[] = [];
+
+  lines.forEach((line, index) => {
+    const text = stripBlockRef(line.replace(/(?: {2,}|\\)$/, '').trim());
+    if (index > 0) {
+      nodes.push({ type: 'hardBreak' });
+    }
+    if (text) {
+      nodes.push(...parseInline(text, []));
+    }
+  });
+
+  return nodes;
+}
+
 function parseInlineContent(text: string): AdfNode[] {
+  const nodes = parseInline(stripBlockRef(text), []);
+  return nodes.length > 0 ? nodes : [{ type: 'text', text: '' }];
+}
+
+const EMPHASIS_DELIMITERS: { delimiter: string; marks: AdfMark[] }[] = [
+  { delimiter: '***', marks: [{ type: 'strong' }, { type: 'em' }] },
+  { delimiter: '**', marks: [{ type: 'strong' }] },
+  { delimiter: '__', marks: [{ type: 'strong' }] },
+  { delimiter: '~~', marks: [{ type: 'strike' }] },
+  { delimiter: '*', marks: [{ type: 'em' }] },
+  { delimiter: '_', marks: [{ type: 'em' }] },
+];
+
+function parseInline(text: string, marks: AdfMark[]): AdfNode[] {
   const nodes: AdfNode[] = [];
-  let remaining = text;
+  let plain = '';
+  let i = 0;
+
+  const flush = () => {
+    if (plain) {
+      nodes.push(createTextNode(plain, marks));
+      plain = '';
+    }
+  };
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+
+    const escapeMatch = rest.match(/^\\([\\`*_~[\]()#>!|-])/);
+    if (escapeMatch) {
+      plain += escapeMatch[1];
+      i += escapeMatch[0].length;
+      continue;
+    }
+
+    const codeMatch = rest.match(/^`([^`]+)`/);
+    if (codeMatch) {
+      flush();
+      nodes.push(createTextNode(codeMatch[1], [...marks.filter(mark => mark.type === 'link'), { type: 'code' }]));
+      i += codeMatch[0].length;
+      continue;
+    }
+
+    const wikiLinkMatch = rest.match(/^!?\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/);
+    if (wikiLinkMatch) {
+      flush();
+      const attachment = wikiLinkMatch[0].startsWith('!') ? findAttachment(wikiLinkMatch[1]) : undefined;
+      nodes.push(
+        attachment
+          ? createTextNode(attachment.filename, [...marks, { type: 'link', attrs: { href: attachment.url } }])
+          : createWikiLink(wikiLinkMatch[1], wikiLinkMatch[2], marks),
+      );
+      i += wikiLinkMatch[0].length;
+      continue;
+    }
+
+    const tagMatch = /\s/.test(text[i - 1] ?? ' ') ? rest.match(/^#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/u) : null;
+    if (tagMatch) {
+      const tag = createTag(tagMatch[0], marks);
+      if (tag) {
+        flush();
+        nodes.push(tag);
+      } else {
+        plain = plain.trimEnd();
+      }
+      i += tagMatch[0].length;
+      continue;
+    }
 
-  while (remaining.length > 0) {
-    const linkMatch = remaining.match(/^\[([^\]]+)\]\(([^)]+)\)/);
+    const linkMatch = rest.match(/^\[([^\]]+)\]\(([^)\s]+)\)/);
     if (linkMatch) {
-      nodes.push({
-        type: 'text',
-        text: linkMatch[1],
-        marks: [{ type: 'link', attrs: { href: linkMatch[2] } }],
-      });
-      remaining = remaining.slice(linkMatch[0].length);
+      flush();
+      nodes.push(...parseInline(linkMatch[1], [...marks, { type: 'link', attrs: { href: linkMatch[2] } }]));
+      i += linkMatch[0].length;
       continue;
     }
 
-    const boldMatch = remaining.match(/^\*\*([^*]+)\*\*/);
-    if (boldMatch) {
-      nodes.push({
-        type: 'text',
-        text: boldMatch[1],
-        marks: [{ type: 'strong' }],
-      });
-      remaining = remaining.slice(boldMatch[0].length);
+    const autolinkMatch = rest.match(/^<(https?:\/\/[^>\s]+)>/);
+    if (autolinkMatch) {
+      flush();
+      nodes.push(createTextNode(autolinkMatch[1], [...marks, { type: 'link', attrs: { href: autolinkMatch[1] } }]));
+      i += autolinkMatch[0].length;
       continue;
     }
 
-    const italicMatch = remaining.match(/^\*([^*]+)\*/);
-    if (italicMatch) {
-      nodes.push({
-        type: 'text',
-        text: italicMatch[1],
-        marks: [{ type: 'em' }],
-      });
-      remaining = remaining.slice(italicMatch[0].length);
+    const emphasis = matchEmphasis(text, i);
+    if (emphasis) {
+      flush();
+      nodes.push(...parseInline(emphasis.inner, [...marks, ...emphasis.marks]));
+      i = emphasis.nextIndex;
       continue;
     }
 
-    const codeMatch = remaining.match(/^`([^`]+)`/);
-    if (codeMatch) {
-      nodes.push({
-        type: 'text',
-        text: codeMatch[1],
-        marks: [{ type: 'code' }],
-      });
-      remaining = remaining.slice(codeMatch[0].length);
+    plain += text[i];
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+function createWikiLink(target: string, alias: string | undefined, marks: AdfMark[]): AdfNode {
+  const linkpath = normalizeLinkpath(target);
+  const display =
+    alias?.trim() ||
+    target
+      .replace(/#\^[A-Za-z0-9-]+$/, '')
+      .replace(/#/g, ' > ')
+      .trim();
+  const resolved = linkpath ? context.options.resolveWikiLink?.(linkpath, context.options.sourcePath ?? '') : null;
+
+  if (resolved?.issueUrl) {
+    return { type: 'inlineCard', attrs: { url: resolved.issueUrl } };
+  }
+
+  if (resolved?.obsidianUrl && context.options.wikiLinks === 'obsidian-url') {
+    return createTextNode(display, [...marks, { type: 'link', attrs: { href: resolved.obsidianUrl } }]);
+  }
+
+  return createTextNode(display, marks);
+}
+
+function createTag(tag: string, marks: AdfMark[]): AdfNode | null {
+  switch (context.options.tags ?? 'text') {
+    case 'strip':
+      return null;
+    case 'code':
+      return createTextNode(tag, [...marks.filter(mark => mark.type === 'link'), { type: 'code' }]);
+    default:
+      return createTextNode(tag, marks);
+  }
+}
+
+function matchEmphasis(text: string, start: number): { inner: string; marks: AdfMark[]; nextIndex: number } | null {
+  for (const { delimiter, marks } of EMPHASIS_DELIMITERS) {
+    if (!text.startsWith(delimiter, start)) continue;
+
+    const char = delimiter[0];
+    const openRun = runLength(text, start, char);
+    if (openRun !== delimiter.length && openRun !== 3) continue;
+    if (char === '_' && /\w/.test(text[start - 1] ?? '')) continue;
+
+    const contentStart = start + delimiter.length;
+    if (/\s/.test(text[contentStart] ?? ' ')) continue;
+
+    const close = findClosingDelimiter(text, contentStart, delimiter);
+    if (close === -1) continue;
+
+    return {
+      inner: text.slice(contentStart, close),
+      marks,
+      nextIndex: close + delimiter.length,
+    };
+  }
+
+  return null;
+}
+
+function findClosingDelimiter(text: string, from: number, delimiter: string): number {
+  const char = delimiter[0];
+  let j = from;
+
+  while (j < text.length) {
+    if (text[j] === '\\') {
+      j += 2;
       continue;
     }
 
-    let plainEnd = remaining.length;
-    const specialChars = ['[', '*', '`'];
-    for (const char of specialChars) {
-      const idx = remaining.indexOf(char);
-      if (idx > 0 && idx < plainEnd) {
-        plainEnd = idx;
-      }
+    if (text[j] === '`') {
+      const end = text.indexOf('`', j + 1);
+      j = end === -1 ? j + 1 : end + 1;
+      continue;
     }
 
-    const plainText = remaining.slice(0, plainEnd);
-    if (plainText) {
-      nodes.push({ type: 'text', text: plainText });
+    if (text[j] === char) {
+      const run = runLength(text, j, char);
+      const close = j + run - delimiter.length;
+      const valid =
+        j > from && (run === delimiter.length || run === 3) && !/\s/.test(text[j - 1]) && !(char === '_' && /\w/.test(text[j + run] ?? ''));
+
+      if (valid && close >= j) return close;
+      j += run;
+      continue;
     }
-    remaining = remaining.slice(plainEnd);
+
+    j++;
   }
 
-  return nodes.length > 0 ? nodes : [{ type: 'text', text: '' }];
+  return -1;
+}
+
+function runLength(text: string, index: number, char: string): number {
+  let length = 0;
+  while (text[index + length] === char) length++;
+  return length;
+}
+
+function createTextNode(text: string, marks: AdfMark[]): AdfNode {
+  return marks.length > 0 ? { type: 'text', text, marks: [...marks] } : { type: 'text', text };
 }
@@ -0,0 +1,136 @@
+import type { AttachmentReference } from './types';
+import { normalizeLinkpath } from './wikiLinks';
+
+export function markdownToWiki(markdown: string, attachments: AttachmentReference[] = []): string {
+  const lines = markdown.split('\n');
+  const output: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const codeBlockResult = convertCodeBlock(lines, i);
+    if (codeBlockResult) {
+      output.push(codeBlockResult.text);
+      i = codeBlockResult.nextIndex;
+      continue;
+    }
+
+    const tableResult = convertTable(lines, i, attachments);
+    if (tableResult) {
+      output.push(tableResult.text);
+      i = tableResult.nextIndex;
+      continue;
+    }
+
+    output.push(convertLine(line, attachments));
+    i++;
+  }
+
+  return output.join('\n').trim();
+}
+
+function convertCodeBlock(lines: string[], startIndex: number): { text: string; nextIndex: number } | null {
+  const match = lines[startIndex].match(/^```(\w*)$/);
+  if (!match) return null;
+
+  const language = match[1];
+  const codeLines: string[] = [];
+  let i = startIndex + 1;
+
+  while (i < lines.length && !lines[i].startsWith('```')) {
+    codeLines.push(lines[i]);
+    i++;
+  }
+
+  const open = language ? `{code:${language}}` : '{code}';
+  return { text: [open, ...codeLines, '{code}'].join('\n'), nextIndex: i + 1 };
+}
+
+function convertTable(lines: string[], startIndex: number, attachments: AttachmentReference[]): { text: string; nextIndex: number } | null {
+  const isTableLine = (line: string | undefined) => !!line && line.startsWith('|') && line.endsWith('|');
+  if (!isTableLine(lines[startIndex])) return null;
+
+  const rows: string[] = [];
+  let i = startIndex;
+  let isHeader = true;
+
+  while (i < lines.length && isTableLine(lines[i])) {
+    const line = lines[i];
+
+    if (/^\|[\s\-:|]+\|$/.test(line)) {
+      i++;
+      continue;
+    }
+
+    const cells = line
+      .slice(1, -1)
+      .split('|')
+      .map(cell => convertInline(cell.trim(), attachments));
+    const separator = isHeader && isTableLine(lines[i + 1]) && /^\|[\s\-:|]+\|$/.test(lines[i + 1]) ? '||' : '|';
+    rows.push(`${separator}${cells.join(separator)}${separator}`);
+    isHeader = false;
+    i++;
+  }
+
+  return { text: rows.join('\n'), nextIndex: i };
+}
+
+function convertLine(line: string, attachments: AttachmentReference[]): string {
+  const heading = line.match(/^(#{1,6})\s+(.+)$/);
+  if (heading) {
+    return `h${heading[1].length}. ${convertInline(heading[2], attachments)}`;
+  }
+
+  const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+  if (bullet) {
+    return `${'*'.repeat(getListDepth(bullet[1]))} ${convertInline(bullet[2], attachments)}`;
+  }
+
+  const ordered = line.match(/^(\s*)\d+\.\s+(.*)$/);
+  if (ordered) {
+    return `${'#'.repeat(getListDepth(ordered[1]))} ${convertInline(ordered[2], attachments)}`;
+  }
+
+  const quote = line.match(/^>\s?(.*)$/);
+  if (quote) {
+    return `bq. ${convertInline(quote[1], attachments)}`;
+  }
+
+  if (/^(-{3,}|\*{3,}|_{3,})$/.test(line.trim())) {
+    return '----';
+  }
+
+  return convertInline(line, attachments);
+}
+
+function getListDepth(indent: string): number {
+  const width = indent.replace(/\t/g, '  ').length;
+  return Math.floor(width / 2) + 1;
+}
+
+function convertEmbeds(text: string, attachments: AttachmentReference[]): string {
+  return text.replace(/!\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g, (embed, linkpath: string) => {
+    const attachment = attachments.find(a => a.linkpath === normalizeLinkpath(linkpath));
+    if (!attachment) return embed;
+    return attachment.mimeType?.startsWith('image/') ? `!${attachment.filename}!` : `[^${attachment.filename}]`;
+  });
+}
+
+function convertInline(text: string, attachments: AttachmentReference[] = []): string {
+  text = convertEmbeds(text, attachments);
+  const codeSpans: string[] = [];
+  let result = text.replace(/`([^`]+)`/g, (_, code: string) => {
+    codeSpans.push(code);
+    return `\uE000${codeSpans.length - 1}\uE000`;
+  });
+
+  result = result
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '[$1|$2]')
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a?: string, b?: string) => `\uE001${a ?? b}\uE001`)
+    .replace(/(^|[^*\w])\*(?!\s)(.+?)\*(?!\w)/g, '$1_$2_')
+    .replace(/~~(.+?)~~/g, '-$1-')
+    .replace(/\uE001/g, '*');
+
+  return result.replace(/\uE000(\d+)\uE000/g, (_, index: string) => `{{${codeSpans[Number(index)]}}}`);
+}
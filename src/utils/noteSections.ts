@@ -0,0 +1,57 @@
+import type { App, TFile } from 'obsidian';
+
+function startMarker(id: string): string {
+  return `<!-- jira-bridge:${id}:start -->`;
+}
+
+function endMarker(id: string): string {
+  return `<!-- jira-bridge:${id}:end -->`;
+}
+
+function findSection(content: string, id: string): { start: number; end: number } | null {
+  const start = content.indexOf(startMarker(id));
+  if (start === -1) return null;
+
+  const endIndex = content.indexOf(endMarker(id), start);
+  if (endIndex === -1) return null;
+
+  return { start, end: endIndex + endMarker(id).length };
+}
+
+export function readManagedSection(content: string, id: string): string | null {
+  const section = findSection(content, id);
+  if (!section) return null;
+
+  return content.slice(section.start + startMarker(id).length, section.end - endMarker(id).length).trim();
+}
+
+export function replaceManagedSection(content: string, id: string, body: string): string {
+  const block = `${startMarker(id)}\n${body.trim()}\n${endMarker(id)}`;
+  const section = findSection(content, id);
+
+  if (section) {
+    return content.slice(0, section.start) + block + content.slice(section.end);
+  }
+
+  const trimmed = content.trimEnd();
+  return trimmed ? `${trimmed}\n\n${block}\n` : `${block}\n`;
+}
+
+export async function writeManagedSections(app: App, file: TFile, sections: Record<string, string>): Promise<string[]> {
+  const content = await app.vault.read(file);
+  const changed: string[] = [];
+  let newContent = content;
+
+  for (const [id, body] of Object.entries(sections)) {
+    if (readManagedSection(newContent, id) === body.trim()) continue;
+
+    newContent = replaceManagedSection(newContent, id, body);
+    changed.push(id);
+  }
+
+  if (newContent !== content) {
+    await app.vault.modify(file, newContent);
+  }
+
+  return changed;
+}
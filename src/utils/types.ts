@@ -1,3 +1,5 @@
+import type { MarkdownConversionSettings } from '../types';
+
 export interface AdfMark {
   type: string;
   attrs?: Record<string, unknown>;
@@ -17,6 +19,24 @@ export interface AdfDocument {
   content: AdfNode[];
 }
 
+export interface WikiLinkTarget {
+  issueUrl?: string;
+  obsidianUrl?: string;
+}
+
+export interface AttachmentReference {
+  linkpath: string;
+  filename: string;
+  url: string;
+  mimeType?: string;
+}
+
+export interface MarkdownToAdfOptions extends Partial<MarkdownConversionSettings> {
+  resolveWikiLink?: (linkpath: string, sourcePath: string) => WikiLinkTarget | null;
+  attachments?: AttachmentReference[];
+  sourcePath?: string;
+}
+
 export interface DebouncedFunction<T extends (...args: never[]) => unknown> {
   (...args: Parameters<T>): void;
   cancel: () => void;
@@ -26,3 +46,29 @@ export interface FieldValidationResult {
   valid: boolean;
   error?: string;
 }
+
+export interface NoteLine {
+  line: number;
+  raw: string;
+}
+
+export interface ChecklistItem extends NoteLine {
+  text: string;
+  checked: boolean;
+  issueKey?: string;
+}
+
+export interface IssueLineLink {
+  item: NoteLine;
+  issueKey: string;
+  issueUrl: string;
+}
+
+export type OutlineNodeKind = 'epic' | 'story' | 'subtask';
+
+export interface OutlineNode extends NoteLine {
+  kind: OutlineNodeKind;
+  text: string;
+  issueKey?: string;
+  children: OutlineNode[];
+}
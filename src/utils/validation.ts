@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import type { FieldValidationResult } from './types';
+import type { JiraAuthMode, JiraDeploymentType } from '../types';
 
 export type { FieldValidationResult };
 
@@ -16,6 +17,25 @@ export const jiraInstanceSchema = z.object({
 
 export type JiraInstanceFormData = z.infer<typeof jiraInstanceSchema>;
 
+export interface JiraConnectionOptions {
+  deploymentType: JiraDeploymentType;
+  authMode: JiraAuthMode;
+}
+
+export const getJiraInstanceSchema = (connection?: JiraConnectionOptions) => {
+  if (!connection || (connection.deploymentType === 'cloud' && connection.authMode === 'basic')) {
+    return jiraInstanceSchema;
+  }
+
+  if (connection.deploymentType === 'sandbox') {
+    return jiraInstanceSchema.extend({ baseUrl: z.string(), email: z.string(), apiToken: z.string() });
+  }
+
+  return jiraInstanceSchema.extend({
+    email: connection.authMode === 'bearer' ? z.string() : z.string().min(1, 'Username is required'),
+  });
+};
+
 const FORM_FIELD_KEYS: Record<keyof JiraInstanceFormData, true> = {
   name: true,
   baseUrl: true,
@@ -27,8 +47,12 @@ function isFormField(value: unknown): value is keyof JiraInstanceFormData {
   return typeof value === 'string' && value in FORM_FIELD_KEYS;
 }
 
-export const validateField = (fieldName: keyof JiraInstanceFormData, value: string): FieldValidationResult => {
-  const fieldSchema = jiraInstanceSchema.shape[fieldName];
+export const validateField = (
+  fieldName: keyof JiraInstanceFormData,
+  value: string,
+  connection?: JiraConnectionOptions,
+): FieldValidationResult => {
+  const fieldSchema = getJiraInstanceSchema(connection).shape[fieldName];
   const result = fieldSchema.safeParse(value);
 
   if (result.success) {
@@ -43,8 +67,9 @@ export const validateField = (fieldName: keyof JiraInstanceFormData, value: stri
 
 export const validateForm = (
   data: JiraInstanceFormData,
+  connection?: JiraConnectionOptions,
 ): { valid: boolean; errors: Partial<Record<keyof JiraInstanceFormData, string>> } => {
-  const result = jiraInstanceSchema.safeParse(data);
+  const result = getJiraInstanceSchema(connection).safeParse(data);
 
   if (result.success) {
     return { valid: true, errors: {} };
@@ -0,0 +1,3 @@
+export function normalizeLinkpath(target: string): string {
+  return target.split('#')[0].trim();
+}
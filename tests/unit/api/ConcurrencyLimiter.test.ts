@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { ConcurrencyLimiter } from '../../../src/api/ConcurrencyLimiter';
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => {
+    resolve = r;
+  });
+  return { promise, resolve };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('ConcurrencyLimiter', () => {
+  it('should run at most limit tasks at once', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = gates.map((gate, index) =>
+      limiter.run(async () => {
+        started.push(index);
+        await gate.promise;
+        return index;
+      }),
+    );
+    await flush();
+
+    expect(started).toEqual([0, 1]);
+    expect(limiter.running).toBe(2);
+    expect(limiter.pending).toBe(1);
+
+    gates[0].resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1].resolve();
+    gates[2].resolve();
+    expect(await Promise.all(runs)).toEqual([0, 1, 2]);
+    expect(limiter.running).toBe(0);
+  });
+
+  it('should release the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(limiter.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(await limiter.run(async () => 'next')).toBe('next');
+  });
+
+  it('should start waiting tasks when the limit is raised', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const gate = deferred();
+    const started: string[] = [];
+
+    const first = limiter.run(async () => {
+      started.push('first');
+      await gate.promise;
+    });
+    const second = limiter.run(async () => {
+      started.push('second');
+    });
+    await flush();
+    expect(started).toEqual(['first']);
+
+    limiter.setLimit(2);
+    await second;
+    expect(started).toEqual(['first', 'second']);
+
+    gate.resolve();
+    await first;
+  });
+
+  it('should not limit when the limit is zero', async () => {
+    const limiter = new ConcurrencyLimiter(0);
+    const gates = [deferred(), deferred(), deferred()];
+
+    const runs = gates.map(gate => limiter.run(() => gate.promise));
+    await flush();
+    expect(limiter.running).toBe(3);
+
+    gates.forEach(gate => gate.resolve());
+    await Promise.all(runs);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { JiraClient } from '../../../src/api/JiraClient';
+import { JiraNotFoundError, JiraValidationError } from '../../../src/api/errors';
 import type { JiraInstance } from '../../../src/types';
 
 vi.mock('obsidian', () => ({
@@ -22,6 +23,18 @@ const createMockInstance = (overrides?: Partial<JiraInstance>): JiraInstance =>
   ...overrides,
 });
 
+const createResponse = (status: number, json: unknown = {}) => ({
+  status,
+  json,
+  headers: {},
+  arrayBuffer: new ArrayBuffer(0),
+  text: '',
+});
+
+const mockServerInfo = (deploymentType: string = 'Cloud') => {
+  mockRequestUrl.mockResolvedValueOnce(createResponse(200, { deploymentType }));
+};
+
 describe('JiraClient', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -32,6 +45,7 @@ describe('JiraClient', () => {
       const instance = createMockInstance();
       const client = new JiraClient(instance);
 
+      mockServerInfo();
       mockRequestUrl.mockResolvedValueOnce({
         status: 200,
         json: {
@@ -63,6 +77,7 @@ describe('JiraClient', () => {
       });
       const client = new JiraClient(instance);
 
+      mockServerInfo();
       mockRequestUrl.mockResolvedValueOnce({
         status: 200,
         json: { displayName: 'User', emailAddress: 'user@test.com', accountId: '123' },
@@ -82,6 +97,7 @@ describe('JiraClient', () => {
           'Content-Type': 'application/json',
           'User-Agent': 'obsidian-jira-bridge/1.0',
         },
+        throw: false,
       });
     });
 
@@ -91,6 +107,7 @@ describe('JiraClient', () => {
       });
       const client = new JiraClient(instance);
 
+      mockServerInfo();
       mockRequestUrl.mockResolvedValueOnce({
         status: 200,
         json: { displayName: 'User', emailAddress: 'test@test.com', accountId: '123' },
@@ -170,6 +187,77 @@ describe('JiraClient', () => {
     });
   });
 
+  describe('Server / Data Center', () => {
+    it('should detect the deployment type from serverInfo', async () => {
+      const client = new JiraClient(createMockInstance());
+
+      mockServerInfo('DataCenter');
+      mockRequestUrl.mockResolvedValueOnce(createResponse(200, { displayName: 'User', emailAddress: 'u@test.com', name: 'jdoe' }));
+
+      const result = await client.testConnection();
+
+      expect(result.deploymentType).toBe('server');
+      expect(result.user?.accountId).toBe('jdoe');
+      expect(mockRequestUrl).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ url: 'https://test.atlassian.net/rest/api/2/serverInfo' }),
+      );
+      expect(mockRequestUrl).toHaveBeenNthCalledWith(2, expect.objectContaining({ url: 'https://test.atlassian.net/rest/api/2/myself' }));
+    });
+
+    it('should send bearer auth for personal access tokens', async () => {
+      const client = new JiraClient(createMockInstance({ deploymentType: 'server', authMode: 'bearer', apiToken: 'pat-123' }));
+
+      mockRequestUrl.mockResolvedValueOnce(createResponse(200, []));
+
+      await client.getPriorities();
+
+      expect(mockRequestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'https://test.atlassian.net/rest/api/2/priority',
+          headers: expect.objectContaining({ Authorization: 'Bearer pat-123' }),
+        }),
+      );
+    });
+
+    it('should use the v2 search endpoint', async () => {
+      const client = new JiraClient(createMockInstance({ deploymentType: 'server' }));
+
+      mockRequestUrl.mockResolvedValueOnce(createResponse(200, { issues: [] }));
+
+      await client.findDuplicateBySummary('TEST', 'Summary');
+
+      const url = mockRequestUrl.mock.calls[0][0].url;
+      expect(url).toMatch(/^https:\/\/test\.atlassian\.net\/rest\/api\/2\/search\?jql=/);
+    });
+
+    it('should send wiki markup descriptions and username user references', async () => {
+      const client = new JiraClient(createMockInstance({ deploymentType: 'server' }));
+
+      mockRequestUrl.mockResolvedValueOnce(createResponse(201, { id: '1', key: 'TEST-1', self: 'self' }));
+
+      await client.createIssue('TEST', '10001', 'Summary', '## Details\n- **bold** item', undefined, {
+        assignee: { accountId: 'jdoe' },
+      });
+
+      const call = mockRequestUrl.mock.calls[0][0];
+      expect(call.url).toBe('https://test.atlassian.net/rest/api/2/issue');
+      const body = JSON.parse(call.body as string);
+      expect(body.fields.description).toBe('h2. Details\n* *bold* item');
+      expect(body.fields.assignee).toEqual({ name: 'jdoe' });
+    });
+
+    it('should map server users to username identifiers', async () => {
+      const client = new JiraClient(createMockInstance({ deploymentType: 'server' }));
+
+      mockRequestUrl.mockResolvedValueOnce(createResponse(200, [{ name: 'jdoe', key: 'JIRAUSER1', displayName: 'John Doe' }]));
+
+      const users = await client.getAssignableUsers('TEST');
+
+      expect(users).toEqual([{ accountId: 'jdoe', displayName: 'John Doe' }]);
+    });
+  });
+
   describe('getIssue', () => {
     it('should return issue with status', async () => {
       const instance = createMockInstance();
@@ -215,6 +303,28 @@ describe('JiraClient', () => {
 
       await expect(client.getIssue('INVALID-999')).rejects.toThrow('Failed to fetch issue: 404');
     });
+
+    it('should throw JiraNotFoundError carrying the request path', async () => {
+      const instance = createMockInstance();
+      const client = new JiraClient(instance);
+
+      mockRequestUrl.mockResolvedValueOnce({
+        status: 404,
+        json: {},
+        headers: {},
+        arrayBuffer: new ArrayBuffer(0),
+        text: JSON.stringify({ errorMessages: ['Issue does not exist or you do not have permission to see it.'] }),
+      });
+
+      const promise = client.getIssue('INVALID-999');
+
+      await expect(promise).rejects.toBeInstanceOf(JiraNotFoundError);
+      await expect(promise).rejects.toThrow('Issue does not exist or you do not have permission to see it.');
+      await expect(promise).rejects.toMatchObject({
+        status: 404,
+        path: expect.stringContaining('/rest/api/3/issue/INVALID-999?fields='),
+      });
+    });
   });
 
   describe('getTransitions', () => {
@@ -298,6 +408,133 @@ describe('JiraClient', () => {
     });
   });
 
+  describe('getIssues', () => {
+    it('should search by key and keep all requested fields', async () => {
+      const client = new JiraClient(createMockInstance());
+
+      mockRequestUrl.mockResolvedValueOnce(
+        createResponse(200, { issues: [{ key: 'TEST-1', fields: { priority: { name: 'High' }, labels: ['a'] } }], isLast: true }),
+      );
+
+      const issues = await client.getIssues(['TEST-1', 'TEST-2'], ['priority', 'labels']);
+
+      expect(issues).toEqual([{ key: 'TEST-1', fields: { priority: { name: 'High' }, labels: ['a'] } }]);
+      const url = new URL(mockRequestUrl.mock.calls[0][0].url);
+      expect(url.searchParams.get('jql')).toBe('key in (TEST-1, TEST-2)');
+      expect(url.searchParams.get('fields')).toBe('priority,labels');
+    });
+
+    it('should not call the API without keys', async () => {
+      const client = new JiraClient(createMockInstance());
+
+      expect(await client.getIssues([], ['summary'])).toEqual([]);
+      expect(mockRequestUrl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateIssue', () => {
+    it('should PUT the changed fields', async () => {
+      const client = new JiraClient(createMockInstance());
+
+      mockRequestUrl.mockResolvedValueOnce(createResponse(204));
+
+      await client.updateIssue('TEST-123', { priority: { name: 'High' }, labels: ['a'] });
+
+      expect(mockRequestUrl).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'https://test.atlassian.net/rest/api/3/issue/TEST-123',
+          method: 'PUT',
+          body: JSON.stringify({ fields: { priority: { name: 'High' }, labels: ['a'] } }),
+        }),
+      );
+    });
+
+    it('should send username user references on server', async () => {
+      const client = new JiraClient(createMockInstance({ deploymentType: 'server' }));
+
+      mockRequestUrl.mockResolvedValueOnce(createResponse(204));
+
+      await client.updateIssue('TEST-123', { assignee: { accountId: 'jdoe' } });
+
+      const body = JSON.parse(mockRequestUrl.mock.calls[0][0].body as string);
+      expect(body.fields.assignee).toEqual({ name: 'jdoe' });
+    });
+
+    it('should throw error on failure', async () => {
+      const client = new JiraClient(createMockInstance());
+
+      mockRequestUrl.mockResolvedValueOnce(createResponse(400));
+
+      await expect(client.updateIssue('TEST-123', { summary: '' })).rejects.toThrow('Failed to update issue');
+    });
+  });
+
+  describe('getComments', () => {
+    it('should fetch the newest comments and return them oldest first', async () => {
+      const client = new JiraClient(createMockInstance());
+
+      mockRequestUrl.mockResolvedValueOnce(
+        createResponse(200, {
+          comments: [
+            { id: '2', author: { displayName: 'Sam' }, body: 'Second', created: '2026-01-02T10:00:00.000+0000' },
+            { id: '1', body: 'First', created: '2026-01-01T10:00:00.000+0000' },
+          ],
+        }),
+      );
+
+      const comments = await client.getComments('TEST-123', 2);
+
+      expect(mockRequestUrl.mock.calls[0][0].url).toBe(
+        'https://test.atlassian.net/rest/api/3/issue/TEST-123/comment?orderBy=-created&maxResults=2',
+      );
+      expect(comments.map(c => [c.id, c.author])).toEqual([
+        ['1', 'Unknown'],
+        ['2', 'Sam'],
+      ]);
+    });
+  });
+
+  describe('attachments', () => {
+    it('should upload files as multipart form data', async () => {
+      const client = new JiraClient(createMockInstance());
+
+      mockRequestUrl.mockResolvedValueOnce(
+        createResponse(200, [{ id: 10, filename: 'shot.png', mimeType: 'image/png', size: 3, content: 'https://test.atlassian.net/a/10' }]),
+      );
+
+      const attachment = await client.addAttachment('TEST-1', 'shot.png', new Uint8Array([1, 2, 3]).buffer, 'image/png');
+
+      const call = mockRequestUrl.mock.calls[0][0];
+      expect(call.url).toBe('https://test.atlassian.net/rest/api/3/issue/TEST-1/attachments');
+      expect(call.headers).toMatchObject({ 'X-Atlassian-Token': 'no-check' });
+      expect(call.headers?.['Content-Type']).toMatch(/^multipart\/form-data; boundary=/);
+      const body = new TextDecoder().decode(call.body as ArrayBuffer);
+      expect(body).toContain('Content-Disposition: form-data; name="file"; filename="shot.png"');
+      expect(body).toContain('Content-Type: image/png');
+      expect(attachment).toEqual({
+        id: '10',
+        filename: 'shot.png',
+        mimeType: 'image/png',
+        size: 3,
+        content: 'https://test.atlassian.net/a/10',
+      });
+    });
+
+    it('should reference uploaded attachments when updating the description', async () => {
+      const client = new JiraClient(createMockInstance({ deploymentType: 'server' }));
+
+      mockRequestUrl.mockResolvedValueOnce(createResponse(204, null));
+
+      await client.updateDescription('TEST-1', '![[shot.png]] and ![[spec.pdf]]', [
+        { linkpath: 'shot.png', filename: 'shot.png', url: 'u1', mimeType: 'image/png' },
+        { linkpath: 'spec.pdf', filename: 'spec.pdf', url: 'u2', mimeType: 'application/pdf' },
+      ]);
+
+      const body = JSON.parse(mockRequestUrl.mock.calls[0][0].body as string);
+      expect(body.fields.description).toBe('!shot.png! and [^spec.pdf]');
+    });
+  });
+
   describe('getBoardsForProject', () => {
     it('should return boards for project', async () => {
       const instance = createMockInstance();
@@ -522,4 +759,57 @@ describe('JiraClient', () => {
       await expect(client.moveToBoard(['TEST-123'], '5')).rejects.toThrow('Failed to move issues to board: 400');
     });
   });
+
+  describe('createIssue', () => {
+    it('should throw JiraValidationError with per-field messages', async () => {
+      const instance = createMockInstance();
+      const client = new JiraClient(instance);
+
+      mockRequestUrl.mockResolvedValueOnce({
+        status: 400,
+        json: {},
+        headers: {},
+        arrayBuffer: new ArrayBuffer(0),
+        text: JSON.stringify({ errorMessages: [], errors: { summary: 'You must specify a summary of the issue.' } }),
+      });
+
+      const promise = client.createIssue('TEST', '10001', 'Summary');
+
+      await expect(promise).rejects.toBeInstanceOf(JiraValidationError);
+      await expect(promise).rejects.toMatchObject({
+        fieldErrors: { summary: 'You must specify a summary of the issue.' },
+        path: '/rest/api/3/issue',
+      });
+    });
+  });
+
+  describe('pagination', () => {
+    it('should fetch every page of projects', async () => {
+      const client = new JiraClient(createMockInstance());
+
+      mockRequestUrl
+        .mockResolvedValueOnce(createResponse(200, { values: [{ id: '1', key: 'A', name: 'Alpha' }], total: 2, isLast: false }))
+        .mockResolvedValueOnce(createResponse(200, { values: [{ id: '2', key: 'B', name: 'Beta' }], total: 2, isLast: true }));
+
+      const projects = await client.getProjects();
+
+      expect(projects.map(p => p.key)).toEqual(['A', 'B']);
+      expect(mockRequestUrl.mock.calls[0][0].url).toBe('https://test.atlassian.net/rest/api/3/project/search?startAt=0&maxResults=50');
+      expect(mockRequestUrl.mock.calls[1][0].url).toBe('https://test.atlassian.net/rest/api/3/project/search?startAt=1&maxResults=50');
+    });
+
+    it('should follow nextPageToken for JQL searches up to the requested cap', async () => {
+      const client = new JiraClient(createMockInstance());
+      const issue = (key: string) => ({ key, fields: { summary: key } });
+
+      mockRequestUrl
+        .mockResolvedValueOnce(createResponse(200, { issues: [issue('T-1'), issue('T-2')], nextPageToken: 'next' }))
+        .mockResolvedValueOnce(createResponse(200, { issues: [issue('T-3')], isLast: true }));
+
+      const results = await client.searchIssues('search text', 3);
+
+      expect(results.map(r => r.key)).toEqual(['T-1', 'T-2', 'T-3']);
+      expect(mockRequestUrl.mock.calls[1][0].url).toContain('&nextPageToken=next');
+    });
+  });
 });
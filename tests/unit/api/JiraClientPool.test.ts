@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { JiraClientPool } from '../../../src/api/JiraClientPool';
+import { DEFAULT_SETTINGS } from '../../../src/constants/defaults';
+import type { JiraInstance, PluginSettings } from '../../../src/types';
+
+vi.mock('obsidian', () => ({
+  requestUrl: vi.fn(),
+}));
+
+import { requestUrl } from 'obsidian';
+
+const mockRequestUrl = vi.mocked(requestUrl);
+
+const createMockInstance = (overrides?: Partial<JiraInstance>): JiraInstance => ({
+  id: 'instance-1',
+  name: 'Test Instance',
+  baseUrl: 'https://test.atlassian.net',
+  email: 'test@example.com',
+  apiToken: 'test-token',
+  isDefault: true,
+  enabled: true,
+  createdAt: Date.now(),
+  ...overrides,
+});
+
+const createSettings = (instances: JiraInstance[], maxConcurrentRequests = 2): PluginSettings => ({
+  ...DEFAULT_SETTINGS,
+  instances,
+  advanced: { ...DEFAULT_SETTINGS.advanced, maxConcurrentRequests },
+});
+
+describe('JiraClientPool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should hand out one client per instance', () => {
+    const instance = createMockInstance();
+    const pool = new JiraClientPool(createSettings([instance]));
+
+    expect(pool.getClient(instance)).toBe(pool.getClient(instance));
+    expect(pool.getClientById('instance-1')).toBe(pool.getClient(instance));
+  });
+
+  it('should not return clients for disabled or unknown instances', () => {
+    const pool = new JiraClientPool(createSettings([createMockInstance({ enabled: false })]));
+
+    expect(pool.getClientById('instance-1')).toBeUndefined();
+    expect(pool.getClientById('missing')).toBeUndefined();
+  });
+
+  it('should rebuild clients when settings change', () => {
+    const instance = createMockInstance();
+    const pool = new JiraClientPool(createSettings([instance]));
+    const before = pool.getClientById('instance-1');
+
+    const updated = createMockInstance({ apiToken: 'new-token' });
+    pool.updateSettings(createSettings([updated]));
+    const after = pool.getClientById('instance-1');
+
+    expect(after).not.toBe(before);
+    expect(after?.getIssueUrl('TEST-1')).toBe('https://test.atlassian.net/browse/TEST-1');
+  });
+
+  it('should limit concurrent requests per instance across callers', async () => {
+    const instanceA = createMockInstance();
+    const instanceB = createMockInstance({ id: 'instance-2', baseUrl: 'https://other.atlassian.net' });
+    const pool = new JiraClientPool(createSettings([instanceA, instanceB], 2));
+
+    const pending: { url: string; resolve: () => void }[] = [];
+    mockRequestUrl.mockImplementation(
+      params =>
+        new Promise(resolve => {
+          pending.push({
+            url: typeof params === 'string' ? params : params.url,
+            resolve: () => resolve({ status: 204, json: null, headers: {}, arrayBuffer: new ArrayBuffer(0), text: '' } as never),
+          });
+        }) as never,
+    );
+
+    const requests = [
+      pool.getClient(instanceA).transitionIssue('TEST-1', '1'),
+      pool.getClient(instanceA).transitionIssue('TEST-2', '1'),
+      pool.getClient(instanceA).transitionIssue('TEST-3', '1'),
+      pool.getClient(instanceB).transitionIssue('OTHER-1', '1'),
+    ];
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(pending.map(p => p.url)).toEqual([
+      'https://test.atlassian.net/rest/api/3/issue/TEST-1/transitions',
+      'https://test.atlassian.net/rest/api/3/issue/TEST-2/transitions',
+      'https://other.atlassian.net/rest/api/3/issue/OTHER-1/transitions',
+    ]);
+
+    pending[0].resolve();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(pending).toHaveLength(4);
+
+    pending.slice(1).forEach(p => p.resolve());
+    await Promise.all(requests);
+  });
+
+  it('should convert descriptions with the configured markdown options', async () => {
+    const instance = createMockInstance();
+    const settings = createSettings([instance]);
+    settings.createTicket = { ...settings.createTicket, markdown: { wikiLinks: 'text', tags: 'strip', blockRefs: 'strip' } };
+    const resolveWikiLink = vi.fn((_linkpath: string, _sourcePath: string, target: JiraInstance) => ({
+      issueUrl: `${target.baseUrl}/browse/TEST-9`,
+    }));
+    const pool = new JiraClientPool(settings, resolveWikiLink);
+    mockRequestUrl.mockResolvedValue({ status: 201, json: { id: '1', key: 'TEST-1', self: '' }, headers: {}, text: '' } as never);
+
+    await pool
+      .getClient(instance)
+      .createIssue('TEST', '10001', 'Summary', 'Depends on [[Parent]] #todo', undefined, undefined, 'notes/Child.md');
+
+    const body = JSON.parse((mockRequestUrl.mock.calls[0][0] as { body: string }).body);
+    expect(resolveWikiLink).toHaveBeenCalledWith('Parent', 'notes/Child.md', instance);
+    expect(body.fields.description.content[0].content).toEqual([
+      { type: 'text', text: 'Depends on ' },
+      { type: 'inlineCard', attrs: { url: 'https://test.atlassian.net/browse/TEST-9' } },
+    ]);
+  });
+});
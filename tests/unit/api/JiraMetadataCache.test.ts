@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { JiraMetadataCache, instanceFingerprint } from '../../../src/api/JiraMetadataCache';
+import type { JiraClientPool } from '../../../src/api/JiraClientPool';
+import { DEFAULT_SETTINGS } from '../../../src/constants/defaults';
+import type { InstanceMetadataCache, PluginSettings } from '../../../src/types';
+
+vi.mock('obsidian', () => ({
+  requestUrl: vi.fn(),
+}));
+
+const createSettings = (overrides: Partial<PluginSettings['advanced']> = {}): PluginSettings => ({
+  ...DEFAULT_SETTINGS,
+  instances: [
+    {
+      id: 'instance-1',
+      name: 'Test Instance',
+      baseUrl: 'https://test.atlassian.net',
+      email: 'test@example.com',
+      apiToken: 'token',
+      isDefault: true,
+      enabled: true,
+      createdAt: 0,
+    },
+  ],
+  advanced: { ...DEFAULT_SETTINGS.advanced, cacheTTL: 60, ...overrides },
+});
+
+const seed = (settings: PluginSettings, entries: InstanceMetadataCache['entries']): Record<string, InstanceMetadataCache> => ({
+  'instance-1': { fingerprint: instanceFingerprint(settings.instances[0]), entries },
+});
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('JiraMetadataCache', () => {
+  let client: { getProjects: ReturnType<typeof vi.fn>; getIssueTypes: ReturnType<typeof vi.fn> };
+  let pool: JiraClientPool;
+  let stored: Record<string, InstanceMetadataCache>;
+  let save: ReturnType<typeof vi.fn>;
+  let now: number;
+
+  const createCache = (settings = createSettings()) => new JiraMetadataCache(pool, settings, { load: () => stored, save }, () => now);
+
+  beforeEach(() => {
+    client = {
+      getProjects: vi.fn().mockResolvedValue([{ id: '1', key: 'TEST', name: 'Test' }]),
+      getIssueTypes: vi.fn().mockResolvedValue([{ id: '10001', name: 'Story', subtask: false }]),
+    };
+    pool = {
+      getClientById: vi.fn((id: string) => (id === 'instance-1' ? client : undefined)),
+    } as unknown as JiraClientPool;
+    stored = {};
+    save = vi.fn().mockResolvedValue(undefined);
+    now = 1_000_000;
+  });
+
+  it('should fetch once and serve fresh entries from the cache', async () => {
+    const cache = createCache();
+
+    await cache.getProjects('instance-1');
+    now += 30_000;
+    const projects = await cache.getProjects('instance-1');
+
+    expect(projects).toEqual([{ id: '1', key: 'TEST', name: 'Test' }]);
+    expect(client.getProjects).toHaveBeenCalledTimes(1);
+    expect(stored['instance-1'].entries.projects.fetchedAt).toBe(1_000_000);
+    expect(save).toHaveBeenCalledWith(stored);
+  });
+
+  it('should key entries by instance and project', async () => {
+    const cache = createCache();
+
+    await cache.getIssueTypes('instance-1', 'TEST');
+    await cache.getIssueTypes('instance-1', 'OTHER');
+
+    expect(client.getIssueTypes).toHaveBeenCalledTimes(2);
+    expect(Object.keys(stored['instance-1'].entries)).toEqual(['issueTypes:TEST', 'issueTypes:OTHER']);
+  });
+
+  it('should serve stale entries while refreshing in the background', async () => {
+    stored = seed(createSettings(), { projects: { value: [{ id: '0', key: 'OLD', name: 'Old' }], fetchedAt: now - 120_000 } });
+    const cache = createCache();
+
+    const projects = await cache.getProjects('instance-1');
+    expect(projects[0].key).toBe('OLD');
+    expect(client.getProjects).toHaveBeenCalledTimes(1);
+
+    await flush();
+    expect((await cache.getProjects('instance-1'))[0].key).toBe('TEST');
+    expect(client.getProjects).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share in-flight requests', async () => {
+    const cache = createCache();
+
+    await Promise.all([cache.getProjects('instance-1'), cache.getProjects('instance-1')]);
+
+    expect(client.getProjects).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep stale data when a background refresh fails', async () => {
+    stored = seed(createSettings(), { projects: { value: [{ id: '0', key: 'OLD', name: 'Old' }], fetchedAt: 0 } });
+    client.getProjects.mockRejectedValue(new Error('offline'));
+    const cache = createCache();
+
+    expect((await cache.getProjects('instance-1'))[0].key).toBe('OLD');
+    await flush();
+    expect(stored['instance-1'].entries.projects.fetchedAt).toBe(0);
+  });
+
+  it('should bypass the cache when caching is disabled', async () => {
+    const cache = createCache(createSettings({ cacheEnabled: false }));
+
+    await cache.getProjects('instance-1');
+    await cache.getProjects('instance-1');
+
+    expect(client.getProjects).toHaveBeenCalledTimes(2);
+    expect(stored).toEqual({});
+  });
+
+  it('should reject unknown instances', async () => {
+    await expect(createCache().getProjects('missing')).rejects.toThrow('Jira instance not found or disabled');
+  });
+
+  it('should clear cached metadata', async () => {
+    const cache = createCache();
+    await cache.getProjects('instance-1');
+
+    await cache.clear();
+    await cache.getProjects('instance-1');
+
+    expect(client.getProjects).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop entries for removed instances on settings change', async () => {
+    stored = { removed: { fingerprint: 'old', entries: { projects: { value: [], fetchedAt: now } } } };
+    const cache = createCache();
+
+    cache.updateSettings(createSettings());
+
+    expect(stored).toEqual({});
+  });
+
+  it('should drop entries when the instance URL or credentials change', async () => {
+    const cache = createCache();
+    await cache.getProjects('instance-1');
+
+    const changed = createSettings();
+    changed.instances[0] = { ...changed.instances[0], apiToken: 'rotated' };
+    cache.updateSettings(changed);
+    expect(stored).toEqual({});
+
+    await cache.getProjects('instance-1');
+    expect(client.getProjects).toHaveBeenCalledTimes(2);
+  });
+
+  it('should ignore entries cached for a different instance configuration', async () => {
+    stored = seed(createSettings(), { projects: { value: [{ id: '0', key: 'OLD', name: 'Old' }], fetchedAt: now } });
+    const settings = createSettings();
+    settings.instances[0] = { ...settings.instances[0], baseUrl: 'https://other.atlassian.net' };
+
+    const projects = await createCache(settings).getProjects('instance-1');
+
+    expect(projects[0].key).toBe('TEST');
+  });
+});
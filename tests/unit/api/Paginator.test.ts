@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { paginate, collectPages, toOffsetPage, toTokenPage, type PageFetcher } from '../../../src/api/Paginator';
+
+const numbers = (from: number, count: number) => Array.from({ length: count }, (_, i) => from + i);
+
+describe('toOffsetPage', () => {
+  it('should prefer isLast from the response', () => {
+    expect(toOffsetPage([1, 2], { isLast: false }, { startAt: 0, maxResults: 2 }).isLast).toBe(false);
+    expect(toOffsetPage([1, 2], { isLast: true }, { startAt: 0, maxResults: 2 }).isLast).toBe(true);
+  });
+
+  it('should use total when isLast is missing', () => {
+    expect(toOffsetPage([1, 2], { total: 4 }, { startAt: 0, maxResults: 2 }).isLast).toBe(false);
+    expect(toOffsetPage([3, 4], { total: 4 }, { startAt: 2, maxResults: 2 }).isLast).toBe(true);
+  });
+
+  it('should treat short or empty pages as the last page', () => {
+    expect(toOffsetPage([1], {}, { startAt: 0, maxResults: 2 }).isLast).toBe(true);
+    expect(toOffsetPage([], { isLast: false }, { startAt: 0, maxResults: 2 }).isLast).toBe(true);
+  });
+});
+
+describe('toTokenPage', () => {
+  it('should continue while a next page token is present', () => {
+    expect(toTokenPage([1], { nextPageToken: 'abc' })).toEqual({ items: [1], isLast: false, nextPageToken: 'abc' });
+    expect(toTokenPage([1], {})).toEqual({ items: [1], isLast: true, nextPageToken: undefined });
+  });
+});
+
+describe('paginate', () => {
+  it('should walk offset pages until the last one', async () => {
+    const fetchPage = vi.fn<PageFetcher<number>>(async ({ startAt, maxResults }) =>
+      toOffsetPage(numbers(startAt, Math.min(maxResults, 5 - startAt)), { total: 5 }, { startAt, maxResults }),
+    );
+
+    const items = await collectPages(fetchPage, { pageSize: 2 });
+
+    expect(items).toEqual([0, 1, 2, 3, 4]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+    expect(fetchPage.mock.calls.map(([request]) => request.startAt)).toEqual([0, 2, 4]);
+  });
+
+  it('should pass next page tokens between requests', async () => {
+    const pages: Record<string, { items: number[]; nextPageToken?: string }> = {
+      start: { items: [1, 2], nextPageToken: 'p2' },
+      p2: { items: [3], nextPageToken: 'p3' },
+      p3: { items: [4] },
+    };
+    const fetchPage = vi.fn<PageFetcher<number>>(async ({ nextPageToken }) => {
+      const page = pages[nextPageToken ?? 'start'];
+      return toTokenPage(page.items, page);
+    });
+
+    const items = await collectPages(fetchPage);
+
+    expect(items).toEqual([1, 2, 3, 4]);
+    expect(fetchPage.mock.calls.map(([request]) => request.nextPageToken)).toEqual([undefined, 'p2', 'p3']);
+  });
+
+  it('should stop at maxItems and shrink the last page request', async () => {
+    const fetchPage = vi.fn<PageFetcher<number>>(async ({ startAt, maxResults }) => ({
+      items: numbers(startAt, maxResults),
+      isLast: false,
+    }));
+
+    const items = await collectPages(fetchPage, { pageSize: 4, maxItems: 6 });
+
+    expect(items).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(fetchPage.mock.calls.map(([request]) => request.maxResults)).toEqual([4, 2]);
+  });
+
+  it('should stop at maxPages', async () => {
+    const fetchPage = vi.fn<PageFetcher<number>>(async ({ startAt }) => ({ items: [startAt], isLast: false }));
+
+    const items = await collectPages(fetchPage, { pageSize: 1, maxPages: 3 });
+
+    expect(items).toEqual([0, 1, 2]);
+  });
+
+  it('should stop when the cursor does not advance', async () => {
+    const fetchPage = vi.fn<PageFetcher<number>>(async () => ({ items: [1], isLast: false, nextPageToken: 'same' }));
+
+    const items = await collectPages(fetchPage);
+
+    expect(items).toEqual([1, 1]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fetch lazily when consumed as an async iterator', async () => {
+    const fetchPage = vi.fn<PageFetcher<number>>(async ({ startAt }) => ({ items: [startAt, startAt + 1], isLast: false }));
+
+    for await (const item of paginate(fetchPage, { pageSize: 2 })) {
+      if (item === 1) break;
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+});
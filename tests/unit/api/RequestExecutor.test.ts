@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RequestExecutor, parseRetryAfter } from '../../../src/api/RequestExecutor';
+import { JiraNetworkError, JiraRateLimitError, JiraTimeoutError } from '../../../src/api/errors';
+
+vi.mock('obsidian', () => ({
+  requestUrl: vi.fn(),
+}));
+
+import { requestUrl } from 'obsidian';
+
+const mockRequestUrl = vi.mocked(requestUrl);
+
+const createResponse = (status: number, headers: Record<string, string> = {}) => ({
+  status,
+  json: {},
+  headers,
+  arrayBuffer: new ArrayBuffer(0),
+  text: '',
+});
+
+const params = { url: 'https://test.atlassian.net/rest/api/3/myself', method: 'GET' };
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds', () => {
+    expect(parseRetryAfter({ 'Retry-After': '5' })).toBe(5000);
+  });
+
+  it('should match header name case-insensitively', () => {
+    expect(parseRetryAfter({ 'retry-after': '2' })).toBe(2000);
+  });
+
+  it('should parse HTTP dates relative to now', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter({ 'Retry-After': 'Mon, 01 Jan 2024 00:00:10 GMT' }, now)).toBe(10000);
+  });
+
+  it('should return undefined when header is missing or invalid', () => {
+    expect(parseRetryAfter({})).toBeUndefined();
+    expect(parseRetryAfter({ 'Retry-After': 'soon' })).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+});
+
+describe('RequestExecutor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return successful responses without retrying', async () => {
+    const executor = new RequestExecutor({ maxRetries: 3 });
+    mockRequestUrl.mockResolvedValueOnce(createResponse(200));
+
+    const response = await executor.execute(params, { path: '/rest/api/3/myself' });
+
+    expect(response.status).toBe(200);
+    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+    expect(mockRequestUrl).toHaveBeenCalledWith({ ...params, throw: false });
+  });
+
+  it('should return non-retryable error responses to the caller', async () => {
+    const executor = new RequestExecutor({ maxRetries: 3 });
+    mockRequestUrl.mockResolvedValueOnce(createResponse(404));
+
+    const response = await executor.execute(params, { path: '/rest/api/3/myself' });
+
+    expect(response.status).toBe(404);
+    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry 503 responses with exponential backoff', async () => {
+    const executor = new RequestExecutor({ maxRetries: 3, baseDelayMs: 100 });
+    mockRequestUrl
+      .mockResolvedValueOnce(createResponse(503))
+      .mockResolvedValueOnce(createResponse(503))
+      .mockResolvedValueOnce(createResponse(200));
+
+    const promise = executor.execute(params, { path: '/rest/api/3/myself' });
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(mockRequestUrl).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(200);
+    const response = await promise;
+
+    expect(response.status).toBe(200);
+    expect(mockRequestUrl).toHaveBeenCalledTimes(3);
+  });
+
+  it('should wait for Retry-After on 429', async () => {
+    const executor = new RequestExecutor({ maxRetries: 1, baseDelayMs: 100 });
+    mockRequestUrl.mockResolvedValueOnce(createResponse(429, { 'Retry-After': '3' })).mockResolvedValueOnce(createResponse(200));
+
+    const promise = executor.execute(params, { path: '/rest/api/3/myself' });
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(promise).resolves.toMatchObject({ status: 200 });
+  });
+
+  it('should retry 429 for non-idempotent requests', async () => {
+    const executor = new RequestExecutor({ maxRetries: 1, baseDelayMs: 10 });
+    mockRequestUrl.mockResolvedValueOnce(createResponse(429)).mockResolvedValueOnce(createResponse(201));
+
+    const promise = executor.execute({ ...params, method: 'POST' }, { path: '/rest/api/3/issue' });
+    await vi.advanceTimersByTimeAsync(10);
+
+    await expect(promise).resolves.toMatchObject({ status: 201 });
+  });
+
+  it('should not retry 503 for non-idempotent requests', async () => {
+    const executor = new RequestExecutor({ maxRetries: 3 });
+    mockRequestUrl.mockResolvedValueOnce(createResponse(503));
+
+    const response = await executor.execute({ ...params, method: 'POST' }, { path: '/rest/api/3/issue' });
+
+    expect(response.status).toBe(503);
+    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw JiraRateLimitError when retries run out', async () => {
+    const executor = new RequestExecutor({ maxRetries: 2, baseDelayMs: 10 });
+    mockRequestUrl.mockResolvedValue(createResponse(429, { 'Retry-After': '1' }));
+
+    const promise = executor.execute(params, { path: '/rest/api/3/project' });
+    const assertion = expect(promise).rejects.toMatchObject({
+      kind: 'rate-limited',
+      status: 429,
+      attempts: 3,
+      path: '/rest/api/3/project',
+      retryAfterMs: 1000,
+    });
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await assertion;
+    await expect(promise).rejects.toBeInstanceOf(JiraRateLimitError);
+    expect(mockRequestUrl).toHaveBeenCalledTimes(3);
+  });
+
+  it('should time out slow requests and retry idempotent calls', async () => {
+    const executor = new RequestExecutor({ timeoutMs: 1000, maxRetries: 1, baseDelayMs: 10 });
+    mockRequestUrl.mockReturnValueOnce(new Promise(() => {}) as never).mockResolvedValueOnce(createResponse(200));
+
+    const promise = executor.execute(params, { path: '/rest/api/3/myself' });
+
+    await vi.advanceTimersByTimeAsync(1010);
+    await expect(promise).resolves.toMatchObject({ status: 200 });
+    expect(mockRequestUrl).toHaveBeenCalledTimes(2);
+  });
+
+  it('should surface a timeout error when all attempts time out', async () => {
+    const executor = new RequestExecutor({ timeoutMs: 500, maxRetries: 0 });
+    mockRequestUrl.mockReturnValueOnce(new Promise(() => {}) as never);
+
+    const promise = executor.execute(params, { path: '/rest/api/3/myself' });
+    const assertion = expect(promise).rejects.toBeInstanceOf(JiraTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await assertion;
+    await expect(promise).rejects.toMatchObject({ kind: 'timeout', timeoutMs: 500 });
+  });
+
+  it('should wrap network errors without retrying', async () => {
+    const executor = new RequestExecutor({ maxRetries: 3 });
+    mockRequestUrl.mockRejectedValueOnce(new Error('net::ERR_CONNECTION_REFUSED'));
+
+    const promise = executor.execute(params, { path: '/rest/api/3/myself' });
+
+    await expect(promise).rejects.toThrow('net::ERR_CONNECTION_REFUSED');
+    await expect(promise).rejects.toBeInstanceOf(JiraNetworkError);
+    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+  });
+});
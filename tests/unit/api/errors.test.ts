@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  JiraApiError,
+  JiraAuthenticationError,
+  JiraPermissionError,
+  JiraNotFoundError,
+  JiraRateLimitError,
+  JiraValidationError,
+  JiraServerError,
+  createJiraApiError,
+  parseJiraErrorPayload,
+  isJiraApiError,
+} from '../../../src/api/errors';
+
+describe('parseJiraErrorPayload', () => {
+  it('should parse JSON error bodies', () => {
+    const payload = parseJiraErrorPayload(JSON.stringify({ errorMessages: ['Oops'], errors: { summary: 'Required' } }));
+
+    expect(payload).toEqual({ errorMessages: ['Oops'], errors: { summary: 'Required' } });
+  });
+
+  it('should accept already parsed objects', () => {
+    expect(parseJiraErrorPayload({ errors: { priority: 'Invalid' } })).toEqual({
+      errorMessages: [],
+      errors: { priority: 'Invalid' },
+    });
+  });
+
+  it('should treat non-JSON text as a single message', () => {
+    expect(parseJiraErrorPayload('Service Unavailable')).toEqual({ errorMessages: ['Service Unavailable'], errors: {} });
+  });
+
+  it('should return an empty payload for empty or invalid bodies', () => {
+    expect(parseJiraErrorPayload('')).toEqual({ errorMessages: [], errors: {} });
+    expect(parseJiraErrorPayload(undefined)).toEqual({ errorMessages: [], errors: {} });
+    expect(parseJiraErrorPayload({ errorMessages: 'nope', errors: [1] })).toEqual({ errorMessages: [], errors: {} });
+  });
+});
+
+describe('createJiraApiError', () => {
+  it.each([
+    [401, JiraAuthenticationError, 'authentication'],
+    [403, JiraPermissionError, 'permission'],
+    [404, JiraNotFoundError, 'not-found'],
+    [429, JiraRateLimitError, 'rate-limited'],
+    [400, JiraValidationError, 'validation'],
+    [422, JiraValidationError, 'validation'],
+    [500, JiraServerError, 'server'],
+    [503, JiraServerError, 'server'],
+  ])('should map status %i to the matching error class', (status, ErrorClass, kind) => {
+    const error = createJiraApiError(status, { path: '/rest/api/3/issue' });
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(JiraApiError);
+    expect(error.kind).toBe(kind);
+    expect(error.status).toBe(status);
+    expect(error.path).toBe('/rest/api/3/issue');
+  });
+
+  it('should fall back to a generic error for other statuses', () => {
+    const error = createJiraApiError(409, { path: '/rest/api/3/issue' });
+
+    expect(error.constructor).toBe(JiraApiError);
+    expect(error.kind).toBe('unknown');
+  });
+
+  it('should build the message from payload messages', () => {
+    const error = createJiraApiError(400, {
+      path: '/rest/api/3/issue',
+      payload: { errorMessages: ['Bad request'], errors: { summary: 'Required' } },
+    });
+
+    expect(error.message).toBe('Bad request, Required');
+    expect(error.messages).toEqual(['Bad request', 'Required']);
+  });
+
+  it('should use the fallback message when the payload is empty', () => {
+    const error = createJiraApiError(404, { path: '/rest/api/3/issue/TEST-1' }, 'Failed to fetch issue');
+
+    expect(error.message).toBe('Failed to fetch issue: 404');
+  });
+
+  it('should expose field errors and retry hints', () => {
+    const validation = createJiraApiError(400, {
+      path: '/rest/api/3/issue',
+      payload: { errorMessages: [], errors: { customfield_10001: 'Invalid value' } },
+    }) as JiraValidationError;
+    const rateLimited = createJiraApiError(429, { path: '/rest/api/3/search/jql', retryAfterMs: 2000 }) as JiraRateLimitError;
+
+    expect(validation.fieldErrors).toEqual({ customfield_10001: 'Invalid value' });
+    expect(rateLimited.retryAfterMs).toBe(2000);
+  });
+});
+
+describe('isJiraApiError', () => {
+  it('should detect Jira API errors', () => {
+    expect(isJiraApiError(createJiraApiError(500, { path: '/' }))).toBe(true);
+    expect(isJiraApiError(new Error('plain'))).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { App, TFile } from 'obsidian';
+import { LinkedNotesIndex } from '../../../../../src/features/linked-notes';
+
+const createFile = (path: string): TFile =>
+  ({
+    path,
+    basename: path.replace(/^.*\//, '').replace(/\.md$/, ''),
+    extension: path.split('.').pop(),
+  }) as TFile;
+
+describe('LinkedNotesIndex', () => {
+  let frontmatter: Record<string, Record<string, unknown>>;
+  let files: TFile[];
+  let index: LinkedNotesIndex;
+
+  beforeEach(() => {
+    files = [createFile('a.md'), createFile('b.md'), createFile('notes/c.md'), createFile('image.png')];
+    frontmatter = {
+      'a.md': { issue_id: 'PROJ-1' },
+      'b.md': { issue_id: 'proj-1' },
+      'notes/c.md': { issue_id: 'PROJ-2' },
+      'image.png': { issue_id: 'PROJ-3' },
+    };
+    const app = {
+      vault: { getMarkdownFiles: () => files.filter(file => file.extension === 'md') },
+      metadataCache: { getFileCache: (file: TFile) => ({ frontmatter: frontmatter[file.path] }) },
+    } as unknown as App;
+
+    index = new LinkedNotesIndex(app);
+    index.rebuild();
+  });
+
+  it('should map issue keys to linked notes case-insensitively', () => {
+    expect(index.getNotes('PROJ-1').map(file => file.path)).toEqual(['a.md', 'b.md']);
+    expect(index.getNotes('proj-2').map(file => file.path)).toEqual(['notes/c.md']);
+    expect(index.getNotes('PROJ-3')).toEqual([]);
+    expect(index.getIssueKey('b.md')).toBe('PROJ-1');
+    expect(index.getIssueKeys()).toEqual(['PROJ-1', 'PROJ-2']);
+  });
+
+  it('should move notes between keys when frontmatter changes', () => {
+    frontmatter['a.md'] = { issue_id: 'PROJ-2' };
+    index.update(files[0]);
+
+    expect(index.getNotes('PROJ-1').map(file => file.path)).toEqual(['b.md']);
+    expect(index.getNotes('PROJ-2').map(file => file.path)).toEqual(['notes/c.md', 'a.md']);
+  });
+
+  it('should drop notes whose issue_id was removed', () => {
+    frontmatter['notes/c.md'] = {};
+    index.update(files[2]);
+
+    expect(index.getIssueKey('notes/c.md')).toBeUndefined();
+    expect(index.getIssueKeys()).toEqual(['PROJ-1']);
+  });
+
+  it('should follow renames and deletions', () => {
+    const renamed = createFile('archive/c.md');
+    index.rename(renamed, 'notes/c.md');
+    index.remove('a.md');
+
+    expect(index.getNotes('PROJ-2')).toEqual([renamed]);
+    expect(index.getIssueKey('notes/c.md')).toBeUndefined();
+    expect(index.getLinkedFiles().map(file => file.path)).toEqual(['b.md', 'archive/c.md']);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { JiraClient } from '../../../../../src/api/JiraClient';
+import { JiraNotFoundError, JiraValidationError } from '../../../../../src/api/errors';
+import {
+  SandboxJira,
+  SandboxTransport,
+  SandboxRegistry,
+  createSandboxData,
+  parseJql,
+  SANDBOX_BASE_URL,
+} from '../../../../../src/features/sandbox';
+import type { JiraInstance, SandboxData } from '../../../../../src/types';
+
+vi.mock('obsidian', () => ({
+  requestUrl: vi.fn(),
+}));
+
+const NOW = new Date('2026-01-15T12:00:00.000Z');
+
+const createSandboxInstance = (): JiraInstance => ({
+  id: 'sandbox-1',
+  name: 'Sandbox',
+  baseUrl: SANDBOX_BASE_URL,
+  email: '',
+  apiToken: '',
+  isDefault: true,
+  enabled: true,
+  createdAt: Date.now(),
+  deploymentType: 'sandbox',
+});
+
+describe('SandboxJira', () => {
+  let data: SandboxData;
+  let onChange: ReturnType<typeof vi.fn>;
+  let client: JiraClient;
+
+  beforeEach(() => {
+    data = createSandboxData(NOW);
+    onChange = vi.fn();
+    const sandbox = new SandboxJira(data, onChange, () => NOW);
+    client = new JiraClient(createSandboxInstance(), { transport: new SandboxTransport(sandbox) });
+  });
+
+  it('should report a successful connection for the current user', async () => {
+    const result = await client.testConnection();
+
+    expect(result.success).toBe(true);
+    expect(result.user?.accountId).toBe('sandbox-user');
+    expect(result.deploymentType).toBe('sandbox');
+  });
+
+  it('should list seeded projects, issue types and priorities', async () => {
+    const projects = await client.getProjects();
+    const issueTypes = await client.getIssueTypes('DEMO');
+    const priorities = await client.getPriorities();
+
+    expect(projects.map(p => p.key)).toEqual(['DEMO']);
+    expect(issueTypes.map(t => t.name)).toContain('Story');
+    expect(priorities).toHaveLength(5);
+  });
+
+  it('should create issues and persist the change', async () => {
+    const created = await client.createIssue('DEMO', '10001', 'Write sandbox tests', 'Some **details**', '2');
+    const issue = await client.getIssue(created.key);
+
+    expect(created.key).toBe('DEMO-4');
+    expect(issue.fields.summary).toBe('Write sandbox tests');
+    expect(issue.fields.status.name).toBe('To Do');
+    expect(onChange).toHaveBeenCalledWith(data);
+  });
+
+  it('should reject issues without a summary', async () => {
+    await expect(client.createIssue('DEMO', '10001', '')).rejects.toBeInstanceOf(JiraValidationError);
+  });
+
+  it('should throw not found for unknown issues', async () => {
+    await expect(client.getIssue('DEMO-999')).rejects.toBeInstanceOf(JiraNotFoundError);
+  });
+
+  it('should only offer transitions allowed from the current status', async () => {
+    const transitions = await client.getTransitions('DEMO-1');
+
+    expect(transitions.map(t => t.id)).toEqual(['21', '41']);
+  });
+
+  it('should move issues through the workflow', async () => {
+    await client.transitionIssue('DEMO-1', '21');
+    const issue = await client.getIssue('DEMO-1', ['status']);
+
+    expect(issue.fields.status.name).toBe('In Progress');
+  });
+
+  it('should search issues with JQL', async () => {
+    const issues = [];
+    for await (const issue of client.searchJql('project = DEMO AND statusCategory != Done ORDER BY key DESC', ['summary'])) {
+      issues.push(issue.key);
+    }
+
+    expect(issues).toEqual(['DEMO-2', 'DEMO-1']);
+  });
+
+  it('should reject searches for unknown issue keys', async () => {
+    const error = await client.getIssues(['DEMO-1', 'DEMO-404'], ['summary']).catch(e => e);
+
+    expect(error).toBeInstanceOf(JiraValidationError);
+    expect(error.messages).toEqual(["An issue with key 'DEMO-404' does not exist for field 'key'."]);
+  });
+
+  it('should move issues between sprints and backlog', async () => {
+    await client.moveToSprint(['DEMO-3'], 2);
+    expect((await client.getIssueSprintInfo('DEMO-3')).sprint?.name).toBe('DEMO Sprint 2');
+
+    await client.moveToBacklog(['DEMO-3']);
+    expect(await client.isIssueInBacklog('1', 'DEMO-3')).toBe(true);
+  });
+});
+
+describe('parseJql', () => {
+  const data = createSandboxData(NOW);
+  const keys = (jql: string) =>
+    data.issues
+      .filter(parseJql(jql, data, NOW.getTime()).matches)
+      .map(issue => issue.key)
+      .sort();
+
+  it('should combine clauses with AND, OR and parentheses', () => {
+    expect(keys('project = DEMO AND (key = DEMO-1 OR key = DEMO-3)')).toEqual(['DEMO-1', 'DEMO-3']);
+  });
+
+  it('should support IN, NOT and IS EMPTY', () => {
+    expect(keys('key IN (DEMO-1, DEMO-2)')).toEqual(['DEMO-1', 'DEMO-2']);
+    expect(keys('NOT key = DEMO-1')).toEqual(['DEMO-2', 'DEMO-3']);
+    expect(keys('sprint IS EMPTY')).toEqual(['DEMO-3']);
+  });
+
+  it('should match text and relative dates', () => {
+    expect(keys('summary ~ "typo"')).toEqual(['DEMO-3']);
+    expect(keys('updated >= -1d')).toHaveLength(3);
+    expect(keys('updated < -1d')).toHaveLength(0);
+  });
+
+  it('should resolve currentUser()', () => {
+    data.issues[0].fields.assignee = data.currentUser;
+
+    expect(keys('assignee = currentUser()')).toEqual(['DEMO-1']);
+  });
+
+  it('should throw on malformed JQL', () => {
+    expect(() => parseJql('project = (', data)).toThrow();
+  });
+});
+
+describe('SandboxRegistry', () => {
+  it('should seed new instances and restore saved data', async () => {
+    const saved = new Map<string, SandboxData>();
+    const persistence = {
+      load: (id: string) => saved.get(id),
+      save: vi.fn(async (id: string, value: SandboxData) => {
+        saved.set(id, value);
+      }),
+    };
+
+    const registry = new SandboxRegistry(persistence);
+    const client = new JiraClient(createSandboxInstance(), { transport: registry.getTransport('sandbox-1') });
+    await client.createIssue('DEMO', '10001', 'Persisted');
+
+    const restored = new SandboxRegistry(persistence);
+    expect(restored.get('sandbox-1').getData().issues).toHaveLength(4);
+
+    await restored.reset('sandbox-1');
+    expect(saved.get('sandbox-1')?.issues).toHaveLength(3);
+  });
+
+  it('should reset data seen by transports created before the reset', async () => {
+    const saved = new Map<string, SandboxData>();
+    const registry = new SandboxRegistry({
+      load: (id: string) => saved.get(id),
+      save: async (id: string, value: SandboxData) => {
+        saved.set(id, value);
+      },
+    });
+    const client = new JiraClient(createSandboxInstance(), { transport: registry.getTransport('sandbox-1') });
+    await client.createIssue('DEMO', '10001', 'Lost on reset');
+
+    await registry.reset('sandbox-1');
+    const created = await client.createIssue('DEMO', '10001', 'After reset');
+
+    expect((await client.getIssue(created.key, ['summary'])).fields.summary).toBe('After reset');
+    expect(saved.get('sandbox-1')?.issues.map(i => i.fields.summary)).not.toContain('Lost on reset');
+    expect(saved.get('sandbox-1')?.issues).toHaveLength(4);
+  });
+});
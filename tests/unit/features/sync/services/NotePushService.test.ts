@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { JiraInstance, PluginSettings } from '../../../../../src/types';
+import { DEFAULT_SETTINGS } from '../../../../../src/constants/defaults';
+import { JiraClientPool } from '../../../../../src/api/JiraClientPool';
+import { JiraMetadataCache } from '../../../../../src/api/JiraMetadataCache';
+import { setTransportResolver } from '../../../../../src/api/transport';
+import { NotePushService } from '../../../../../src/features/sync/services/NotePushService';
+import { SandboxJira, SandboxTransport, createSandboxData, SANDBOX_BASE_URL } from '../../../../../src/features/sandbox';
+
+vi.mock('obsidian', () => ({
+  requestUrl: vi.fn(),
+}));
+
+const instance: JiraInstance = {
+  id: 'sandbox-1',
+  name: 'Sandbox',
+  baseUrl: SANDBOX_BASE_URL,
+  email: '',
+  apiToken: '',
+  isDefault: true,
+  enabled: true,
+  createdAt: Date.now(),
+  deploymentType: 'sandbox',
+};
+
+describe('NotePushService', () => {
+  let sandbox: SandboxJira;
+  let service: NotePushService;
+
+  const remoteIssue = () => sandbox.getData().issues.find(issue => issue.key === 'DEMO-1')!;
+
+  beforeEach(() => {
+    sandbox = new SandboxJira(createSandboxData(new Date('2026-01-01T00:00:00.000Z')));
+    const transport = new SandboxTransport(sandbox);
+    setTransportResolver(i => (i.deploymentType === 'sandbox' ? transport : undefined));
+
+    const settings: PluginSettings = { ...DEFAULT_SETTINGS, instances: [instance] };
+    const clientPool = new JiraClientPool(settings);
+    const metadataCache = new JiraMetadataCache(clientPool, settings, { load: () => ({}), save: async () => {} });
+    service = new NotePushService(clientPool, metadataCache);
+  });
+
+  afterEach(() => {
+    setTransportResolver(() => undefined);
+  });
+
+  describe('collectFields', () => {
+    it('should map frontmatter values to pushable fields', () => {
+      const fields = service.collectFields({ tags: ['a', 'b'], prio: 'High', type: 'Bug', points: 3 }, [
+        { frontmatterKey: 'tags', jiraFieldType: 'labels' },
+        { frontmatterKey: 'prio', jiraFieldType: 'priority' },
+        { frontmatterKey: 'type', jiraFieldType: 'issue_type' },
+        { frontmatterKey: 'points', jiraFieldType: 'custom', customFieldId: 'customfield_10016', customFieldName: 'Story Points' },
+        { frontmatterKey: 'missing', jiraFieldType: 'assignee' },
+      ]);
+
+      expect(fields).toEqual([
+        { field: 'labels', label: 'Labels', value: 'a, b' },
+        { field: 'priority', label: 'Priority', value: 'High' },
+        { field: 'customfield_10016', label: 'Story Points', value: '3' },
+      ]);
+    });
+  });
+
+  describe('preparePush', () => {
+    it('should return only the fields that differ from Jira', async () => {
+      const summary = remoteIssue().fields.summary as string;
+
+      const changes = await service.preparePush(instance, 'DEMO-1', {
+        summary,
+        description: '',
+        fields: [
+          { field: 'priority', label: 'Priority', value: 'Medium' },
+          { field: 'labels', label: 'Labels', value: 'backend, api' },
+        ],
+      });
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0]).toMatchObject({ field: 'labels', remoteValue: null, localValue: 'backend, api', value: ['backend', 'api'] });
+    });
+
+    it('should diff summary and description against the remote values', async () => {
+      const changes = await service.preparePush(instance, 'DEMO-1', {
+        summary: 'New summary',
+        description: 'Some **details**',
+        fields: [],
+      });
+
+      expect(changes.map(c => c.field)).toEqual(['summary', 'description']);
+      expect(changes[1]).toMatchObject({ remoteValue: null, localValue: 'Some **details**' });
+    });
+
+    it('should not report a description that already matches Jira', async () => {
+      await service.push(
+        instance,
+        'DEMO-1',
+        await service.preparePush(instance, 'DEMO-1', { summary: 'S', description: '- one\n- two', fields: [] }),
+      );
+
+      const changes = await service.preparePush(instance, 'DEMO-1', { summary: 'S', description: '- one\n- two', fields: [] });
+
+      expect(changes).toEqual([]);
+    });
+
+    it('should treat label order as irrelevant', async () => {
+      remoteIssue().fields.labels = ['api', 'backend'];
+
+      const changes = await service.preparePush(instance, 'DEMO-1', {
+        summary: remoteIssue().fields.summary as string,
+        description: '',
+        fields: [{ field: 'labels', label: 'Labels', value: 'backend, api' }],
+      });
+
+      expect(changes).toEqual([]);
+    });
+
+    it('should resolve assignees by display name', async () => {
+      const changes = await service.preparePush(instance, 'DEMO-1', {
+        summary: remoteIssue().fields.summary as string,
+        description: '',
+        fields: [{ field: 'assignee', label: 'Assignee', value: 'Sam Teammate' }],
+      });
+
+      expect(changes[0].value).toEqual({ accountId: 'sandbox-teammate' });
+    });
+  });
+
+  describe('push', () => {
+    it('should update the selected fields in a single request', async () => {
+      const changes = await service.preparePush(instance, 'DEMO-1', {
+        summary: 'Pushed summary',
+        description: '',
+        fields: [{ field: 'priority', label: 'Priority', value: 'High' }],
+      });
+
+      await service.push(instance, 'DEMO-1', changes);
+
+      expect(remoteIssue().fields.summary).toBe('Pushed summary');
+      expect(remoteIssue().fields.priority).toMatchObject({ name: 'High' });
+    });
+  });
+});
@@ -0,0 +1,379 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { App, TFile } from 'obsidian';
+import type { ConflictResolutionChoice, PluginSettings, SyncStateRecord } from '../../../../../src/types';
+import { DEFAULT_PROJECT_CONFIG, DEFAULT_SETTINGS } from '../../../../../src/constants/defaults';
+import { EventBus } from '../../../../../src/core/EventBus';
+import { JiraClientPool } from '../../../../../src/api/JiraClientPool';
+import { JiraMetadataCache } from '../../../../../src/api/JiraMetadataCache';
+import { setTransportResolver } from '../../../../../src/api/transport';
+import { SyncService } from '../../../../../src/features/sync/services/SyncService';
+import { SyncStateStore } from '../../../../../src/features/sync/services/SyncStateStore';
+import { SyncWatermarkStore } from '../../../../../src/features/sync/services/SyncWatermarkStore';
+import { LinkedNotesIndex } from '../../../../../src/features/linked-notes';
+import { SandboxJira, SandboxTransport, createSandboxData, SANDBOX_BASE_URL } from '../../../../../src/features/sandbox';
+
+vi.mock('obsidian', () => ({
+  requestUrl: vi.fn(),
+  Notice: vi.fn(),
+}));
+
+const createSettings = (): PluginSettings => ({
+  ...DEFAULT_SETTINGS,
+  instances: [
+    {
+      id: 'sandbox-1',
+      name: 'Sandbox',
+      baseUrl: SANDBOX_BASE_URL,
+      email: '',
+      apiToken: '',
+      isDefault: true,
+      enabled: true,
+      createdAt: Date.now(),
+      deploymentType: 'sandbox',
+    },
+  ],
+  mappings: [],
+  sync: {
+    ...DEFAULT_SETTINGS.sync,
+    syncFields: [
+      { jiraField: 'status', frontmatterKey: 'jira_status', enabled: true, readOnly: true },
+      { jiraField: 'priority', frontmatterKey: 'jira_priority', enabled: true, readOnly: false },
+      { jiraField: 'labels', frontmatterKey: 'jira_labels', enabled: true, readOnly: false },
+    ],
+  },
+});
+
+describe('SyncService', () => {
+  let sandbox: SandboxJira;
+  let frontmatter: Record<string, unknown>;
+  let state: Record<string, SyncStateRecord>;
+  let watermarks: Record<string, number>;
+  let app: App;
+  let service: SyncService;
+  let linkedNotes: LinkedNotesIndex;
+  let transport: SandboxTransport;
+  const file = { path: 'note.md', basename: 'note' } as unknown as TFile;
+
+  const lastWrite = () => String(vi.mocked(app.vault.modify).mock.calls.at(-1)?.[1]);
+  const remoteIssue = () => sandbox.getData().issues.find(issue => issue.key === 'DEMO-1')!;
+
+  beforeEach(async () => {
+    sandbox = new SandboxJira(createSandboxData(new Date('2026-01-01T00:00:00.000Z')));
+    transport = new SandboxTransport(sandbox);
+    setTransportResolver(instance => (instance.deploymentType === 'sandbox' ? transport : undefined));
+
+    frontmatter = { issue_id: 'DEMO-1' };
+    state = {};
+    watermarks = {};
+    app = {
+      vault: {
+        read: vi.fn().mockResolvedValue('# Note'),
+        modify: vi.fn(),
+      },
+      metadataCache: {
+        getFileCache: vi.fn(() => ({ frontmatter })),
+      },
+    } as unknown as App;
+
+    const settings = createSettings();
+    const clientPool = new JiraClientPool(settings);
+    const metadataCache = new JiraMetadataCache(clientPool, settings, { load: () => ({}), save: async () => {} });
+    const stateStore = new SyncStateStore({
+      load: () => state,
+      save: async data => {
+        state = data;
+      },
+    });
+    const watermarkStore = new SyncWatermarkStore({
+      load: () => watermarks,
+      save: async data => {
+        watermarks = data;
+      },
+    });
+    linkedNotes = new LinkedNotesIndex(app);
+    service = new SyncService(app, settings, new EventBus(), clientPool, metadataCache, stateStore, watermarkStore, linkedNotes);
+
+    await service.syncNote(file, { force: true });
+    Object.assign(frontmatter, { jira_status: 'To Do', jira_priority: 'Medium', jira_labels: [] });
+  });
+
+  afterEach(() => {
+    setTransportResolver(null);
+  });
+
+  it('should record the sync state after the first sync', () => {
+    expect(state['note.md']).toMatchObject({
+      noteId: 'note.md',
+      ticketKey: 'DEMO-1',
+      instanceId: 'sandbox-1',
+      syncStatus: 'synced',
+      remoteUpdatedAt: '2026-01-01T00:00:00.000Z',
+      snapshot: { status: 'To Do', priority: 'Medium', labels: '[]' },
+    });
+    expect(state['note.md'].lastSyncAt).toBeGreaterThan(0);
+  });
+
+  it('should skip notes synced recently unless forced', async () => {
+    const result = await service.syncNote(file);
+
+    expect(result.skipReason).toBe('cached');
+  });
+
+  it('should record failures in the sync state', async () => {
+    frontmatter.issue_id = 'DEMO-404';
+    state['note.md'] = { ...state['note.md'], ticketKey: 'DEMO-404' };
+
+    await service.syncNote(file, { force: true });
+
+    expect(state['note.md']).toMatchObject({ syncStatus: 'unlinked', lastError: 'Ticket not found in Jira' });
+  });
+
+  it('should push local edits when Jira has not changed', async () => {
+    frontmatter.jira_priority = 'High';
+    frontmatter.jira_labels = ['triage', 'backend'];
+
+    const result = await service.syncNote(file, { force: true });
+
+    expect(result.changes.map(c => [c.field, c.direction])).toEqual([
+      ['priority', 'toJira'],
+      ['labels', 'toJira'],
+    ]);
+    expect(remoteIssue().fields.priority).toMatchObject({ name: 'High' });
+    expect(remoteIssue().fields.labels).toEqual(['triage', 'backend']);
+    expect(state['note.md'].snapshot.priority).toBe('High');
+  });
+
+  it('should pull remote changes when the note was not edited', async () => {
+    remoteIssue().fields.priority = { id: '1', name: 'Highest' };
+
+    const result = await service.syncNote(file, { force: true });
+
+    expect(result.changes).toEqual([expect.objectContaining({ field: 'priority', newValue: 'Highest', direction: 'fromJira' })]);
+  });
+
+  it('should flag a conflict instead of overwriting when both sides changed', async () => {
+    remoteIssue().fields.priority = { id: '1', name: 'Highest' };
+    frontmatter.jira_priority = 'Low';
+
+    const result = await service.syncNote(file, { force: true });
+
+    expect(result.changes).toEqual([]);
+    expect(result.conflicts).toEqual([
+      {
+        field: 'priority',
+        frontmatterKey: 'jira_priority',
+        localValue: 'Low',
+        remoteValue: 'Highest',
+        baseValue: 'Medium',
+        editable: true,
+      },
+    ]);
+    expect(remoteIssue().fields.priority).toMatchObject({ name: 'Highest' });
+    expect(state['note.md'].snapshot.priority).toBe('Medium');
+    expect(lastWrite()).toContain('jira_sync_status: conflict');
+  });
+
+  it('should treat identical edits on both sides as in sync', async () => {
+    remoteIssue().fields.priority = { id: '1', name: 'Highest' };
+    frontmatter.jira_priority = 'Highest';
+
+    const result = await service.syncNote(file, { force: true });
+
+    expect(result.conflicts).toEqual([]);
+    expect(state['note.md'].snapshot.priority).toBe('Highest');
+  });
+
+  describe('syncBatch', () => {
+    const notes: Record<string, Record<string, unknown>> = {};
+    const createNote = (path: string, issueId: string) => {
+      const status = (sandbox.getData().issues.find(i => i.key === issueId.toUpperCase())?.fields.status as { name: string } | undefined)
+        ?.name;
+      notes[path] =
+        issueId === 'DEMO-1' ? frontmatter : { issue_id: issueId, jira_status: status, jira_priority: 'Medium', jira_labels: [] };
+      return { path, basename: path, extension: 'md' } as unknown as TFile;
+    };
+    const scope = (files: TFile[]) => ({ collectFiles: () => files, getNotificationMessage: () => '' });
+
+    beforeEach(() => {
+      vi.mocked(app.metadataCache.getFileCache).mockImplementation(f => ({ frontmatter: notes[f.path] ?? frontmatter }));
+      vi.spyOn(transport, 'request');
+    });
+
+    it('should fetch all linked issues with a single search', async () => {
+      const files = [createNote('a.md', 'DEMO-1'), createNote('b.md', 'demo-2'), createNote('c.md', 'DEMO-3')];
+
+      const stats = await service.syncBatch(scope(files), { force: true, silent: true });
+
+      expect(stats).toMatchObject({ total: 3, synced: 3, failed: 0 });
+      expect(transport.request).toHaveBeenCalledTimes(1);
+      const url = new URL(vi.mocked(transport.request).mock.calls[0][0].url);
+      expect(url.searchParams.get('jql')).toBe('key in (DEMO-1, DEMO-2, DEMO-3)');
+      expect(url.searchParams.get('fields')).toBe('status,priority,labels,updated,issuetype');
+    });
+
+    it('should retry the search without keys Jira rejects', async () => {
+      const files = [createNote('a.md', 'DEMO-1'), createNote('b.md', 'DEMO-404')];
+
+      const stats = await service.syncBatch(scope(files), { force: true, silent: true });
+
+      expect(stats).toMatchObject({ synced: 1, skipped: 1 });
+      expect(transport.request).toHaveBeenCalledTimes(3);
+      const retry = new URL(vi.mocked(transport.request).mock.calls[1][0].url);
+      expect(retry.searchParams.get('jql')).toBe('key in (DEMO-1)');
+    });
+
+    it('should only sync issues updated since the last incremental run', async () => {
+      const files = [createNote('a.md', 'DEMO-1'), createNote('b.md', 'DEMO-2'), createNote('c.md', 'DEMO-3')];
+      await service.syncBatch(scope(files), { force: true, silent: true, incremental: true });
+      expect(watermarks['sandbox-1']).toBeGreaterThan(0);
+
+      const issue = sandbox.getData().issues.find(i => i.key === 'DEMO-2')!;
+      issue.fields.priority = { id: '2', name: 'High' };
+      issue.fields.updated = new Date().toISOString();
+      vi.mocked(transport.request).mockClear();
+
+      const stats = await service.syncBatch(scope(files), { force: true, silent: true, incremental: true });
+
+      expect(stats).toMatchObject({ synced: 1, skipped: 2, changes: 1 });
+      const url = new URL(vi.mocked(transport.request).mock.calls[0][0].url);
+      expect(url.searchParams.get('jql')).toMatch(/^key in \(DEMO-1, DEMO-2, DEMO-3\) AND updated >= -\d+m$/);
+    });
+
+    it('should sync notes edited locally even if Jira did not change', async () => {
+      const files = [createNote('a.md', 'DEMO-1')];
+      await service.syncBatch(scope(files), { force: true, silent: true, incremental: true });
+
+      frontmatter.jira_priority = 'Low';
+      Object.assign(files[0], { stat: { mtime: Date.now() + 1000 } });
+
+      const stats = await service.syncBatch(scope(files), { force: true, silent: true, incremental: true });
+
+      expect(stats).toMatchObject({ synced: 1, changes: 1 });
+      expect(remoteIssue().fields.priority).toMatchObject({ name: 'Low' });
+    });
+
+    it('should not re-sync notes only written by the previous sync', async () => {
+      const files = [createNote('a.md', 'DEMO-1'), createNote('b.md', 'DEMO-2')];
+      vi.mocked(app.vault.modify).mockImplementation(async target => {
+        Object.assign(target, { stat: { mtime: Date.now() } });
+      });
+      remoteIssue().fields.priority = { id: '1', name: 'Highest' };
+      await service.syncBatch(scope(files), { force: true, silent: true, incremental: true });
+      expect(app.vault.modify).toHaveBeenCalled();
+
+      const stats = await service.syncBatch(scope(files), { force: true, silent: true, incremental: true });
+
+      expect(stats).toMatchObject({ synced: 0, skipped: 2 });
+    });
+
+    it('should sync linked notes whose issues match a JQL query', async () => {
+      const files = [createNote('a.md', 'DEMO-1'), createNote('b.md', 'DEMO-2'), createNote('c.md', 'DEMO-3')];
+      files.forEach(f => linkedNotes.update(f));
+
+      const stats = await service.syncJql('sandbox-1', 'project = DEMO AND statusCategory != Done', { force: true, silent: true });
+
+      expect(stats).toMatchObject({ total: 2, synced: 2, failed: 0 });
+    });
+  });
+
+  describe('resolveConflicts', () => {
+    const resolve = async (choice: ConflictResolutionChoice, mergedValue?: string) => {
+      remoteIssue().fields.priority = { id: '1', name: 'Highest' };
+      frontmatter.jira_priority = 'Low';
+      const { conflicts } = await service.syncNote(file, { force: true });
+      return service.resolveConflicts(file, [{ conflict: conflicts![0], choice, mergedValue }]);
+    };
+
+    it('should push the note value when keeping local', async () => {
+      await resolve('local');
+
+      expect(remoteIssue().fields.priority).toMatchObject({ name: 'Low' });
+      expect(state['note.md'].snapshot.priority).toBe('Low');
+      expect(lastWrite()).toContain('jira_sync_status: synced');
+    });
+
+    it('should write the Jira value when taking remote', async () => {
+      await resolve('remote');
+
+      expect(remoteIssue().fields.priority).toMatchObject({ name: 'Highest' });
+      expect(lastWrite()).toContain('jira_priority: Highest');
+      expect(state['note.md'].snapshot.priority).toBe('Highest');
+    });
+
+    it('should push and write an edited merge', async () => {
+      await resolve('merged', 'High');
+
+      expect(remoteIssue().fields.priority).toMatchObject({ name: 'High' });
+      expect(lastWrite()).toContain('jira_priority: High');
+    });
+  });
+
+  describe('content sections', () => {
+    const sectionWrite = () =>
+      vi
+        .mocked(app.vault.modify)
+        .mock.calls.map(call => String(call[1]))
+        .find(content => content.includes('jira-bridge:description'));
+
+    beforeEach(() => {
+      const settings = createSettings();
+      settings.mappings = [
+        { id: 'instance', folderPath: '', type: 'instance', instanceId: 'sandbox-1', enabled: true },
+        {
+          id: 'project',
+          folderPath: '',
+          type: 'project',
+          projectKey: 'DEMO',
+          enabled: true,
+          projectConfig: {
+            ...DEFAULT_PROJECT_CONFIG,
+            syncConfig: { enableSync: true, contentSync: { syncDescription: true, syncComments: true, commentLimit: 2 } },
+          },
+        },
+      ];
+      service.updateSettings(settings);
+
+      remoteIssue().fields.description = {
+        type: 'doc',
+        version: 1,
+        content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Fix the login flow', marks: [{ type: 'strong' }] }] }],
+      };
+      remoteIssue().comments = ['first', 'second', 'third'].map((body, index) => ({
+        id: String(index + 1),
+        authorId: 'sandbox-teammate',
+        body: { type: 'doc', version: 1, content: [{ type: 'paragraph', content: [{ type: 'text', text: body }] }] },
+        created: `2026-01-0${index + 1}T09:00:00.000Z`,
+        updated: `2026-01-0${index + 1}T09:00:00.000Z`,
+      }));
+      vi.mocked(app.vault.modify).mockClear();
+    });
+
+    it('should write the description and latest comments into managed sections', async () => {
+      const result = await service.syncNote(file, { force: true });
+
+      expect(result.changes.map(change => change.field)).toEqual(['description', 'comments']);
+      expect(sectionWrite()).toContain('## Jira Description\n\n**Fix the login flow**');
+      expect(sectionWrite()).toContain('> [!quote] Sam Teammate · 2026-01-03 09:00\n> third');
+      expect(sectionWrite()).not.toContain('> first');
+    });
+
+    it('should not rewrite sections that are already current', async () => {
+      await service.syncNote(file, { force: true });
+      vi.mocked(app.vault.read).mockResolvedValue(sectionWrite()!);
+      vi.mocked(app.vault.modify).mockClear();
+
+      const result = await service.syncNote(file, { force: true });
+
+      expect(result.changes).toEqual([]);
+      expect(app.vault.modify).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should never push read-only fields', async () => {
+    frontmatter.jira_status = 'Done';
+
+    const result = await service.syncNote(file, { force: true });
+
+    expect(result.changes).toEqual([expect.objectContaining({ field: 'status', newValue: 'To Do', direction: 'fromJira' })]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SyncStateStore } from '../../../../../src/features/sync/services/SyncStateStore';
+import type { SyncStateRecord } from '../../../../../src/types';
+
+const createRecord = (noteId: string): SyncStateRecord => ({
+  noteId,
+  ticketKey: 'TEST-1',
+  instanceId: 'instance-1',
+  linkedAt: 1,
+  lastSyncAt: 2,
+  syncStatus: 'synced',
+  snapshot: { status: 'Done' },
+});
+
+describe('SyncStateStore', () => {
+  it('should restore saved records', () => {
+    const store = new SyncStateStore({ load: () => ({ 'a.md': createRecord('a.md') }), save: vi.fn() });
+
+    expect(store.get('a.md')?.snapshot).toEqual({ status: 'Done' });
+    expect(store.getAll()).toHaveLength(1);
+  });
+
+  it('should move records when notes are renamed', async () => {
+    const save = vi.fn();
+    const store = new SyncStateStore({ load: () => ({ 'a.md': createRecord('a.md') }), save });
+
+    await store.rename('a.md', 'folder/b.md');
+
+    expect(store.get('a.md')).toBeUndefined();
+    expect(store.get('folder/b.md')?.noteId).toBe('folder/b.md');
+    expect(save).toHaveBeenCalledTimes(1);
+  });
+
+  it('should write batched changes once', async () => {
+    const save = vi.fn();
+    const store = new SyncStateStore({ load: () => ({}), save });
+
+    await store.batch(async () => {
+      await store.set('a.md', createRecord('a.md'));
+      await store.set('b.md', createRecord('b.md'));
+      await store.remove('a.md');
+      expect(save).not.toHaveBeenCalled();
+    });
+
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(save).toHaveBeenCalledWith({ 'b.md': createRecord('b.md') });
+  });
+
+  it('should only persist removals of known notes', async () => {
+    const save = vi.fn();
+    const store = new SyncStateStore({ load: () => ({ 'a.md': createRecord('a.md') }), save });
+
+    await store.remove('missing.md');
+    await store.remove('a.md');
+
+    expect(store.get('a.md')).toBeUndefined();
+    expect(save).toHaveBeenCalledTimes(1);
+  });
+});
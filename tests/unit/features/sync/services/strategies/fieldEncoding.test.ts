@@ -0,0 +1,165 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  LabelsFieldStrategy,
+  UserFieldStrategy,
+  OptionListFieldStrategy,
+  OptionFieldStrategy,
+  NamedFieldStrategy,
+  NumberFieldStrategy,
+  RichTextFieldStrategy,
+  isPushableField,
+  parseListValue,
+} from '../../../../../../src/features/sync/services/strategies/fieldEncoding';
+import { FieldEncoder } from '../../../../../../src/features/sync/services/FieldEncoder';
+import type { FieldEncodingContext } from '../../../../../../src/features/sync/services/types';
+import type { JiraFieldMeta, JiraFieldSchema } from '../../../../../../src/types';
+
+const CUSTOM = 'com.atlassian.jira.plugin.system.customfieldtypes:';
+
+const meta = (fieldId: string, schema: JiraFieldSchema): JiraFieldMeta => ({ fieldId, name: fieldId, required: false, schema });
+
+const fieldsMeta = [
+  meta('customfield_10', { type: 'option', custom: `${CUSTOM}select` }),
+  meta('customfield_11', { type: 'user', custom: `${CUSTOM}userpicker` }),
+  meta('customfield_12', { type: 'number', custom: `${CUSTOM}float` }),
+  meta('customfield_13', { type: 'string', custom: `${CUSTOM}textarea` }),
+  meta('customfield_14', { type: 'array', items: 'option', custom: `${CUSTOM}multiselect` }),
+  meta('fixVersions', { type: 'array', items: 'version', system: 'fixVersions' }),
+];
+
+const context: FieldEncodingContext = {
+  findUser: vi.fn(async (name: string) => (name === 'Jane Doe' ? { accountId: 'jane' } : null)),
+  formatRichText: vi.fn((markdown: string) => ({ type: 'doc', version: 1, content: [{ type: 'paragraph', text: markdown }] })),
+  getField: vi.fn(async (fieldId: string) => fieldsMeta.find(f => f.fieldId === fieldId)),
+};
+
+describe('parseListValue', () => {
+  it('should parse JSON arrays and comma-separated values', () => {
+    expect(parseListValue('["a", "b"]')).toEqual(['a', 'b']);
+    expect(parseListValue('a, b ,')).toEqual(['a', 'b']);
+    expect(parseListValue(null)).toEqual([]);
+  });
+
+  it('should read labels from JSON option objects', () => {
+    expect(parseListValue('[{"value":"Red"},{"name":"Web"}]')).toEqual(['Red', 'Web']);
+  });
+});
+
+describe('isPushableField', () => {
+  it('should allow editable system fields and custom fields', () => {
+    expect(isPushableField('priority')).toBe(true);
+    expect(isPushableField('customfield_10010')).toBe(true);
+    expect(isPushableField('status')).toBe(false);
+  });
+});
+
+describe('LabelsFieldStrategy', () => {
+  const strategy = new LabelsFieldStrategy();
+
+  it('should handle labels and string arrays', () => {
+    expect(strategy.canHandle('labels', [])).toBe(true);
+    expect(strategy.canHandle('customfield_1', ['x'])).toBe(true);
+    expect(strategy.canHandle('customfield_1', [{ value: 'x' }])).toBe(false);
+  });
+
+  it('should encode a list of strings', async () => {
+    expect(await strategy.encode('a, b')).toEqual(['a', 'b']);
+  });
+});
+
+describe('UserFieldStrategy', () => {
+  const strategy = new UserFieldStrategy();
+
+  it('should resolve display names to account ids', async () => {
+    expect(await strategy.encode('Jane Doe', null, context)).toEqual({ accountId: 'jane' });
+    expect(await strategy.encode(null, null, context)).toBe(null);
+  });
+
+  it('should reject unknown users', async () => {
+    await expect(strategy.encode('Nobody', null, context)).rejects.toThrow('No assignable Jira user named "Nobody"');
+  });
+});
+
+describe('OptionListFieldStrategy', () => {
+  const strategy = new OptionListFieldStrategy();
+
+  it('should reuse the remote item shape', async () => {
+    expect(await strategy.encode('Red, Blue', [{ value: 'Green' }])).toEqual([{ value: 'Red' }, { value: 'Blue' }]);
+    expect(await strategy.encode('v1', [{ name: 'v0' }])).toEqual([{ name: 'v1' }]);
+  });
+});
+
+describe('OptionFieldStrategy', () => {
+  it('should wrap values in an option', async () => {
+    const strategy = new OptionFieldStrategy();
+    expect(strategy.canHandle('customfield_1', { value: 'A', id: '1' })).toBe(true);
+    expect(await strategy.encode('B')).toEqual({ value: 'B' });
+  });
+});
+
+describe('NamedFieldStrategy', () => {
+  it('should wrap values by name', async () => {
+    const strategy = new NamedFieldStrategy();
+    expect(strategy.canHandle('priority', null)).toBe(true);
+    expect(await strategy.encode('High')).toEqual({ name: 'High' });
+  });
+});
+
+describe('NumberFieldStrategy', () => {
+  const strategy = new NumberFieldStrategy();
+
+  it('should parse numbers', async () => {
+    expect(await strategy.encode('3.5')).toBe(3.5);
+    expect(await strategy.encode(null)).toBe(null);
+  });
+
+  it('should reject non-numeric values', async () => {
+    await expect(strategy.encode('many')).rejects.toThrow('"many" is not a number');
+  });
+});
+
+describe('RichTextFieldStrategy', () => {
+  const strategy = new RichTextFieldStrategy();
+  const adf = { type: 'doc', version: 1, content: [] };
+
+  it('should handle ADF documents only', () => {
+    expect(strategy.canHandle('customfield_1', adf)).toBe(true);
+    expect(strategy.canHandle('customfield_1', 'plain text')).toBe(false);
+  });
+
+  it('should convert Markdown with the client formatter', async () => {
+    expect(await strategy.encode('**Steps**', adf, context)).toEqual({
+      type: 'doc',
+      version: 1,
+      content: [{ type: 'paragraph', text: '**Steps**' }],
+    });
+    expect(await strategy.encode(null, adf, context)).toBeNull();
+  });
+});
+
+describe('FieldEncoder', () => {
+  const encoder = new FieldEncoder();
+
+  it('should pick the strategy from the field and remote value', async () => {
+    expect(await encoder.encode('priority', 'High', { name: 'Medium' }, context)).toEqual({ name: 'High' });
+    expect(await encoder.encode('assignee', 'Jane Doe', null, context)).toEqual({ accountId: 'jane' });
+    expect(await encoder.encode('customfield_2', '8', 5, context)).toBe(8);
+    expect(await encoder.encode('summary', 'New title', 'Old title', context)).toBe('New title');
+  });
+
+  it('should pick the strategy from the field schema when Jira has no value yet', async () => {
+    expect(await encoder.encode('customfield_10', 'Red', null, context)).toEqual({ value: 'Red' });
+    expect(await encoder.encode('customfield_11', 'Jane Doe', null, context)).toEqual({ accountId: 'jane' });
+    expect(await encoder.encode('customfield_12', '8', null, context)).toBe(8);
+    expect(await encoder.encode('customfield_13', '**Steps**', null, context)).toEqual({
+      type: 'doc',
+      version: 1,
+      content: [{ type: 'paragraph', text: '**Steps**' }],
+    });
+  });
+
+  it('should pick the list item shape from the field schema', async () => {
+    expect(await encoder.encode('customfield_14', 'Red, Blue', null, context)).toEqual([{ value: 'Red' }, { value: 'Blue' }]);
+    expect(await encoder.encode('fixVersions', '1.0', [], context)).toEqual([{ name: '1.0' }]);
+  });
+});
@@ -3,6 +3,7 @@ import {
   NullFieldStrategy,
   NamePropertyStrategy,
   DisplayNamePropertyStrategy,
+  AdfDocumentStrategy,
   JsonObjectStrategy,
   PrimitiveFieldStrategy,
   createDefaultExtractionStrategies,
@@ -78,6 +79,22 @@ describe('DisplayNamePropertyStrategy', () => {
   });
 });
 
+describe('AdfDocumentStrategy', () => {
+  const strategy = new AdfDocumentStrategy();
+  const doc = { type: 'doc', version: 1, content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Hello' }] }] };
+
+  it('should handle ADF documents only', () => {
+    expect(strategy.canHandle(doc)).toBe(true);
+    expect(strategy.canHandle({ type: 'paragraph', content: [] })).toBe(false);
+    expect(strategy.canHandle({ foo: 'bar' })).toBe(false);
+  });
+
+  it('should extract Markdown', () => {
+    expect(strategy.extract(doc)).toBe('Hello');
+    expect(strategy.extract({ type: 'doc', version: 1, content: [] })).toBe(null);
+  });
+});
+
 describe('JsonObjectStrategy', () => {
   const strategy = new JsonObjectStrategy();
 
@@ -122,11 +139,12 @@ describe('createDefaultExtractionStrategies', () => {
   it('should create array of strategies in correct order', () => {
     const strategies = createDefaultExtractionStrategies();
 
-    expect(strategies).toHaveLength(5);
+    expect(strategies).toHaveLength(6);
     expect(strategies[0]).toBeInstanceOf(NullFieldStrategy);
     expect(strategies[1]).toBeInstanceOf(NamePropertyStrategy);
     expect(strategies[2]).toBeInstanceOf(DisplayNamePropertyStrategy);
-    expect(strategies[3]).toBeInstanceOf(JsonObjectStrategy);
-    expect(strategies[4]).toBeInstanceOf(PrimitiveFieldStrategy);
+    expect(strategies[3]).toBeInstanceOf(AdfDocumentStrategy);
+    expect(strategies[4]).toBeInstanceOf(JsonObjectStrategy);
+    expect(strategies[5]).toBeInstanceOf(PrimitiveFieldStrategy);
   });
 });
@@ -1,7 +1,10 @@
 import { describe, it, expect } from 'vitest';
-import { OpenNotesScope, FolderScope } from '../../../../../../src/features/sync/services/strategies/syncScope';
-import type { SyncStats } from '../../../../../../src/types';
-import type { TFolder } from 'obsidian';
+import { OpenNotesScope, FolderScope, MappingScope, JqlScope } from '../../../../../../src/features/sync/services/strategies/syncScope';
+import { LinkedNotesIndex } from '../../../../../../src/features/linked-notes';
+import { MappingResolver } from '../../../../../../src/mapping';
+import { DEFAULT_SETTINGS } from '../../../../../../src/constants/defaults';
+import type { PluginSettings, SyncStats } from '../../../../../../src/types';
+import type { App, TFile, TFolder } from 'obsidian';
 
 describe('OpenNotesScope', () => {
   const scope = new OpenNotesScope();
@@ -14,6 +17,7 @@ describe('OpenNotesScope', () => {
         skipped: 3,
         failed: 2,
         changes: 8,
+        conflicts: 0,
       };
 
       const message = scope.getNotificationMessage(stats);
@@ -28,6 +32,7 @@ describe('OpenNotesScope', () => {
         skipped: 0,
         failed: 0,
         changes: 0,
+        conflicts: 0,
       };
 
       const message = scope.getNotificationMessage(stats);
@@ -54,6 +59,7 @@ describe('FolderScope', () => {
         skipped: 2,
         failed: 1,
         changes: 15,
+        conflicts: 0,
       };
 
       const message = scope.getNotificationMessage(stats);
@@ -71,6 +77,7 @@ describe('FolderScope', () => {
         skipped: 0,
         failed: 0,
         changes: 10,
+        conflicts: 0,
       };
 
       const message = scope.getNotificationMessage(stats);
@@ -88,6 +95,7 @@ describe('FolderScope', () => {
         skipped: 0,
         failed: 0,
         changes: 0,
+        conflicts: 0,
       };
 
       const message = scope.getNotificationMessage(stats);
@@ -96,3 +104,49 @@ describe('FolderScope', () => {
     });
   });
 });
+
+describe('MappingScope and JqlScope', () => {
+  const settings = {
+    ...DEFAULT_SETTINGS,
+    instances: [
+      { id: 'jira-1', name: 'Jira', baseUrl: '', email: '', apiToken: '', isDefault: true, enabled: true, createdAt: 0 },
+      { id: 'jira-2', name: 'Other', baseUrl: '', email: '', apiToken: '', isDefault: false, enabled: true, createdAt: 0 },
+    ],
+    mappings: [
+      { id: 'instance', folderPath: 'Work', type: 'instance', instanceId: 'jira-1', enabled: true },
+      { id: 'proj', folderPath: 'Work', type: 'project', projectKey: 'PROJ', enabled: true },
+      { id: 'ops', folderPath: 'Work/Ops', type: 'project', projectKey: 'OPS', enabled: true },
+      { id: 'other', folderPath: 'Other', type: 'instance', instanceId: 'jira-2', enabled: true },
+    ],
+  } as PluginSettings;
+  const frontmatter: Record<string, string> = {
+    'Work/a.md': 'PROJ-1',
+    'Work/Sub/b.md': 'PROJ-2',
+    'Work/Ops/c.md': 'OPS-1',
+    'Other/d.md': 'PROJ-1',
+    'Work/e.md': '',
+  };
+  const app = {
+    vault: { getMarkdownFiles: () => Object.keys(frontmatter).map(path => ({ path, extension: 'md' }) as TFile) },
+    metadataCache: { getFileCache: (file: TFile) => ({ frontmatter: { issue_id: frontmatter[file.path] } }) },
+  } as unknown as App;
+  const resolver = new MappingResolver(settings);
+  const linkedNotes = new LinkedNotesIndex(app);
+  linkedNotes.rebuild();
+  const paths = (files: TFile[]) => files.map(file => file.path).sort();
+
+  it('should collect linked notes resolved to the same project mapping', () => {
+    const scope = new MappingScope(settings.mappings[1], resolver, linkedNotes);
+
+    expect(paths(scope.collectFiles(app))).toEqual(['Work/Sub/b.md', 'Work/a.md']);
+    expect(scope.getNotificationMessage({ total: 2, synced: 2, skipped: 0, failed: 0, changes: 1, conflicts: 0 })).toBe(
+      'Synced 2/2 PROJ notes with 1 change(s)',
+    );
+  });
+
+  it('should collect notes linked to matched issues on the queried instance', () => {
+    const scope = new JqlScope('jira-1', ['PROJ-1', 'OPS-1', 'OPS-2'], resolver, linkedNotes);
+
+    expect(paths(scope.collectFiles(app))).toEqual(['Work/Ops/c.md', 'Work/a.md']);
+  });
+});
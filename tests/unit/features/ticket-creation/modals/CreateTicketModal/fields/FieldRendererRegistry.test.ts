@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import type { JiraFieldMeta, JiraFieldSchema } from '../../../../../../../src/types';
+import {
+  createDefaultFieldRendererRegistry,
+  TextFieldRenderer,
+  NumberFieldRenderer,
+  UrlFieldRenderer,
+  DateFieldRenderer,
+  DateTimeFieldRenderer,
+  RichTextFieldRenderer,
+  SelectFieldRenderer,
+  MultiSelectFieldRenderer,
+  CheckboxFieldRenderer,
+  CascadingSelectFieldRenderer,
+  UserFieldRenderer,
+  MultiUserFieldRenderer,
+  ParentFieldRenderer,
+  LabelsFieldRenderer,
+} from '../../../../../../../src/features/ticket-creation/modals/CreateTicketModal/fields';
+
+const CUSTOM = 'com.atlassian.jira.plugin.system.customfieldtypes:';
+
+const field = (schema: JiraFieldSchema, allowedValues?: JiraFieldMeta['allowedValues']): JiraFieldMeta => ({
+  fieldId: 'customfield_10000',
+  name: 'Field',
+  required: false,
+  schema,
+  allowedValues,
+});
+
+const options = [
+  { id: '1', value: 'Red' },
+  { id: '2', value: 'Green' },
+  { id: '3', value: 'Blue' },
+];
+
+describe('FieldRendererRegistry', () => {
+  const registry = createDefaultFieldRendererRegistry();
+
+  it.each([
+    ['date picker', { type: 'date', custom: `${CUSTOM}datepicker` }, DateFieldRenderer],
+    ['date time', { type: 'datetime', custom: `${CUSTOM}datetime` }, DateTimeFieldRenderer],
+    ['due date', { type: 'date', system: 'duedate' }, DateFieldRenderer],
+    ['multi select', { type: 'array', items: 'option', custom: `${CUSTOM}multiselect` }, MultiSelectFieldRenderer],
+    ['checkboxes', { type: 'array', items: 'option', custom: `${CUSTOM}multicheckboxes` }, CheckboxFieldRenderer],
+    ['radio buttons', { type: 'option', custom: `${CUSTOM}radiobuttons` }, SelectFieldRenderer],
+    ['cascading select', { type: 'option-with-child', custom: `${CUSTOM}cascadingselect` }, CascadingSelectFieldRenderer],
+    ['user picker', { type: 'user', custom: `${CUSTOM}userpicker` }, UserFieldRenderer],
+    ['multi user picker', { type: 'array', items: 'user', custom: `${CUSTOM}multiuserpicker` }, MultiUserFieldRenderer],
+    ['labels', { type: 'array', items: 'string', system: 'labels' }, LabelsFieldRenderer],
+    ['url', { type: 'string', custom: `${CUSTOM}url` }, UrlFieldRenderer],
+    ['fix versions', { type: 'array', items: 'version', system: 'fixVersions' }, MultiSelectFieldRenderer],
+    ['components', { type: 'array', items: 'component', system: 'components' }, MultiSelectFieldRenderer],
+    ['rich text', { type: 'string', custom: `${CUSTOM}textarea` }, RichTextFieldRenderer],
+    ['parent', { type: 'issuelink', system: 'parent' }, ParentFieldRenderer],
+    ['number', { type: 'number', custom: `${CUSTOM}float` }, NumberFieldRenderer],
+    ['text', { type: 'string', custom: `${CUSTOM}textfield` }, TextFieldRenderer],
+  ])('should resolve %s fields', (_name, schema, renderer) => {
+    expect(registry.resolve(field(schema))).toBeInstanceOf(renderer);
+  });
+
+  it('should fall back to selects for unknown types with allowed values', () => {
+    expect(registry.resolve(field({ type: 'securitylevel' }, options))).toBeInstanceOf(SelectFieldRenderer);
+    expect(registry.resolve(field({ type: 'array', items: 'sd-customerorganization' }, options))).toBeInstanceOf(MultiSelectFieldRenderer);
+    expect(registry.resolve(field({ type: 'any' }))).toBeInstanceOf(TextFieldRenderer);
+  });
+
+  it('should let custom registrations override defaults', () => {
+    const renderer = new TextFieldRenderer();
+    const registry = createDefaultFieldRendererRegistry().register([`${CUSTOM}datepicker`], renderer);
+
+    expect(registry.resolve(field({ type: 'date', custom: `${CUSTOM}datepicker` }))).toBe(renderer);
+  });
+});
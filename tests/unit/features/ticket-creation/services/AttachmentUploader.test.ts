@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { App, TFile } from 'obsidian';
+import { JiraClient } from '../../../../../src/api/JiraClient';
+import { AttachmentUploader } from '../../../../../src/features/ticket-creation/services/AttachmentUploader';
+import { SandboxJira, SandboxTransport, createSandboxData, SANDBOX_BASE_URL } from '../../../../../src/features/sandbox';
+import type { JiraInstance, SandboxData } from '../../../../../src/types';
+
+vi.mock('obsidian', () => ({
+  requestUrl: vi.fn(),
+}));
+
+const createFile = (path: string, size: number): TFile =>
+  ({
+    path,
+    name: path.replace(/^.*\//, ''),
+    extension: path.split('.').pop(),
+    stat: { size },
+  }) as TFile;
+
+const instance: JiraInstance = {
+  id: 'sandbox-1',
+  name: 'Sandbox',
+  baseUrl: SANDBOX_BASE_URL,
+  email: '',
+  apiToken: '',
+  isDefault: true,
+  enabled: true,
+  createdAt: 0,
+  deploymentType: 'sandbox',
+};
+
+describe('AttachmentUploader', () => {
+  let data: SandboxData;
+  let client: JiraClient;
+  let uploader: AttachmentUploader;
+  let files: Record<string, TFile>;
+
+  beforeEach(() => {
+    data = createSandboxData();
+    client = new JiraClient(instance, { transport: new SandboxTransport(new SandboxJira(data)) });
+    files = {
+      'shot.png': createFile('assets/shot.png', 4),
+      'spec.pdf': createFile('spec.pdf', 4),
+      'huge.mov': createFile('huge.mov', 2048),
+      Other: createFile('Other.md', 4),
+    };
+    const app = {
+      metadataCache: { getFirstLinkpathDest: (linkpath: string) => files[linkpath] ?? null },
+      vault: { readBinary: async () => new Uint8Array([1, 2, 3, 4]).buffer },
+    } as unknown as App;
+    uploader = new AttachmentUploader(app, 1024);
+  });
+
+  it('should collect embedded vault files once and ignore notes and missing files', () => {
+    const embeds = uploader.collect('![[shot.png]] ![[shot.png|200]] ![[Other]] ![[missing.png]] [[spec.pdf]]', 'note.md');
+
+    expect(embeds.map(embed => embed.file.path)).toEqual(['assets/shot.png']);
+  });
+
+  it('should strip fragments from embedded link paths', () => {
+    const embeds = uploader.collect('![[shot.png#crop]] ![[shot.png]]', 'note.md');
+
+    expect(embeds.map(embed => embed.linkpath)).toEqual(['shot.png']);
+  });
+
+  it('should upload embeds and rewrite the description to reference them', async () => {
+    const { key } = await client.createIssue('DEMO', '10001', 'Bug with screenshot', 'See below');
+    const markdown = 'Steps to reproduce\n\n![[shot.png]]\n\nSpec: ![[spec.pdf]]';
+
+    const result = await uploader.upload(client, key, markdown, 'note.md');
+
+    expect(result.failed).toEqual([]);
+    expect(result.uploaded.map(a => [a.linkpath, a.filename, a.mimeType])).toEqual([
+      ['shot.png', 'shot.png', 'image/png'],
+      ['spec.pdf', 'spec.pdf', 'application/pdf'],
+    ]);
+
+    const issue = data.issues.find(i => i.key === key);
+    expect(issue?.fields.attachment).toHaveLength(2);
+    const description = issue?.fields.description as { content: { type: string; content?: { type: string }[] }[] };
+    expect(description.content.map(node => node.type)).toEqual(['paragraph', 'mediaSingle', 'paragraph']);
+    expect(description.content[2].content?.[1]).toMatchObject({ text: 'spec.pdf', marks: [{ type: 'link' }] });
+  });
+
+  it('should report files over the size limit and failed uploads', async () => {
+    const result = await uploader.upload(client, 'DEMO-999', '![[huge.mov]]\n![[shot.png]]', 'note.md');
+
+    expect(result.uploaded).toEqual([]);
+    expect(result.failed).toHaveLength(2);
+    expect(result.failed[0]).toEqual({ fileName: 'huge.mov', reason: 'exceeds the 1 KB limit (2 KB)' });
+    expect(result.failed[1].fileName).toBe('shot.png');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { App, TFile } from 'obsidian';
+import { JiraClient } from '../../../../../src/api/JiraClient';
+import type { JiraClientPool } from '../../../../../src/api/JiraClientPool';
+import type { JiraMetadataCache } from '../../../../../src/api/JiraMetadataCache';
+import { ChecklistSubtaskService } from '../../../../../src/features/ticket-creation/services/ChecklistSubtaskService';
+import { SandboxJira, SandboxTransport, createSandboxData, SANDBOX_BASE_URL } from '../../../../../src/features/sandbox';
+import type { JiraInstance, SandboxData } from '../../../../../src/types';
+
+vi.mock('obsidian', () => ({
+  requestUrl: vi.fn(),
+}));
+
+const instance: JiraInstance = {
+  id: 'sandbox-1',
+  name: 'Sandbox',
+  baseUrl: SANDBOX_BASE_URL,
+  email: '',
+  apiToken: '',
+  isDefault: true,
+  enabled: true,
+  createdAt: 0,
+  deploymentType: 'sandbox',
+};
+
+const file = { path: 'projects/demo/Release.md', name: 'Release.md', basename: 'Release' } as TFile;
+
+describe('ChecklistSubtaskService', () => {
+  let data: SandboxData;
+  let client: JiraClient;
+  let content: string;
+  let service: ChecklistSubtaskService;
+
+  beforeEach(() => {
+    data = createSandboxData();
+    client = new JiraClient(instance, { transport: new SandboxTransport(new SandboxJira(data)) });
+    content = ['# Release', '', '## Tasks', '', '- [ ] Write migration', '- [x] Already done', '- [ ] Update docs', ''].join('\n');
+
+    const app = {
+      vault: {
+        read: vi.fn(async () => content),
+        modify: vi.fn(async (_: TFile, next: string) => {
+          content = next;
+        }),
+      },
+    } as unknown as App;
+    const clientPool = { getClient: () => client } as unknown as JiraClientPool;
+    const metadataCache = {
+      getIssueTypes: (_: string, projectKey: string) => client.getIssueTypes(projectKey),
+    } as unknown as JiraMetadataCache;
+
+    service = new ChecklistSubtaskService(app, clientPool, metadataCache);
+  });
+
+  it('should create a subtask per unchecked item and link it inline', async () => {
+    const result = await service.createSubtasks(file, { instance, issueKey: 'DEMO-1' }, vi.fn());
+
+    expect(result.created.map(c => c.summary)).toEqual(['Write migration', 'Update docs']);
+    const [first, second] = result.created;
+    const subtask = await client.getIssue(first.issueKey, ['parent', 'issuetype']);
+    expect(subtask.fields.parent).toMatchObject({ key: 'DEMO-1' });
+    expect(subtask.fields.issuetype).toMatchObject({ subtask: true });
+
+    expect(content).toContain(`- [ ] Write migration [${first.issueKey}](${first.issueUrl})`);
+    expect(content).toContain('- [x] Already done\n');
+    expect(content).toContain(`- [ ] Update docs [${second.issueKey}](${second.issueUrl})`);
+  });
+
+  it('should skip items that already have a subtask', async () => {
+    await service.createSubtasks(file, { instance, issueKey: 'DEMO-1' }, vi.fn());
+    const result = await service.createSubtasks(file, { instance, issueKey: 'DEMO-1' }, vi.fn());
+
+    expect(result.created).toHaveLength(0);
+    expect(result.skipped.map(s => s.reason)).toEqual(['already linked', 'already linked']);
+  });
+
+  it('should transition checked subtasks to done', async () => {
+    const { created } = await service.createSubtasks(file, { instance, issueKey: 'DEMO-1' }, vi.fn());
+    content = content.replace('- [ ] Write migration', '- [x] Write migration');
+
+    const result = await service.completeCheckedSubtasks(file, instance);
+
+    expect(result).toEqual({ completed: [created[0].issueKey], unchanged: [], failed: [] });
+    const issue = await client.getIssue(created[0].issueKey, ['status']);
+    expect(issue.fields.status).toMatchObject({ name: 'Done' });
+
+    const again = await service.completeCheckedSubtasks(file, instance);
+    expect(again.unchanged).toEqual([created[0].issueKey]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import type { JiraFieldMeta } from '../../../../../src/types';
+import { CreateMetaValidator } from '../../../../../src/features/ticket-creation/services/CreateMetaValidator';
+
+const meta = (fieldId: string, overrides: Partial<JiraFieldMeta> = {}): JiraFieldMeta => ({
+  fieldId,
+  name: fieldId,
+  required: false,
+  schema: { type: 'string' },
+  ...overrides,
+});
+
+describe('CreateMetaValidator', () => {
+  const validator = new CreateMetaValidator();
+
+  it('should report missing required fields', () => {
+    const fields = [meta('Team', { required: true }), meta('Sprint'), meta('Components', { required: true, schema: { type: 'array' } })];
+
+    const issues = validator.validate(fields, { Components: [] });
+
+    expect(issues).toEqual([
+      { fieldId: 'Team', fieldName: 'Team', message: 'Team is required' },
+      { fieldId: 'Components', fieldName: 'Components', message: 'Components is required' },
+    ]);
+  });
+
+  it('should skip required fields that Jira fills with a default', () => {
+    expect(validator.validate([meta('Reporter', { required: true, hasDefaultValue: true })], {})).toEqual([]);
+  });
+
+  it('should check values against allowed values', () => {
+    const severity = meta('Severity', {
+      allowedValues: [
+        { id: '1', value: 'Major' },
+        { id: '2', value: 'Minor' },
+      ],
+    });
+
+    expect(validator.validate([severity], { Severity: { id: '2' } })).toEqual([]);
+    expect(validator.validate([severity], { Severity: { value: 'Major' } })).toEqual([]);
+    expect(validator.validate([severity], { Severity: [{ id: '1' }, { id: '9' }] })[0].message).toBe(
+      '"9" is not an allowed value for Severity',
+    );
+    expect(validator.validate([severity], { Severity: 'Trivial' })[0].message).toBe('"Trivial" is not an allowed value for Severity');
+  });
+
+  it('should check cascading child options', () => {
+    const area = meta('Area', {
+      schema: { type: 'option-with-child' },
+      allowedValues: [{ id: '10', value: 'Hardware', children: [{ id: '11', value: 'Laptop' }] }],
+    });
+
+    expect(validator.validate([area], { Area: { id: '10', child: { id: '11' } } })).toEqual([]);
+    expect(validator.validate([area], { Area: { id: '10', child: { id: '99' } } })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import type { JiraFieldMeta, JiraFieldSchema } from '../../../../../src/types';
+import {
+  createDefaultFieldValueParserRegistry,
+  TextValueParser,
+  RichTextValueParser,
+  NumberValueParser,
+  UrlValueParser,
+  DateValueParser,
+  DateTimeValueParser,
+  SelectValueParser,
+  MultiSelectValueParser,
+  CascadingSelectValueParser,
+  UserValueParser,
+  MultiUserValueParser,
+  ParentValueParser,
+  LabelsValueParser,
+} from '../../../../../src/features/ticket-creation/services/FieldValueParserRegistry';
+
+const CUSTOM = 'com.atlassian.jira.plugin.system.customfieldtypes:';
+
+const field = (schema: JiraFieldSchema, allowedValues?: JiraFieldMeta['allowedValues']): JiraFieldMeta => ({
+  fieldId: 'customfield_10000',
+  name: 'Field',
+  required: false,
+  schema,
+  allowedValues,
+});
+
+const options = [
+  { id: '1', value: 'Red' },
+  { id: '2', value: 'Green' },
+  { id: '3', value: 'Blue' },
+];
+
+describe('FieldValueParserRegistry', () => {
+  const registry = createDefaultFieldValueParserRegistry();
+
+  it.each([
+    ['date picker', { type: 'date', custom: `${CUSTOM}datepicker` }, DateValueParser],
+    ['checkboxes', { type: 'array', items: 'option', custom: `${CUSTOM}multicheckboxes` }, MultiSelectValueParser],
+    ['cascading select', { type: 'option-with-child', custom: `${CUSTOM}cascadingselect` }, CascadingSelectValueParser],
+    ['multi user picker', { type: 'array', items: 'user', custom: `${CUSTOM}multiuserpicker` }, MultiUserValueParser],
+    ['rich text', { type: 'string', custom: `${CUSTOM}textarea` }, RichTextValueParser],
+    ['components', { type: 'array', items: 'component', system: 'components' }, MultiSelectValueParser],
+  ])('should resolve %s fields', (_name, schema, parser) => {
+    expect(registry.resolve(field(schema))).toBeInstanceOf(parser);
+  });
+
+  it('should fall back to selects for unknown types with allowed values', () => {
+    expect(registry.resolve(field({ type: 'securitylevel' }, options))).toBeInstanceOf(SelectValueParser);
+    expect(registry.resolve(field({ type: 'array', items: 'sd-customerorganization' }, options))).toBeInstanceOf(MultiSelectValueParser);
+    expect(registry.resolve(field({ type: 'any' }))).toBeInstanceOf(TextValueParser);
+  });
+});
+
+describe('field value parsers', () => {
+  it('should serialize dates and date times', () => {
+    expect(new DateValueParser().parse('2026-03-14')).toBe('2026-03-14');
+    expect(new DateValueParser().parse(new Date('2026-03-14T10:00:00.000Z'))).toBe('2026-03-14');
+    expect(new DateValueParser().parse('next week')).toBeUndefined();
+    expect(new DateTimeValueParser().parse('2026-03-14T10:30:00.000Z')).toBe('2026-03-14T10:30:00.000+0000');
+  });
+
+  it('should match single and multiple options by name or id', () => {
+    const select = field({ type: 'option' }, options);
+    const multi = field({ type: 'array', items: 'option' }, options);
+
+    expect(new SelectValueParser().parse('green', select)).toEqual({ id: '2' });
+    expect(new SelectValueParser().parse('Purple', select)).toBeUndefined();
+    expect(new MultiSelectValueParser().parse(['Red', '3'], multi)).toEqual([{ id: '1' }, { id: '3' }]);
+    expect(new MultiSelectValueParser().parse('Red, Blue', multi)).toEqual([{ id: '1' }, { id: '3' }]);
+  });
+
+  it('should reject multiple options when any item does not match', () => {
+    const multi = field({ type: 'array', items: 'option' }, options);
+
+    expect(new MultiSelectValueParser().parse('Red, Purple', multi)).toBeUndefined();
+  });
+
+  it('should resolve cascading parent and child options', () => {
+    const cascading = field({ type: 'option-with-child' }, [
+      {
+        id: '10',
+        value: 'Hardware',
+        children: [
+          { id: '11', value: 'Laptop' },
+          { id: '12', value: 'Monitor' },
+        ],
+      },
+      { id: '20', value: 'Software' },
+    ]);
+    const parser = new CascadingSelectValueParser();
+
+    expect(parser.parse('Hardware > Monitor', cascading)).toEqual({ id: '10', child: { id: '12' } });
+    expect(parser.parse(['Hardware', 'Laptop'], cascading)).toEqual({ id: '10', child: { id: '11' } });
+    expect(parser.parse('Software', cascading)).toEqual({ id: '20' });
+    expect(parser.parse('Furniture', cascading)).toBeUndefined();
+  });
+
+  it('should parse users, labels, urls and parents', () => {
+    expect(new UserValueParser().parse('Sam Teammate')).toEqual({ displayName: 'Sam Teammate' });
+    expect(new MultiUserValueParser().parse(['Sam', 'Alex'])).toEqual([{ displayName: 'Sam' }, { displayName: 'Alex' }]);
+    expect(new LabelsValueParser().parse(['backend', 'needs review'])).toEqual(['backend', 'needs-review']);
+    expect(new UrlValueParser().parse('https://example.com/spec')).toBe('https://example.com/spec');
+    expect(new UrlValueParser().parse('not a url')).toBeUndefined();
+    expect(new ParentValueParser().parse('DEMO-12')).toEqual({ key: 'DEMO-12' });
+    expect(new NumberValueParser().parse('3.5')).toBe(3.5);
+  });
+
+  it('should format rich text when a formatter is available', () => {
+    const parser = new RichTextValueParser();
+    const context = { formatRichText: (markdown: string) => ({ type: 'doc', markdown }) };
+    expect(parser.parse(' Some **notes** ', field({ type: 'string' }), context)).toEqual({ type: 'doc', markdown: 'Some **notes**' });
+    expect(parser.parse('Some notes', field({ type: 'string' }))).toBe('Some notes');
+    expect(parser.parse('  ', field({ type: 'string' }), context)).toBeUndefined();
+  });
+
+  it('should reject numbers with trailing text or no digits', () => {
+    const parser = new NumberValueParser();
+    expect(parser.parse(' 12 ')).toBe(12);
+    expect(parser.parse('12abc')).toBeUndefined();
+    expect(parser.parse('')).toBeUndefined();
+    expect(parser.parse('   ')).toBeUndefined();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { App, TFile } from 'obsidian';
+import { JiraClient } from '../../../../../src/api/JiraClient';
+import type { JiraClientPool } from '../../../../../src/api/JiraClientPool';
+import type { JiraMetadataCache } from '../../../../../src/api/JiraMetadataCache';
+import { IssueHierarchyService } from '../../../../../src/features/ticket-creation/services/IssueHierarchyService';
+import { SandboxJira, SandboxTransport, createSandboxData, SANDBOX_BASE_URL } from '../../../../../src/features/sandbox';
+import type { JiraInstance, SandboxData } from '../../../../../src/types';
+
+vi.mock('obsidian', () => ({
+  requestUrl: vi.fn(),
+}));
+
+const instance: JiraInstance = {
+  id: 'sandbox-1',
+  name: 'Sandbox',
+  baseUrl: SANDBOX_BASE_URL,
+  email: '',
+  apiToken: '',
+  isDefault: true,
+  enabled: true,
+  createdAt: 0,
+  deploymentType: 'sandbox',
+};
+
+const file = { path: 'projects/demo/Plan.md', name: 'Plan.md', basename: 'Plan' } as TFile;
+const target = { instance, projectKey: 'DEMO' };
+
+describe('IssueHierarchyService', () => {
+  let data: SandboxData;
+  let client: JiraClient;
+  let content: string;
+  let service: IssueHierarchyService;
+
+  beforeEach(() => {
+    data = createSandboxData();
+    client = new JiraClient(instance, { transport: new SandboxTransport(new SandboxJira(data)) });
+    content = ['# Checkout revamp', '', '## Payment form', '- Validate card number', '', '## Receipt email', ''].join('\n');
+
+    const app = {
+      vault: {
+        read: vi.fn(async () => content),
+        modify: vi.fn(async (_: TFile, next: string) => {
+          content = next;
+        }),
+      },
+    } as unknown as App;
+    const clientPool = { getClient: () => client } as unknown as JiraClientPool;
+    const metadataCache = {
+      getIssueTypes: (_: string, projectKey: string) => client.getIssueTypes(projectKey),
+    } as unknown as JiraMetadataCache;
+
+    service = new IssueHierarchyService(app, clientPool, metadataCache);
+  });
+
+  it('should default each level to the matching issue type', async () => {
+    const { nodes } = await service.buildPlan(file, target);
+
+    const [epic] = nodes;
+    expect(epic.issueTypeId).toBe('10004');
+    expect(epic.children.map(story => story.issueTypeId)).toEqual(['10002', '10002']);
+    expect(epic.children[0].children[0]).toMatchObject({ summary: 'Validate card number', issueTypeId: '10005' });
+  });
+
+  it('should create issues top-down with parent links and annotate the note', async () => {
+    const { nodes } = await service.buildPlan(file, target);
+    nodes[0].children[1].summary = 'Send receipt email';
+
+    const result = await service.create(file, nodes, target, vi.fn());
+
+    expect(result.created.map(c => c.summary)).toEqual(['Checkout revamp', 'Payment form', 'Send receipt email', 'Validate card number']);
+    const [epic, story, , subtask] = result.created;
+    expect((await client.getIssue(story.issueKey, ['parent'])).fields.parent).toMatchObject({ key: epic.issueKey });
+    expect((await client.getIssue(subtask.issueKey, ['parent'])).fields.parent).toMatchObject({ key: story.issueKey });
+
+    expect(content).toContain(`# Checkout revamp [${epic.issueKey}](${epic.issueUrl})`);
+    expect(content).toContain(`## Payment form [${story.issueKey}](${story.issueUrl})`);
+    expect(content).toContain(`- Validate card number [${subtask.issueKey}](${subtask.issueUrl})`);
+  });
+
+  it('should reuse annotated headings as parents when run again', async () => {
+    const first = await service.create(file, (await service.buildPlan(file, target)).nodes, target, vi.fn());
+    content += '## Order history\n';
+
+    const { nodes } = await service.buildPlan(file, target);
+    const result = await service.create(file, nodes, target, vi.fn());
+
+    expect(result.skipped).toHaveLength(4);
+    expect(result.created.map(c => c.summary)).toEqual(['Order history']);
+    const created = await client.getIssue(result.created[0].issueKey, ['parent']);
+    expect(created.fields.parent).toMatchObject({ key: first.created[0].issueKey });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import type { TFile } from 'obsidian';
+import type { TicketTemplate } from '../../../../../src/types';
+import { TicketTemplateRenderer } from '../../../../../src/features/ticket-creation/services/TicketTemplateRenderer';
+
+const file = { basename: 'Login fails', parent: { path: 'projects/web' } } as unknown as TFile;
+
+describe('TicketTemplateRenderer', () => {
+  const renderer = new TicketTemplateRenderer(() => new Date(2024, 2, 5, 14, 30));
+  const variables = renderer.createVariables(file, {
+    summary: 'Login fails on Safari',
+    description: 'Users cannot log in.',
+    selection: 'console error',
+    frontmatter: { sprint: 'Sprint 7', tags: ['auth', 'safari'] },
+  });
+
+  it('should derive note variables from the file and current date', () => {
+    expect(variables).toMatchObject({ title: 'Login fails', folder: 'projects/web', date: '2024-03-05' });
+  });
+
+  it('should substitute built-in and frontmatter variables', () => {
+    const text = renderer.render('{{title}} in {{ folder }} on {{date}} ({{frontmatter.sprint}}, {{frontmatter.tags}})', variables);
+
+    expect(text).toBe('Login fails in projects/web on 2024-03-05 (Sprint 7, auth, safari)');
+  });
+
+  it('should render unknown variables as empty text', () => {
+    expect(renderer.render('[{{unknown}}][{{frontmatter.missing}}]', variables)).toBe('[][]');
+  });
+
+  it('should use template values as defaults that note values override', () => {
+    const template: TicketTemplate = {
+      id: 't1',
+      name: 'Bug report',
+      issueType: 'Bug',
+      priority: 'High',
+      labels: ['triage'],
+      components: ['Web'],
+      customFields: { customfield_10020: '{{frontmatter.sprint}}', customfield_10030: 'Platform' },
+      description: '## Steps\n\n{{description}}\n\n## Notes\n\n{{selection}}',
+    };
+
+    const applied = renderer.apply(
+      template,
+      { priority: 'Low', labels: ['triage', 'login'], customFields: { customfield_10030: 'Mobile' } },
+      variables,
+    );
+
+    expect(applied.frontmatterValues).toEqual({
+      issueType: 'Bug',
+      priority: 'Low',
+      labels: ['triage', 'login'],
+      customFields: { customfield_10020: 'Sprint 7', customfield_10030: 'Mobile', components: ['Web'] },
+    });
+    expect(applied.description).toBe('## Steps\n\nUsers cannot log in.\n\n## Notes\n\nconsole error');
+  });
+
+  it('should keep the note description when the template has no skeleton', () => {
+    const applied = renderer.apply({ id: 't2', name: 'Task' }, {}, variables);
+
+    expect(applied.description).toBe('Users cannot log in.');
+    expect(applied.frontmatterValues.labels).toBeUndefined();
+  });
+});
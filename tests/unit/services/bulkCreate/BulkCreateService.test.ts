@@ -1,19 +1,25 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import type { TFile, TFolder, App } from 'obsidian';
-import type { PluginSettings, JiraInstance } from '../../../../src/types';
+import type { PluginSettings, JiraInstance, JiraFieldMeta } from '../../../../src/types';
 import type { BulkCreateProgress } from '../../../../src/features/ticket-creation';
 
 vi.mock('obsidian', () => ({
   requestUrl: vi.fn(),
 }));
 
+const createIssue = vi.fn();
+const formatDescription = vi.fn((markdown: string) => ({ type: 'doc', version: 1, content: [{ type: 'text', text: markdown }] }));
+let fieldsMeta: JiraFieldMeta[] = [];
+
 vi.mock('../../../../src/features/ticket-creation/services/BulkCreateCache', () => ({
   BulkCreateCache: vi.fn().mockImplementation(() => ({
     getClient: vi.fn().mockReturnValue({
       getIssueUrl: vi.fn().mockReturnValue('https://jira.test/browse/TEST-1'),
       searchIssuesBySummary: vi.fn().mockResolvedValue([]),
-      createIssue: vi.fn().mockResolvedValue({ key: 'TEST-1', id: '1', self: '' }),
+      createIssue,
+      formatDescription,
     }),
+    getFieldsMeta: vi.fn().mockImplementation(async () => fieldsMeta),
     getIssueTypes: vi.fn().mockResolvedValue([{ id: '10001', name: 'Story' }]),
     getPriorities: vi.fn().mockResolvedValue([{ id: '3', name: 'Medium' }]),
     getAssignableUsers: vi.fn().mockResolvedValue([]),
@@ -24,6 +30,9 @@ vi.mock('../../../../src/features/ticket-creation/services/BulkCreateCache', ()
 }));
 
 import { BulkCreateService } from '../../../../src/features/ticket-creation/services/BulkCreateService';
+import { JiraClientPool } from '../../../../src/api/JiraClientPool';
+import type { JiraMetadataCache } from '../../../../src/api/JiraMetadataCache';
+import { DEFAULT_PROJECT_CONFIG } from '../../../../src/constants/defaults';
 
 const createMockInstance = (): JiraInstance => ({
   id: 'instance-1',
@@ -94,6 +103,8 @@ describe('BulkCreateService', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    createIssue.mockResolvedValue({ key: 'TEST-1', id: '1', self: '' });
+    fieldsMeta = [];
 
     mockApp = {
       vault: {
@@ -118,7 +129,7 @@ describe('BulkCreateService', () => {
       const file = createMockFile('note.md', 'unmapped/note.md');
       const folder = createMockFolder('unmapped', [file]);
 
-      const service = new BulkCreateService(mockApp, mockSettings);
+      const service = new BulkCreateService(mockApp, mockSettings, new JiraClientPool(mockSettings), {} as JiraMetadataCache);
       const progressCallback = vi.fn();
 
       const result = await service.execute(folder, progressCallback);
@@ -134,7 +145,7 @@ describe('BulkCreateService', () => {
 
       (mockApp.vault.read as ReturnType<typeof vi.fn>).mockResolvedValue('No summary here');
 
-      const service = new BulkCreateService(mockApp, mockSettings);
+      const service = new BulkCreateService(mockApp, mockSettings, new JiraClientPool(mockSettings), {} as JiraMetadataCache);
       const progressCallback = vi.fn();
 
       const result = await service.execute(folder, progressCallback);
@@ -147,7 +158,7 @@ describe('BulkCreateService', () => {
       const file = createMockFile('note.md', 'projects/test/note.md');
       const folder = createMockFolder('projects/test', [file]);
 
-      const service = new BulkCreateService(mockApp, mockSettings);
+      const service = new BulkCreateService(mockApp, mockSettings, new JiraClientPool(mockSettings), {} as JiraMetadataCache);
       const progressCallback = vi.fn();
 
       await service.execute(folder, progressCallback);
@@ -163,7 +174,7 @@ describe('BulkCreateService', () => {
       const subfolder = createMockFolder('projects/test/subfolder', [file2]);
       const folder = createMockFolder('projects/test', [file1, subfolder]);
 
-      const service = new BulkCreateService(mockApp, mockSettings);
+      const service = new BulkCreateService(mockApp, mockSettings, new JiraClientPool(mockSettings), {} as JiraMetadataCache);
       const progressCallback = vi.fn();
 
       const result = await service.execute(folder, progressCallback);
@@ -175,7 +186,7 @@ describe('BulkCreateService', () => {
       const files = Array.from({ length: 10 }, (_, i) => createMockFile(`note${i}.md`, `projects/test/note${i}.md`));
       const folder = createMockFolder('projects/test', files);
 
-      const service = new BulkCreateService(mockApp, mockSettings);
+      const service = new BulkCreateService(mockApp, mockSettings, new JiraClientPool(mockSettings), {} as JiraMetadataCache);
 
       let callCount = 0;
       const progressCallback = vi.fn().mockImplementation(() => {
@@ -189,5 +200,134 @@ describe('BulkCreateService', () => {
 
       expect(result.created.length + result.skipped.length).toBeLessThan(10);
     });
+
+    it('should report oversized attachments without failing the note', async () => {
+      const file = createMockFile('note.md', 'projects/test/note.md');
+      const folder = createMockFolder('projects/test', [file]);
+      const screenshot = { name: 'huge.png', path: 'huge.png', extension: 'png', stat: { size: 50 * 1024 * 1024 } };
+
+      (mockApp.vault.read as ReturnType<typeof vi.fn>).mockResolvedValue(
+        '## Summary\n\n```\nTest Summary\n```\n\n## Description\n\nBroken layout\n\n![[huge.png]]',
+      );
+      (mockApp.metadataCache as unknown as Record<string, unknown>).getFirstLinkpathDest = vi.fn().mockReturnValue(screenshot);
+
+      const service = new BulkCreateService(mockApp, mockSettings, new JiraClientPool(mockSettings), {} as JiraMetadataCache);
+      const result = await service.execute(folder, vi.fn());
+
+      expect(result.created).toHaveLength(1);
+      expect(result.attachmentFailures).toEqual([
+        { file, issueKey: 'TEST-1', fileName: 'huge.png', reason: 'exceeds the 10 MB limit (50 MB)' },
+      ]);
+    });
+
+    describe('pre-flight validation', () => {
+      const team: JiraFieldMeta = {
+        fieldId: 'customfield_10100',
+        name: 'Team',
+        required: true,
+        schema: { type: 'option', custom: 'com.atlassian.jira.plugin.system.customfieldtypes:select' },
+        allowedValues: [
+          { id: '1', value: 'Platform' },
+          { id: '2', value: 'Mobile' },
+        ],
+      };
+
+      const runWithField = async (field: JiraFieldMeta, value?: string) => {
+        mockSettings.mappings[1].projectConfig = {
+          ...DEFAULT_PROJECT_CONFIG,
+          frontmatterMappings: [{ frontmatterKey: 'team', jiraFieldType: 'custom', customFieldId: field.fieldId }],
+        };
+        vi.mocked(mockApp.metadataCache.getFileCache).mockReturnValue({ frontmatter: value ? { team: value } : {} });
+        fieldsMeta = [field];
+
+        const file = createMockFile('note.md', 'projects/test/note.md');
+        const service = new BulkCreateService(mockApp, mockSettings, new JiraClientPool(mockSettings), {} as JiraMetadataCache);
+        return { file, result: await service.execute(createMockFolder('projects/test', [file]), vi.fn()) };
+      };
+
+      const runWithTeam = (value?: string) => runWithField(team, value);
+
+      it('should report notes missing required fields without calling the API', async () => {
+        const { file, result } = await runWithTeam();
+
+        expect(result.preflightFailures).toEqual([{ file, issues: ['Team is required'] }]);
+        expect(result.created).toHaveLength(0);
+        expect(createIssue).not.toHaveBeenCalled();
+      });
+
+      it('should report values outside the allowed values', async () => {
+        const { result } = await runWithTeam('Web');
+
+        expect(result.preflightFailures[0].issues).toEqual(['"Web" is not a valid value for Team']);
+        expect(createIssue).not.toHaveBeenCalled();
+      });
+
+      it('should send allowed values in the Jira option shape', async () => {
+        const { result } = await runWithTeam('mobile');
+
+        expect(result.created).toHaveLength(1);
+        expect(createIssue).toHaveBeenCalledWith(
+          'TEST',
+          '10001',
+          'Test Summary',
+          'Test description',
+          undefined,
+          { customfield_10100: { id: '2' } },
+          'projects/test/note.md',
+        );
+      });
+
+      it('should format required textarea fields as rich text', async () => {
+        const notes: JiraFieldMeta = {
+          fieldId: 'customfield_10200',
+          name: 'Team notes',
+          required: true,
+          schema: { type: 'string', custom: 'com.atlassian.jira.plugin.system.customfieldtypes:textarea' },
+        };
+        const { result } = await runWithField(notes, 'Owned by **platform**');
+
+        expect(result.preflightFailures).toEqual([]);
+        expect(formatDescription).toHaveBeenCalledWith('Owned by **platform**', [], 'projects/test/note.md');
+        expect(createIssue).toHaveBeenCalledWith(
+          'TEST',
+          '10001',
+          'Test Summary',
+          'Test description',
+          undefined,
+          { customfield_10200: { type: 'doc', version: 1, content: [{ type: 'text', text: 'Owned by **platform**' }] } },
+          'projects/test/note.md',
+        );
+      });
+    });
+
+    it('should apply the chosen template to each note', async () => {
+      mockSettings.mappings[1].projectConfig = {
+        ...DEFAULT_PROJECT_CONFIG,
+        templates: [
+          {
+            id: 'template-1',
+            name: 'Bug report',
+            issueType: 'Bug',
+            labels: ['triage'],
+            description: '## Steps\n\n{{description}}\n\nFrom {{title}}',
+          },
+        ],
+      };
+
+      const file = createMockFile('note.md', 'projects/test/note.md');
+      const service = new BulkCreateService(mockApp, mockSettings, new JiraClientPool(mockSettings), {} as JiraMetadataCache);
+      const result = await service.execute(createMockFolder('projects/test', [file]), vi.fn(), { templateName: 'Bug report' });
+
+      expect(result.created).toHaveLength(1);
+      expect(createIssue).toHaveBeenCalledWith(
+        'TEST',
+        '10001',
+        'Test Summary',
+        '## Steps\n\nTest description\n\nFrom note',
+        undefined,
+        { labels: ['triage'] },
+        'projects/test/note.md',
+      );
+    });
   });
 });
@@ -1,8 +1,11 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { TFile, TFolder, App } from 'obsidian';
 import type { PluginSettings, JiraInstance } from '../../../../src/types';
 import type { BulkStatusChangeProgress } from '../../../../src/features/status-change';
 import { BulkStatusChangeService } from '../../../../src/features/status-change/services/BulkStatusChangeService';
+import { JiraClientPool } from '../../../../src/api/JiraClientPool';
+import { setTransportResolver } from '../../../../src/api/transport';
+import { SandboxJira, SandboxTransport, createSandboxData } from '../../../../src/features/sandbox';
 
 vi.mock('obsidian', () => ({
   requestUrl: vi.fn(),
@@ -95,7 +98,7 @@ describe('BulkStatusChangeService', () => {
       const file = createMockFile('note.md', 'unmapped/note.md');
       const folder = createMockFolder('unmapped', [file]);
 
-      const service = new BulkStatusChangeService(mockApp, mockSettings, 'instance-1');
+      const service = new BulkStatusChangeService(mockApp, mockSettings, 'instance-1', new JiraClientPool(mockSettings));
       const progressCallback = vi.fn();
 
       const result = await service.execute(
@@ -121,7 +124,7 @@ describe('BulkStatusChangeService', () => {
       });
       (mockApp.vault.read as ReturnType<typeof vi.fn>).mockResolvedValue('No summary here');
 
-      const service = new BulkStatusChangeService(mockApp, mockSettings, 'instance-1');
+      const service = new BulkStatusChangeService(mockApp, mockSettings, 'instance-1', new JiraClientPool(mockSettings));
       const progressCallback = vi.fn();
 
       const result = await service.execute(
@@ -142,7 +145,7 @@ describe('BulkStatusChangeService', () => {
       const file = createMockFile('note.md', 'projects/test/note.md');
       const folder = createMockFolder('projects/test', [file]);
 
-      const service = new BulkStatusChangeService(mockApp, mockSettings, 'instance-1');
+      const service = new BulkStatusChangeService(mockApp, mockSettings, 'instance-1', new JiraClientPool(mockSettings));
       const progressCallback = vi.fn();
 
       await service.execute(
@@ -165,7 +168,7 @@ describe('BulkStatusChangeService', () => {
       const subfolder = createMockFolder('projects/test/subfolder', [file2]);
       const folder = createMockFolder('projects/test', [file1, subfolder]);
 
-      const service = new BulkStatusChangeService(mockApp, mockSettings, 'instance-1');
+      const service = new BulkStatusChangeService(mockApp, mockSettings, 'instance-1', new JiraClientPool(mockSettings));
       const progressCallback = vi.fn();
 
       const result = await service.execute(
@@ -184,7 +187,7 @@ describe('BulkStatusChangeService', () => {
       const files = Array.from({ length: 10 }, (_, i) => createMockFile(`note${i}.md`, `projects/test/note${i}.md`));
       const folder = createMockFolder('projects/test', files);
 
-      const service = new BulkStatusChangeService(mockApp, mockSettings, 'instance-1');
+      const service = new BulkStatusChangeService(mockApp, mockSettings, 'instance-1', new JiraClientPool(mockSettings));
 
       let callCount = 0;
       const progressCallback = vi.fn().mockImplementation(() => {
@@ -206,4 +209,59 @@ describe('BulkStatusChangeService', () => {
       expect(result.changed.length + result.skipped.length).toBeLessThan(10);
     });
   });
+
+  describe('against a sandbox instance', () => {
+    let sandbox: SandboxJira;
+
+    beforeEach(() => {
+      sandbox = new SandboxJira(createSandboxData());
+      setTransportResolver(instance => (instance.deploymentType === 'sandbox' ? new SandboxTransport(sandbox) : undefined));
+
+      mockSettings.instances = [{ ...createMockInstance(), deploymentType: 'sandbox' }];
+      mockSettings.mappings = [
+        { ...mockSettings.mappings[0], id: 'mapping-0', type: 'instance', projectKey: undefined },
+        { ...mockSettings.mappings[0], projectKey: 'DEMO' },
+      ];
+    });
+
+    afterEach(() => {
+      setTransportResolver(null);
+    });
+
+    it('should reopen linked issues and move them into a sprint', async () => {
+      const file = createMockFile('note.md', 'projects/test/note.md');
+      const folder = createMockFolder('projects/test', [file]);
+      (mockApp.metadataCache.getFileCache as ReturnType<typeof vi.fn>).mockReturnValue({
+        frontmatter: { issue_id: 'DEMO-3' },
+      });
+
+      const service = new BulkStatusChangeService(mockApp, mockSettings, 'instance-1', new JiraClientPool(mockSettings));
+      const result = await service.execute(
+        folder,
+        { transitionId: '11', transitionName: 'To Do', agileAction: 'sprint', sprintId: 2 },
+        vi.fn(),
+      );
+
+      const issue = sandbox.getData().issues.find(i => i.key === 'DEMO-3');
+      expect(result.changed).toEqual([expect.objectContaining({ issueKey: 'DEMO-3', oldStatus: 'Done', newStatus: 'To Do' })]);
+      expect((issue?.fields.status as { name: string }).name).toBe('To Do');
+      expect(issue?.sprintId).toBe(2);
+    });
+
+    it('should resolve issues by summary and report unknown keys as failures', async () => {
+      const linked = createMockFile('linked.md', 'projects/test/linked.md');
+      const missing = createMockFile('missing.md', 'projects/test/missing.md');
+      const folder = createMockFolder('projects/test', [linked, missing]);
+      (mockApp.metadataCache.getFileCache as ReturnType<typeof vi.fn>).mockImplementation((file: TFile) => ({
+        frontmatter: file === missing ? { issue_id: 'DEMO-404' } : {},
+      }));
+      (mockApp.vault.read as ReturnType<typeof vi.fn>).mockResolvedValue('## Summary\n\n```\nExplore the sandbox\n```');
+
+      const service = new BulkStatusChangeService(mockApp, mockSettings, 'instance-1', new JiraClientPool(mockSettings));
+      const result = await service.execute(folder, { transitionId: '41', transitionName: 'Done' }, vi.fn());
+
+      expect(result.changed.map(c => c.issueKey)).toEqual(['DEMO-1']);
+      expect(result.failed.map(f => f.file)).toEqual([missing]);
+    });
+  });
 });
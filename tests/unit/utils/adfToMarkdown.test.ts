@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { adfToMarkdown, isAdfDocument } from '../../../src/utils/adfToMarkdown';
+import { markdownToAdf } from '../../../src/utils/markdownToAdf';
+import type { AdfNode } from '../../../src/utils/types';
+
+const doc = (...content: AdfNode[]): AdfNode => ({ type: 'doc', content });
+const paragraph = (...content: AdfNode[]): AdfNode => ({ type: 'paragraph', content });
+const text = (value: string, ...marks: string[]): AdfNode => ({ type: 'text', text: value, marks: marks.map(type => ({ type })) });
+const item = (...content: AdfNode[]): AdfNode => ({ type: 'listItem', content });
+
+describe('adfToMarkdown', () => {
+  it('should convert headings and paragraphs with marks', () => {
+    const result = adfToMarkdown(
+      doc(
+        { type: 'heading', attrs: { level: 2 }, content: [text('Context')] },
+        paragraph(
+          text('Use '),
+          text('bold ', 'strong'),
+          text('gone', 'strike'),
+          text(', '),
+          text('code', 'code', 'strong'),
+          { type: 'hardBreak' },
+          { type: 'text', text: 'docs', marks: [{ type: 'link', attrs: { href: 'https://example.com' } }] },
+        ),
+      ),
+    );
+
+    expect(result).toBe('## Context\n\nUse **bold** ~~gone~~, **`code`**\n[docs](https://example.com)');
+  });
+
+  it('should convert nested lists and task lists', () => {
+    const result = adfToMarkdown(
+      doc(
+        {
+          type: 'bulletList',
+          content: [
+            item(paragraph(text('one')), { type: 'orderedList', content: [item(paragraph(text('nested')))] }),
+            item(paragraph(text('two'))),
+          ],
+        },
+        {
+          type: 'taskList',
+          content: [
+            { type: 'taskItem', attrs: { state: 'DONE' }, content: [text('shipped')] },
+            { type: 'taskItem', attrs: { state: 'TODO' }, content: [text('review')] },
+            { type: 'taskList', content: [{ type: 'taskItem', attrs: { state: 'TODO' }, content: [text('sub')] }] },
+          ],
+        },
+      ),
+    );
+
+    expect(result).toBe('- one\n  1. nested\n- two\n\n- [x] shipped\n- [ ] review\n  - [ ] sub');
+  });
+
+  it('should convert panels to callouts and quotes', () => {
+    const result = adfToMarkdown(
+      doc(
+        { type: 'panel', attrs: { panelType: 'warning' }, content: [paragraph(text('Careful')), paragraph(text('Really'))] },
+        { type: 'blockquote', content: [paragraph(text('Quoted'))] },
+        { type: 'rule' },
+      ),
+    );
+
+    expect(result).toBe('> [!warning]\n> Careful\n>\n> Really\n\n> Quoted\n\n---');
+  });
+
+  it('should convert tables with inline content', () => {
+    const cell = (type: string, value: string): AdfNode => ({ type, content: [paragraph(text(value))] });
+    const result = adfToMarkdown(
+      doc({
+        type: 'table',
+        content: [
+          { type: 'tableRow', content: [cell('tableHeader', 'Name'), cell('tableHeader', 'Value')] },
+          { type: 'tableRow', content: [cell('tableCell', 'a|b'), cell('tableCell', '1')] },
+        ],
+      }),
+    );
+
+    expect(result).toBe('| Name | Value |\n| --- | --- |\n| a\\|b | 1 |');
+  });
+
+  it('should render mentions, emoji, cards, status and media placeholders', () => {
+    const result = adfToMarkdown(
+      doc(
+        paragraph(
+          { type: 'mention', attrs: { id: 'abc', text: '@Sam' } },
+          text(' '),
+          { type: 'emoji', attrs: { shortName: ':smile:', text: '😄' } },
+          text(' '),
+          { type: 'inlineCard', attrs: { url: 'https://jira.example.com/browse/PROJ-1' } },
+          text(' '),
+          { type: 'status', attrs: { text: 'IN PROGRESS' } },
+        ),
+        { type: 'mediaSingle', content: [{ type: 'media', attrs: { id: 'file-1', type: 'file', alt: 'screenshot.png' } }] },
+      ),
+    );
+
+    expect(result).toBe('@Sam 😄 <https://jira.example.com/browse/PROJ-1> `IN PROGRESS`\n\n[media: screenshot.png]');
+  });
+
+  it('should keep code block languages and content', () => {
+    const result = adfToMarkdown(doc({ type: 'codeBlock', attrs: { language: 'ts' }, content: [text('const a = 1;\nconst b = 2;')] }));
+
+    expect(result).toBe('```ts\nconst a = 1;\nconst b = 2;\n```');
+  });
+
+  it('should detect ADF documents', () => {
+    expect(isAdfDocument(doc(paragraph(text('x'))))).toBe(true);
+    expect(isAdfDocument({ type: 'doc' })).toBe(false);
+    expect(isAdfDocument('doc')).toBe(false);
+  });
+
+  describe('round trip with markdownToAdf', () => {
+    it.each([
+      ['headings', '# Title\n\n### Details'],
+      ['inline marks', 'Some **bold**, *italic* and `code` with a [link](https://example.com)'],
+      ['bullet lists', '- one\n- **two**\n- three'],
+      ['ordered lists', '1. first\n2. second'],
+      ['code blocks', '```js\nconsole.log(1);\n```'],
+      ['tables', '| A | B |\n| --- | --- |\n| 1 | 2 |'],
+      ['strikethrough', 'Now ~~gone~~ for good'],
+      ['nested lists', '- one\n  - nested\n    1. deep\n- two'],
+      ['task lists', '- [ ] todo\n- [x] done\n  - [ ] nested'],
+      ['blockquotes', '> quoted **text**\n>\n> - item'],
+      ['rules', 'above\n\n---\n\nbelow'],
+      ['multi-line paragraphs', 'first line\nsecond line'],
+      ['callouts', '> [!warning]\n> Mind the gap'],
+    ])('should preserve %s', (_name, markdown) => {
+      expect(adfToMarkdown(markdownToAdf(markdown))).toBe(markdown);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { parseChecklist } from '../../../src/utils/checklist';
+import { appendIssueLinks } from '../../../src/utils/issueLinks';
+
+describe('checklist', () => {
+  const note = [
+    '# Release 1.2',
+    '',
+    '- [ ] Not a task, outside the section',
+    '',
+    '## Tasks',
+    '',
+    '- [ ] Write migration',
+    '- [x] Update changelog [DEMO-7](https://jira.test/browse/DEMO-7)',
+    '  - [ ] Review copy',
+    '- plain bullet',
+    '',
+    '```',
+    '- [ ] Inside a code block',
+    '```',
+    '',
+    '### Follow-ups',
+    '',
+    '- [ ] Announce release',
+    '',
+    '## Notes',
+    '',
+    '- [ ] Outside again',
+  ].join('\n');
+
+  it('should collect checklist items under the Tasks heading and its subsections', () => {
+    const items = parseChecklist(note);
+
+    expect(items.map(item => [item.text, item.checked, item.issueKey])).toEqual([
+      ['Write migration', false, undefined],
+      ['Update changelog', true, 'DEMO-7'],
+      ['Review copy', false, undefined],
+      ['Announce release', false, undefined],
+    ]);
+    expect(items[0].line).toBe(6);
+  });
+
+  it('should return nothing when the note has no Tasks heading', () => {
+    expect(parseChecklist('# Notes\n\n- [ ] Something')).toEqual([]);
+  });
+
+  it('should append issue links to the matching lines', () => {
+    const [first, , third] = parseChecklist(note);
+    const edited = `Intro line\n${note}`;
+
+    const result = appendIssueLinks(edited, [
+      { item: first, issueKey: 'DEMO-8', issueUrl: 'https://jira.test/browse/DEMO-8' },
+      { item: third, issueKey: 'DEMO-9', issueUrl: 'https://jira.test/browse/DEMO-9' },
+    ]);
+
+    expect(result).toContain('\n- [ ] Write migration [DEMO-8](https://jira.test/browse/DEMO-8)\n');
+    expect(result).toContain('\n  - [ ] Review copy [DEMO-9](https://jira.test/browse/DEMO-9)\n');
+    expect(parseChecklist(result).map(item => item.issueKey)).toEqual(['DEMO-8', 'DEMO-7', 'DEMO-9', undefined]);
+  });
+});
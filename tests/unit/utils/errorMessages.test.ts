@@ -4,8 +4,17 @@ import {
   formatIssueNotFoundError,
   formatProjectNotFoundError,
   formatPermissionError,
+  formatValidationError,
   NOTICE_DURATION,
 } from '../../../src/utils/errorMessages';
+import {
+  JiraAuthenticationError,
+  JiraNetworkError,
+  JiraNotFoundError,
+  JiraTimeoutError,
+  JiraValidationError,
+  createJiraApiError,
+} from '../../../src/api/errors';
 
 describe('errorMessages', () => {
   describe('mapJiraError', () => {
@@ -117,6 +126,47 @@ describe('errorMessages', () => {
     });
   });
 
+  describe('mapJiraError with typed errors', () => {
+    it('should map errors by kind regardless of message', () => {
+      const error = new JiraAuthenticationError('Something odd', { path: '/rest/api/3/myself', status: 401 });
+      expect(mapJiraError(error)).toBe('Invalid credentials. Check your API token in settings.');
+    });
+
+    it('should map not found errors', () => {
+      const error = new JiraNotFoundError('Issue does not exist', { path: '/rest/api/3/issue/TEST-1', status: 404 });
+      expect(mapJiraError(error)).toBe('Resource not found. Check if the issue or project exists.');
+    });
+
+    it('should surface validation messages from Jira', () => {
+      const error = createJiraApiError(400, {
+        path: '/rest/api/3/issue',
+        payload: { errorMessages: ['Bad request'], errors: { summary: 'Summary is required' } },
+      });
+      expect(mapJiraError(error)).toBe('Bad request\nSummary is required');
+    });
+
+    it('should map timeout errors', () => {
+      const error = new JiraTimeoutError('Request timeout after 1000ms', { path: '/rest/api/3/myself', timeoutMs: 1000 });
+      expect(mapJiraError(error)).toBe('Request timed out. Check your connection and try again.');
+    });
+
+    it('should fall back to message matching for network errors', () => {
+      expect(mapJiraError(new JiraNetworkError('Request failed with status 401', { path: '/' }))).toBe(
+        'Invalid credentials. Check your API token in settings.',
+      );
+      expect(mapJiraError(new JiraNetworkError('net::ERR_INTERNET_DISCONNECTED', { path: '/' }))).toBe(
+        'Cannot reach Jira. Check your internet connection.',
+      );
+    });
+  });
+
+  describe('formatValidationError', () => {
+    it('should return a generic message when Jira sends no details', () => {
+      const error = new JiraValidationError('Failed: 400', { path: '/rest/api/3/issue', status: 400 });
+      expect(formatValidationError(error)).toBe('Jira rejected the request. Check the field values and try again.');
+    });
+  });
+
   describe('formatIssueNotFoundError', () => {
     it('should format issue not found error with key', () => {
       expect(formatIssueNotFoundError('PROJECT-123')).toBe('Issue PROJECT-123 not found.');
@@ -150,6 +150,16 @@ Content`);
       expect(savedContent).toContain('issue_link: "https://jira.example.com/browse/PROJ-123#comment"');
     });
 
+    it('should write multi-line values as escaped double-quoted strings', async () => {
+      (mockApp.vault.read as ReturnType<typeof vi.fn>).mockResolvedValue('Content');
+
+      await addFrontmatterFields(mockApp, mockFile, {
+        jira_environment: 'Line "one"\nC:\\temp',
+      });
+
+      expect(savedContent).toContain('jira_environment: "Line \\"one\\"\\nC:\\\\temp"');
+    });
+
     it('should not modify file if content unchanged', async () => {
       (mockApp.vault.read as ReturnType<typeof vi.fn>).mockResolvedValue(`---
 issue_id: PROJ-123
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { parseIssueOutline } from '../../../src/utils/issueOutline';
+import type { OutlineNode } from '../../../src/utils/types';
+
+const summarize = (nodes: OutlineNode[]): unknown[] =>
+  nodes.map(node => [node.kind, node.text, node.issueKey, ...(node.children.length ? [summarize(node.children)] : [])]);
+
+describe('parseIssueOutline', () => {
+  it('should map H1 to epics, H2 to stories and bullets to subtasks', () => {
+    const note = [
+      '---',
+      'title: Planning',
+      '---',
+      '- ignored before any heading',
+      '# Checkout revamp',
+      '',
+      'Intro paragraph.',
+      '- ignored, belongs to no story',
+      '## Payment form [DEMO-12](https://jira.test/browse/DEMO-12)',
+      '- Validate card number',
+      '- [ ] Show inline errors',
+      '  - nested bullets are notes',
+      '### Details stay in the story',
+      '- Store card token',
+      '```',
+      '# not a heading',
+      '```',
+      '## Receipt email',
+      '# Search',
+      '## Filters',
+    ].join('\n');
+
+    expect(summarize(parseIssueOutline(note))).toEqual([
+      [
+        'epic',
+        'Checkout revamp',
+        undefined,
+        [
+          [
+            'story',
+            'Payment form',
+            'DEMO-12',
+            [
+              ['subtask', 'Validate card number', undefined],
+              ['subtask', 'Show inline errors', undefined],
+              ['subtask', 'Store card token', undefined],
+            ],
+          ],
+          ['story', 'Receipt email', undefined],
+        ],
+      ],
+      ['epic', 'Search', undefined, [['story', 'Filters', undefined]]],
+    ]);
+  });
+
+  it('should record the source line of each node', () => {
+    const [epic] = parseIssueOutline('# Epic\n## Story\n- Task');
+
+    expect([epic.line, epic.children[0].line, epic.children[0].children[0].line]).toEqual([0, 1, 2]);
+    expect(epic.children[0].children[0].raw).toBe('- Task');
+  });
+});
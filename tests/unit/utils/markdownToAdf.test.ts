@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest';
+import { markdownToAdf } from '../../../src/utils/markdownToAdf';
+import type { MarkdownToAdfOptions } from '../../../src/utils/types';
+
+function blocks(markdown: string, options?: MarkdownToAdfOptions) {
+  return markdownToAdf(markdown, options).content;
+}
+
+function inline(markdown: string, options?: MarkdownToAdfOptions) {
+  return blocks(markdown, options)[0].content;
+}
+
+describe('markdownToAdf', () => {
+  it('should return an empty paragraph for empty input', () => {
+    expect(markdownToAdf('')).toEqual({ type: 'doc', version: 1, content: [{ type: 'paragraph', content: [] }] });
+  });
+
+  it('should convert strikethrough and combined emphasis', () => {
+    expect(blocks('~~gone~~ and ***both***')[0].content).toEqual([
+      { type: 'text', text: 'gone', marks: [{ type: 'strike' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'text', text: 'both', marks: [{ type: 'strong' }, { type: 'em' }] },
+    ]);
+  });
+
+  it('should nest emphasis inside other marks', () => {
+    expect(blocks('**bold *italic***')[0].content).toEqual([
+      { type: 'text', text: 'bold ', marks: [{ type: 'strong' }] },
+      { type: 'text', text: 'italic', marks: [{ type: 'strong' }, { type: 'em' }] },
+    ]);
+  });
+
+  it('should not treat underscores inside words as emphasis', () => {
+    expect(blocks('snake_case_name and _em_')[0].content).toEqual([
+      { type: 'text', text: 'snake_case_name and ' },
+      { type: 'text', text: 'em', marks: [{ type: 'em' }] },
+    ]);
+  });
+
+  it('should keep escaped markers and code spans literal', () => {
+    expect(blocks('\\*not em\\* `**raw**`')[0].content).toEqual([
+      { type: 'text', text: '*not em* ' },
+      { type: 'text', text: '**raw**', marks: [{ type: 'code' }] },
+    ]);
+  });
+
+  it('should merge consecutive lines into one paragraph with hard breaks', () => {
+    expect(blocks('first  \nsecond\\\nthird\n\nnext')).toEqual([
+      {
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'first' },
+          { type: 'hardBreak' },
+          { type: 'text', text: 'second' },
+          { type: 'hardBreak' },
+          { type: 'text', text: 'third' },
+        ],
+      },
+      { type: 'paragraph', content: [{ type: 'text', text: 'next' }] },
+    ]);
+  });
+
+  it('should end a paragraph when another block starts', () => {
+    expect(blocks('intro\n- item').map(node => node.type)).toEqual(['paragraph', 'bulletList']);
+  });
+
+  it('should convert horizontal rules', () => {
+    expect(blocks('---\n***')).toEqual([{ type: 'rule' }, { type: 'rule' }]);
+  });
+
+  it('should convert blockquotes with nested blocks', () => {
+    expect(blocks('> quoted\n>\n> - item')).toEqual([
+      {
+        type: 'blockquote',
+        content: [
+          { type: 'paragraph', content: [{ type: 'text', text: 'quoted' }] },
+          {
+            type: 'bulletList',
+            content: [{ type: 'listItem', content: [{ type: 'paragraph', content: [{ type: 'text', text: 'item' }] }] }],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should nest lists by indentation', () => {
+    const [list] = blocks('- one\n  1. sub\n  2. sub two\n- two');
+
+    expect(list.type).toBe('bulletList');
+    expect(list.content).toHaveLength(2);
+    expect(list.content?.[0].content?.[1]).toMatchObject({
+      type: 'orderedList',
+      content: [{ type: 'listItem' }, { type: 'listItem' }],
+    });
+  });
+
+  it('should keep the start number of ordered lists', () => {
+    expect(blocks('3. third\n4. fourth')[0].attrs).toEqual({ order: 3 });
+  });
+
+  it('should convert checklists to task lists', () => {
+    const [list] = blocks('- [ ] todo\n- [x] done\n  - [ ] nested');
+
+    expect(list).toMatchObject({
+      type: 'taskList',
+      content: [
+        { type: 'taskItem', attrs: { state: 'TODO' }, content: [{ type: 'text', text: 'todo' }] },
+        { type: 'taskItem', attrs: { state: 'DONE' }, content: [{ type: 'text', text: 'done' }] },
+        {
+          type: 'taskList',
+          content: [{ type: 'taskItem', attrs: { state: 'TODO' }, content: [{ type: 'text', text: 'nested' }] }],
+        },
+      ],
+    });
+
+    const localIds = JSON.stringify(list).match(/"localId":"[^"]+"/g) ?? [];
+    expect(new Set(localIds).size).toBe(5);
+  });
+
+  it('should keep plain lists nested under checklist items', () => {
+    const [list] = blocks('- [ ] task\n  - nested bullet\n    1. step\n  - [x] subtask');
+
+    expect(list).toMatchObject({
+      type: 'taskList',
+      content: [
+        {
+          type: 'taskItem',
+          content: [
+            { type: 'text', text: 'task' },
+            { type: 'hardBreak' },
+            { type: 'text', text: '- nested bullet' },
+            { type: 'hardBreak' },
+            { type: 'text', text: '1. step' },
+          ],
+        },
+        { type: 'taskList', content: [{ type: 'taskItem', attrs: { state: 'DONE' }, content: [{ type: 'text', text: 'subtask' }] }] },
+      ],
+    });
+  });
+
+  describe('Obsidian syntax', () => {
+    const resolveWikiLink = (linkpath: string) => {
+      if (linkpath === 'Linked')
+        return { issueUrl: 'https://jira.test/browse/PROJ-1', obsidianUrl: 'obsidian://open?vault=V&file=Linked.md' };
+      if (linkpath === 'Other') return { obsidianUrl: 'obsidian://open?vault=V&file=Other.md' };
+      return null;
+    };
+
+    it('should convert callouts to panels with a matching type', () => {
+      expect(blocks('> [!warning] Careful\n> Mind the gap')).toEqual([
+        {
+          type: 'panel',
+          attrs: { panelType: 'warning' },
+          content: [
+            { type: 'paragraph', content: [{ type: 'text', text: 'Careful', marks: [{ type: 'strong' }] }] },
+            { type: 'paragraph', content: [{ type: 'text', text: 'Mind the gap' }] },
+          ],
+        },
+      ]);
+    });
+
+    it('should map callout aliases and fall back to note panels', () => {
+      expect(blocks('> [!bug]- Folded\n> body')[0].attrs).toEqual({ panelType: 'error' });
+      expect(blocks('> [!tldr]\n> body')[0].attrs).toEqual({ panelType: 'note' });
+      expect(blocks('> [!custom-thing]\n> body')[0].attrs).toEqual({ panelType: 'note' });
+    });
+
+    it('should turn wiki-links to linked notes into issue cards', () => {
+      expect(inline('See [[Linked|the ticket]] and ![[Linked]]', { resolveWikiLink })).toEqual([
+        { type: 'text', text: 'See ' },
+        { type: 'inlineCard', attrs: { url: 'https://jira.test/browse/PROJ-1' } },
+        { type: 'text', text: ' and ' },
+        { type: 'inlineCard', attrs: { url: 'https://jira.test/browse/PROJ-1' } },
+      ]);
+    });
+
+    it('should render other wiki-links as Obsidian URLs or plain text', () => {
+      expect(inline('[[Other#Section|alias]]', { resolveWikiLink, wikiLinks: 'obsidian-url' })).toEqual([
+        { type: 'text', text: 'alias', marks: [{ type: 'link', attrs: { href: 'obsidian://open?vault=V&file=Other.md' } }] },
+      ]);
+      expect(inline('[[Other#Section]] and [[Missing]]', { resolveWikiLink, wikiLinks: 'text' })).toEqual([
+        { type: 'text', text: 'Other > Section' },
+        { type: 'text', text: ' and ' },
+        { type: 'text', text: 'Missing' },
+      ]);
+    });
+
+    it('should render tags according to the tag style', () => {
+      expect(inline('Tagged #project/alpha today')).toEqual([
+        { type: 'text', text: 'Tagged ' },
+        { type: 'text', text: '#project/alpha' },
+        { type: 'text', text: ' today' },
+      ]);
+      expect(inline('Tagged #alpha', { tags: 'code' })).toEqual([
+        { type: 'text', text: 'Tagged ' },
+        { type: 'text', text: '#alpha', marks: [{ type: 'code' }] },
+      ]);
+      expect(inline('Tagged #alpha today', { tags: 'strip' })).toEqual([{ type: 'text', text: 'Tagged today' }]);
+    });
+
+    it('should not treat issue numbers or anchors as tags', () => {
+      expect(inline('Fixes #123 on page#top')).toEqual([{ type: 'text', text: 'Fixes #123 on page#top' }]);
+    });
+
+    it('should strip or keep block references', () => {
+      expect(blocks('A paragraph ^abc-1\n\n^standalone')).toEqual([
+        { type: 'paragraph', content: [{ type: 'text', text: 'A paragraph' }] },
+      ]);
+      expect(inline('A paragraph ^abc-1', { blockRefs: 'text' })).toEqual([{ type: 'text', text: 'A paragraph ^abc-1' }]);
+    });
+  });
+
+  describe('attachments', () => {
+    const attachments = [
+      { linkpath: 'shot.png', filename: 'shot.png', url: 'https://jira.test/a/1', mimeType: 'image/png' },
+      { linkpath: 'spec.pdf', filename: 'spec.pdf', url: 'https://jira.test/a/2', mimeType: 'application/pdf' },
+    ];
+
+    it('should turn image embeds on their own line into media', () => {
+      expect(blocks('![[shot.png]]', { attachments })).toEqual([
+        {
+          type: 'mediaSingle',
+          attrs: { layout: 'center' },
+          content: [{ type: 'media', attrs: { type: 'external', url: 'https://jira.test/a/1', alt: 'shot.png' } }],
+        },
+      ]);
+    });
+
+    it('should link other embedded attachments inline', () => {
+      expect(inline('Spec: ![[spec.pdf]]', { attachments })).toEqual([
+        { type: 'text', text: 'Spec: ' },
+        { type: 'text', text: 'spec.pdf', marks: [{ type: 'link', attrs: { href: 'https://jira.test/a/2' } }] },
+      ]);
+    });
+
+    it('should match embeds that point at a section or page of an attachment', () => {
+      expect(inline('![[spec.pdf#page=2]]', { attachments })).toEqual([
+        { type: 'text', text: 'spec.pdf', marks: [{ type: 'link', attrs: { href: 'https://jira.test/a/2' } }] },
+      ]);
+    });
+  });
+});
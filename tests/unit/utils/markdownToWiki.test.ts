@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { markdownToWiki } from '../../../src/utils/markdownToWiki';
+
+describe('markdownToWiki', () => {
+  it('should convert headings', () => {
+    expect(markdownToWiki('# Title\n### Section')).toBe('h1. Title\nh3. Section');
+  });
+
+  it('should convert inline formatting', () => {
+    expect(markdownToWiki('**bold**, *italic*, ~~gone~~ and `code`')).toBe('*bold*, _italic_, -gone- and {{code}}');
+  });
+
+  it('should leave formatting inside inline code alone', () => {
+    expect(markdownToWiki('`**raw**`')).toBe('{{**raw**}}');
+  });
+
+  it('should convert links', () => {
+    expect(markdownToWiki('[Docs](https://example.com)')).toBe('[Docs|https://example.com]');
+  });
+
+  it('should convert nested bullet and ordered lists', () => {
+    expect(markdownToWiki('- one\n  - nested\n1. first\n2. second')).toBe('* one\n** nested\n# first\n# second');
+  });
+
+  it('should convert code blocks', () => {
+    expect(markdownToWiki('```ts\nconst a = 1;\n```')).toBe('{code:ts}\nconst a = 1;\n{code}');
+    expect(markdownToWiki('```\nplain\n```')).toBe('{code}\nplain\n{code}');
+  });
+
+  it('should convert tables with header rows', () => {
+    expect(markdownToWiki('| A | B |\n| --- | --- |\n| 1 | 2 |')).toBe('||A||B||\n|1|2|');
+  });
+
+  it('should convert quotes and rules', () => {
+    expect(markdownToWiki('> quoted\n---')).toBe('bq. quoted\n----');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readManagedSection, replaceManagedSection, writeManagedSections } from '../../../src/utils/noteSections';
+import type { App, TFile } from 'obsidian';
+
+describe('note sections', () => {
+  const note = [
+    '# My notes',
+    '',
+    '<!-- jira-bridge:description:start -->',
+    '## Jira Description',
+    '',
+    'Old text',
+    '<!-- jira-bridge:description:end -->',
+    '',
+    'My own thoughts',
+  ].join('\n');
+
+  it('should read the body between markers', () => {
+    expect(readManagedSection(note, 'description')).toBe('## Jira Description\n\nOld text');
+    expect(readManagedSection(note, 'comments')).toBeNull();
+  });
+
+  it('should replace an existing section without touching surrounding content', () => {
+    const result = replaceManagedSection(note, 'description', '## Jira Description\n\nNew text');
+
+    expect(result).toContain('# My notes\n\n<!-- jira-bridge:description:start -->\n## Jira Description\n\nNew text\n');
+    expect(result.endsWith('<!-- jira-bridge:description:end -->\n\nMy own thoughts')).toBe(true);
+  });
+
+  it('should append missing sections at the end of the note', () => {
+    const result = replaceManagedSection('# Title\n\n', 'comments', '## Jira Comments');
+
+    expect(result).toBe('# Title\n\n<!-- jira-bridge:comments:start -->\n## Jira Comments\n<!-- jira-bridge:comments:end -->\n');
+  });
+
+  it('should only write sections whose content changed', async () => {
+    const app = {
+      vault: { read: vi.fn().mockResolvedValue(note), modify: vi.fn() },
+    } as unknown as App;
+    const file = {} as TFile;
+
+    const unchanged = await writeManagedSections(app, file, { description: '## Jira Description\n\nOld text' });
+    const changed = await writeManagedSections(app, file, { description: '## Jira Description\n\nOld text', comments: 'Hi' });
+
+    expect(unchanged).toEqual([]);
+    expect(changed).toEqual(['comments']);
+    expect(app.vault.modify).toHaveBeenCalledTimes(1);
+  });
+});
@@ -159,6 +159,25 @@ describe('validation', () => {
     });
   });
 
+  describe('connection options', () => {
+    const base = { name: 'DC', baseUrl: 'https://jira.internal.example.com', apiToken: 'token' };
+
+    it('should accept a username for Server basic auth', () => {
+      const result = validateForm({ ...base, email: 'jdoe' }, { deploymentType: 'server', authMode: 'basic' });
+      expect(result.valid).toBe(true);
+    });
+
+    it('should require a username for Server basic auth', () => {
+      const result = validateField('email', '', { deploymentType: 'server', authMode: 'basic' });
+      expect(result).toEqual({ valid: false, error: 'Username is required' });
+    });
+
+    it('should not require email for bearer auth', () => {
+      const result = validateForm({ ...base, email: '' }, { deploymentType: 'server', authMode: 'bearer' });
+      expect(result.valid).toBe(true);
+    });
+  });
+
   describe('generateInstanceId', () => {
     it('should generate a valid UUID', () => {
       const id = generateInstanceId();